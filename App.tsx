@@ -1,6 +1,6 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { MembershipLevel, UIMode, AppState, Project, AppMode, AppTab, ThemeMode, VersionSnapshot, SnapshotType, Chapter, WritingType, StructureType, AIPreferences, SecuritySettings, BackupSettings, CreditCard, SpineNodeId } from './types';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { MembershipLevel, UIMode, AppState, Project, AppMode, AppTab, ThemeMode, VersionSnapshot, SnapshotType, Chapter, WritingType, StructureType, AIPreferences, SecuritySettings, BackupSettings, CreditCard, SpineNodeId, ChapterConflict, ConflictResolution, ChapterComment, TrackedChange } from './types';
 import { TEMPLATES, PROJECT_COLORS, PROJECT_ICONS, TEMPLATE_STRUCTURE_MAP, INITIAL_SPINE_NODES } from './constants';
 import Library from './components/Library';
 import CaptureCenter from './components/CaptureCenter';
@@ -13,163 +13,48 @@ import ProjectDetail from './components/ProjectDetail';
 import CollaborationPanel from './components/CollaborationPanel';
 import SubscriptionPlans from './components/SubscriptionPlans';
 import CheckoutModal from './components/CheckoutModal';
-import { dbService } from './services/dbService';
+import SyncConflictModal from './components/SyncConflictModal';
+import VaultPassphraseModal from './components/VaultPassphraseModal';
+import StatusBar from './components/StatusBar';
+import UpdatePrompt from './components/UpdatePrompt';
+import FindReplacePanel from './components/FindReplacePanel';
+import BibliographyPanel from './components/BibliographyPanel';
+import { ReferenceSource } from './components/ReferencePane';
+import { dbService, StaleRevisionError, VaultStatus } from './services/dbService';
+import { assetStore } from './services/assetStore';
+import { SearchHit } from './services/searchService';
+import { settingsRegistry } from './services/settingsRegistry';
+import { driveBackupService } from './services/driveBackupService';
+import { supabaseService } from './services/supabaseService';
+import { firebaseService } from './services/firebaseService';
+import { syncOutbox } from './services/syncOutbox';
+import { mergeProjects, applyConflictResolutions } from './services/projectMerge';
+import { projectAccess, InviteError } from './services/projectAccess';
+import { chapterComments } from './services/chapterComments';
+import { trackChanges } from './services/trackChanges';
+import { textCount } from './services/textCount';
+import { projectReplace, ReplaceBatch, ReplaceMatch } from './services/projectReplace';
+import { editHistory } from './services/editHistory';
+import { footnotes } from './services/footnotes';
+import { citations } from './services/citations';
+
+// 儲存後等待多久才排入雲端同步
+const CLOUD_SYNC_DELAY_MS = 5000;
 
 const App: React.FC = () => {
-  const [state, setState] = useState<AppState>({
-    projects: [
-      {
-        id: 'p1',
-        name: 'The Solar Paradox',
-        writingType: WritingType.NOVEL,
-        structureType: StructureType.CHAPTER,
-        targetWordCount: 50000,
-        metadata: 'EDITED 10M AGO',
-        progress: 82,
-        color: '#FADE4B',
-        icon: 'fa-feather-pointed',
-        chapters: [{ 
-          id: 'c1', 
-          title: '第 1 章', 
-          content: '故事開始於太陽不再升起的那一天...', 
-          order: 1, 
-          history: [], 
-          wordCount: 1250, 
-          lastEdited: Date.now(),
-          createdAt: Date.now() - 3600000
-        }],
-        modules: [],
-        settings: { typography: 'serif', fontSize: 'normal' },
-        createdAt: Date.now() - 86400000,
-        updatedAt: Date.now() - 600000,
-        tags: ['SCI-FI', 'NOVEL'],
-        isPinned: true,
-        publishingSpine: {
-          currentNode: SpineNodeId.WRITING,
-          nodes: INITIAL_SPINE_NODES()
-        }
-      },
-      {
-        id: 'p2',
-        name: 'Vibrant Horizons',
-        writingType: WritingType.BLOG,
-        structureType: StructureType.SECTION,
-        targetWordCount: 10000,
-        metadata: 'EDITED 2H AGO',
-        progress: 45,
-        color: '#FF6B2C',
-        icon: 'fa-pen-nib',
-        chapters: [],
-        modules: [],
-        settings: { typography: 'sans', fontSize: 'normal' },
-        createdAt: Date.now() - 172800000,
-        updatedAt: Date.now() - 7200000,
-        tags: ['TECH', 'BLOG'],
-        isPinned: false,
-        publishingSpine: {
-          currentNode: SpineNodeId.WRITING,
-          nodes: INITIAL_SPINE_NODES()
-        }
-      },
-      {
-        id: 'p3',
-        name: 'Quantum Ghost',
-        writingType: WritingType.NOVEL,
-        structureType: StructureType.CHAPTER,
-        targetWordCount: 80000,
-        metadata: 'REVIEW PENDING',
-        progress: 95,
-        color: '#D4FF5F',
-        icon: 'fa-book-open',
-        chapters: [],
-        modules: [],
-        settings: { typography: 'serif', fontSize: 'normal' },
-        createdAt: Date.now() - 259200000,
-        updatedAt: Date.now() - 86400000,
-        tags: ['THRILLER'],
-        isPinned: false,
-        publishingSpine: {
-          currentNode: SpineNodeId.WRITING,
-          nodes: INITIAL_SPINE_NODES()
-        }
-      },
-      {
-        id: 'p4',
-        name: 'Daily Journal',
-        writingType: WritingType.DIARY,
-        structureType: StructureType.FREE,
-        targetWordCount: 500,
-        metadata: 'CREATED YESTERDAY',
-        progress: 10,
-        color: '#B2A4FF',
-        icon: 'fa-note-sticky',
-        chapters: [],
-        modules: [],
-        settings: { typography: 'sans', fontSize: 'normal' },
-        createdAt: Date.now() - 86400000,
-        updatedAt: Date.now() - 86400000,
-        tags: ['PERSONAL'],
-        isPinned: false,
-        publishingSpine: {
-          currentNode: SpineNodeId.WRITING,
-          nodes: INITIAL_SPINE_NODES()
-        }
-      }
-    ],
+  // 專案與設定於金鑰庫就緒後由資料庫載入，載入前先以預設值呈現
+  const [state, setState] = useState<AppState>(() => ({
+    ...settingsRegistry.defaults(),
+    projects: [],
     currentProject: null,
     currentChapterId: null,
     uiMode: UIMode.MANAGEMENT,
     appMode: AppMode.REPOSITORY,
-    activeTab: AppTab.LIBRARY,
-    theme: ThemeMode.NIGHT,
-    membership: MembershipLevel.FREE,
-    language: 'zh-TW',
-    userCountryCode: 'TW',
-    savedCards: [
-      { id: 'card-1', number: '9759 2484 5269 6576', expiry: '12/24', name: 'BRUCE WAYNE', type: 'MASTERCARD', cvv: '***' }
-    ],
-    aiPreferences: {
-      provider: 'DEFAULT',
-      selectedModel: 'gemini-3-pro-preview',
-      customModel: 'gemini-3-pro-preview',
-      tone: 'CREATIVE',
-      enableThinking: true,
-      thinkingBudget: 32768,
-      budgetLimit: 10,
-      currentUsage: 2.45,
-      onLimitAction: 'NOTIFY'
-    },
-    securitySettings: {
-      autoSnapshotEnabled: true,
-      autoSnapshotMode: 'interval',
-      autoSnapshotIntervalMinutes: 2,
-      autoSnapshotIdleSeconds: 30,
-      autoSnapshotCleanupDays: 30 
-    },
-    backupSettings: {
-      googleDriveConnected: true,
-      backupFolder: '/InsPublish/Backups',
-      isEncrypted: true,
-      lastBackupTime: Date.now() - 120000,
-      status: 'IDLE'
-    },
-    stats: { 
-      wordCount: 95430, 
-      projectCount: 4, 
-      exportCount: 2, 
-      lastActive: Date.now(), 
-      hasTrialed: false,
-      dailyGoal: 1000,
-      writingStreak: 12,
-      todayWords: 450
-    },
-    editorSettings: {
-      typewriterMode: false,
-      previewMode: false
-    }
-  });
+    activeTab: AppTab.LIBRARY
+  }));
+  const [isHydrated, setIsHydrated] = useState(false);
 
-  const [activeOverlay, setActiveOverlay] = useState<'NONE' | 'TIMELINE' | 'GRAPH' | 'EXPORT' | 'COLLABORATION' | 'SUBSCRIPTION' | 'CHECKOUT'>('NONE');
+  const [activeOverlay, setActiveOverlay] = useState<'NONE' | 'TIMELINE' | 'GRAPH' | 'EXPORT' | 'COLLABORATION' | 'SUBSCRIPTION' | 'CHECKOUT' | 'REPLACE' | 'BIBLIOGRAPHY'>('NONE');
   const [selectedPlan, setSelectedPlan] = useState<{ id: MembershipLevel, name: string, price: string } | null>(null);
   const [isUIHidden, setIsUIHidden] = useState(false);
   
@@ -178,40 +63,56 @@ const App: React.FC = () => {
   const touchStartX = useRef<number | null>(null);
   const [screenWidth, setScreenWidth] = useState(window.innerWidth);
 
+  // 本機加密狀態：解鎖前不讀寫資料庫內容
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus | 'checking'>('checking');
+  const [isVaultSetupOpen, setIsVaultSetupOpen] = useState(false);
+  const isVaultReady = vaultStatus === 'none' || vaultStatus === 'unlocked';
+  // 目前登入的雲端帳號；每位使用者自行登入後才會同步
+  const [cloudAccount, setCloudAccount] = useState<string | null>(null);
+
   // Function 3: Data Persistence (On Mount)
   useEffect(() => {
-    const loadSettings = async () => {
-      const country = await dbService.getAppSetting('userCountryCode');
-      const lang = await dbService.getAppSetting('language');
-      const avatar = await dbService.getAppSetting('userAvatar');
-      const avatarType = await dbService.getAppSetting('avatarType');
-      if (country || lang || avatar || avatarType) {
-        setState(prev => ({
-          ...prev,
-          userCountryCode: country || prev.userCountryCode,
-          language: lang || prev.language,
-          userAvatar: avatar || prev.userAvatar,
-          avatarType: (avatarType as 'UPLOAD' | 'GRAVATAR') || prev.avatarType
-        }));
-      }
-    };
-    loadSettings();
+    dbService.getVaultStatus().then(setVaultStatus);
+    // 封面資產不加密，可在解鎖前回收
+    assetStore.collectGarbage().catch(e => console.error('[Assets] 回收失敗', e));
 
     const handleResize = () => setScreenWidth(window.innerWidth);
     window.addEventListener('resize', handleResize);
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  // Sync settings back to DB when they change
   useEffect(() => {
-    dbService.saveAppSetting('userCountryCode', state.userCountryCode);
-    dbService.saveAppSetting('language', state.language);
-    if (state.userAvatar) dbService.saveAppSetting('userAvatar', state.userAvatar);
-    if (state.avatarType) dbService.saveAppSetting('avatarType', state.avatarType);
-  }, [state.userCountryCode, state.language, state.userAvatar, state.avatarType]);
+    if (!isVaultReady) return;
+    setState(prev => ({ ...prev, backupSettings: { ...prev.backupSettings, isEncrypted: vaultStatus === 'unlocked' } }));
+    hydrateFromDB()
+      .then(async () => {
+        setIsHydrated(true);
+        setCloudAccount(await supabaseService.restoreSession());
+        // 接續送出上次關閉前尚未完成的同步與備份
+        return syncOutbox.start();
+      })
+      .catch(e => console.error('[DB] 載入書庫失敗', e));
+    dbService.ensureSearchIndex().catch(e => console.error('[Search] 建立索引失敗', e));
+  }, [isVaultReady]);
+
+  // 設定變動時寫回資料庫；載入完成前不寫入，避免預設值覆蓋已儲存的設定
+  useEffect(() => {
+    if (!isHydrated || !isVaultReady) return;
+    settingsRegistry.persist(state).catch(e => console.error('[Settings] 設定儲存失敗', e));
+  }, [isHydrated, isVaultReady, state]);
   
   const currentChapter = state.currentProject?.chapters.find(c => c.id === state.currentChapterId);
+  const currentRole = state.currentProject ? projectAccess.roleOf(state.currentProject, state) : 'OWNER';
+  const currentAuthor = state.currentProject ? projectAccess.authorName(state.currentProject, state) : '';
   const isTimelineVisible = swipeProgress > 0 || activeOverlay === 'TIMELINE';
+  // 研究筆記：收集中心建立的筆記專案，可在分割檢視中對照
+  const researchNotes = state.projects.filter(p => p.tags.includes('CAPTURED') && p.id !== state.currentProject?.id);
+  // 學術專案或已有參考文獻的專案才在編輯器提供引用
+  const citationContext = useMemo(() => {
+    const project = state.currentProject;
+    if (!project || (project.writingType !== WritingType.ACADEMIC && !project.bibliography?.length)) return undefined;
+    return citations.contextOf(project);
+  }, [state.currentProject]);
 
   const timelineWidthPx = screenWidth >= 1024 
     ? screenWidth / 3 
@@ -220,7 +121,251 @@ const App: React.FC = () => {
       : screenWidth * 0.85;
 
   const lastSnapshotContentRef = useRef<string>('');
-  const idleTimerRef = useRef<number | null>(null);
+
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  // 多分頁同步：各專案最後一次與資料庫一致的版本，作為三方合併的共同祖先
+  const syncBaseRef = useRef<Map<string, Project>>(new Map());
+  const reconcileTimersRef = useRef<Record<string, number>>({});
+  const [syncConflict, setSyncConflict] = useState<{ projectId: string, conflicts: ChapterConflict[] } | null>(null);
+
+  const replaceProject = (project: Project) => {
+    setState(prev => ({
+      ...prev,
+      projects: prev.projects.some(p => p.id === project.id)
+        ? prev.projects.map(p => p.id === project.id ? project : p)
+        : [project, ...prev.projects],
+      currentProject: prev.currentProject?.id === project.id ? project : prev.currentProject
+    }));
+  };
+
+  const reconcileProject = useCallback(async (projectId: string) => {
+    const remote = await dbService.getProject(projectId);
+    const current = stateRef.current;
+    const local = current.currentProject?.id === projectId
+      ? current.currentProject
+      : current.projects.find(p => p.id === projectId);
+
+    if (!remote) return;
+    if (!local) {
+      syncBaseRef.current.set(projectId, remote);
+      replaceProject(remote);
+      return;
+    }
+
+    const base = syncBaseRef.current.get(projectId) || remote;
+    const { merged, conflicts } = mergeProjects(base, local, remote, chapterId => firebaseService.hasSession(projectId, chapterId));
+    syncBaseRef.current.set(projectId, remote);
+    if (conflicts.length > 0) setSyncConflict({ projectId, conflicts });
+    replaceProject(merged);
+  }, []);
+
+  useEffect(() => {
+    return dbService.onSync((event) => {
+      if (event.type === 'vault-changed') {
+        dbService.getVaultStatus().then(status => {
+          setVaultStatus(status);
+          setState(prev => ({ ...prev, backupSettings: { ...prev.backupSettings, isEncrypted: status !== 'none' } }));
+        });
+        return;
+      }
+      if (event.type === 'deleted') {
+        syncBaseRef.current.delete(event.id);
+        setState(prev => ({
+          ...prev,
+          projects: prev.projects.filter(p => p.id !== event.id),
+          currentProject: prev.currentProject?.id === event.id ? null : prev.currentProject,
+          activeTab: prev.currentProject?.id === event.id ? AppTab.LIBRARY : prev.activeTab
+        }));
+        return;
+      }
+      // 另一分頁逐字儲存時會頻繁廣播，合併前稍作等待
+      window.clearTimeout(reconcileTimersRef.current[event.id]);
+      reconcileTimersRef.current[event.id] = window.setTimeout(() => reconcileProject(event.id), 400);
+    });
+  }, [reconcileProject]);
+
+  // 雲端同步可能拉回其他裝置的修改，完成後與畫面上的版本合併
+  useEffect(() => {
+    return syncOutbox.onComplete(record => {
+      if (record.kind === 'cloudSync') reconcileProject(record.payload.projectId);
+    });
+  }, [reconcileProject]);
+
+  // 持久化有變動的專案（與同步基準以參照比對），讓背景快照引擎與其他分頁讀到最新內容；衝突待決時暫停寫入
+  const savingProjectsRef = useRef<WeakSet<Project>>(new WeakSet());
+  useEffect(() => {
+    if (!isHydrated || !isVaultReady || syncConflict) return;
+    const current = state.currentProject;
+    const candidates = current ? [current, ...state.projects.filter(p => p.id !== current.id)] : state.projects;
+    candidates
+      .filter(project => project !== syncBaseRef.current.get(project.id) && !savingProjectsRef.current.has(project))
+      .forEach(project => {
+        savingProjectsRef.current.add(project);
+        dbService.saveProject(project)
+          .then(() => {
+            syncBaseRef.current.set(project.id, project);
+            // 連續輸入時延後數秒再同步，期間的儲存併為同一次
+            if (supabaseService.isConfigured()) {
+              return syncOutbox.enqueue('cloudSync', `cloudSync:${project.id}`, { projectId: project.id }, { delayMs: CLOUD_SYNC_DELAY_MS });
+            }
+          })
+          .catch(e => {
+            if (e instanceof StaleRevisionError) reconcileProject(project.id);
+            else console.error('[DB] 專案儲存失敗', e);
+          })
+          .finally(() => savingProjectsRef.current.delete(project));
+      });
+  }, [state.projects, state.currentProject, isHydrated, isVaultReady, syncConflict, reconcileProject]);
+
+  const handleUnlockVault = async (passphrase: string) => {
+    await dbService.unlockVault(passphrase);
+    setVaultStatus('unlocked');
+  };
+
+  const handleEnableEncryption = async (passphrase: string) => {
+    await dbService.enableEncryption(passphrase);
+    setVaultStatus('unlocked');
+    setState(prev => ({ ...prev, backupSettings: { ...prev.backupSettings, isEncrypted: true } }));
+    setIsVaultSetupOpen(false);
+  };
+
+  const handleToggleEncryption = async () => {
+    if (!state.backupSettings.isEncrypted) {
+      setIsVaultSetupOpen(true);
+      return;
+    }
+    if (!window.confirm('停用後章節內容、快照與設定將以明文儲存於本機。確定要停用加密嗎？')) return;
+    try {
+      await dbService.disableEncryption();
+      setVaultStatus('none');
+      setState(prev => ({ ...prev, backupSettings: { ...prev.backupSettings, isEncrypted: false } }));
+    } catch (e) {
+      console.error('[Vault] 停用加密失敗', e);
+      alert('停用加密失敗，資料維持加密狀態');
+    }
+  };
+
+  // 以資料庫內容載入書庫與設定；啟動解鎖後及匯入完整備份後執行
+  const hydrateFromDB = async () => {
+    const [loaded, settings] = await Promise.all([dbService.getAllProjects(), settingsRegistry.loadAll()]);
+    syncBaseRef.current = new Map(loaded.map(p => [p.id, p]));
+    let projects = loaded;
+    // 首次啟動產生本機使用者 id，並認領加入擁有者欄位前已在本機的專案（與同步基準不同，隨後由儲存流程寫回）
+    if (!settings.userId) {
+      settings.userId = crypto.randomUUID();
+      projects = loaded.map(p => p.ownerId || settings.projectMemberships[p.id] ? p : { ...p, ownerId: settings.userId });
+    }
+    setState(prev => {
+      const current = prev.currentProject && projects.find(p => p.id === prev.currentProject!.id);
+      return {
+        ...prev,
+        ...settings,
+        backupSettings: { ...settings.backupSettings, isEncrypted: prev.backupSettings.isEncrypted },
+        projects: projects.sort((a, b) => b.updatedAt - a.updatedAt),
+        currentProject: current || null,
+        currentChapterId: current ? prev.currentChapterId : null
+      };
+    });
+  };
+
+  const handleLibraryImported = async () => {
+    await hydrateFromDB();
+  };
+
+  const handleResolveConflicts = (resolutions: Record<string, ConflictResolution>) => {
+    if (!syncConflict) return;
+    const current = stateRef.current;
+    const project = current.currentProject?.id === syncConflict.projectId
+      ? current.currentProject
+      : current.projects.find(p => p.id === syncConflict.projectId);
+    if (project) replaceProject(applyConflictResolutions(project, syncConflict.conflicts, resolutions));
+    setSyncConflict(null);
+  };
+
+  // 回收桶超過保留期限的項目於啟動與調整期限時清除
+  const trashRetentionDays = state.securitySettings.trashRetentionDays;
+  useEffect(() => {
+    if (!isVaultReady || trashRetentionDays === 'NEVER') return;
+    dbService.purgeTrash(Date.now() - trashRetentionDays * 86400000)
+      .catch(e => console.error('[Trash] 清除過期項目失敗', e));
+  }, [isVaultReady, trashRetentionDays]);
+
+  // 雲端備份排程：連結 Google Drive 後定期上傳有變動的專案，並回報實際狀態
+  const { googleDriveConnected, backupFolder } = state.backupSettings;
+  useEffect(() => {
+    if (!isHydrated || !isVaultReady || !googleDriveConnected) return;
+    driveBackupService.schedule(backupFolder, update => {
+      setState(prev => ({ ...prev, backupSettings: { ...prev.backupSettings, ...update } }));
+    });
+    return () => driveBackupService.cancelSchedule();
+  }, [isHydrated, isVaultReady, googleDriveConnected, backupFolder]);
+
+  // 連結 Google Drive；已連結但授權失效時重新授權並立即備份
+  const handleConnectDrive = async () => {
+    const folder = googleDriveConnected
+      ? backupFolder
+      : window.prompt('請輸入 Google Drive 備份路徑：', backupFolder)?.trim();
+    if (!folder) return;
+    try {
+      await driveBackupService.connect();
+    } catch (e) {
+      console.error('[Backup] Google Drive 授權失敗', e);
+      alert('Google Drive 授權失敗，請稍後再試');
+      return;
+    }
+    if (googleDriveConnected) {
+      driveBackupService.runScheduled();
+      return;
+    }
+    setState(prev => ({
+      ...prev,
+      backupSettings: { ...prev.backupSettings, googleDriveConnected: true, backupFolder: folder, status: 'IDLE', lastError: undefined }
+    }));
+  };
+
+  const handleDisconnectDrive = () => {
+    if (!window.confirm('確定要斷開 Google Drive 連結嗎？已上傳的備份仍會保留在雲端。')) return;
+    driveBackupService.disconnect();
+    setState(prev => ({
+      ...prev,
+      backupSettings: { ...prev.backupSettings, googleDriveConnected: false, status: 'IDLE', lastError: undefined }
+    }));
+  };
+
+  // 背景快照引擎：開啟專案時啟動，切換或關閉專案時拆除
+  const currentProjectId = state.currentProject?.id;
+  useEffect(() => {
+    if (!currentProjectId || !isVaultReady) return;
+    dbService.scheduleAutoSnapshot(currentProjectId, state.securitySettings);
+    return () => dbService.cancelAutoSnapshot(currentProjectId);
+  }, [currentProjectId, isVaultReady, state.securitySettings]);
+
+  useEffect(() => {
+    return dbService.onAutoSnapshot((projectId, changes) => {
+      setState(prev => {
+        const mergeChanges = (p: Project): Project => ({
+          ...p,
+          chapters: p.chapters.map(c => {
+            const change = changes.find(ch => ch.chapterId === c.id);
+            if (!change) return c;
+            const kept = (c.history || []).filter(s => !change.expiredIds.includes(s.id));
+            const created = change.created;
+            return {
+              ...c,
+              history: created && !kept.some(s => s.id === created.id) ? [created, ...kept] : kept
+            };
+          })
+        });
+        return {
+          ...prev,
+          projects: prev.projects.map(p => p.id === projectId ? mergeChanges(p) : p),
+          currentProject: prev.currentProject?.id === projectId ? mergeChanges(prev.currentProject) : prev.currentProject
+        };
+      });
+    });
+  }, []);
 
   const handleUpdateProject = (updated: Project) => {
     setState(prev => ({
@@ -230,6 +375,209 @@ const App: React.FC = () => {
     }));
   };
 
+  // 登入後同步本機所有專案；帳號或密碼錯誤時拋出 CloudPermissionError，由個人頁面顯示
+  const handleCloudSignIn = async (email: string, password: string) => {
+    setCloudAccount(await supabaseService.signIn(email, password));
+    await Promise.all(stateRef.current.projects.map(p =>
+      syncOutbox.enqueue('cloudSync', `cloudSync:${p.id}`, { projectId: p.id })
+    ));
+  };
+
+  const handleCloudSignOut = async () => {
+    await supabaseService.signOut();
+    setCloudAccount(null);
+  };
+
+  // 邀請碼無效時拋出 InviteError，由協作面板顯示
+  const handleAcceptInvite = async (code: string) => {
+    const { projectId, token } = projectAccess.parseInviteCode(code);
+    let invited = state.projects.find(p => p.id === projectId);
+    // 登入雲端時先由伺服器綁定成員帳號，列層級權限才允許下載與同步此作品
+    if (supabaseService.isConfigured()) {
+      if (!await supabaseService.acceptInvite(projectId, token)) throw new InviteError('邀請碼無效或已被使用');
+      if (!invited) {
+        invited = await supabaseService.pullProject(projectId);
+        syncBaseRef.current.set(invited.id, invited);
+      }
+    }
+    if (!invited) throw new InviteError('本機尚未取得此作品，請先透過同步或匯入取得後再接受邀請');
+    const { project, memberId } = await projectAccess.accept(invited, token);
+    setState(prev => ({
+      ...prev,
+      projects: prev.projects.some(p => p.id === project.id)
+        ? prev.projects.map(p => p.id === project.id ? project : p)
+        : [project, ...prev.projects],
+      currentProject: project,
+      projectMemberships: { ...prev.projectMemberships, [project.id]: memberId },
+      activeTab: AppTab.PROJECT_DETAIL
+    }));
+  };
+
+  // 移入回收桶；尚未寫入資料庫的專案需先儲存才能還原
+  const trashProject = async (project: Project) => {
+    try {
+      if (!syncBaseRef.current.has(project.id)) {
+        await dbService.saveProject(project).catch(e => {
+          if (!(e instanceof StaleRevisionError)) throw e;
+        });
+      }
+      await dbService.deleteProject(project.id);
+      syncBaseRef.current.delete(project.id);
+    } catch (e) {
+      console.error('[Trash] 移入回收桶失敗', e);
+    }
+  };
+
+  const handleUpdateProjects = (projects: Project[]) => {
+    const keptIds = new Set(projects.map(p => p.id));
+    state.projects.filter(p => !keptIds.has(p.id)).forEach(trashProject);
+    setState(prev => ({ ...prev, projects }));
+  };
+
+  const handleDeleteProject = (id: string) => {
+    const project = state.projects.find(p => p.id === id);
+    if (project) trashProject(project);
+    setState(prev => ({
+      ...prev,
+      projects: prev.projects.filter(p => p.id !== id),
+      currentProject: prev.currentProject?.id === id ? null : prev.currentProject,
+      activeTab: AppTab.LIBRARY
+    }));
+  };
+
+  // 搜尋結果：開啟章節並捲動至命中位置；快照命中則一併開啟時間軸
+  const [editorJump, setEditorJump] = useState<{ chapterId: string; offset: number; length: number; key: number } | null>(null);
+
+  // 分割檢視：參考窗格的來源；開啟時尚未選擇來源則為 null
+  const [isSplitOpen, setIsSplitOpen] = useState(false);
+  const [splitSource, setSplitSource] = useState<ReferenceSource | null>(null);
+
+  useEffect(() => {
+    setIsSplitOpen(false);
+    setSplitSource(null);
+  }, [state.currentProject?.id]);
+
+  // 預設對照前一章，沒有前一章時為下一章
+  const handleToggleSplitView = () => {
+    if (isSplitOpen) {
+      setIsSplitOpen(false);
+      return;
+    }
+    const project = state.currentProject;
+    if (!splitSource && project) {
+      const ordered = [...project.chapters].sort((a, b) => a.order - b.order);
+      const index = ordered.findIndex(c => c.id === state.currentChapterId);
+      const neighbor = ordered[index - 1] || ordered[index + 1];
+      if (neighbor) setSplitSource({ kind: 'CHAPTER', projectId: project.id, chapterId: neighbor.id });
+    }
+    setIsSplitOpen(true);
+  };
+
+  // 時間軸的預覽：在分割檢視中並排顯示快照
+  const handlePreviewSnapshot = (snapshot: VersionSnapshot) => {
+    if (!state.currentChapterId) return;
+    setSplitSource({ kind: 'SNAPSHOT', chapterId: state.currentChapterId, snapshotId: snapshot.id });
+    setIsSplitOpen(true);
+    closeTimeline();
+  };
+
+  const canEditProject = (projectId: string) => {
+    const project = state.projects.find(p => p.id === projectId);
+    return !!project && projectAccess.canEdit(projectAccess.roleOf(project, state));
+  };
+
+  // 在參考窗格中編輯的章節，可能屬於目前專案或研究筆記；與編輯器相同記入該章的復原紀錄，之後在編輯器開啟此章仍可復原
+  const handleUpdateReferenceChapter = (projectId: string, chapterId: string, newContent: string, caret: number, group: string | null) => {
+    const chapter = stateRef.current.projects.find(p => p.id === projectId)?.chapters.find(c => c.id === chapterId);
+    if (chapter) editHistory.record(projectId, chapterId, { content: chapter.content, suggestions: chapter.suggestions || [], caret }, group);
+    setState(prev => {
+      const project = prev.projects.find(p => p.id === projectId);
+      if (!project) return prev;
+      const chapters = project.chapters.map(c =>
+        c.id === chapterId ? {
+          ...c,
+          content: newContent,
+          wordCount: textCount.count(newContent).mixed,
+          lastEdited: Date.now(),
+          comments: c.comments && chapterComments.remap(c.comments, c.content, newContent),
+          suggestions: c.suggestions && trackChanges.remap(c.suggestions, c.content, newContent)
+        } : c
+      );
+      const updatedProject = { ...project, chapters, updatedAt: Date.now() };
+      return {
+        ...prev,
+        projects: prev.projects.map(p => p.id === projectId ? updatedProject : p),
+        currentProject: prev.currentProject?.id === projectId ? updatedProject : prev.currentProject
+      };
+    });
+  };
+
+  const updateEditorSettings = (changes: Partial<AppState['editorSettings']>) => {
+    setState(prev => ({ ...prev, editorSettings: { ...prev.editorSettings, ...changes } }));
+  };
+
+  // 專案取代：整批套用並可整批復原；每個受影響的章節也各記一步編輯器復原紀錄
+  const [lastReplace, setLastReplace] = useState<ReplaceBatch | null>(null);
+
+  const handleApplyReplace = (matches: ReplaceMatch[]) => {
+    const project = stateRef.current.currentProject;
+    if (!project) return;
+    const { project: updated, batch } = projectReplace.apply(project, matches);
+    batch.chapters.forEach(({ chapterId, before }) => {
+      const first = matches.find(m => m.chapterId === chapterId);
+      editHistory.record(project.id, chapterId, { content: before.content, suggestions: before.suggestions || [], caret: first?.start || 0 });
+    });
+    handleUpdateProject(updated);
+    setLastReplace(batch);
+  };
+
+  const handleUndoReplace = () => {
+    const project = stateRef.current.currentProject;
+    if (!project || !lastReplace || lastReplace.projectId !== project.id) return;
+    const { project: reverted, skipped } = projectReplace.revert(project, lastReplace);
+    lastReplace.chapters.forEach(({ chapterId, after }) => {
+      const chapter = project.chapters.find(c => c.id === chapterId);
+      if (chapter?.content === after) editHistory.record(project.id, chapterId, { content: after, suggestions: chapter.suggestions || [], caret: 0 });
+    });
+    handleUpdateProject(reverted);
+    setLastReplace(null);
+    if (skipped > 0) alert(`${skipped} 個章節在取代後已再次修改，未還原；可從時間軸的里程碑快照還原。`);
+  };
+
+  const handleOpenReplaceMatch = (match: ReplaceMatch) => {
+    setState(prev => ({ ...prev, currentChapterId: match.chapterId, activeTab: AppTab.WRITE }));
+    setEditorJump({ chapterId: match.chapterId, offset: match.start, length: match.end - match.start, key: Date.now() });
+    setActiveOverlay('NONE');
+  };
+
+  const handleOpenSearchHit = async (hit: SearchHit) => {
+    let project = state.projects.find(p => p.id === hit.projectId);
+    if (!project) {
+      project = (await dbService.getProject(hit.projectId)) || undefined;
+      if (!project) return;
+      syncBaseRef.current.set(project.id, project);
+    }
+    const opened = project;
+    setState(prev => ({
+      ...prev,
+      projects: prev.projects.some(p => p.id === opened.id) ? prev.projects : [opened, ...prev.projects],
+      currentProject: opened,
+      currentChapterId: hit.chapterId,
+      activeTab: AppTab.WRITE
+    }));
+    if (hit.snapshot) {
+      setActiveOverlay('TIMELINE');
+      setSwipeProgress(1);
+    } else if (hit.offset >= 0) {
+      setEditorJump({ chapterId: hit.chapterId, offset: hit.offset, length: hit.length, key: Date.now() });
+    }
+  };
+
+  const handleTrashRestored = (project: Project) => {
+    syncBaseRef.current.set(project.id, project);
+    replaceProject(project);
+  };
+
   const handleSaveToProject = (projectId: string, content: string, chapterId?: string) => {
     setState(prev => {
       const projects = [...prev.projects];
@@ -241,20 +589,20 @@ const App: React.FC = () => {
 
       if (chapterId) {
         project.chapters = project.chapters.map(c => 
-          c.id === chapterId ? { ...c, content: c.content + "\n\n" + content, wordCount: (c.content + content).length, lastEdited: Date.now() } : c
+          c.id === chapterId ? { ...c, content: c.content + "\n\n" + content, wordCount: textCount.count(c.content + "\n\n" + content).mixed, lastEdited: Date.now() } : c
         );
       } else {
         if (project.chapters.length > 0) {
           const first = project.chapters[0];
           targetChapterId = first.id;
-          project.chapters[0] = { ...first, content: first.content + "\n\n" + content, wordCount: (first.content + content).length, lastEdited: Date.now() };
+          project.chapters[0] = { ...first, content: first.content + "\n\n" + content, wordCount: textCount.count(first.content + "\n\n" + content).mixed, lastEdited: Date.now() };
         } else {
           const newChap: Chapter = {
             id: 'c-' + Date.now(),
             title: '未命名章節',
             content: content,
             order: 1,
-            wordCount: content.length,
+            wordCount: textCount.count(content).mixed,
             lastEdited: Date.now(),
             createdAt: Date.now()
           };
@@ -294,7 +642,7 @@ const App: React.FC = () => {
         title: '隨手記',
         content: content,
         order: 1,
-        wordCount: content.length,
+        wordCount: textCount.count(content).mixed,
         lastEdited: Date.now(),
         createdAt: Date.now()
       }],
@@ -302,6 +650,7 @@ const App: React.FC = () => {
       createdAt: Date.now(),
       updatedAt: Date.now(),
       tags: ['CAPTURED'],
+      ownerId: state.userId,
       settings: { typography: 'serif', fontSize: 'normal' },
       publishingSpine: {
         currentNode: SpineNodeId.WRITING,
@@ -324,15 +673,18 @@ const App: React.FC = () => {
       if (!prev.currentProject || !prev.currentChapterId) return prev;
       const chapter = prev.currentProject.chapters.find(c => c.id === prev.currentChapterId);
       if (!chapter) return prev;
-      if (type === SnapshotType.AUTO && chapter.content === lastSnapshotContentRef.current) return prev;
+      // 修訂建議的增減也算作變更
+      const snapshotKey = chapter.content + JSON.stringify(chapter.suggestions || []);
+      if (type === SnapshotType.AUTO && snapshotKey === lastSnapshotContentRef.current) return prev;
       const newSnapshot: VersionSnapshot = {
         id: `v-${Date.now()}`,
         timestamp: Date.now(),
         content: chapter.content,
         title: chapter.title,
-        type: type
+        type: type,
+        ...(chapter.suggestions?.length ? { suggestions: chapter.suggestions } : {})
       };
-      lastSnapshotContentRef.current = chapter.content;
+      lastSnapshotContentRef.current = snapshotKey;
       const updatedChapters = prev.currentProject.chapters.map(c => 
         c.id === prev.currentChapterId ? { ...c, history: [newSnapshot, ...(c.history || [])] } : c
       );
@@ -345,11 +697,21 @@ const App: React.FC = () => {
     });
   }, []);
 
-  const handleUpdateContent = (newContent: string) => {
+  /**
+   * 更新章節內文；suggestions 省略時依內文差異平移既有的修訂建議
+   */
+  const handleUpdateContent = (newContent: string, suggestions?: TrackedChange[]) => {
     setState(prev => {
       if (!prev.currentProject || !prev.currentChapterId) return prev;
       const chapters = prev.currentProject.chapters.map(c => 
-        c.id === prev.currentChapterId ? { ...c, content: newContent, wordCount: newContent.length, lastEdited: Date.now() } : c
+        c.id === prev.currentChapterId ? {
+          ...c,
+          content: newContent,
+          wordCount: textCount.count(newContent).mixed,
+          lastEdited: Date.now(),
+          comments: c.comments && chapterComments.remap(c.comments, c.content, newContent),
+          suggestions: suggestions || (c.suggestions && trackChanges.remap(c.suggestions, c.content, newContent))
+        } : c
       );
       const updatedProject = { ...prev.currentProject, chapters, updatedAt: Date.now() };
       return {
@@ -358,10 +720,19 @@ const App: React.FC = () => {
         currentProject: updatedProject
       };
     });
-    if (state.securitySettings.autoSnapshotEnabled && state.securitySettings.autoSnapshotMode === 'idle') {
-      if (idleTimerRef.current) window.clearTimeout(idleTimerRef.current);
-      idleTimerRef.current = window.setTimeout(() => createSnapshot(SnapshotType.AUTO), state.securitySettings.autoSnapshotIdleSeconds * 1000);
-    }
+  };
+
+  const handleUpdateComments = (comments: ChapterComment[]) => {
+    setState(prev => {
+      if (!prev.currentProject || !prev.currentChapterId) return prev;
+      const chapters = prev.currentProject.chapters.map(c => c.id === prev.currentChapterId ? { ...c, comments } : c);
+      const updatedProject = { ...prev.currentProject, chapters, updatedAt: Date.now() };
+      return {
+        ...prev,
+        projects: prev.projects.map(p => p.id === updatedProject.id ? updatedProject : p),
+        currentProject: updatedProject
+      };
+    });
   };
 
   const closeTimeline = () => {
@@ -420,6 +791,9 @@ const App: React.FC = () => {
   };
 
   const isBottomNavVisible = !isUIHidden && (activeOverlay === 'NONE' && swipeProgress === 0) && (state.activeTab !== AppTab.WRITE || !currentChapter);
+  // 狀態列字數：編輯中的專案，否則為整個書庫
+  const statusWordCount = (state.currentProject ? [state.currentProject] : state.projects)
+    .reduce((sum, p) => sum + textCount.ofProject(p).mixed, 0);
   const editorScale = 1 - swipeProgress * 0.04; 
   const editorBlur = swipeProgress * 4; 
   const editorOpacity = 1 - swipeProgress * 0.4;
@@ -469,8 +843,12 @@ const App: React.FC = () => {
             <Library 
               projects={state.projects} 
               onSelectProject={(p) => setState(prev => ({...prev, currentProject: p, activeTab: AppTab.PROJECT_DETAIL}))}
+              ownerId={state.userId}
               onCreateProject={(proj) => setState(prev => ({...prev, projects: [proj, ...prev.projects]}))}
-              onUpdateProjects={(p) => setState(prev => ({...prev, projects: p}))}
+              onUpdateProjects={handleUpdateProjects}
+              trashRetentionDays={state.securitySettings.trashRetentionDays}
+              onTrashRestored={handleTrashRestored}
+              onOpenSearchHit={handleOpenSearchHit}
             />
           ) : (
             <CaptureCenter 
@@ -488,22 +866,51 @@ const App: React.FC = () => {
             onBack={() => setState(prev => ({ ...prev, activeTab: AppTab.LIBRARY }))}
             onOpenModule={() => {}}
             onUpdateProject={handleUpdateProject}
-            onDeleteProject={(id) => setState(prev => ({...prev, projects: prev.projects.filter(p => p.id !== id), activeTab: AppTab.LIBRARY}))}
+            onDeleteProject={handleDeleteProject}
             onEnterEditor={(id) => setState(prev => ({...prev, currentChapterId: id, activeTab: AppTab.WRITE}))}
             onOpenExport={() => setActiveOverlay('EXPORT')}
+            onOpenCollaboration={() => setActiveOverlay('COLLABORATION')}
+            onOpenReplace={() => setActiveOverlay('REPLACE')}
+            onOpenBibliography={() => setActiveOverlay('BIBLIOGRAPHY')}
+            role={currentRole}
           />
         ) : state.activeTab === AppTab.WRITE ? (
           currentChapter ? (
             <Editor 
+              projectId={state.currentProject!.id}
+              role={currentRole}
               chapter={currentChapter}
               onUpdateContent={handleUpdateContent}
+              authorName={currentAuthor}
+              onUpdateComments={handleUpdateComments}
               uiMode={state.uiMode}
               onModeToggle={(mode) => setState(prev => ({ ...prev, uiMode: mode }))}
               onOpenTimeline={() => { setActiveOverlay('TIMELINE'); setSwipeProgress(1); }}
               onOpenCollaboration={() => setActiveOverlay('COLLABORATION')}
+              onOpenReplace={() => setActiveOverlay('REPLACE')}
               onBack={() => setState(prev => ({ ...prev, activeTab: AppTab.PROJECT_DETAIL }))}
               onUpdateOutline={() => {}}
               membership={state.membership}
+              jumpTo={editorJump?.chapterId === currentChapter.id ? editorJump : undefined}
+              footnoteStart={footnotes.firstNumberOf(state.currentProject!, currentChapter.id)}
+              screenplay={state.currentProject!.writingType === WritingType.SCREENPLAY}
+              citationContext={citationContext}
+              onOpenBibliography={() => setActiveOverlay('BIBLIOGRAPHY')}
+              splitView={isSplitOpen ? {
+                project: state.currentProject!,
+                notes: researchNotes,
+                source: splitSource,
+                layout: screenWidth >= 1024 ? 'SIDE' : 'SHEET',
+                ratio: state.editorSettings.splitPaneRatio,
+                syncScroll: state.editorSettings.splitScrollSync,
+                canEditProject,
+                onChangeSource: setSplitSource,
+                onUpdateChapter: handleUpdateReferenceChapter,
+                onToggleSyncScroll: () => updateEditorSettings({ splitScrollSync: !state.editorSettings.splitScrollSync }),
+                onResize: ratio => updateEditorSettings({ splitPaneRatio: ratio }),
+                onClose: () => setIsSplitOpen(false)
+              } : undefined}
+              onToggleSplitView={handleToggleSplitView}
             />
           ) : (
             <div className="h-full flex flex-col items-center justify-center p-8 bg-black text-center animate-in fade-in duration-700">
@@ -529,10 +936,17 @@ const App: React.FC = () => {
             onLanguageChange={(l) => setState(prev => ({...prev, language: l}))} 
             onUpdateAIPreferences={(prefs) => setState(prev => ({...prev, aiPreferences: prefs}))}
             onUpdateSecuritySettings={(s) => setState(prev => ({...prev, securitySettings: s}))}
-            onUpdateBackupSettings={(b) => setState(prev => ({...prev, backupSettings: b}))}
+            onConnectDrive={handleConnectDrive}
+            onDisconnectDrive={handleDisconnectDrive}
+            cloudAccount={cloudAccount}
+            onCloudSignIn={supabaseService.isAvailable() ? handleCloudSignIn : undefined}
+            onCloudSignOut={handleCloudSignOut}
+            onBackupNow={() => driveBackupService.runScheduled()}
             onUpdateSavedCards={(c) => setState(prev => ({...prev, savedCards: c}))}
             onUpdateCountryCode={(code) => setState(prev => ({...prev, userCountryCode: code}))}
             onUpdateAvatar={(avatar, type) => setState(prev => ({...prev, userAvatar: avatar, avatarType: type}))}
+            onLibraryImported={handleLibraryImported}
+            onToggleEncryption={handleToggleEncryption}
           />
         ) : (
           <div className="h-full flex items-center justify-center text-gray-500 font-black uppercase tracking-[0.5em] text-[10px]">
@@ -543,6 +957,10 @@ const App: React.FC = () => {
         )}
       </main>
 
+      {!isUIHidden && !isBottomNavVisible && (
+        <StatusBar wordCount={statusWordCount} />
+      )}
+
       {/* Dynamic Liquid Backdrop Mask */}
       <div 
         className="fixed inset-0 bg-black pointer-events-none z-[190]"
@@ -578,6 +996,7 @@ const App: React.FC = () => {
           project={state.currentProject} 
           onClose={() => setActiveOverlay('NONE')} 
           onUpdateProject={handleUpdateProject}
+          role={currentRole}
           currentLanguage={state.language}
           userCountryCode={state.userCountryCode}
         />
@@ -597,13 +1016,16 @@ const App: React.FC = () => {
              history={state.currentProject.chapters.find(c => c.id === state.currentChapterId)?.history || []}
              membership={state.membership}
              isNight={true}
+             canRestore={projectAccess.canEdit(currentRole)}
              onRestore={(s) => {
-               handleUpdateContent(s.content);
+               if (!projectAccess.canEdit(currentRole)) return;
+               handleUpdateContent(s.content, s.suggestions || []);
                closeTimeline();
              }}
-             onPreview={() => {}}
+             onPreview={handlePreviewSnapshot}
              onCreateMilestone={() => createSnapshot(SnapshotType.MILESTONE)}
              onClearSnapshots={() => {}}
+             onCompactStorage={() => dbService.compactSnapshots(state.currentProject!.id)}
              onClose={closeTimeline}
              securitySettings={state.securitySettings}
              onUpdateSecuritySettings={(s) => setState(prev => ({ ...prev, securitySettings: s }))}
@@ -611,10 +1033,51 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {activeOverlay === 'REPLACE' && state.currentProject && (
+        <FindReplacePanel
+          project={state.currentProject}
+          canEdit={projectAccess.canEdit(currentRole)}
+          lastBatch={lastReplace?.projectId === state.currentProject.id ? lastReplace : null}
+          onApply={handleApplyReplace}
+          onUndo={handleUndoReplace}
+          onOpenMatch={handleOpenReplaceMatch}
+          onClose={() => setActiveOverlay('NONE')}
+        />
+      )}
+
+      {activeOverlay === 'BIBLIOGRAPHY' && state.currentProject && (
+        <BibliographyPanel
+          project={state.currentProject}
+          canEdit={projectAccess.canEdit(currentRole)}
+          onUpdateProject={handleUpdateProject}
+          onClose={() => setActiveOverlay('NONE')}
+        />
+      )}
+
       {activeOverlay === 'COLLABORATION' && (
-        <CollaborationPanel onClose={() => setActiveOverlay('NONE')} />
+        <CollaborationPanel
+          project={state.currentProject}
+          role={currentRole}
+          onUpdateProject={handleUpdateProject}
+          onAcceptInvite={handleAcceptInvite}
+          onClose={() => setActiveOverlay('NONE')}
+        />
+      )}
+
+      {vaultStatus === 'locked' && (
+        <VaultPassphraseModal mode="unlock" onSubmit={handleUnlockVault} />
       )}
 
+      {isVaultSetupOpen && (
+        <VaultPassphraseModal mode="setup" onSubmit={handleEnableEncryption} onCancel={() => setIsVaultSetupOpen(false)} />
+      )}
+
+      {syncConflict && (
+        <SyncConflictModal conflicts={syncConflict.conflicts} onResolve={handleResolveConflicts} />
+      )}
+
+      <UpdatePrompt />
+
       <BottomNav activeTab={state.activeTab} onTabChange={(tab) => setState(prev => ({ ...prev, activeTab: tab }))} isVisible={isBottomNavVisible} />
     </div>
   );
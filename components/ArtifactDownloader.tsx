@@ -1,22 +1,34 @@
 import React, { useState } from 'react';
 import JSZip from 'jszip';
 import jsPDF from 'jspdf';
-import { Project, CoverAssetType, CoverAsset } from '../types';
+import { Project, CoverAssetType, CoverAsset, WritingType } from '../types';
 import { Download, Package, FileText } from 'lucide-react';
+import { assetStore } from '../services/assetStore';
+import { docxExport } from '../services/docxExport';
+import { epubExport } from '../services/epubExport';
+import { pdfExport, PdfNotePlacement } from '../services/pdfExport';
+import { footnotes, FOOTNOTE_NUMBERING_LABELS } from '../services/footnotes';
+import { screenplayExport } from '../services/screenplayExport';
+import { textCount } from '../services/textCount';
 
 interface ArtifactDownloaderProps {
   project: Project;
+  // 提供時可切換註腳編號方式（存回專案設定）
+  onUpdateProject?: (project: Project) => void;
   onDownloadStart?: () => void;
   onDownloadComplete?: () => void;
 }
 
 const ArtifactDownloader: React.FC<ArtifactDownloaderProps> = ({ 
   project, 
+  onUpdateProject,
   onDownloadStart, 
   onDownloadComplete 
 }) => {
   const [isDownloading, setIsDownloading] = useState(false);
   const [downloadProgress, setDownloadProgress] = useState(0);
+  const [includeComments, setIncludeComments] = useState(true);
+  const [notePlacement, setNotePlacement] = useState<PdfNotePlacement>('PAGE');
 
   // 任務 3.1: 導出到設備 - 下載單個封面圖片
   const handleExportCover = async (assetType: CoverAssetType) => {
@@ -30,14 +42,9 @@ const ArtifactDownloader: React.FC<ArtifactDownloaderProps> = ({
       setIsDownloading(true);
       onDownloadStart?.();
 
-      // 從 Base64 創建 Blob
-      const base64Data = asset.url.split(',')[1];
-      const binaryString = atob(base64Data);
-      const bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-      }
-      const blob = new Blob([bytes], { type: 'image/jpeg' });
+      // 從資產庫讀取原始圖片
+      const blob = await assetStore.get(asset.ref);
+      if (!blob) throw new Error('封面資產遺失');
 
       // 創建下載連結
       const url = URL.createObjectURL(blob);
@@ -78,13 +85,9 @@ const ArtifactDownloader: React.FC<ArtifactDownloaderProps> = ({
       let coverCount = 0;
 
       for (const [assetType, asset] of Object.entries(coverAssets)) {
-        if (asset && (asset as any).url) {
-          const base64Data = (asset as any).url.split(',')[1];
-          coversFolder.file(
-            `${assetType}.jpg`,
-            base64Data,
-            { base64: true }
-          );
+        const blob = asset ? await assetStore.get((asset as CoverAsset).ref) : null;
+        if (blob) {
+          coversFolder.file(`${assetType}.jpg`, blob);
           coverCount++;
           setDownloadProgress(10 + (coverCount / Object.keys(coverAssets).length) * 40);
         }
@@ -98,7 +101,7 @@ const ArtifactDownloader: React.FC<ArtifactDownloaderProps> = ({
         author: project.publishingPayload?.author || 'Author Identity',
         createdAt: new Date(project.createdAt).toISOString(),
         updatedAt: new Date(project.updatedAt).toISOString(),
-        totalWords: project.chapters.reduce((acc, c) => acc + (c.wordCount || 0), 0),
+        totalWords: textCount.ofProject(project).mixed,
         coverSpecs: Object.keys(coverAssets).map(type => ({
           type,
           width: coverAssets[type as CoverAssetType]?.width,
@@ -166,8 +169,9 @@ const ArtifactDownloader: React.FC<ArtifactDownloaderProps> = ({
 
       // 添加前封面
       const frontCover = project.publishingPayload?.coverAssets?.[CoverAssetType.EBOOK_DIGITAL];
-      if (frontCover) {
-        const imgData = frontCover.url;
+      const frontImage = frontCover ? await assetStore.getDataUrl(frontCover.ref) : null;
+      if (frontImage) {
+        const imgData = frontImage;
         pdf.addImage(imgData, 'JPEG', 0, 0, pageWidth, pageHeight);
         setDownloadProgress(40);
       }
@@ -176,7 +180,7 @@ const ArtifactDownloader: React.FC<ArtifactDownloaderProps> = ({
       pdf.addPage();
 
       // 添加脊 (如果有)
-      const spineHeight = Math.ceil((project.chapters.reduce((acc, c) => acc + (c.wordCount || 0), 0) / 250) * 0.0022 * 10);
+      const spineHeight = Math.ceil(textCount.estimatePages(textCount.ofProject(project)) * 0.0022 * 10);
       pdf.setFontSize(10);
       pdf.text(`Spine Width: ${spineHeight}mm`, 10, 20);
 
@@ -184,9 +188,10 @@ const ArtifactDownloader: React.FC<ArtifactDownloaderProps> = ({
 
       // 添加封底
       const backCover = project.publishingPayload?.coverAssets?.[CoverAssetType.PRINT_PAPERBACK];
-      if (backCover) {
+      const backImage = backCover ? await assetStore.getDataUrl(backCover.ref) : null;
+      if (backImage) {
         pdf.addPage();
-        const imgData = backCover.url;
+        const imgData = backImage;
         pdf.addImage(imgData, 'JPEG', 0, 0, pageWidth, pageHeight);
       }
 
@@ -214,6 +219,98 @@ const ArtifactDownloader: React.FC<ArtifactDownloaderProps> = ({
     }
   };
 
+  // 文稿匯出：所有章節組成 DOCX，可選擇附上未解決的批註
+  const handleExportDocx = async () => {
+    try {
+      setIsDownloading(true);
+      onDownloadStart?.();
+      setDownloadProgress(30);
+
+      const blob = await docxExport.build(project, { includeComments });
+      setDownloadProgress(80);
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${project.name}_manuscript.docx`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      setDownloadProgress(100);
+      onDownloadComplete?.();
+    } catch (e) {
+      alert('DOCX 生成失敗: ' + e);
+    } finally {
+      setIsDownloading(false);
+      setDownloadProgress(0);
+    }
+  };
+
+  // 文稿匯出：EPUB 註腳為彈出式註腳；PDF 註腳依設定排在頁尾或章末
+  const handleExportManuscript = async (format: 'epub' | 'pdf') => {
+    try {
+      setIsDownloading(true);
+      onDownloadStart?.();
+      setDownloadProgress(30);
+
+      const blob = format === 'epub' ? await epubExport.build(project) : pdfExport.build(project, { notePlacement });
+      setDownloadProgress(80);
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${project.name}_manuscript.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      setDownloadProgress(100);
+      onDownloadComplete?.();
+    } catch (e) {
+      alert(`${format.toUpperCase()} 生成失敗: ` + e);
+    } finally {
+      setIsDownloading(false);
+      setDownloadProgress(0);
+    }
+  };
+
+  // 劇本匯出：業界格式 PDF 或 Final Draft
+  const handleExportScreenplay = async (format: 'pdf' | 'fdx') => {
+    try {
+      setIsDownloading(true);
+      onDownloadStart?.();
+      setDownloadProgress(30);
+
+      const blob = format === 'pdf' ? screenplayExport.buildPdf(project) : screenplayExport.buildFdx(project);
+      setDownloadProgress(80);
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${project.name}_screenplay.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      setDownloadProgress(100);
+      onDownloadComplete?.();
+    } catch (e) {
+      alert('劇本匯出失敗: ' + e);
+    } finally {
+      setIsDownloading(false);
+      setDownloadProgress(0);
+    }
+  };
+
+  const footnoteNumbering = project.footnoteNumbering || 'CHAPTER';
+  const footnoteCount = [...footnotes.ofProject(project).values()].reduce((acc, c) => acc + c.notes.length, 0);
+
+  const unresolvedComments = project.chapters.reduce((acc, c) => acc + (c.comments || []).filter(cm => !cm.resolved && !cm.orphaned).length, 0);
+
   const hasCovers = project.publishingPayload?.coverAssets && 
                     Object.keys(project.publishingPayload.coverAssets).length > 0;
 
@@ -296,6 +393,94 @@ const ArtifactDownloader: React.FC<ArtifactDownloaderProps> = ({
         </div>
       </div>
 
+      {/* 文稿 DOCX */}
+      <div className="space-y-4">
+        <h3 className="text-[12px] font-black text-gray-600 uppercase tracking-widest">
+          <FileText className="w-4 h-4 inline mr-2" />
+          文稿 MANUSCRIPT
+        </h3>
+        <div className="grid grid-cols-2 gap-3">
+          <button
+            onClick={() => setIncludeComments(!includeComments)}
+            className={`py-4 px-4 rounded-2xl text-[11px] font-black uppercase tracking-widest transition-all border flex items-center justify-center space-x-2 ${
+              includeComments ? 'bg-[#D4FF5F]/10 border-[#D4FF5F]/30 text-[#D4FF5F]' : 'bg-white/5 border-white/5 text-gray-500'
+            }`}
+          >
+            <i className={`fa-${includeComments ? 'solid fa-square-check' : 'regular fa-square'} text-xs`}></i>
+            <span>包含批註 ({unresolvedComments})</span>
+          </button>
+          <button
+            onClick={handleExportDocx}
+            disabled={isDownloading}
+            className="py-4 px-4 rounded-2xl text-[11px] font-black uppercase tracking-widest transition-all border flex items-center justify-center space-x-2 bg-blue-600/20 border-blue-600/40 text-blue-400 hover:bg-blue-600/30 active:scale-95 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            <span>DOCX 文稿</span>
+          </button>
+          <button
+            onClick={() => onUpdateProject?.({ ...project, footnoteNumbering: footnoteNumbering === 'BOOK' ? 'CHAPTER' : 'BOOK', updatedAt: Date.now() })}
+            disabled={!onUpdateProject}
+            title="註腳編號方式"
+            className="py-4 px-4 rounded-2xl text-[11px] font-black uppercase tracking-widest transition-all border flex items-center justify-center space-x-2 bg-white/5 border-white/5 text-gray-400 disabled:cursor-default"
+          >
+            <i className="fa-solid fa-list-ol text-xs"></i>
+            <span>{FOOTNOTE_NUMBERING_LABELS[footnoteNumbering]} ({footnoteCount})</span>
+          </button>
+          <button
+            onClick={() => setNotePlacement(notePlacement === 'PAGE' ? 'CHAPTER_END' : 'PAGE')}
+            title="PDF 註腳位置"
+            className="py-4 px-4 rounded-2xl text-[11px] font-black uppercase tracking-widest transition-all border flex items-center justify-center space-x-2 bg-white/5 border-white/5 text-gray-400"
+          >
+            <i className="fa-solid fa-note-sticky text-xs"></i>
+            <span>PDF 註腳：{notePlacement === 'PAGE' ? '頁尾' : '章末'}</span>
+          </button>
+          <button
+            onClick={() => handleExportManuscript('epub')}
+            disabled={isDownloading}
+            className="py-4 px-4 rounded-2xl text-[11px] font-black uppercase tracking-widest transition-all border flex items-center justify-center space-x-2 bg-green-600/20 border-green-600/40 text-green-400 hover:bg-green-600/30 active:scale-95 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            <span>EPUB 電子書</span>
+          </button>
+          <button
+            onClick={() => handleExportManuscript('pdf')}
+            disabled={isDownloading}
+            className="py-4 px-4 rounded-2xl text-[11px] font-black uppercase tracking-widest transition-all border flex items-center justify-center space-x-2 bg-purple-600/20 border-purple-600/40 text-purple-400 hover:bg-purple-600/30 active:scale-95 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            <span>PDF 文稿</span>
+          </button>
+        </div>
+      </div>
+
+      {/* 劇本 */}
+      {project.writingType === WritingType.SCREENPLAY && (
+        <div className="space-y-4">
+          <h3 className="text-[12px] font-black text-gray-600 uppercase tracking-widest">
+            <i className="fa-solid fa-clapperboard text-xs mr-2"></i>
+            劇本 SCREENPLAY
+          </h3>
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              onClick={() => handleExportScreenplay('pdf')}
+              disabled={isDownloading}
+              className="py-4 px-4 rounded-2xl text-[11px] font-black uppercase tracking-widest transition-all border flex items-center justify-center space-x-2 bg-purple-600/20 border-purple-600/40 text-purple-400 hover:bg-purple-600/30 active:scale-95 disabled:opacity-50"
+            >
+              <FileText className="w-4 h-4" />
+              <span>劇本 PDF</span>
+            </button>
+            <button
+              onClick={() => handleExportScreenplay('fdx')}
+              disabled={isDownloading}
+              className="py-4 px-4 rounded-2xl text-[11px] font-black uppercase tracking-widest transition-all border flex items-center justify-center space-x-2 bg-blue-600/20 border-blue-600/40 text-blue-400 hover:bg-blue-600/30 active:scale-95 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" />
+              <span>Final Draft</span>
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* 說明文字 */}
       {!hasCovers && (
         <div className="p-4 rounded-2xl bg-amber-600/10 border border-amber-600/20">
@@ -0,0 +1,26 @@
+import React, { useEffect, useState } from 'react';
+import { assetStore } from '../services/assetStore';
+
+interface AssetImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> {
+  assetRef: string;
+}
+
+/**
+ * 以資產參照（內容雜湊）顯示圖片，載入完成前不渲染
+ */
+const AssetImage: React.FC<AssetImageProps> = ({ assetRef, alt = '', ...imgProps }) => {
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    assetStore.getObjectUrl(assetRef).then(url => {
+      if (!cancelled) setSrc(url);
+    }).catch(e => console.error('[Assets] 圖片載入失敗', e));
+    return () => { cancelled = true; };
+  }, [assetRef]);
+
+  if (!src) return null;
+  return <img src={src} alt={alt} {...imgProps} />;
+};
+
+export default AssetImage;
@@ -0,0 +1,190 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { BibEntry, CitationStyle, CustomCitationStyle, Project } from '../types';
+import { bibtex, BibliographyImportError } from '../services/bibtex';
+import { citations, CITATION_STYLE_LABELS, DEFAULT_CUSTOM_STYLE } from '../services/citations';
+
+interface BibliographyPanelProps {
+  project: Project;
+  canEdit: boolean;
+  onUpdateProject: (project: Project) => void;
+  onClose: () => void;
+}
+
+const CUSTOM_FIELDS: { key: keyof CustomCitationStyle; label: string }[] = [
+  { key: 'inText', label: '內文引用' },
+  { key: 'reference', label: '文獻條目' },
+  { key: 'heading', label: '文獻標題' }
+];
+
+const BibliographyPanel: React.FC<BibliographyPanelProps> = ({ project, canEdit, onUpdateProject, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [source, setSource] = useState('');
+  const [message, setMessage] = useState<{ tone: 'error' | 'success', text: string } | null>(null);
+  const entries = project.bibliography || [];
+  const style = project.citationStyle || 'APA';
+  const custom = project.customCitationStyle || DEFAULT_CUSTOM_STYLE;
+
+  // 每筆條目以目前的格式預覽，並標示是否已在內文中引用
+  const preview = useMemo(() => {
+    const context = citations.contextOf(project);
+    const cited = new Set(citations.citedKeys(project));
+    return entries.map(entry => ({
+      entry,
+      text: citations.bibliography(context, [entry.id]).entries[0],
+      cited: cited.has(entry.id)
+    }));
+  }, [project]);
+
+  const update = (changes: Partial<Project>) => onUpdateProject({ ...project, ...changes, updatedAt: Date.now() });
+
+  const importEntries = (text: string) => {
+    try {
+      const imported = bibtex.parseAny(text);
+      const replaced = imported.filter(entry => entries.some(e => e.id === entry.id)).length;
+      update({ bibliography: bibtex.merge(entries, imported) });
+      setSource('');
+      setMessage({
+        tone: 'success',
+        text: replaced > 0 ? `已匯入 ${imported.length} 筆，其中 ${replaced} 筆更新了既有條目` : `已匯入 ${imported.length} 筆`
+      });
+    } catch (e) {
+      setMessage({ tone: 'error', text: e instanceof BibliographyImportError ? e.message : '無法讀取參考文獻' });
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    importEntries(await file.text());
+  };
+
+  const handleRemove = (entry: BibEntry) => {
+    const cited = preview.find(p => p.entry.id === entry.id)?.cited;
+    if (cited && !window.confirm(`「${entry.id}」仍在內文中被引用，刪除後引用會顯示為 ?${entry.id}。確定要刪除嗎？`)) return;
+    update({ bibliography: entries.filter(e => e.id !== entry.id) });
+  };
+
+  const handleCopy = async (key: string) => {
+    try {
+      await navigator.clipboard.writeText(`[@${key}]`);
+      setMessage({ tone: 'success', text: `已複製 [@${key}]` });
+    } catch {
+      setMessage({ tone: 'error', text: '無法存取剪貼簿，請手動輸入引用' });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[1000] flex items-end sm:items-center justify-center animate-in fade-in duration-300">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-md" onClick={onClose} />
+
+      <div className="relative w-full max-w-2xl bg-[#1C1C1E] rounded-t-[44px] sm:rounded-[44px] p-8 sm:p-10 flex flex-col space-y-6 animate-in slide-in-from-bottom duration-500 max-h-[90vh]">
+        <div className="flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-black tracking-tight text-white">參考文獻</h2>
+            <p className="text-[10px] font-black text-[#8E8E93] uppercase tracking-[0.2em] mt-1">{project.name} · {entries.length} SOURCES</p>
+          </div>
+          <button onClick={onClose} className="w-12 h-12 rounded-full flex items-center justify-center text-gray-500 hover:bg-white/5">
+            <i className="fa-solid fa-xmark text-xl"></i>
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto no-scrollbar space-y-6">
+          <div className="space-y-3">
+            <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest px-1">引用格式</label>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(CITATION_STYLE_LABELS) as CitationStyle[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => update({ citationStyle: option })}
+                  disabled={!canEdit}
+                  className={`px-4 h-10 rounded-2xl text-[11px] font-black transition-all disabled:opacity-50 ${style === option ? 'bg-[#7b61ff] text-white' : 'bg-white/5 text-gray-500 hover:text-gray-300'}`}
+                >
+                  {CITATION_STYLE_LABELS[option]}
+                </button>
+              ))}
+            </div>
+            {style === 'CUSTOM' && (
+              <div className="space-y-2 p-4 rounded-3xl bg-white/5 border border-white/10">
+                {CUSTOM_FIELDS.map(field => (
+                  <div key={field.key} className="flex items-center space-x-3">
+                    <span className="w-16 shrink-0 text-[10px] font-black text-gray-500">{field.label}</span>
+                    <input
+                      value={custom[field.key]}
+                      onChange={e => update({ customCitationStyle: { ...custom, [field.key]: e.target.value } })}
+                      disabled={!canEdit}
+                      className="flex-1 min-w-0 bg-black/30 border border-white/10 h-10 px-4 rounded-xl text-[12px] font-mono outline-none focus:border-blue-500 text-white"
+                    />
+                  </div>
+                ))}
+                <p className="text-[10px] text-gray-500 leading-relaxed pt-1">
+                  可用欄位：{'{author}'} {'{year}'} {'{locator}'}（內文）、{'{authors}'} {'{title}'} {'{container}'} {'{volume}'} {'{issue}'} {'{pages}'} {'{publisher}'} {'{place}'} {'{editors}'} {'{link}'}。
+                  以 [ ] 包住的片段在欄位皆有值時才顯示，*文字* 為斜體。
+                </p>
+              </div>
+            )}
+          </div>
+
+          {canEdit && (
+            <div className="space-y-3">
+              <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest px-1">匯入 BibTeX / CSL-JSON</label>
+              <textarea
+                value={source}
+                onChange={e => setSource(e.target.value)}
+                placeholder={'@article{smith2020,\n  author = {Smith, John},\n  title = {...},\n  year = {2020}\n}'}
+                className="w-full h-32 bg-white/5 border border-white/10 p-4 rounded-2xl text-[12px] font-mono outline-none focus:border-blue-500 transition-all text-white resize-none"
+              />
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => importEntries(source)}
+                  disabled={!source.trim()}
+                  className="flex-1 h-12 rounded-2xl bg-white text-black text-[11px] font-black uppercase tracking-widest disabled:opacity-30"
+                >
+                  匯入
+                </button>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="flex-1 h-12 rounded-2xl bg-white/5 text-gray-300 text-[11px] font-black uppercase tracking-widest hover:bg-white/10"
+                >
+                  選擇 .bib / .json 檔
+                </button>
+                <input ref={fileInputRef} type="file" accept=".bib,.bibtex,.json,application/json,text/plain" className="hidden" onChange={handleFileChange} />
+              </div>
+            </div>
+          )}
+
+          {message && (
+            <p className={`text-[11px] font-bold px-1 ${message.tone === 'error' ? 'text-red-400' : 'text-[#D4FF5F]'}`}>{message.text}</p>
+          )}
+
+          <div className="space-y-2">
+            {preview.length === 0 && (
+              <p className="px-1 py-6 text-[11px] text-gray-600 leading-relaxed">尚無參考文獻。匯入後在內文輸入 [@引用鍵] 即可引用，例如 [@smith2020, p. 12]。</p>
+            )}
+            {preview.map(({ entry, text, cited }) => (
+              <div key={entry.id} className="flex items-start space-x-3 p-4 rounded-2xl bg-white/5">
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <span className="text-[10px] font-black text-[#D4FF5F] font-mono break-all">@{entry.id}</span>
+                    {cited && <span className="text-[8px] font-black text-gray-500 uppercase tracking-widest shrink-0">已引用</span>}
+                  </div>
+                  <p className="text-[11px] text-gray-300 leading-relaxed break-words">{citations.plain(text)}</p>
+                </div>
+                <button onClick={() => handleCopy(entry.id)} title="複製引用" className="w-9 h-9 rounded-full flex items-center justify-center text-gray-500 hover:bg-white/5 shrink-0">
+                  <i className="fa-regular fa-copy"></i>
+                </button>
+                {canEdit && (
+                  <button onClick={() => handleRemove(entry)} title="刪除" className="w-9 h-9 rounded-full flex items-center justify-center text-gray-500 hover:text-red-400 hover:bg-white/5 shrink-0">
+                    <i className="fa-regular fa-trash-can"></i>
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BibliographyPanel;
@@ -1,20 +1,24 @@
-
 import React, { useState } from 'react';
+import { PermissionLevel, Project, ProjectMember } from '../types';
+import { projectAccess, ProjectRole, ROLE_LABELS, InviteError } from '../services/projectAccess';
 
 interface CollaborationPanelProps {
+  project: Project | null;
+  role: ProjectRole;
+  onUpdateProject: (project: Project) => void;
+  onAcceptInvite: (code: string) => Promise<void>;
   onClose: () => void;
 }
 
-enum PermissionLevel {
-  EDITOR = 'EDITOR',
-  COMMENTER = 'COMMENTER',
-  VIEWER = 'VIEWER'
-}
-
-const CollaborationPanel: React.FC<CollaborationPanelProps> = ({ onClose }) => {
+const CollaborationPanel: React.FC<CollaborationPanelProps> = ({ project, role, onUpdateProject, onAcceptInvite, onClose }) => {
   const [email, setEmail] = useState('');
   const [level, setLevel] = useState<PermissionLevel>(PermissionLevel.EDITOR);
-  const [isSending, setIsSending] = useState(false);
+  const [issued, setIssued] = useState<{ email: string; code: string } | null>(null);
+  const [inviteCode, setInviteCode] = useState('');
+  const [message, setMessage] = useState<{ tone: 'error' | 'success', text: string } | null>(null);
+
+  const canManage = !!project && projectAccess.canManageMembers(role);
+  const members = project?.members || [];
 
   const permissions = [
     {
@@ -40,87 +44,205 @@ const CollaborationPanel: React.FC<CollaborationPanelProps> = ({ onClose }) => {
     }
   ];
 
-  const handleInvite = () => {
-    if (!email) return;
-    setIsSending(true);
-    setTimeout(() => {
-      setIsSending(false);
-      onClose();
-    }, 1500);
+  const handleInvite = async () => {
+    if (!project || !/^\S+@\S+\.\S+$/.test(email.trim())) {
+      setMessage({ tone: 'error', text: '請輸入有效的電子郵件' });
+      return;
+    }
+    const { project: updated, member, code } = await projectAccess.invite(project, email, level);
+    onUpdateProject(updated);
+    setIssued(code ? { email: member.email, code } : null);
+    setMessage(code ? null : { tone: 'success', text: `已將 ${member.email} 的權限改為${ROLE_LABELS[level]}` });
+    setEmail('');
+  };
+
+  const handleCopy = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setMessage({ tone: 'success', text: '邀請碼已複製' });
+    } catch {
+      setMessage({ tone: 'error', text: '無法存取剪貼簿，請手動複製邀請碼' });
+    }
+  };
+
+  // 專案只保存邀請碼的雜湊，遺失邀請碼時重新產生，舊的邀請碼隨之失效
+  const handleReissue = async (member: ProjectMember) => {
+    if (!project) return;
+    const { project: updated, code } = await projectAccess.reissue(project, member.id);
+    onUpdateProject(updated);
+    setIssued({ email: member.email, code });
+    setMessage(null);
+  };
+
+  const handleRevoke = (member: ProjectMember) => {
+    if (!project) return;
+    const action = member.status === 'PENDING' ? '取消對' : '移除';
+    if (!window.confirm(`確定要${action} ${member.email} 的協作權限嗎？`)) return;
+    onUpdateProject(projectAccess.revoke(project, member.id));
+    if (issued?.email === member.email) setIssued(null);
+  };
+
+  const handleAccept = async () => {
+    setMessage(null);
+    try {
+      await onAcceptInvite(inviteCode);
+      setInviteCode('');
+      setMessage({ tone: 'success', text: '已加入協作專案' });
+    } catch (e) {
+      setMessage({ tone: 'error', text: e instanceof InviteError ? e.message : '接受邀請失敗' });
+    }
   };
 
   return (
     <div className="fixed inset-0 z-[1000] flex items-end sm:items-center justify-center animate-in fade-in duration-300">
       <div className="absolute inset-0 bg-black/80 backdrop-blur-md" onClick={onClose} />
-      
+
       <div className="relative w-full max-w-lg bg-[#1C1C1E] rounded-t-[44px] sm:rounded-[44px] p-8 sm:p-10 flex flex-col space-y-10 animate-in slide-in-from-bottom duration-500 overflow-y-auto max-h-[90vh]">
         <div className="flex justify-between items-center">
            <div>
-             <h2 className="text-2xl font-black tracking-tight text-white">協作邀請</h2>
-             <p className="text-[10px] font-black text-[#8E8E93] uppercase tracking-[0.2em] mt-1">INVITE CO-AUTHORS</p>
+             <h2 className="text-2xl font-black tracking-tight text-white">{canManage ? '協作邀請' : '協作成員'}</h2>
+             <p className="text-[10px] font-black text-[#8E8E93] uppercase tracking-[0.2em] mt-1">
+               {project ? `${project.name} · 您的身分：${ROLE_LABELS[role]}` : 'INVITE CO-AUTHORS'}
+             </p>
            </div>
            <button onClick={onClose} className="w-12 h-12 rounded-full flex items-center justify-center text-gray-500 hover:bg-white/5">
              <i className="fa-solid fa-xmark text-xl"></i>
            </button>
         </div>
 
-        {/* Email Input */}
-        <div className="space-y-4">
-           <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest px-1">電子郵件帳號</label>
-           <div className="relative">
-             <input 
-                type="email"
-                value={email}
-                onChange={e => setEmail(e.target.value)}
-                placeholder="author@inspublish.com" 
-                className="w-full bg-white/5 border border-white/10 h-16 px-6 rounded-2xl text-lg font-bold outline-none focus:border-blue-500 transition-all text-white"
-             />
-             <i className="fa-solid fa-envelope absolute right-6 top-1/2 -translate-y-1/2 text-gray-600"></i>
-           </div>
-        </div>
+        {canManage && (
+          <>
+            {/* Email Input */}
+            <div className="space-y-4">
+               <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest px-1">電子郵件帳號</label>
+               <div className="relative">
+                 <input
+                    type="email"
+                    value={email}
+                    onChange={e => setEmail(e.target.value)}
+                    placeholder="author@inspublish.com"
+                    className="w-full bg-white/5 border border-white/10 h-16 px-6 rounded-2xl text-lg font-bold outline-none focus:border-blue-500 transition-all text-white"
+                 />
+                 <i className="fa-solid fa-envelope absolute right-6 top-1/2 -translate-y-1/2 text-gray-600"></i>
+               </div>
+            </div>
 
-        {/* Permission Grid */}
-        <div className="space-y-4">
-           <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest px-1">權限等級</label>
-           <div className="grid grid-cols-1 gap-3">
-              {permissions.map((p) => (
-                 <button 
-                    key={p.id}
-                    onClick={() => setLevel(p.id)}
-                    className={`group relative p-6 rounded-3xl border transition-all text-left flex items-center space-x-5 ${level === p.id ? 'bg-[#7b61ff] border-[#7b61ff] shadow-lg shadow-purple-900/20' : 'bg-white/5 border-white/5'}`}
-                 >
-                    <div className={`w-12 h-12 rounded-2xl flex items-center justify-center text-xl transition-colors ${level === p.id ? 'bg-white text-[#7b61ff]' : p.color.split(' ')[0] + ' ' + p.color.split(' ')[1]}`}>
-                       <i className={`fa-solid ${p.icon}`}></i>
-                    </div>
-                    <div>
-                       <h3 className={`font-bold transition-colors ${level === p.id ? 'text-white' : 'text-gray-200'}`}>{p.label}</h3>
-                       <p className={`text-[10px] font-medium transition-colors ${level === p.id ? 'text-white/70' : 'text-gray-500'}`}>{p.sub}</p>
+            {/* Permission Grid */}
+            <div className="space-y-4">
+               <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest px-1">權限等級</label>
+               <div className="grid grid-cols-1 gap-3">
+                  {permissions.map((p) => (
+                     <button
+                        key={p.id}
+                        onClick={() => setLevel(p.id)}
+                        className={`group relative p-6 rounded-3xl border transition-all text-left flex items-center space-x-5 ${level === p.id ? 'bg-[#7b61ff] border-[#7b61ff] shadow-lg shadow-purple-900/20' : 'bg-white/5 border-white/5'}`}
+                     >
+                        <div className={`w-12 h-12 rounded-2xl flex items-center justify-center text-xl transition-colors ${level === p.id ? 'bg-white text-[#7b61ff]' : p.color.split(' ')[0] + ' ' + p.color.split(' ')[1]}`}>
+                           <i className={`fa-solid ${p.icon}`}></i>
+                        </div>
+                        <div>
+                           <h3 className={`font-bold transition-colors ${level === p.id ? 'text-white' : 'text-gray-200'}`}>{p.label}</h3>
+                           <p className={`text-[10px] font-medium transition-colors ${level === p.id ? 'text-white/70' : 'text-gray-500'}`}>{p.sub}</p>
+                        </div>
+                        {level === p.id && (
+                           <div className="absolute right-6 w-6 h-6 bg-white rounded-full flex items-center justify-center">
+                             <i className="fa-solid fa-check text-[#7b61ff] text-[10px]"></i>
+                           </div>
+                        )}
+                     </button>
+                  ))}
+               </div>
+            </div>
+
+            <button
+               onClick={handleInvite}
+               disabled={!email}
+               className={`w-full py-6 rounded-[30px] text-white font-black text-sm uppercase tracking-[0.2em] shadow-xl transition-all flex items-center justify-center space-x-3 ${!email ? 'bg-gray-700 cursor-not-allowed' : 'bg-blue-600 active:scale-95'}`}
+            >
+               <i className="fa-solid fa-paper-plane text-xs"></i>
+               <span>建立協作邀請</span>
+            </button>
+
+            {issued && (
+              <div className="p-6 rounded-3xl bg-blue-600/10 border border-blue-500/30 space-y-3 animate-in fade-in duration-300">
+                <p className="text-[10px] font-black text-blue-400 uppercase tracking-widest">將此邀請碼傳給 {issued.email}</p>
+                <div className="flex items-center space-x-3">
+                  <code className="flex-1 min-w-0 truncate text-[12px] font-mono text-white bg-black/40 px-4 py-3 rounded-xl">{issued.code}</code>
+                  <button onClick={() => handleCopy(issued.code)} className="w-11 h-11 rounded-xl bg-white/10 flex items-center justify-center text-white shrink-0">
+                    <i className="fa-regular fa-copy"></i>
+                  </button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+
+        {/* Members */}
+        {project && members.length > 0 && (
+          <div className="space-y-4">
+            <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest px-1">成員 MEMBERS</label>
+            <div className="space-y-2">
+              {members.map(member => (
+                <div key={member.id} className="flex items-center justify-between p-4 rounded-2xl bg-white/5">
+                  <div className="min-w-0">
+                    <p className="text-[14px] font-bold text-white truncate">{member.email}</p>
+                    <p className="text-[9px] font-black text-gray-500 uppercase tracking-widest mt-0.5">
+                      {member.status === 'PENDING' ? '等待接受 PENDING' : `已加入 ${new Date(member.acceptedAt || member.invitedAt).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  {canManage ? (
+                    <div className="flex items-center space-x-2 shrink-0 ml-3">
+                      {member.status === 'PENDING' && (
+                        <button onClick={() => handleReissue(member)} title="重新產生邀請碼" className="w-9 h-9 rounded-xl bg-white/5 text-gray-400 hover:text-white">
+                          <i className="fa-solid fa-rotate text-xs"></i>
+                        </button>
+                      )}
+                      <select
+                        value={member.role}
+                        onChange={e => onUpdateProject(projectAccess.changeRole(project, member.id, e.target.value as PermissionLevel))}
+                        className="bg-black/40 border border-white/10 rounded-xl px-3 h-9 text-[11px] font-black text-white outline-none"
+                      >
+                        {permissions.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                      </select>
+                      <button onClick={() => handleRevoke(member)} title="撤銷" className="w-9 h-9 rounded-xl bg-red-500/10 text-red-500 hover:bg-red-500/20">
+                        <i className="fa-solid fa-user-xmark text-xs"></i>
+                      </button>
                     </div>
-                    {level === p.id && (
-                       <div className="absolute right-6 w-6 h-6 bg-white rounded-full flex items-center justify-center">
-                         <i className="fa-solid fa-check text-[#7b61ff] text-[10px]"></i>
-                       </div>
-                    )}
-                 </button>
+                  ) : (
+                    <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest shrink-0 ml-3">{ROLE_LABELS[member.role]}</span>
+                  )}
+                </div>
               ))}
+            </div>
+          </div>
+        )}
+
+        {/* Accept Invite */}
+        <div className="space-y-4">
+           <label className="text-[10px] font-black text-gray-500 uppercase tracking-widest px-1">接受邀請 ACCEPT INVITE</label>
+           <div className="flex items-center space-x-3">
+             <input
+               value={inviteCode}
+               onChange={e => setInviteCode(e.target.value)}
+               placeholder="貼上邀請碼"
+               className="flex-1 min-w-0 bg-white/5 border border-white/10 h-14 px-5 rounded-2xl text-[13px] font-mono outline-none focus:border-blue-500 transition-all text-white"
+             />
+             <button
+               onClick={handleAccept}
+               disabled={!inviteCode.trim()}
+               className="h-14 px-6 rounded-2xl bg-white text-black text-[11px] font-black uppercase tracking-widest disabled:opacity-30 shrink-0"
+             >
+               加入
+             </button>
            </div>
         </div>
 
-        <button 
-           onClick={handleInvite}
-           disabled={!email || isSending}
-           className={`w-full py-6 rounded-[30px] text-white font-black text-sm uppercase tracking-[0.2em] shadow-xl transition-all flex items-center justify-center space-x-3 ${!email || isSending ? 'bg-gray-700 cursor-not-allowed' : 'bg-blue-600 active:scale-95'}`}
-        >
-           {isSending ? (
-             <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-           ) : (
-             <i className="fa-solid fa-paper-plane text-xs"></i>
-           )}
-           <span>{isSending ? '正在傳送...' : '發送協作邀請'}</span>
-        </button>
-        
+        {message && (
+          <p className={`text-[12px] font-black text-center ${message.tone === 'error' ? 'text-red-400' : 'text-[#D4FF5F]'}`}>{message.text}</p>
+        )}
+
         <p className="text-center text-[9px] text-gray-600 uppercase font-black tracking-widest pb-4">
-           成員將會收到一封包含專案存取連結的電子郵件
+           成員以邀請碼加入，撤銷或變更權限會隨專案同步生效
         </p>
       </div>
     </div>
@@ -6,6 +6,8 @@ import { Project, CoverAssetType, CoverAsset } from '../types';
 import { geminiService, COVER_SPECS } from '../services/geminiService';
 import TypographyLayer from './TypographyLayer';
 import SpineGenerator from './SpineGenerator';
+import AssetImage from './AssetImage';
+import { assetStore } from '../services/assetStore';
 
 interface CoverManagementModalProps {
   project: Project;
@@ -79,12 +81,14 @@ const CoverManagementModal: React.FC<CoverManagementModalProps> = ({ project, on
   const processNewAsset = async (url: string, source: 'AI' | 'UPLOAD') => {
     const { isCompliant, report } = await geminiService.checkCoverCompliance(url, selectedType);
     const spec = COVER_SPECS[selectedType];
+    const ref = await assetStore.putDataUrl(url);
     
     const oldAsset = currentAssets[selectedType];
     const history = oldAsset ? [oldAsset, ...(oldAsset.history || [])].slice(0, 10) : [];
 
     const newAsset: CoverAsset = {
-      url,
+      ref,
+      mimeType: 'image/jpeg',
       type: selectedType,
       width: spec.width,
       height: spec.height,
@@ -239,7 +243,7 @@ const CoverManagementModal: React.FC<CoverManagementModalProps> = ({ project, on
                   
                   <div className="relative aspect-[3/4] bg-black rounded-[44px] border border-white/5 overflow-hidden flex items-center justify-center group shadow-inner">
                     {currentAsset ? (
-                      <img src={currentAsset.url} className="w-full h-full object-cover animate-in zoom-in duration-700" alt="Preview" />
+                      <AssetImage assetRef={currentAsset.ref} className="w-full h-full object-cover animate-in zoom-in duration-700" alt="Preview" />
                     ) : (
                       <div className="text-center space-y-4 opacity-20">
                          <ImageIcon className="w-16 h-16 mx-auto" />
@@ -269,7 +273,7 @@ const CoverManagementModal: React.FC<CoverManagementModalProps> = ({ project, on
                       
                       <div className="relative aspect-[3/4] w-full bg-[#1A1A1B] rounded-[24px] border border-white/10 overflow-hidden shadow-inner flex items-end justify-end p-6">
                          <div className="bg-white p-3 rounded-lg shadow-2xl flex flex-col items-center max-w-[120px] animate-in zoom-in duration-1000 delay-300">
-                            <img src={barcodeAsset.url} alt="ISBN Barcode" className="h-10 object-contain" />
+                            <AssetImage assetRef={barcodeAsset.ref} alt="ISBN Barcode" className="h-10 object-contain" />
                             <p className="text-[8px] font-black text-black tracking-[0.1em] mt-1 font-mono">ISBN {project.publishingPayload?.isbn13}</p>
                          </div>
                          
@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { driveBackupService, DriveBackupEntry, DriveAuthError } from '../services/driveBackupService';
+import { DriveRevision } from '../services/googleDriveService';
+import { LibraryArchiveError } from '../services/libraryArchive';
+
+interface DriveBackupBrowserProps {
+  backupFolder: string;
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+const formatSize = (size?: string) => {
+  const bytes = Number(size);
+  if (!bytes) return '';
+  return bytes >= 1048576 ? `${(bytes / 1048576).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+};
+
+const DriveBackupBrowser: React.FC<DriveBackupBrowserProps> = ({ backupFolder, onClose, onRestored }) => {
+  const [entries, setEntries] = useState<DriveBackupEntry[] | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [versions, setVersions] = useState<Record<string, DriveRevision[]>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [needsAuth, setNeedsAuth] = useState(false);
+  const [message, setMessage] = useState<{ tone: 'error' | 'success', text: string } | null>(null);
+
+  const handleError = (e: unknown, fallback: string) => {
+    console.error('[Backup]', fallback, e);
+    if (e instanceof DriveAuthError) setNeedsAuth(true);
+    setMessage({ tone: 'error', text: e instanceof DriveAuthError || e instanceof LibraryArchiveError ? e.message : fallback });
+  };
+
+  const loadEntries = () => {
+    setMessage(null);
+    driveBackupService.listBackups(backupFolder)
+      .then(list => {
+        setNeedsAuth(false);
+        setEntries(list);
+      })
+      .catch(e => {
+        handleError(e, '無法讀取雲端備份');
+        setEntries([]);
+      });
+  };
+
+  useEffect(loadEntries, [backupFolder]);
+
+  const handleAuthorize = async () => {
+    try {
+      await driveBackupService.connect();
+      loadEntries();
+    } catch (e) {
+      handleError(e, 'Google Drive 授權失敗');
+    }
+  };
+
+  const handleExpand = async (entry: DriveBackupEntry) => {
+    if (expandedId === entry.fileId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(entry.fileId);
+    if (versions[entry.fileId]) return;
+    try {
+      const list = await driveBackupService.listVersions(entry.fileId);
+      setVersions(prev => ({ ...prev, [entry.fileId]: list }));
+    } catch (e) {
+      handleError(e, '無法讀取備份版本');
+    }
+  };
+
+  const handleRestore = async (entry: DriveBackupEntry, revision: DriveRevision) => {
+    const time = new Date(revision.modifiedTime).toLocaleString();
+    if (!window.confirm(`將以 ${time} 的備份取代本機的「${entry.projectName}」（含章節與快照歷史）。確定要還原嗎？`)) return;
+    setBusyId(revision.id);
+    setMessage(null);
+    try {
+      await driveBackupService.restore(entry.fileId, revision.id);
+      setMessage({ tone: 'success', text: `已還原「${entry.projectName}」至 ${time} 的版本` });
+      onRestored();
+    } catch (e) {
+      handleError(e, '還原失敗，本機資料未變更');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[6500] flex items-end sm:items-center justify-center animate-in fade-in duration-300">
+      <div className="absolute inset-0 bg-black/90 backdrop-blur-xl" onClick={busyId ? undefined : onClose} />
+
+      <div className="relative w-full max-w-xl bg-[#1C1C1E] rounded-t-[44px] sm:rounded-[44px] border border-white/5 shadow-3xl flex flex-col max-h-[92vh] animate-in slide-in-from-bottom duration-500">
+        <header className="p-8 sm:p-10 border-b border-white/5 flex items-center justify-between shrink-0">
+          <div className="min-w-0">
+            <h2 className="text-2xl font-black text-white tracking-tight">雲端備份版本</h2>
+            <p className="text-[10px] font-black text-[#8E8E93] uppercase tracking-[0.2em] mt-1 truncate">GOOGLE DRIVE · {backupFolder}</p>
+          </div>
+          <button onClick={onClose} disabled={!!busyId} className="w-10 h-10 rounded-full bg-white/5 flex items-center justify-center text-gray-500 hover:text-white transition-colors disabled:opacity-30 shrink-0">
+            <i className="fa-solid fa-xmark"></i>
+          </button>
+        </header>
+
+        <main className="flex-1 overflow-y-auto no-scrollbar p-6 sm:p-8 space-y-3">
+          {entries === null && (
+            <p className="text-center py-16 text-[11px] font-black text-gray-600 uppercase tracking-widest">載入中...</p>
+          )}
+          {needsAuth && (
+            <button
+              onClick={handleAuthorize}
+              className="w-full py-4 rounded-[24px] bg-blue-600 text-white font-black text-[11px] uppercase tracking-[0.3em]"
+            >
+              重新授權 GOOGLE DRIVE
+            </button>
+          )}
+          {entries?.length === 0 && !needsAuth && (
+            <div className="flex flex-col items-center py-16 space-y-4 text-gray-600">
+              <i className="fa-brands fa-google-drive text-3xl opacity-40"></i>
+              <p className="text-[11px] font-black uppercase tracking-widest">尚無雲端備份 NO BACKUPS</p>
+            </div>
+          )}
+          {entries?.map(entry => (
+            <div key={entry.fileId} className="rounded-[28px] bg-black/30 border border-white/5 overflow-hidden">
+              <button onClick={() => handleExpand(entry)} className="w-full flex items-center justify-between p-5 text-left">
+                <div className="min-w-0">
+                  <h4 className="text-[15px] font-black text-white truncate">{entry.projectName}</h4>
+                  <p className="text-[10px] font-black text-gray-600 uppercase tracking-widest mt-1">
+                    {entry.modifiedTime ? new Date(entry.modifiedTime).toLocaleString() : ''}
+                    {entry.isEncrypted && <><i className="fa-solid fa-lock text-[#D4FF5F]/70 ml-2 mr-1"></i>已加密</>}
+                  </p>
+                </div>
+                <i className={`fa-solid fa-chevron-down text-[10px] text-gray-600 transition-transform ${expandedId === entry.fileId ? 'rotate-180' : ''}`}></i>
+              </button>
+              {expandedId === entry.fileId && (
+                <div className="px-5 pb-5 space-y-2 animate-in fade-in duration-300">
+                  {!versions[entry.fileId] && (
+                    <p className="text-[10px] font-black text-gray-600 uppercase tracking-widest py-2">讀取版本中...</p>
+                  )}
+                  {versions[entry.fileId]?.map((revision, i) => (
+                    <div key={revision.id} className="flex items-center justify-between p-3 rounded-2xl bg-white/5">
+                      <div className="min-w-0">
+                        <p className="text-[12px] font-black text-slate-300 font-mono">{new Date(revision.modifiedTime).toLocaleString()}</p>
+                        <p className="text-[9px] font-black text-gray-600 uppercase tracking-widest mt-0.5">
+                          {i === 0 ? '最新 LATEST' : `版本 ${versions[entry.fileId].length - i}`}
+                          {revision.size ? ` · ${formatSize(revision.size)}` : ''}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handleRestore(entry, revision)}
+                        disabled={!!busyId}
+                        className="ml-4 px-4 py-2 rounded-xl bg-blue-600/10 text-blue-400 text-[10px] font-black uppercase tracking-widest hover:bg-blue-600 hover:text-white transition-all disabled:opacity-40 shrink-0"
+                      >
+                        {busyId === revision.id ? '還原中...' : '還原'}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+          {message && (
+            <p className={`text-[12px] font-black text-center pt-2 ${message.tone === 'error' ? 'text-red-400' : 'text-[#D4FF5F]'}`}>
+              {message.text}
+            </p>
+          )}
+        </main>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default DriveBackupBrowser;
@@ -1,36 +1,154 @@
-import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { Chapter, UIMode, OutlineNode, MembershipLevel } from '../types';
+import React, { useState, useEffect, useLayoutEffect, useRef, useMemo } from 'react';
+import { Chapter, ChapterComment, TrackedChange, UIMode, OutlineNode, MembershipLevel } from '../types';
 import { PLACEHOLDER_TEXT } from '../constants';
 import { marked } from 'marked';
 import AIPanel from './AIPanel';
+import { firebaseService, CollaborationPeer, CollaborationSession } from '../services/firebaseService';
+import { projectAccess, ProjectRole, ROLE_LABELS } from '../services/projectAccess';
+import { chapterComments } from '../services/chapterComments';
+import { trackChanges, ChangeSegment } from '../services/trackChanges';
+import { editHistory, HistoryState } from '../services/editHistory';
+import { footnotes } from '../services/footnotes';
+import { fountain } from '../services/fountain';
+import { citations, CitationContext } from '../services/citations';
+import ReferencePane, { ReferencePaneProps } from './ReferencePane';
 
 interface EditorProps {
+  projectId: string;
+  // 檢視者只看到預覽；評論者可選取文字但不能修改
+  role: ProjectRole;
   chapter: Chapter;
-  onUpdateContent: (content: string) => void;
+  // 帶 suggestions 時一併取代章節的修訂建議（修訂模式的編輯、接受與拒絕）
+  onUpdateContent: (content: string, suggestions?: TrackedChange[]) => void;
+  // 批註與協作在線狀態顯示的名稱
+  authorName: string;
+  onUpdateComments: (comments: ChapterComment[]) => void;
   uiMode: UIMode;
   onModeToggle: (mode: UIMode) => void;
   onOpenTimeline: () => void;
   onOpenCollaboration: () => void;
+  // 開啟專案的尋找與取代
+  onOpenReplace: () => void;
   isRestored?: boolean;
   onBack?: () => void;
   onUpdateOutline: (nodes: OutlineNode[]) => void;
   membership?: MembershipLevel;
+  // 搜尋結果定位：key 改變時選取並捲動至指定範圍
+  jumpTo?: { offset: number; length: number; key: number };
+  // 預覽中本章第一個註腳的編號（全書連續編號時接續前面的章節）
+  footnoteStart?: number;
+  // 劇本專案：以 Fountain 格式編輯，Enter 時整理格式，提供場景導覽與劇本排版預覽
+  screenplay?: boolean;
+  // 專案的參考文獻與引用格式：預覽時套用引用格式並列出本章引用的文獻，提供插入引用的側欄
+  citationContext?: CitationContext;
+  onOpenBibliography?: () => void;
+  // 分割檢視：在目前章節旁顯示另一章、研究筆記或版本快照；ratio 為並排時參考窗格所佔的寬度比例
+  splitView?: Omit<ReferencePaneProps, 'activeChapterId' | 'bodyRef'> & { ratio: number; onResize: (ratio: number) => void };
+  onToggleSplitView?: () => void;
 }
 
+/**
+ * 以鏡像元素量測 textarea 中指定位移的位置（textarea 本身無法取得游標座標）
+ */
+const measureOffset = (textarea: HTMLTextAreaElement, offset: number): { top: number; left: number } => {
+  const style = window.getComputedStyle(textarea);
+  const mirror = document.createElement('div');
+  ['font-family', 'font-size', 'font-weight', 'line-height', 'letter-spacing', 'padding-top', 'padding-left', 'padding-right', 'text-align', 'box-sizing']
+    .forEach(prop => mirror.style.setProperty(prop, style.getPropertyValue(prop)));
+  mirror.style.position = 'absolute';
+  mirror.style.visibility = 'hidden';
+  mirror.style.whiteSpace = 'pre-wrap';
+  mirror.style.wordWrap = 'break-word';
+  mirror.style.width = `${textarea.clientWidth}px`;
+  mirror.textContent = textarea.value.slice(0, offset);
+  const marker = document.createElement('span');
+  marker.textContent = '\u200b';
+  mirror.appendChild(marker);
+  document.body.appendChild(mirror);
+  const position = { top: marker.offsetTop, left: marker.offsetLeft };
+  document.body.removeChild(mirror);
+  return position;
+};
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Fountain 的強調標記：***粗斜體***、**粗體**、*斜體*、_底線_
+const fountainInline = (text: string) => escapeHtml(text)
+  .replace(/\*{3}(?=\S)(.+?)\*{3}/g, '<strong><em>$1</em></strong>')
+  .replace(/\*{2}(?=\S)(.+?)\*{2}/g, '<strong>$1</strong>')
+  .replace(/\*(?=\S)(.+?)\*/g, '<em>$1</em>')
+  .replace(/_(?=\S)(.+?)_/g, '<u>$1</u>')
+  .replace(/\n/g, '<br/>');
+
+/**
+ * 劇本預覽：依 Fountain 元素套用劇本版面（角色置中、對白內縮、轉場靠右）
+ */
+const screenplayHTML = (text: string) => fountain.parse(text).elements.map(element => {
+  const content = fountainInline(element.text);
+  switch (element.type) {
+    case 'SCENE_HEADING': return `<p class="mt-10 mb-4 font-bold">${content}</p>`;
+    case 'CHARACTER': return `<p class="mt-6 ml-[35%]">${content}</p>`;
+    case 'PARENTHETICAL': return `<p class="ml-[25%] mr-[30%]">${content}</p>`;
+    case 'DIALOGUE':
+    case 'LYRICS': return `<p class="ml-[17%] mr-[17%]">${content}</p>`;
+    case 'TRANSITION': return `<p class="my-6 text-right">${content}</p>`;
+    case 'CENTERED': return `<p class="my-6 text-center">${content}</p>`;
+    case 'PAGE_BREAK': return '<hr class="my-10 border-white/10" />';
+    case 'SECTION':
+    case 'SYNOPSIS': return `<p class="my-4 text-slate-500 italic">${content}</p>`;
+    default: return `<p class="my-4">${content}</p>`;
+  }
+}).join('');
+
+type ReviewFilter = 'UNRESOLVED' | 'ALL';
+type ReviewTab = 'COMMENTS' | 'CHANGES';
+
+/**
+ * 將內文切成連續片段，標示每段被哪些未解決的批註涵蓋（供 textarea 背後的螢光標記層使用）
+ */
+const highlightSegments = (text: string, comments: ChapterComment[]) => {
+  const ranges = comments
+    .filter(c => !c.resolved && !c.orphaned && c.anchor.end > c.anchor.start)
+    .map(c => ({ id: c.id, start: Math.min(c.anchor.start, text.length), end: Math.min(c.anchor.end, text.length) }));
+  const bounds = Array.from(new Set([0, text.length, ...ranges.flatMap(r => [r.start, r.end])])).sort((a, b) => a - b);
+  return bounds.slice(0, -1).map((start, i) => ({
+    text: text.slice(start, bounds[i + 1]),
+    ids: ranges.filter(r => r.start <= start && r.end >= bounds[i + 1]).map(r => r.id)
+  }));
+};
+
+// 並排時參考窗格可拖曳調整的寬度比例範圍
+const SPLIT_MIN = 0.25;
+const SPLIT_MAX = 0.65;
+
 const Editor: React.FC<EditorProps> = ({ 
+  projectId,
+  role,
   chapter, 
   onUpdateContent, 
+  authorName,
+  onUpdateComments,
   uiMode, 
   onModeToggle, 
   onOpenTimeline,
   onOpenCollaboration,
+  onOpenReplace,
   isRestored = false,
   onBack,
   onUpdateOutline,
-  membership = MembershipLevel.FREE
+  membership = MembershipLevel.FREE,
+  jumpTo,
+  footnoteStart = 1,
+  screenplay = false,
+  citationContext,
+  onOpenBibliography,
+  splitView,
+  onToggleSplitView
 }) => {
   const [content, setContent] = useState(chapter.content);
-  const [isPreviewMode, setIsPreviewMode] = useState(false);
+  const [previewToggle, setIsPreviewMode] = useState(false);
+  const canEdit = projectAccess.canEdit(role);
+  const isPreviewMode = previewToggle || !projectAccess.canComment(role);
   const [isAIPanelOpen, setIsAIPanelOpen] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
   
@@ -38,16 +156,143 @@ const Editor: React.FC<EditorProps> = ({
   const [isHeaderVisible, setIsHeaderVisible] = useState(true);
   const [isToolbarVisible, setIsToolbarVisible] = useState(true);
   const [scrollProgress, setScrollProgress] = useState(0);
+
+  // 協作：在線的其他作者與其游標位置
+  const [peers, setPeers] = useState<CollaborationPeer[]>([]);
+  const [cursorMarks, setCursorMarks] = useState<(CollaborationPeer & { top: number; left: number })[]>([]);
+  const sessionRef = useRef<CollaborationSession | null>(null);
+  // 遠端編輯套用後要還原的本機選取範圍
+  const pendingSelectionRef = useRef<{ anchor: number; head: number } | null>(null);
+
+  // 審閱：批註側欄、篩選與撰寫中的內容
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  const [isScenesOpen, setIsScenesOpen] = useState(false);
+  const [isCitationsOpen, setIsCitationsOpen] = useState(false);
+  const [citationQuery, setCitationQuery] = useState('');
+  const [reviewFilter, setReviewFilter] = useState<ReviewFilter>('UNRESOLVED');
+  const [selection, setSelection] = useState<{ start: number; end: number }>({ start: 0, end: 0 });
+  const [commentDraft, setCommentDraft] = useState('');
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
+  const [activeCommentId, setActiveCommentId] = useState<string | null>(null);
+  const comments = chapter.comments || [];
+  const canComment = projectAccess.canComment(role);
+
+  // 修訂模式：有待審閱的建議時以標記文字顯示，編輯者關閉修訂時的輸入直接改動原文
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [reviewTab, setReviewTab] = useState<ReviewTab>('COMMENTS');
+  const [markupCaret, setMarkupCaret] = useState<number | null>(null);
+  const suggestions = chapter.suggestions || [];
+  const showMarkup = isSuggesting || suggestions.length > 0;
+  const trackEdits = isSuggesting || !canEdit;
+  const changeSegments = useMemo(() => showMarkup ? trackChanges.segments(content, suggestions) : [], [showMarkup, content, suggestions]);
+  const textValue = showMarkup ? changeSegments.map(segment => segment.text).join('') : content;
+  const toTextOffset = (offset: number) => showMarkup ? trackChanges.toMarkupOffset(changeSegments, offset) : offset;
+  const toBaseOffset = (offset: number) => showMarkup ? trackChanges.toBaseOffset(changeSegments, offset) : offset;
+  // 修訂模式下按 Delete 鍵向後刪除，游標需越過保留的刪除線文字
+  const forwardDeleteRef = useRef(false);
+  const pendingCaretRef = useRef<number | null>(null);
   
   const touchStartRef = useRef<number | null>(null);
   const typingTimerRef = useRef<number | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const splitRef = useRef<HTMLDivElement>(null);
+  const paneBodyRef = useRef<HTMLDivElement>(null);
+  // 拖曳分隔線時的暫時比例，放開後才寫回設定
+  const [dragRatio, setDragRatio] = useState<number | null>(null);
+
+  // 上一次繪製時的章節狀態：章節內容在編輯器之外被改變（還原快照、其他分頁合併）時作為復原的一步
+  const committedRef = useRef({ chapterId: chapter.id, content: chapter.content, suggestions });
 
   useEffect(() => {
+    const committed = committedRef.current;
+    if (committed.chapterId === chapter.id && chapter.content !== content) {
+      editHistory.record(projectId, chapter.id, { content: committed.content, suggestions: committed.suggestions, caret: selection.start });
+    }
     setContent(chapter.content);
+    // 還原快照、AI 改寫等非輸入的變更也送入協作工作階段
+    firebaseService.syncToCloud(projectId, chapter.id, chapter.content);
   }, [chapter.content]);
 
+  useEffect(() => {
+    committedRef.current = { chapterId: chapter.id, content: chapter.content, suggestions };
+  });
+
+  useEffect(() => {
+    const session = firebaseService.onCollaborationUpdate(projectId, chapter.id, chapter.content, update => {
+      setPeers(update.peers);
+      if (!update.remote) return;
+      const textarea = textareaRef.current;
+      if (textarea && document.activeElement === textarea) {
+        pendingSelectionRef.current = update.cursor;
+      }
+      setContent(update.content);
+      onUpdateContent(update.content);
+    }, { name: authorName });
+    sessionRef.current = session;
+    return () => {
+      session.close();
+      sessionRef.current = null;
+      setPeers([]);
+    };
+  }, [projectId, chapter.id]);
+
+  // 遠端編輯改變文字後，依相對位置還原本機游標，避免游標跳到文末；修訂模式的編輯則還原至建議之後
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const caret = pendingCaretRef.current;
+    if (caret !== null) {
+      pendingCaretRef.current = null;
+      textarea.setSelectionRange(caret, caret);
+      setMarkupCaret(caret);
+      return;
+    }
+    const selection = pendingSelectionRef.current;
+    if (!selection) return;
+    pendingSelectionRef.current = null;
+    textarea.setSelectionRange(
+      toTextOffset(Math.min(selection.anchor, selection.head)),
+      toTextOffset(Math.max(selection.anchor, selection.head))
+    );
+  }, [textValue]);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea || isPreviewMode) {
+      setCursorMarks([]);
+      return;
+    }
+    textarea.style.height = 'auto';
+    textarea.style.height = `${textarea.scrollHeight}px`;
+    setCursorMarks(peers
+      .filter(peer => peer.cursor)
+      .map(peer => ({ ...peer, ...measureOffset(textarea, toTextOffset(Math.min(peer.cursor!.head, content.length))) })));
+  }, [peers, textValue, isPreviewMode]);
+
+  // 選取並捲動至指定範圍（搜尋結果與批註共用，位移以原文計）
+  const selectRange = (baseStart: number, baseEnd: number) => {
+    const textarea = textareaRef.current;
+    const container = containerRef.current;
+    if (!textarea || !container) return;
+    const start = toTextOffset(baseStart);
+    const end = toTextOffset(baseEnd);
+    textarea.style.height = 'auto';
+    textarea.style.height = `${textarea.scrollHeight}px`;
+    textarea.focus({ preventScroll: true });
+    textarea.setSelectionRange(start, end);
+    const top = textarea.getBoundingClientRect().top - container.getBoundingClientRect().top + container.scrollTop
+      + measureOffset(textarea, start).top;
+    container.scrollTo({ top: Math.max(0, top - container.clientHeight / 3), behavior: 'smooth' });
+  };
+
+  useEffect(() => {
+    if (!jumpTo) return;
+    setIsPreviewMode(false);
+    const frame = window.requestAnimationFrame(() => selectRange(jumpTo.offset, jumpTo.offset + jumpTo.length));
+    return () => window.cancelAnimationFrame(frame);
+  }, [jumpTo?.key]);
+
   // 監控捲動進度：僅在預覽/閱讀模式下啟用
   useEffect(() => {
     const handleScroll = () => {
@@ -61,15 +306,118 @@ const Editor: React.FC<EditorProps> = ({
     return () => ref?.removeEventListener('scroll', handleScroll);
   }, [isPreviewMode]);
 
+  // 同步捲動：以捲動比例對齊兩側，最後一個由使用者捲動的一側帶動另一側，避免互相觸發
+  const syncScroll = !!splitView?.syncScroll;
+  const paneSourceKey = splitView?.source ? JSON.stringify(splitView.source) : '';
+  useEffect(() => {
+    const main = containerRef.current;
+    const pane = paneBodyRef.current;
+    if (!syncScroll || !main || !pane) return;
+    let leader: HTMLElement | null = null;
+    let timer: number | undefined;
+    const follow = (from: HTMLElement, to: HTMLElement) => () => {
+      if (leader && leader !== from) return;
+      leader = from;
+      const ratio = from.scrollTop / Math.max(1, from.scrollHeight - from.clientHeight);
+      to.scrollTop = ratio * (to.scrollHeight - to.clientHeight);
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => { leader = null; }, 120);
+    };
+    const fromMain = follow(main, pane);
+    const fromPane = follow(pane, main);
+    main.addEventListener('scroll', fromMain);
+    pane.addEventListener('scroll', fromPane);
+    return () => {
+      window.clearTimeout(timer);
+      main.removeEventListener('scroll', fromMain);
+      pane.removeEventListener('scroll', fromPane);
+    };
+  }, [syncScroll, paneSourceKey, splitView?.layout, isPreviewMode]);
+
+  const handleResizeMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragRatio === null || !splitRef.current) return;
+    const rect = splitRef.current.getBoundingClientRect();
+    setDragRatio(Math.min(SPLIT_MAX, Math.max(SPLIT_MIN, (rect.right - e.clientX) / rect.width)));
+  };
+
+  const handleResizeEnd = () => {
+    if (dragRatio === null) return;
+    splitView?.onResize(dragRatio);
+    setDragRatio(null);
+  };
+
+  // 預覽時註腳引用換成上標連結，註腳內容列在章末；引用套用專案的引用格式，本章引用的文獻列在最後
   const renderedHTML = useMemo(() => {
     if (!isPreviewMode) return '';
-    return marked.parse(content || '');
-  }, [content, isPreviewMode]);
+    if (screenplay) return screenplayHTML(content || '');
+    const source = citationContext ? citations.render(content || '', citationContext) : content || '';
+    const notes = footnotes.ofChapter(source, footnoteStart);
+    const body = footnotes.inline(source, notes, number =>
+      `<sup><a href="#fn-${number}" id="fnref-${number}" class="text-[#D4FF5F] no-underline">${number}</a></sup>`
+    );
+    const items = notes.notes.map(note =>
+      `<li id="fn-${note.number}" value="${note.number}">${marked.parseInline(note.text)} <a href="#fnref-${note.number}" class="text-[#D4FF5F] no-underline">↩</a></li>`
+    ).join('');
+    const noteSection = items ? `<section class="mt-16 pt-8 border-t border-white/10 text-[0.8em] leading-relaxed text-slate-400"><ol class="list-decimal pl-6 space-y-2">${items}</ol></section>` : '';
+    const references = citationContext
+      ? citations.bibliography(citationContext, citations.parse(content || '').flatMap(c => c.items.map(item => item.key)))
+      : null;
+    const referenceSection = references && references.entries.length > 0
+      ? `<section class="mt-16 pt-8 border-t border-white/10 text-[0.85em] leading-relaxed text-slate-300"><h2>${escapeHtml(references.heading)}</h2>${references.entries.map(entry => `<p class="pl-8 -indent-8">${citations.html(entry)}</p>`).join('')}</section>`
+      : '';
+    return `${marked.parse(body)}${noteSection}${referenceSection}`;
+  }, [content, isPreviewMode, footnoteStart, screenplay, citationContext]);
+
+  // 引用側欄：依引用鍵、標題或作者篩選參考文獻
+  const citationEntries = useMemo(() => {
+    if (!citationContext || !isCitationsOpen) return [];
+    const query = citationQuery.trim().toLowerCase();
+    return [...citationContext.entries.values()].filter(entry => !query || [
+      entry.id,
+      entry.title || '',
+      ...(entry.author || []).map(name => `${name.family || ''} ${name.given || ''} ${name.literal || ''}`)
+    ].some(text => text.toLowerCase().includes(query)));
+  }, [citationContext, isCitationsOpen, citationQuery]);
+
+  const scenes = useMemo(() => screenplay && isScenesOpen ? fountain.scenes(content) : [], [screenplay, isScenesOpen, content]);
+
+  const handleOpenScene = (start: number, end: number) => {
+    setIsPreviewMode(false);
+    window.requestAnimationFrame(() => selectRange(start, end));
+  };
+
+  // 目前狀態，作為復原紀錄的一步
+  const historyState = (): HistoryState => ({ content, suggestions, caret: selection.start });
+
+  // 連續輸入同一種編輯（插入或刪除、是否為修訂）合併為一步，換行另起一步
+  const typingGroup = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const next = e.target.value;
+    if (next.length === textValue.length || next[e.target.selectionStart - 1] === '\n') return null;
+    return `${trackEdits && showMarkup ? 'suggest' : 'edit'}:${next.length > textValue.length ? 'insert' : 'delete'}`;
+  };
 
   const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    const newContent = e.target.value;
-    setContent(newContent);
-    onUpdateContent(newContent);
+    if (showMarkup) {
+      if (!canEdit && !isSuggesting) return;
+      const result = trackChanges.edit(content, suggestions, e.target.value, authorName, { track: trackEdits, forward: forwardDeleteRef.current });
+      if (trackChanges.markupText(result.content, result.changes) === textValue) {
+        // 例如刪除已標記刪除的文字：內容不變，React 還原 textarea 後只需移動游標
+        const textarea = e.target;
+        window.requestAnimationFrame(() => textarea.setSelectionRange(result.caret, result.caret));
+        return;
+      }
+      editHistory.record(projectId, chapter.id, historyState(), typingGroup(e));
+      pendingCaretRef.current = result.caret;
+      applyTracked(result);
+    } else {
+      if (!canEdit) return;
+      const newContent = e.target.value;
+      editHistory.record(projectId, chapter.id, historyState(), typingGroup(e));
+      setContent(newContent);
+      onUpdateContent(newContent);
+      firebaseService.syncToCloud(projectId, chapter.id, newContent);
+      sessionRef.current?.setCursor(e.target.selectionStart, e.target.selectionEnd);
+    }
     
     // 進入書寫狀態：偵測到輸入即刻關閉所有 UI
     if (!isTyping) {
@@ -87,12 +435,170 @@ const Editor: React.FC<EditorProps> = ({
     e.target.style.height = `${e.target.scrollHeight}px`;
   };
 
+  // 原文或建議變更後寫回章節；原文有變動時才送入協作工作階段
+  const applyTracked = (result: { content: string; changes: TrackedChange[] }) => {
+    if (result.content !== content) {
+      setContent(result.content);
+      firebaseService.syncToCloud(projectId, chapter.id, result.content);
+    }
+    onUpdateContent(result.content, result.changes);
+  };
+
+  const handleSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    const start = toBaseOffset(selectionStart);
+    const end = toBaseOffset(selectionEnd);
+    sessionRef.current?.setCursor(start, end);
+    setSelection({ start, end });
+    setMarkupCaret(showMarkup && selectionStart === selectionEnd ? selectionStart : null);
+  };
+
+  // 游標所在的建議（標記文字中的範圍），供行內的接受/拒絕按鈕定位
+  const activeChange = useMemo(() => {
+    if (markupCaret === null || !showMarkup) return null;
+    let offset = 0;
+    for (const segment of changeSegments) {
+      const end = offset + segment.text.length;
+      if (segment.kind !== 'base' && markupCaret >= offset && markupCaret <= end) return { change: segment.change, end };
+      offset = end;
+    }
+    return null;
+  }, [markupCaret, changeSegments, showMarkup]);
+
+  const [changeChip, setChangeChip] = useState<{ top: number; left: number } | null>(null);
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    setChangeChip(activeChange && textarea ? measureOffset(textarea, activeChange.end) : null);
+  }, [activeChange]);
+
+  const handleSettle = (id: string | null, accept: boolean) => {
+    editHistory.record(projectId, chapter.id, historyState());
+    const result = id
+      ? (accept ? trackChanges.accept : trackChanges.reject)(content, suggestions, id)
+      : (accept ? trackChanges.acceptAll : trackChanges.rejectAll)(content, suggestions);
+    applyTracked(result);
+    setMarkupCaret(null);
+  };
+
+  const visibleComments = useMemo(() => comments
+    .filter(c => reviewFilter === 'ALL' || !c.resolved)
+    .sort((a, b) => Number(!!a.orphaned) - Number(!!b.orphaned) || a.anchor.start - b.anchor.start || a.createdAt - b.createdAt),
+    [comments, reviewFilter]);
+
+  const segments = useMemo(() => showMarkup ? [] : highlightSegments(content, comments), [showMarkup, content, comments]);
+
+  const handleAddComment = () => {
+    if (!canComment || selection.end <= selection.start || !commentDraft.trim()) return;
+    const comment = chapterComments.create(content, selection.start, selection.end, authorName, commentDraft);
+    onUpdateComments([...comments, comment]);
+    setCommentDraft('');
+    setActiveCommentId(comment.id);
+  };
+
+  const handleReply = (id: string) => {
+    const draft = replyDrafts[id]?.trim();
+    if (!draft) return;
+    onUpdateComments(chapterComments.reply(comments, id, authorName, draft));
+    setReplyDrafts(prev => ({ ...prev, [id]: '' }));
+  };
+
+  const handleDeleteComment = (id: string) => {
+    if (!window.confirm('確定要刪除這則批註與其所有回覆嗎？')) return;
+    onUpdateComments(chapterComments.remove(comments, id));
+  };
+
+  const handleFocusComment = (comment: ChapterComment) => {
+    setActiveCommentId(comment.id);
+    if (comment.orphaned) return;
+    setIsPreviewMode(false);
+    window.requestAnimationFrame(() => selectRange(comment.anchor.start, comment.anchor.end));
+  };
+
   const handleUpdateFromAI = (newContent: string) => {
+    editHistory.record(projectId, chapter.id, historyState());
     setContent(newContent);
     onUpdateContent(newContent);
   };
 
+  // 套用復原或重做取出的狀態，游標移回該步編輯的位置
+  const applyHistoryState = (state: HistoryState) => {
+    if (state.content !== content) {
+      setContent(state.content);
+      firebaseService.syncToCloud(projectId, chapter.id, state.content);
+    }
+    onUpdateContent(state.content, state.suggestions);
+    if (document.activeElement === textareaRef.current) {
+      pendingSelectionRef.current = { anchor: state.caret, head: state.caret };
+    }
+  };
+
+  const canUndo = canEdit && editHistory.canUndo(projectId, chapter.id);
+  const canRedo = canEdit && editHistory.canRedo(projectId, chapter.id);
+
+  const handleUndo = () => {
+    if (!canUndo) return;
+    const state = editHistory.undo(projectId, chapter.id, historyState());
+    if (state) applyHistoryState(state);
+  };
+
+  const handleRedo = () => {
+    if (!canRedo) return;
+    const state = editHistory.redo(projectId, chapter.id, historyState());
+    if (state) applyHistoryState(state);
+  };
+
+  // 劇本模式按 Enter 時整理目前這一行的 Fountain 格式（修訂標記顯示中時維持一般換行）
+  const handleScreenplayEnter = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    if (selectionStart !== selectionEnd) return;
+    const formatted = fountain.formatOnEnter(content, selectionStart);
+    if (!formatted) return;
+    e.preventDefault();
+    editHistory.record(projectId, chapter.id, historyState());
+    pendingCaretRef.current = formatted.caret;
+    setContent(formatted.text);
+    onUpdateContent(formatted.text);
+    firebaseService.syncToCloud(projectId, chapter.id, formatted.text);
+  };
+
+  // 在游標處插入引用；修訂標記顯示中或沒有編輯權限時不插入
+  const handleInsertCitation = (key: string) => {
+    if (!canEdit || showMarkup) return;
+    const citation = `[@${key}]`;
+    const next = content.slice(0, selection.start) + citation + content.slice(selection.end);
+    editHistory.record(projectId, chapter.id, historyState());
+    pendingCaretRef.current = selection.start + citation.length;
+    setContent(next);
+    onUpdateContent(next);
+    firebaseService.syncToCloud(projectId, chapter.id, next);
+    setIsPreviewMode(false);
+    textareaRef.current?.focus();
+  };
+
+  // 攔截瀏覽器原生的復原，改用章節的復原紀錄
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    forwardDeleteRef.current = e.key === 'Delete';
+    if (e.key.startsWith('Arrow')) editHistory.seal(projectId, chapter.id);
+    if (screenplay && e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing && canEdit && !showMarkup) {
+      handleScreenplayEnter(e);
+      return;
+    }
+    if (!(e.metaKey || e.ctrlKey) || e.altKey) return;
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      handleUndo();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+      e.preventDefault();
+      handleRedo();
+    }
+  };
+
   const isImmersive = uiMode === UIMode.FOCUS || isPreviewMode;
+  // textarea 與批註標記層共用的排版，兩者的換行位置才會一致
+  const textareaTypography = isImmersive
+    ? 'px-2 text-center text-lg sm:text-xl leading-[2.3] sm:leading-[2.6]'
+    : 'text-lg sm:text-xl leading-[2.2] sm:leading-[2.4]';
 
   // 線性操作：切換至預覽模式
   const handleTogglePreview = () => {
@@ -145,9 +651,12 @@ const Editor: React.FC<EditorProps> = ({
     }
   };
 
+  // 劇本以等寬字型編輯，對齊 Fountain 的純文字排版
+  const editorFont = screenplay ? 'font-mono' : 'font-serif-editor';
+
   const toolbarActions = [
-    { icon: 'fa-rotate-left', action: () => document.execCommand('undo') },
-    { icon: 'fa-rotate-right', action: () => document.execCommand('redo') },
+    { icon: 'fa-rotate-left', action: handleUndo, disabled: !canUndo },
+    { icon: 'fa-rotate-right', action: handleRedo, disabled: !canRedo },
     { separator: true },
     { icon: 'fa-bold', action: () => {} },
     { icon: 'fa-italic', action: () => {} },
@@ -188,7 +697,33 @@ const Editor: React.FC<EditorProps> = ({
           </div>
 
           <div className="flex items-center space-x-2">
-            <div className="flex bg-white/5 rounded-xl p-1 border border-white/10">
+            <button onClick={onOpenCollaboration} className="h-10 px-2 rounded-full flex items-center text-[#8E8E93]" title="協作">
+              {peers.length > 0 ? (
+                <div className="flex -space-x-2">
+                  {peers.slice(0, 3).map(peer => (
+                    <span
+                      key={peer.id}
+                      title={peer.name}
+                      className="w-7 h-7 rounded-full border-2 border-[#0F0F10] flex items-center justify-center text-[10px] font-black text-black"
+                      style={{ backgroundColor: peer.color }}
+                    >
+                      {peer.name.split(' ').pop()?.[0]}
+                    </span>
+                  ))}
+                  {peers.length > 3 && (
+                    <span className="w-7 h-7 rounded-full border-2 border-[#0F0F10] bg-white/10 flex items-center justify-center text-[9px] font-black text-white">+{peers.length - 3}</span>
+                  )}
+                </div>
+              ) : (
+                <i className="fa-solid fa-user-group text-base"></i>
+              )}
+            </button>
+            {!canEdit && (
+              <span className="px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 text-[9px] font-black text-gray-400 uppercase tracking-widest">
+                <i className="fa-solid fa-lock mr-1.5"></i>{ROLE_LABELS[role]}
+              </span>
+            )}
+            {canComment && <div className="flex bg-white/5 rounded-xl p-1 border border-white/10">
               <button 
                 onClick={() => setIsPreviewMode(false)}
                 className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${!isPreviewMode ? 'bg-white text-black shadow-lg' : 'text-gray-500 hover:text-gray-300'}`}
@@ -201,13 +736,65 @@ const Editor: React.FC<EditorProps> = ({
               >
                 PREVIEW
               </button>
-            </div>
+            </div>}
             <button 
               onClick={handleToggleFocus}
               className={`h-10 px-4 rounded-xl text-[9px] font-black uppercase tracking-[0.2em] border transition-all ${uiMode === UIMode.FOCUS ? 'bg-[#7b61ff] border-[#7b61ff] text-white shadow-lg shadow-purple-900/40' : 'bg-white/5 border-white/10 text-white'}`}
             >
               {uiMode === UIMode.FOCUS ? 'FOCUS' : 'MANAGE'}
             </button>
+            {canComment && (
+              <button
+                onClick={() => { setIsSuggesting(!isSuggesting); setIsPreviewMode(false); }}
+                title="修訂模式"
+                className={`h-10 px-3 rounded-xl text-[9px] font-black uppercase tracking-[0.2em] border transition-all flex items-center space-x-1.5 ${isSuggesting ? 'bg-[#D4FF5F] border-[#D4FF5F] text-black' : 'bg-white/5 border-white/10 text-white'}`}
+              >
+                <i className="fa-solid fa-pen-ruler"></i>
+                <span>SUGGEST</span>
+              </button>
+            )}
+            <button
+              onClick={() => setIsReviewOpen(!isReviewOpen)}
+              title="批註"
+              className={`relative w-10 h-10 rounded-full flex items-center justify-center ${isReviewOpen ? 'text-white bg-white/10' : 'text-[#8E8E93]'}`}
+            >
+              <i className="fa-regular fa-comment-dots text-lg"></i>
+              {chapterComments.unresolvedCount(comments) + suggestions.length > 0 && (
+                <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 rounded-full bg-[#D4FF5F] text-black text-[9px] font-black flex items-center justify-center">
+                  {chapterComments.unresolvedCount(comments) + suggestions.length}
+                </span>
+              )}
+            </button>
+            {screenplay && (
+              <button
+                onClick={() => setIsScenesOpen(!isScenesOpen)}
+                title="場景"
+                className={`w-10 h-10 rounded-full flex items-center justify-center ${isScenesOpen ? 'text-white bg-white/10' : 'text-[#8E8E93]'}`}
+              >
+                <i className="fa-solid fa-clapperboard text-lg"></i>
+              </button>
+            )}
+            {onToggleSplitView && (
+              <button
+                onClick={onToggleSplitView}
+                title="分割檢視"
+                className={`w-10 h-10 rounded-full flex items-center justify-center ${splitView ? 'text-white bg-white/10' : 'text-[#8E8E93]'}`}
+              >
+                <i className="fa-solid fa-table-columns text-lg"></i>
+              </button>
+            )}
+            {citationContext && (
+              <button
+                onClick={() => setIsCitationsOpen(!isCitationsOpen)}
+                title="引用"
+                className={`w-10 h-10 rounded-full flex items-center justify-center ${isCitationsOpen ? 'text-white bg-white/10' : 'text-[#8E8E93]'}`}
+              >
+                <i className="fa-solid fa-quote-right text-lg"></i>
+              </button>
+            )}
+            <button onClick={onOpenReplace} className="w-10 h-10 rounded-full flex items-center justify-center text-[#8E8E93]" title="尋找與取代">
+              <i className="fa-solid fa-magnifying-glass text-lg"></i>
+            </button>
             <button onClick={onOpenTimeline} className="w-10 h-10 rounded-full flex items-center justify-center text-[#8E8E93]">
               <i className="fa-regular fa-clock text-lg"></i>
             </button>
@@ -215,70 +802,425 @@ const Editor: React.FC<EditorProps> = ({
         </div>
       </header>
 
-      <main 
-        ref={containerRef}
-        onClick={handleContentClick}
-        className={`flex-1 relative overflow-y-auto no-scrollbar transition-all duration-1000 ${isPreviewMode ? 'bg-black pt-20' : 'bg-[#050505] pt-28'} pb-48`}
-      >
-        <div className={`max-w-screen-md mx-auto px-6 sm:px-10 transition-all duration-1000 ${isImmersive ? 'scale-[1.01]' : ''}`}>
-          {!isPreviewMode && (
-            <input
-              type="text"
-              value={chapter.title}
-              onChange={(e) => onUpdateContent(e.target.value)} 
-              className={`w-full bg-transparent text-3xl sm:text-5xl font-black mb-12 outline-none border-none focus:ring-0 transition-all duration-1000 tracking-tighter ${isImmersive ? 'text-center text-white placeholder-white/5' : 'text-white'}`}
-              placeholder="標題..."
-            />
-          )}
-          
-          <div className="relative">
-            {isPreviewMode ? (
-              <div 
-                className="prose-preview w-full font-serif-editor animate-in fade-in slide-in-from-bottom-12 duration-1000 pb-24 text-[1.15rem] sm:text-[1.35rem] leading-[2.3] sm:leading-[2.7] text-slate-300"
-                dangerouslySetInnerHTML={{ __html: renderedHTML }}
-              />
-            ) : (
-              <textarea
-                ref={textareaRef}
-                value={content}
-                onChange={handleChange}
-                onFocus={() => {
-                   setIsHeaderVisible(false);
-                   setIsToolbarVisible(false);
-                }}
-                placeholder={PLACEHOLDER_TEXT}
-                className={`w-full bg-transparent border-none focus:ring-0 outline-none resize-none overflow-hidden transition-all duration-1000 font-serif-editor 
-                  ${isImmersive ? 'px-2 text-center text-slate-200 caret-[#7b61ff] selection:bg-[#7b61ff]/30 text-lg sm:text-xl leading-[2.3] sm:leading-[2.6]' : 'text-gray-200 text-lg sm:text-xl leading-[2.2] sm:leading-[2.4]'}`}
-                style={{ minHeight: '80vh' }}
+      <div ref={splitRef} className="flex-1 min-h-0 flex">
+        <main 
+          ref={containerRef}
+          onClick={handleContentClick}
+          className={`flex-1 min-w-0 relative overflow-y-auto no-scrollbar transition-all duration-1000 ${isPreviewMode ? 'bg-black pt-20' : 'bg-[#050505] pt-28'} pb-48`}
+        >
+          <div className={`max-w-screen-md mx-auto px-6 sm:px-10 transition-all duration-1000 ${isImmersive ? 'scale-[1.01]' : ''}`}>
+            {!isPreviewMode && (
+              <input
+                type="text"
+                value={chapter.title}
+                readOnly={!canEdit}
+                onChange={(e) => onUpdateContent(e.target.value)} 
+                className={`w-full bg-transparent text-3xl sm:text-5xl font-black mb-12 outline-none border-none focus:ring-0 transition-all duration-1000 tracking-tighter ${isImmersive ? 'text-center text-white placeholder-white/5' : 'text-white'}`}
+                placeholder="標題..."
               />
             )}
+          
+            <div className="relative">
+              {cursorMarks.map(mark => (
+                <div
+                  key={mark.id}
+                  className="absolute z-10 pointer-events-none transition-all duration-150"
+                  style={{ top: mark.top, left: mark.left }}
+                >
+                  <div className="w-0.5 h-[1.6em] text-lg sm:text-xl" style={{ backgroundColor: mark.color }} />
+                  <span
+                    className="absolute -top-5 left-0 px-1.5 py-0.5 rounded-md text-[9px] font-black text-black whitespace-nowrap"
+                    style={{ backgroundColor: mark.color }}
+                  >
+                    {mark.name}
+                  </span>
+                </div>
+              ))}
+              {changeChip && activeChange && !isPreviewMode && (
+                <div
+                  className="absolute z-20 flex items-center space-x-1 px-2 py-1 rounded-xl bg-[#1A1A1B] border border-white/10 shadow-xl -translate-y-full"
+                  style={{ top: changeChip.top, left: changeChip.left }}
+                  onMouseDown={e => e.preventDefault()}
+                  onClick={e => e.stopPropagation()}
+                >
+                  <span className={`text-[9px] font-black uppercase tracking-widest px-1 ${activeChange.change.kind === 'insert' ? 'text-[#D4FF5F]' : 'text-red-400'}`}>
+                    {activeChange.change.author} · {activeChange.change.kind === 'insert' ? '插入' : '刪除'}
+                  </span>
+                  {canEdit && (
+                    <>
+                      <button onClick={() => handleSettle(activeChange.change.id, true)} title="接受" className="w-7 h-7 rounded-lg text-[#D4FF5F] hover:bg-white/10">
+                        <i className="fa-solid fa-check text-xs"></i>
+                      </button>
+                      <button onClick={() => handleSettle(activeChange.change.id, false)} title="拒絕" className="w-7 h-7 rounded-lg text-red-400 hover:bg-white/10">
+                        <i className="fa-solid fa-xmark text-xs"></i>
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+              {isPreviewMode ? (
+                <div 
+                  className={`prose-preview w-full ${screenplay ? 'font-mono' : 'font-serif-editor'} animate-in fade-in slide-in-from-bottom-12 duration-1000 pb-24 text-[1.15rem] sm:text-[1.35rem] leading-[2.3] sm:leading-[2.7] text-slate-300`}
+                  dangerouslySetInnerHTML={{ __html: renderedHTML }}
+                />
+              ) : (
+                <>
+                {/* 批註螢光標記與修訂標記：與 textarea 相同排版的透明文字層，只顯示底色與刪除線 */}
+                <div
+                  aria-hidden
+                  className={`absolute inset-0 pointer-events-none whitespace-pre-wrap break-words text-transparent ${editorFont} ${textareaTypography}`}
+                >
+                  {changeSegments.map((segment, i) => segment.kind === 'base' ? segment.text : (
+                    <span
+                      key={i}
+                      className={segment.kind === 'insert'
+                        ? `underline decoration-[#D4FF5F] decoration-2 ${activeChange?.change.id === segment.change.id ? 'bg-[#D4FF5F]/30' : 'bg-[#D4FF5F]/10'}`
+                        : `line-through decoration-red-500 decoration-2 ${activeChange?.change.id === segment.change.id ? 'bg-red-500/30' : 'bg-red-500/10'}`}
+                    >
+                      {segment.text}
+                    </span>
+                  ))}
+                  {segments.map((segment, i) => segment.ids.length > 0 ? (
+                    <mark
+                      key={i}
+                      className={`text-transparent rounded-sm ${segment.ids.includes(activeCommentId || '') ? 'bg-[#D4FF5F]/40' : 'bg-[#D4FF5F]/15'}`}
+                    >
+                      {segment.text}
+                    </mark>
+                  ) : segment.text)}
+                </div>
+                <textarea
+                  ref={textareaRef}
+                  value={textValue}
+                  readOnly={!canEdit && !isSuggesting}
+                  onChange={handleChange}
+                  onKeyDown={handleKeyDown}
+                  onMouseDown={() => editHistory.seal(projectId, chapter.id)}
+                  onSelect={handleSelect}
+                  onBlur={() => sessionRef.current?.clearCursor()}
+                  onFocus={() => {
+                     setIsHeaderVisible(false);
+                     setIsToolbarVisible(false);
+                  }}
+                  placeholder={PLACEHOLDER_TEXT}
+                  className={`relative w-full bg-transparent border-none focus:ring-0 outline-none resize-none overflow-hidden transition-all duration-1000 ${editorFont} 
+                    ${isImmersive ? 'text-slate-200 caret-[#7b61ff] selection:bg-[#7b61ff]/30' : 'text-gray-200'} ${textareaTypography}`}
+                  style={{ minHeight: '80vh' }}
+                />
+                </>
+              )}
+            </div>
           </div>
-        </div>
 
-        {/* 底部排版工具列 (線性交互控制) */}
-        <div 
-          className={`fixed bottom-[calc(2.5rem+env(safe-area-inset-bottom,0px))] left-1/2 -translate-x-1/2 flex items-center bg-[#1A1A1B]/95 backdrop-blur-3xl p-2 rounded-[2.5rem] border border-white/10 shadow-[0_40px_80px_rgba(0,0,0,0.9)] space-x-2 z-[100] transition-all duration-700 cubic-bezier(0.19, 1, 0.22, 1)
-            ${isToolbarVisible ? 'translate-y-0 opacity-100' : 'translate-y-64 opacity-0'}`}
-        >
-           {toolbarActions.map((item, idx) => (
-             item.separator ? (
-               <div key={idx} className="w-px h-6 bg-white/10 mx-1" />
-             ) : (
-               <button key={idx} onClick={item.action} className="w-11 h-11 flex items-center justify-center rounded-full text-white/40 active:text-white active:bg-white/10 transition-colors">
-                 <i className={`fa-solid ${item.icon} text-base`}></i>
+          {/* 底部排版工具列 (線性交互控制) */}
+          <div 
+            className={`fixed bottom-[calc(2.5rem+env(safe-area-inset-bottom,0px))] left-1/2 -translate-x-1/2 flex items-center bg-[#1A1A1B]/95 backdrop-blur-3xl p-2 rounded-[2.5rem] border border-white/10 shadow-[0_40px_80px_rgba(0,0,0,0.9)] space-x-2 z-[100] transition-all duration-700 cubic-bezier(0.19, 1, 0.22, 1)
+              ${isToolbarVisible ? 'translate-y-0 opacity-100' : 'translate-y-64 opacity-0'}`}
+          >
+             {toolbarActions.map((item, idx) => (
+               item.separator ? (
+                 <div key={idx} className="w-px h-6 bg-white/10 mx-1" />
+               ) : (
+                 <button key={idx} onClick={item.action} disabled={item.disabled} className="w-11 h-11 flex items-center justify-center rounded-full text-white/40 active:text-white active:bg-white/10 transition-colors disabled:opacity-30">
+                   <i className={`fa-solid ${item.icon} text-base`}></i>
+                 </button>
+               )
+             ))}
+             {canEdit && <>
+               <div className="w-px h-6 bg-white/10 mx-1" />
+               <button 
+                 className="h-11 px-5 flex items-center space-x-2 rounded-full bg-[#7b61ff] text-white shadow-lg active:scale-95 transition-all"
+                 onClick={(e) => { e.stopPropagation(); setIsAIPanelOpen(!isAIPanelOpen); }}
+               >
+                  <i className="fa-solid fa-bolt-lightning text-xs"></i>
+                  <span className="text-[10px] font-black uppercase tracking-[0.2em]">AI助理</span>
                </button>
-             )
-           ))}
-           <div className="w-px h-6 bg-white/10 mx-1" />
-           <button 
-             className="h-11 px-5 flex items-center space-x-2 rounded-full bg-[#7b61ff] text-white shadow-lg active:scale-95 transition-all"
-             onClick={(e) => { e.stopPropagation(); setIsAIPanelOpen(!isAIPanelOpen); }}
-           >
-              <i className="fa-solid fa-bolt-lightning text-xs"></i>
-              <span className="text-[10px] font-black uppercase tracking-[0.2em]">AI助理</span>
-           </button>
-        </div>
-      </main>
+             </>}
+          </div>
+        </main>
+
+        {splitView?.layout === 'SIDE' && (
+          <>
+            <div
+              onPointerDown={e => { e.currentTarget.setPointerCapture(e.pointerId); setDragRatio(splitView.ratio); }}
+              onPointerMove={handleResizeMove}
+              onPointerUp={handleResizeEnd}
+              onPointerCancel={handleResizeEnd}
+              title="拖曳調整寬度"
+              className={`w-1.5 shrink-0 cursor-col-resize transition-colors ${dragRatio !== null ? 'bg-[#7b61ff]' : 'bg-white/5 hover:bg-white/20'}`}
+            />
+            <div className="shrink-0 h-full pt-[calc(4rem+env(safe-area-inset-top,0px))]" style={{ width: `${(dragRatio ?? splitView.ratio) * 100}%` }}>
+              <ReferencePane {...splitView} activeChapterId={chapter.id} bodyRef={paneBodyRef} />
+            </div>
+          </>
+        )}
+      </div>
+
+      {splitView?.layout === 'SHEET' && (
+        <ReferencePane {...splitView} activeChapterId={chapter.id} bodyRef={paneBodyRef} />
+      )}
+
+      {/* 場景導覽：劇本的場景標題 */}
+      {isScenesOpen && screenplay && (
+        <aside className="fixed top-0 left-0 bottom-0 w-full sm:w-80 pt-[calc(4rem+env(safe-area-inset-top,0px))] bg-[#0F0F10]/95 backdrop-blur-3xl border-r border-white/5 z-[90] flex flex-col animate-in slide-in-from-left duration-300">
+          <div className="px-6 py-4 flex items-center justify-between border-b border-white/5">
+            <div>
+              <h3 className="text-sm font-black tracking-tight text-white">場景</h3>
+              <p className="text-[9px] font-black text-[#8E8E93] uppercase tracking-[0.2em] mt-0.5">{scenes.length} SCENES</p>
+            </div>
+            <button onClick={() => setIsScenesOpen(false)} className="w-9 h-9 rounded-full flex items-center justify-center text-gray-500 hover:bg-white/5">
+              <i className="fa-solid fa-xmark"></i>
+            </button>
+          </div>
+          <div className="flex-1 overflow-y-auto no-scrollbar p-4 space-y-1">
+            {scenes.length === 0 && (
+              <p className="px-2 py-6 text-[11px] text-gray-600 leading-relaxed">以 INT. 或 EXT. 開頭的一行（前面空一行）即為場景標題，也可以用句點開頭強制標示。</p>
+            )}
+            {scenes.map(scene => (
+              <button
+                key={scene.start}
+                onClick={() => handleOpenScene(scene.start, scene.end)}
+                className="w-full flex items-start space-x-3 p-3 rounded-2xl hover:bg-white/5 text-left"
+              >
+                <span className="text-[10px] font-black text-[#D4FF5F] font-mono shrink-0 w-8">{scene.number}</span>
+                <span className="text-[11px] font-bold text-gray-300 font-mono leading-relaxed break-words min-w-0">{scene.heading}</span>
+              </button>
+            ))}
+          </div>
+        </aside>
+      )}
+
+      {/* 引用側欄：點選文獻在游標處插入 [@引用鍵] */}
+      {isCitationsOpen && citationContext && (
+        <aside className="fixed top-0 left-0 bottom-0 w-full sm:w-80 pt-[calc(4rem+env(safe-area-inset-top,0px))] bg-[#0F0F10]/95 backdrop-blur-3xl border-r border-white/5 z-[90] flex flex-col animate-in slide-in-from-left duration-300">
+          <div className="px-6 py-4 flex items-center justify-between border-b border-white/5">
+            <div>
+              <h3 className="text-sm font-black tracking-tight text-white">引用</h3>
+              <p className="text-[9px] font-black text-[#8E8E93] uppercase tracking-[0.2em] mt-0.5">{citationContext.entries.size} SOURCES</p>
+            </div>
+            <div className="flex items-center space-x-1">
+              {onOpenBibliography && (
+                <button onClick={onOpenBibliography} title="管理參考文獻" className="w-9 h-9 rounded-full flex items-center justify-center text-gray-500 hover:bg-white/5">
+                  <i className="fa-solid fa-book"></i>
+                </button>
+              )}
+              <button onClick={() => setIsCitationsOpen(false)} className="w-9 h-9 rounded-full flex items-center justify-center text-gray-500 hover:bg-white/5">
+                <i className="fa-solid fa-xmark"></i>
+              </button>
+            </div>
+          </div>
+          <div className="px-4 pt-4">
+            <input
+              value={citationQuery}
+              onChange={e => setCitationQuery(e.target.value)}
+              placeholder="搜尋引用鍵、標題或作者"
+              className="w-full bg-white/5 border border-white/10 rounded-2xl px-4 py-2.5 text-[12px] text-white placeholder-gray-600 outline-none focus:border-[#D4FF5F]/50"
+            />
+          </div>
+          <div className="flex-1 overflow-y-auto no-scrollbar p-4 space-y-1">
+            {citationContext.entries.size === 0 && (
+              <p className="px-2 py-6 text-[11px] text-gray-600 leading-relaxed">尚未加入參考文獻。匯入 BibTeX 或 CSL-JSON 後即可在內文以 [@引用鍵] 引用。</p>
+            )}
+            {citationEntries.map(entry => (
+              <button
+                key={entry.id}
+                onClick={() => handleInsertCitation(entry.id)}
+                disabled={!canEdit || showMarkup}
+                className="w-full flex flex-col items-start p-3 rounded-2xl hover:bg-white/5 text-left disabled:opacity-40 disabled:hover:bg-transparent"
+              >
+                <span className="text-[10px] font-black text-[#D4FF5F] font-mono break-all">@{entry.id}</span>
+                <span className="text-[11px] font-bold text-gray-300 leading-relaxed break-words min-w-0 mt-1">{entry.title || '（無標題）'}</span>
+              </button>
+            ))}
+          </div>
+          <p className="px-6 py-3 border-t border-white/5 text-[10px] text-gray-600 leading-relaxed">頁碼寫成 [@鍵, p. 12]，多筆以分號分隔，[-@鍵] 省略作者。</p>
+        </aside>
+      )}
+
+      {/* 審閱側欄：批註討論串 */}
+      {isReviewOpen && (
+        <aside className="fixed top-0 right-0 bottom-0 w-full sm:w-96 pt-[calc(4rem+env(safe-area-inset-top,0px))] bg-[#0F0F10]/95 backdrop-blur-3xl border-l border-white/5 z-[90] flex flex-col animate-in slide-in-from-right duration-300">
+          <div className="px-6 py-4 flex items-center justify-between border-b border-white/5">
+            <div className="flex items-center space-x-4">
+              {(['COMMENTS', 'CHANGES'] as ReviewTab[]).map(tab => (
+                <button key={tab} onClick={() => setReviewTab(tab)} className="text-left">
+                  <h3 className={`text-sm font-black tracking-tight ${reviewTab === tab ? 'text-white' : 'text-gray-600'}`}>{tab === 'COMMENTS' ? '批註' : '修訂'}</h3>
+                  <p className="text-[9px] font-black text-[#8E8E93] uppercase tracking-[0.2em] mt-0.5">
+                    {tab === 'COMMENTS' ? `${chapterComments.unresolvedCount(comments)} 則未解決` : `${suggestions.length} 項待審`}
+                  </p>
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center space-x-2">
+              {reviewTab === 'COMMENTS' && <div className="flex bg-white/5 rounded-xl p-1 border border-white/10">
+                {(['UNRESOLVED', 'ALL'] as ReviewFilter[]).map(filter => (
+                  <button
+                    key={filter}
+                    onClick={() => setReviewFilter(filter)}
+                    className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${reviewFilter === filter ? 'bg-white text-black' : 'text-gray-500 hover:text-gray-300'}`}
+                  >
+                    {filter === 'UNRESOLVED' ? '未解決' : '全部'}
+                  </button>
+                ))}
+              </div>}
+              <button onClick={() => setIsReviewOpen(false)} className="w-9 h-9 rounded-full flex items-center justify-center text-gray-500 hover:bg-white/5">
+                <i className="fa-solid fa-xmark"></i>
+              </button>
+            </div>
+          </div>
+
+          {reviewTab === 'CHANGES' && (
+            <>
+              {canEdit && suggestions.length > 0 && (
+                <div className="px-6 py-4 border-b border-white/5 grid grid-cols-2 gap-3">
+                  <button onClick={() => handleSettle(null, true)} className="py-3 rounded-2xl bg-[#D4FF5F] text-black text-[10px] font-black uppercase tracking-widest">
+                    全部接受
+                  </button>
+                  <button onClick={() => handleSettle(null, false)} className="py-3 rounded-2xl bg-white/5 border border-white/10 text-white text-[10px] font-black uppercase tracking-widest">
+                    全部拒絕
+                  </button>
+                </div>
+              )}
+              <div className="flex-1 overflow-y-auto no-scrollbar px-6 py-4 space-y-3">
+                {suggestions.length === 0 && (
+                  <p className="text-center text-[10px] font-black text-gray-600 uppercase tracking-widest py-12">
+                    {isSuggesting ? '開始輸入，變更會記錄為建議' : '沒有待審閱的修訂'}
+                  </p>
+                )}
+                {[...suggestions].sort((a, b) => a.at - b.at).map(change => (
+                  <div
+                    key={change.id}
+                    onClick={() => selectRange(change.at, change.at + (change.kind === 'delete' ? change.text.length : 0))}
+                    className={`p-4 rounded-2xl border transition-all cursor-pointer ${activeChange?.change.id === change.id ? 'bg-white/10 border-[#D4FF5F]/40' : 'bg-white/5 border-white/5'}`}
+                  >
+                    <div className="flex items-baseline justify-between">
+                      <span className="text-[11px] font-black text-white truncate">{change.author}</span>
+                      <span className="text-[9px] text-gray-500 shrink-0 ml-2">{new Date(change.createdAt).toLocaleString()}</span>
+                    </div>
+                    <p className={`text-[13px] mt-2 whitespace-pre-wrap line-clamp-3 ${change.kind === 'insert' ? 'text-[#D4FF5F] underline' : 'text-red-400 line-through'}`}>
+                      {change.text}
+                    </p>
+                    <div className="flex items-center justify-between mt-3">
+                      <span className="text-[9px] font-black text-gray-500 uppercase tracking-widest">{change.kind === 'insert' ? '建議插入' : '建議刪除'}</span>
+                      {canEdit && (
+                        <div className="flex items-center space-x-2" onClick={e => e.stopPropagation()}>
+                          <button onClick={() => handleSettle(change.id, true)} className="h-8 px-3 rounded-xl bg-[#D4FF5F]/10 text-[#D4FF5F] text-[9px] font-black uppercase tracking-widest">
+                            接受
+                          </button>
+                          <button onClick={() => handleSettle(change.id, false)} className="h-8 px-3 rounded-xl bg-red-500/10 text-red-400 text-[9px] font-black uppercase tracking-widest">
+                            拒絕
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          {reviewTab === 'COMMENTS' && canComment && (
+            <div className="px-6 py-4 border-b border-white/5 space-y-3">
+              {selection.end > selection.start && !isPreviewMode ? (
+                <>
+                  <p className="text-[11px] text-gray-400 border-l-2 border-[#D4FF5F] pl-3 line-clamp-2">{content.slice(selection.start, selection.end)}</p>
+                  <textarea
+                    value={commentDraft}
+                    onChange={e => setCommentDraft(e.target.value)}
+                    placeholder="新增批註…"
+                    rows={2}
+                    className="w-full bg-white/5 border border-white/10 rounded-2xl px-4 py-3 text-[13px] text-white outline-none focus:border-[#7b61ff] resize-none"
+                  />
+                  <button
+                    onClick={handleAddComment}
+                    disabled={!commentDraft.trim()}
+                    className="w-full py-3 rounded-2xl bg-[#7b61ff] text-white text-[10px] font-black uppercase tracking-widest disabled:opacity-30"
+                  >
+                    新增批註
+                  </button>
+                </>
+              ) : (
+                <p className="text-[10px] font-black text-gray-600 uppercase tracking-widest">在內文中選取文字以新增批註</p>
+              )}
+            </div>
+          )}
+
+          {reviewTab === 'COMMENTS' && <div className="flex-1 overflow-y-auto no-scrollbar px-6 py-4 space-y-3">
+            {visibleComments.length === 0 && (
+              <p className="text-center text-[10px] font-black text-gray-600 uppercase tracking-widest py-12">
+                {reviewFilter === 'UNRESOLVED' ? '沒有未解決的批註' : '尚無批註'}
+              </p>
+            )}
+            {visibleComments.map(comment => (
+              <div
+                key={comment.id}
+                onClick={() => handleFocusComment(comment)}
+                className={`p-4 rounded-2xl border transition-all cursor-pointer ${activeCommentId === comment.id ? 'bg-white/10 border-[#D4FF5F]/40' : 'bg-white/5 border-white/5'} ${comment.resolved ? 'opacity-60' : ''}`}
+              >
+                <p className={`text-[11px] border-l-2 pl-3 mb-3 line-clamp-2 ${comment.orphaned ? 'border-red-500/50 text-red-400/70 line-through' : 'border-[#D4FF5F] text-gray-400'}`}>
+                  {comment.anchor.quote}
+                </p>
+                {comment.orphaned && (
+                  <p className="text-[9px] font-black text-red-400 uppercase tracking-widest mb-2">原文已刪除</p>
+                )}
+                <div className="flex items-baseline justify-between">
+                  <span className="text-[11px] font-black text-white truncate">{comment.author}</span>
+                  <span className="text-[9px] text-gray-500 shrink-0 ml-2">{new Date(comment.createdAt).toLocaleString()}</span>
+                </div>
+                <p className="text-[13px] text-gray-200 mt-1 whitespace-pre-wrap">{comment.text}</p>
+
+                {comment.replies.map(reply => (
+                  <div key={reply.id} className="mt-3 pl-3 border-l border-white/10">
+                    <div className="flex items-baseline justify-between">
+                      <span className="text-[10px] font-black text-gray-300 truncate">{reply.author}</span>
+                      <span className="text-[9px] text-gray-600 shrink-0 ml-2">{new Date(reply.createdAt).toLocaleString()}</span>
+                    </div>
+                    <p className="text-[12px] text-gray-300 mt-0.5 whitespace-pre-wrap">{reply.text}</p>
+                  </div>
+                ))}
+
+                {comment.resolved && (
+                  <p className="text-[9px] font-black text-[#D4FF5F] uppercase tracking-widest mt-3">
+                    <i className="fa-solid fa-check mr-1"></i>{comment.resolvedBy} 已解決
+                  </p>
+                )}
+
+                {canComment && (
+                  <div className="mt-3 space-y-2" onClick={e => e.stopPropagation()}>
+                    {!comment.resolved && (
+                      <div className="flex items-center space-x-2">
+                        <input
+                          value={replyDrafts[comment.id] || ''}
+                          onChange={e => setReplyDrafts(prev => ({ ...prev, [comment.id]: e.target.value }))}
+                          onKeyDown={e => { if (e.key === 'Enter') handleReply(comment.id); }}
+                          placeholder="回覆…"
+                          className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-xl px-3 h-9 text-[12px] text-white outline-none focus:border-[#7b61ff]"
+                        />
+                        <button onClick={() => handleReply(comment.id)} className="w-9 h-9 rounded-xl bg-white/10 text-white shrink-0">
+                          <i className="fa-solid fa-reply text-xs"></i>
+                        </button>
+                      </div>
+                    )}
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => onUpdateComments(chapterComments.setResolved(comments, comment.id, !comment.resolved, authorName))}
+                        className="flex-1 h-8 rounded-xl bg-white/5 text-[9px] font-black text-gray-300 uppercase tracking-widest"
+                      >
+                        {comment.resolved ? '重新開啟' : '標記為已解決'}
+                      </button>
+                      {(canEdit || comment.author === authorName) && (
+                        <button onClick={() => handleDeleteComment(comment.id)} title="刪除" className="w-8 h-8 rounded-xl bg-red-500/10 text-red-500">
+                          <i className="fa-regular fa-trash-can text-xs"></i>
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>}
+        </aside>
+      )}
 
       {isAIPanelOpen && (
         <AIPanel 
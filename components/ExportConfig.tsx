@@ -1,6 +1,7 @@
 
 import React, { useMemo } from 'react';
 import { Project } from '../types';
+import { textCount } from '../services/textCount';
 
 interface ExportConfigProps {
   project: Project | null;
@@ -41,7 +42,7 @@ const ExportConfig: React.FC<ExportConfigProps> = ({ project, onBack, onNext, co
       <main className="flex-1 overflow-y-auto px-6 py-6 no-scrollbar space-y-10">
         <div className="bg-[#121214] rounded-[44px] p-10 border border-white/5 relative">
           <h4 className="text-[34px] font-black text-white tracking-tighter leading-none mb-1">{project?.name || '未命名專案'}</h4>
-          <p className="text-[10px] text-gray-600 font-black uppercase tracking-[0.2em] mb-8">PAGE 1 OF {Math.ceil((project?.chapters.reduce((acc, c) => acc + c.wordCount, 0) || 0) / 400) || 1} • CHAPTER 1</p>
+          <p className="text-[10px] text-gray-600 font-black uppercase tracking-[0.2em] mb-8">PAGE 1 OF {(project && textCount.estimatePages(textCount.ofProject(project))) || 1} • CHAPTER 1</p>
           <div className="flex justify-between items-end">
             <div className="space-y-1">
               <p className="text-[11px] font-black text-gray-400 uppercase tracking-widest">Document Preview</p>
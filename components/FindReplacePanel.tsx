@@ -0,0 +1,180 @@
+import React, { useState, useMemo } from 'react';
+import { Project } from '../types';
+import { projectReplace, ReplaceBatch, ReplaceMatch, ReplaceOptions, ReplacePatternError } from '../services/projectReplace';
+
+interface FindReplacePanelProps {
+  project: Project;
+  canEdit: boolean;
+  // 本專案最近一次的取代，可整批復原
+  lastBatch: ReplaceBatch | null;
+  onApply: (matches: ReplaceMatch[]) => void;
+  onUndo: () => void;
+  onOpenMatch: (match: ReplaceMatch) => void;
+  onClose: () => void;
+}
+
+const OPTION_TOGGLES: { key: keyof ReplaceOptions; label: string; title: string }[] = [
+  { key: 'matchCase', label: 'Aa', title: '大小寫須相符' },
+  { key: 'wholeWord', label: 'W', title: '完整字詞' },
+  { key: 'regex', label: '.*', title: '正規表示式' }
+];
+
+const FindReplacePanel: React.FC<FindReplacePanelProps> = ({ project, canEdit, lastBatch, onApply, onUndo, onOpenMatch, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [options, setOptions] = useState<ReplaceOptions>({ matchCase: false, wholeWord: false, regex: false });
+  // 使用者取消勾選的符合項目
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+
+  const { matches, error } = useMemo(() => {
+    try {
+      return { matches: projectReplace.find(project, query, replacement, options), error: null };
+    } catch (e) {
+      return { matches: [] as ReplaceMatch[], error: e instanceof ReplacePatternError ? e.message : '搜尋失敗' };
+    }
+  }, [project, query, replacement, options]);
+
+  const groups = useMemo(() => {
+    const byChapter = new Map<string, ReplaceMatch[]>();
+    matches.forEach(m => byChapter.set(m.chapterId, [...(byChapter.get(m.chapterId) || []), m]));
+    return [...byChapter.values()];
+  }, [matches]);
+
+  const included = matches.filter(m => !excluded.has(m.id));
+
+  const toggleMatch = (id: string) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleChapter = (chapterMatches: ReplaceMatch[]) => {
+    const allIncluded = chapterMatches.every(m => !excluded.has(m.id));
+    setExcluded(prev => {
+      const next = new Set(prev);
+      chapterMatches.forEach(m => allIncluded ? next.add(m.id) : next.delete(m.id));
+      return next;
+    });
+  };
+
+  const handleApply = () => {
+    if (included.length === 0) return;
+    const chapterCount = new Set(included.map(m => m.chapterId)).size;
+    if (!window.confirm(`確定要在 ${chapterCount} 個章節中取代 ${included.length} 處嗎？取代前會自動建立里程碑快照。`)) return;
+    onApply(included);
+    setExcluded(new Set());
+  };
+
+  return (
+    <div className="fixed inset-0 z-[1000] flex items-end sm:items-center justify-center animate-in fade-in duration-300">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-md" onClick={onClose} />
+
+      <div className="relative w-full max-w-2xl bg-[#1C1C1E] rounded-t-[44px] sm:rounded-[44px] p-8 sm:p-10 flex flex-col space-y-6 animate-in slide-in-from-bottom duration-500 max-h-[90vh]">
+        <div className="flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-black tracking-tight text-white">尋找與取代</h2>
+            <p className="text-[10px] font-black text-[#8E8E93] uppercase tracking-[0.2em] mt-1">{project.name} · FIND & REPLACE</p>
+          </div>
+          <button onClick={onClose} className="w-12 h-12 rounded-full flex items-center justify-center text-gray-500 hover:bg-white/5">
+            <i className="fa-solid fa-xmark text-xl"></i>
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center space-x-2">
+            <input
+              autoFocus
+              value={query}
+              onChange={e => { setQuery(e.target.value); setExcluded(new Set()); }}
+              placeholder="尋找..."
+              className="flex-1 min-w-0 bg-white/5 border border-white/10 h-12 px-5 rounded-2xl text-[14px] font-bold outline-none focus:border-blue-500 transition-all text-white"
+            />
+            {OPTION_TOGGLES.map(toggle => (
+              <button
+                key={toggle.key}
+                title={toggle.title}
+                onClick={() => { setOptions(prev => ({ ...prev, [toggle.key]: !prev[toggle.key] })); setExcluded(new Set()); }}
+                className={`w-12 h-12 rounded-2xl text-[12px] font-black font-mono shrink-0 transition-all ${options[toggle.key] ? 'bg-[#7b61ff] text-white' : 'bg-white/5 text-gray-500 hover:text-gray-300'}`}
+              >
+                {toggle.label}
+              </button>
+            ))}
+          </div>
+          {canEdit && (
+            <input
+              value={replacement}
+              onChange={e => setReplacement(e.target.value)}
+              placeholder={options.regex ? '取代為...（可使用 $1、$<name>）' : '取代為...'}
+              className="w-full bg-white/5 border border-white/10 h-12 px-5 rounded-2xl text-[14px] font-bold outline-none focus:border-blue-500 transition-all text-white"
+            />
+          )}
+        </div>
+
+        <div className="flex items-center justify-between text-[10px] font-black uppercase tracking-widest px-1">
+          {error ? (
+            <span className="text-red-400 normal-case tracking-normal">{error}</span>
+          ) : (
+            <span className="text-gray-500">
+              {query ? `${matches.length} 處符合 · ${groups.length} 個章節` : '輸入要尋找的文字'}
+              {included.length !== matches.length && ` · 已選 ${included.length}`}
+            </span>
+          )}
+          {lastBatch && lastBatch.count > 0 && canEdit && (
+            <button onClick={onUndo} className="text-[#D4FF5F] flex items-center space-x-1.5">
+              <i className="fa-solid fa-rotate-left"></i>
+              <span>復原上次取代（{lastBatch.count} 處）</span>
+            </button>
+          )}
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto no-scrollbar space-y-5">
+          {groups.map(chapterMatches => (
+            <div key={chapterMatches[0].chapterId} className="space-y-2">
+              <button
+                onClick={() => canEdit && toggleChapter(chapterMatches)}
+                className="w-full flex items-center justify-between px-1 text-left"
+              >
+                <span className="text-[11px] font-black text-white truncate">{chapterMatches[0].chapterTitle}</span>
+                <span className="text-[9px] font-black text-gray-500 uppercase tracking-widest shrink-0 ml-3">{chapterMatches.length} 處</span>
+              </button>
+              {chapterMatches.map(match => (
+                <div key={match.id} className={`flex items-start space-x-3 p-3 rounded-2xl bg-white/5 transition-opacity ${excluded.has(match.id) ? 'opacity-40' : ''}`}>
+                  {canEdit && (
+                    <input
+                      type="checkbox"
+                      checked={!excluded.has(match.id)}
+                      onChange={() => toggleMatch(match.id)}
+                      className="mt-1 accent-[#7b61ff] shrink-0"
+                    />
+                  )}
+                  <button onClick={() => onOpenMatch(match)} className="flex-1 min-w-0 text-left text-[13px] leading-relaxed text-gray-400 break-words">
+                    …{match.before}
+                    <span className={`rounded px-0.5 ${canEdit ? 'bg-red-500/20 text-red-300 line-through' : 'bg-[#D4FF5F]/20 text-white'}`}>{match.text}</span>
+                    {canEdit && <span className="rounded px-0.5 bg-[#D4FF5F]/20 text-[#D4FF5F]">{match.replacement}</span>}
+                    {match.after}…
+                  </button>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        {canEdit && (
+          <button
+            onClick={handleApply}
+            disabled={included.length === 0 || !!error}
+            className="w-full py-5 rounded-[30px] text-white font-black text-sm uppercase tracking-[0.2em] shadow-xl transition-all flex items-center justify-center space-x-3 bg-blue-600 active:scale-95 disabled:bg-gray-700 disabled:cursor-not-allowed"
+          >
+            <i className="fa-solid fa-right-left text-xs"></i>
+            <span>取代 {included.length} 處</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FindReplacePanel;
@@ -1,19 +1,30 @@
 import React, { useState, useEffect } from 'react';
 import { Project, WritingType, StructureUnit, StructureType } from '../types';
 import { PROJECT_COLORS, PROJECT_ICONS, TEMPLATES, TEMPLATE_STRUCTURE_MAP, STRUCTURE_DEFINITIONS } from '../constants';
+import AssetImage from './AssetImage';
+import TrashModal from './TrashModal';
+import LibrarySearch from './LibrarySearch';
+import { SearchHit } from '../services/searchService';
+import { textCount } from '../services/textCount';
 
 interface LibraryProps {
   projects: Project[];
   onSelectProject: (p: Project) => void;
+  // 新建專案的擁有者（本機使用者 id）
+  ownerId: string;
   onCreateProject: (data: Project) => void;
   onUpdateProjects: (projects: Project[]) => void;
+  trashRetentionDays: number | 'NEVER';
+  onTrashRestored: (project: Project) => void;
+  onOpenSearchHit: (hit: SearchHit) => void;
 }
 
-const Library: React.FC<LibraryProps> = ({ projects, onSelectProject, onCreateProject, onUpdateProjects }) => {
+const Library: React.FC<LibraryProps> = ({ projects, ownerId, onSelectProject, onCreateProject, onUpdateProjects, trashRetentionDays, onTrashRestored, onOpenSearchHit }) => {
   const [weather] = useState({ temp: '15', city: '新北市', date: 'January 20' });
   const [isCreating, setIsCreating] = useState(false);
   const [isTemplatesExpanded, setIsTemplatesExpanded] = useState(false);
   const [activeMenuId, setActiveMenuId] = useState<string | null>(null);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
   
   const [editingProjectId, setEditingProjectId] = useState<string | null>(null);
   const [tempName, setTempName] = useState('');
@@ -54,7 +65,8 @@ const Library: React.FC<LibraryProps> = ({ projects, onSelectProject, onCreatePr
         initialUnits.push({
             id: `u-${Date.now()}-0`,
             title: def.autoNumbering ? def.defaultNamingRule(1) : (structType === StructureType.BLOCK ? '未命名區塊' : '第一部分'),
-            content: '',
+            // 劇本以 Fountain 撰寫，預先放入標題頁
+            content: formData.type === WritingType.SCREENPLAY ? `Title: ${formData.name.trim()}\n\nFADE IN:\n\n` : '',
             order: 1,
             wordCount: 0,
             lastEdited: Date.now(),
@@ -78,7 +90,8 @@ const Library: React.FC<LibraryProps> = ({ projects, onSelectProject, onCreatePr
       updatedAt: Date.now(),
       tags: [],
       settings: { typography: 'serif', fontSize: 'normal' },
-      isPinned: false
+      isPinned: false,
+      ownerId
     };
 
     onCreateProject(newProject);
@@ -115,7 +128,7 @@ const Library: React.FC<LibraryProps> = ({ projects, onSelectProject, onCreatePr
 
   const handleDelete = (e: React.MouseEvent, project: Project) => {
     e.stopPropagation();
-    if (window.confirm(`確定要刪除專案「${project.name}」嗎？此動作無法復原。`)) {
+    if (window.confirm(`確定要刪除專案「${project.name}」嗎？專案將移至回收桶。`)) {
       const updatedProjects = projects.filter(p => p.id !== project.id);
       onUpdateProjects(updatedProjects);
     }
@@ -188,6 +201,8 @@ const Library: React.FC<LibraryProps> = ({ projects, onSelectProject, onCreatePr
         </div>
       </section>
 
+      <LibrarySearch onOpenHit={onOpenSearchHit} />
+
       {/* Main Repository Section */}
       <section>
         <div className="flex items-center justify-between mb-10">
@@ -195,12 +210,21 @@ const Library: React.FC<LibraryProps> = ({ projects, onSelectProject, onCreatePr
              <h2 className="text-[12px] font-black text-[#8e8e93] uppercase tracking-[0.3em]">智慧寫作書架 REPOSITORY</h2>
              <p className="text-[10px] text-[#4E4E52] font-black uppercase tracking-widest mt-1">共有 {projects.length} 個專案已歸檔</p>
           </div>
-          <button 
-            onClick={() => setIsCreating(true)}
-            className="w-14 h-14 rounded-full bg-[#2563eb] flex items-center justify-center shadow-[0_15px_30px_rgba(37,99,235,0.4)] active:scale-90 hover:scale-105 transition-all"
-          >
-            <i className="fa-solid fa-plus text-white text-xl"></i>
-          </button>
+          <div className="flex items-center space-x-3">
+            <button 
+              onClick={() => setIsTrashOpen(true)}
+              title="回收桶"
+              className="w-14 h-14 rounded-full bg-[#1C1C1E] border border-white/5 flex items-center justify-center text-gray-500 hover:text-white active:scale-90 transition-all"
+            >
+              <i className="fa-solid fa-trash-can text-lg"></i>
+            </button>
+            <button 
+              onClick={() => setIsCreating(true)}
+              className="w-14 h-14 rounded-full bg-[#2563eb] flex items-center justify-center shadow-[0_15px_30px_rgba(37,99,235,0.4)] active:scale-90 hover:scale-105 transition-all"
+            >
+              <i className="fa-solid fa-plus text-white text-xl"></i>
+            </button>
+          </div>
         </div>
         
         {/* Balanced Vertical Arrangement Stack */}
@@ -208,7 +232,8 @@ const Library: React.FC<LibraryProps> = ({ projects, onSelectProject, onCreatePr
           {sortedProjects.map((proj, idx) => {
             // Priority: Use actual project color, else cycle through core palette
             const displayColor = proj.color || coreBrandColors[idx % coreBrandColors.length];
-            const coverUrl = proj.publishingPayload?.coverAssets?.EBOOK_DIGITAL?.url;
+            const coverRef = proj.publishingPayload?.coverAssets?.EBOOK_DIGITAL?.ref;
+            const progress = textCount.goalProgress(proj);
 
             return (
               <div 
@@ -223,14 +248,14 @@ const Library: React.FC<LibraryProps> = ({ projects, onSelectProject, onCreatePr
                 onClick={() => onSelectProject(proj)}
               >
                 {/* Background Cover with Glassmorphism Overlay */}
-                {coverUrl && (
+                {coverRef && (
                   <div className="absolute inset-0 z-0">
-                    <img src={coverUrl} alt="" className="w-full h-full object-cover" />
+                    <AssetImage assetRef={coverRef} alt="" className="w-full h-full object-cover" />
                     <div className="absolute inset-0 backdrop-blur-xl bg-black/30" />
                   </div>
                 )}
 
-                <div className="flex flex-col h-full relative z-10" style={{ color: coverUrl ? 'white' : '#121212' }}>
+                <div className="flex flex-col h-full relative z-10" style={{ color: coverRef ? 'white' : '#121212' }}>
                   <div className="flex justify-between items-start mb-2">
                     <div className="max-w-[85%]">
                       <div className="flex flex-col space-y-1">
@@ -315,11 +340,11 @@ const Library: React.FC<LibraryProps> = ({ projects, onSelectProject, onCreatePr
                         {proj.metadata || 'JUST NOW'}
                       </div>
                       <div className="text-[12px] font-black tracking-tight opacity-50">
-                        {proj.progress}%
+                        {progress}%
                       </div>
                     </div>
                     <div className="progress-bar-container bg-black/5">
-                      <div className="progress-fill bg-black/25" style={{ width: `${proj.progress}%` }} />
+                      <div className="progress-fill bg-black/25" style={{ width: `${progress}%` }} />
                     </div>
                   </div>
                 </div>
@@ -329,6 +354,14 @@ const Library: React.FC<LibraryProps> = ({ projects, onSelectProject, onCreatePr
         </div>
       </section>
 
+      {isTrashOpen && (
+        <TrashModal
+          retentionDays={trashRetentionDays}
+          onClose={() => setIsTrashOpen(false)}
+          onRestored={onTrashRestored}
+        />
+      )}
+
       {/* Modern Creation Protocol UI - Optimized RWD for Mobile, Tablet, Web */}
       {isCreating && (
         <div className="fixed inset-0 z-[2000] flex items-end sm:items-center justify-center animate-in fade-in duration-500">
@@ -0,0 +1,183 @@
+import React, { useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import {
+  exportLibraryArchive, readLibraryArchive, importLibraryArchive,
+  LibraryArchive, LibraryArchiveError, ARCHIVE_EXTENSION
+} from '../services/libraryArchive';
+import { RestoreMode } from '../services/dbService';
+
+interface LibraryArchiveModalProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const LibraryArchiveModal: React.FC<LibraryArchiveModalProps> = ({ onClose, onImported }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [pending, setPending] = useState<LibraryArchive | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [message, setMessage] = useState<{ tone: 'error' | 'success', text: string } | null>(null);
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      const blob = await exportLibraryArchive();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `InsPublish_${new Date().toISOString().slice(0, 10)}${ARCHIVE_EXTENSION}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      setMessage({ tone: 'success', text: '書庫備份已匯出' });
+    } catch (e) {
+      console.error('[Archive] 匯出失敗', e);
+      setMessage({ tone: 'error', text: '匯出失敗，請稍後再試' });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      setPending(await readLibraryArchive(file));
+    } catch (err) {
+      setMessage({ tone: 'error', text: err instanceof LibraryArchiveError ? err.message : '無法讀取備份檔' });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!pending) return;
+    if (mode === 'replace' && !window.confirm('取代模式將刪除本機所有作品與設定，並以備份內容取代。確定要繼續嗎？')) return;
+    setIsBusy(true);
+    try {
+      const summary = await importLibraryArchive(pending, mode);
+      setPending(null);
+      setMessage({
+        tone: 'success',
+        text: summary.remappedProjects > 0
+          ? `已匯入 ${summary.projectCount} 個作品，其中 ${summary.remappedProjects} 個與本機重複，已另存為副本`
+          : `已匯入 ${summary.projectCount} 個作品`
+      });
+      onImported();
+    } catch (e) {
+      console.error('[Archive] 匯入失敗', e);
+      setMessage({ tone: 'error', text: '匯入失敗，本機資料未變更' });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const modes: { id: RestoreMode, label: string, desc: string }[] = [
+    { id: 'merge', label: '合併', desc: '保留本機作品，重複的作品另存為副本' },
+    { id: 'replace', label: '取代', desc: '清空本機書庫與設定後還原備份' }
+  ];
+
+  return createPortal(
+    <div className="fixed inset-0 z-[6500] flex items-end sm:items-center justify-center animate-in fade-in duration-300">
+      <div className="absolute inset-0 bg-black/90 backdrop-blur-xl" onClick={isBusy ? undefined : onClose} />
+
+      <div className="relative w-full max-w-xl bg-[#1C1C1E] rounded-t-[44px] sm:rounded-[44px] border border-white/5 shadow-3xl flex flex-col max-h-[92vh] animate-in slide-in-from-bottom duration-500">
+        <header className="p-8 sm:p-10 border-b border-white/5 flex items-center justify-between shrink-0">
+          <div>
+            <h2 className="text-2xl font-black text-white tracking-tight">完整書庫備份</h2>
+            <p className="text-[10px] font-black text-[#8E8E93] uppercase tracking-[0.2em] mt-1">LIBRARY ARCHIVE {ARCHIVE_EXTENSION.toUpperCase()}</p>
+          </div>
+          <button onClick={onClose} disabled={isBusy} className="w-10 h-10 rounded-full bg-white/5 flex items-center justify-center text-gray-500 hover:text-white transition-colors disabled:opacity-30">
+            <i className="fa-solid fa-xmark"></i>
+          </button>
+        </header>
+
+        <main className="flex-1 overflow-y-auto no-scrollbar p-8 sm:p-10 space-y-8">
+          <p className="text-[13px] text-slate-400 leading-relaxed font-medium">
+            將所有作品、章節、快照歷史、封面與應用程式設定打包為單一檔案，可於其他裝置或重新安裝後還原。
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <button
+              onClick={handleExport}
+              disabled={isBusy}
+              className="p-6 rounded-[28px] bg-black/40 border border-white/5 hover:border-blue-500/30 transition-all text-left space-y-3 disabled:opacity-40"
+            >
+              <i className="fa-solid fa-box-archive text-2xl text-blue-500"></i>
+              <h4 className="text-base font-black text-white tracking-tight">匯出備份</h4>
+              <p className="text-[9px] text-gray-600 font-black uppercase tracking-widest">EXPORT</p>
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isBusy}
+              className="p-6 rounded-[28px] bg-black/40 border border-white/5 hover:border-[#D4FF5F]/30 transition-all text-left space-y-3 disabled:opacity-40"
+            >
+              <i className="fa-solid fa-file-import text-2xl text-[#D4FF5F]"></i>
+              <h4 className="text-base font-black text-white tracking-tight">匯入備份</h4>
+              <p className="text-[9px] text-gray-600 font-black uppercase tracking-widest">IMPORT</p>
+            </button>
+            <input ref={fileInputRef} type="file" accept={`${ARCHIVE_EXTENSION},application/zip`} className="hidden" onChange={handleFileChange} />
+          </div>
+
+          {pending && (
+            <section className="space-y-5 animate-in fade-in slide-in-from-top-4 duration-500">
+              <div className="bg-black/20 p-5 rounded-2xl border border-white/5 space-y-3">
+                <div className="flex justify-between items-center">
+                  <span className="text-[11px] font-black text-gray-500 uppercase tracking-widest">備份時間</span>
+                  <span className="text-[11px] font-black text-blue-400 font-mono">{new Date(pending.manifest.exportedAt).toLocaleString()}</span>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-[11px] font-black text-gray-500 uppercase tracking-widest">作品數量</span>
+                  <span className="text-[11px] font-black text-white font-mono">{pending.manifest.projects.length}</span>
+                </div>
+                <div className="max-h-32 overflow-y-auto no-scrollbar space-y-1 pt-2 border-t border-white/5">
+                  {pending.manifest.projects.map(p => (
+                    <div key={p.id} className="flex justify-between text-[12px] text-slate-300">
+                      <span className="truncate">{p.name}</span>
+                      <span className="text-gray-600 font-mono shrink-0 ml-4">{p.chapterCount} 章 · {p.snapshotCount} 快照</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                {modes.map(opt => (
+                  <button
+                    key={opt.id}
+                    onClick={() => setMode(opt.id)}
+                    className={`p-5 rounded-2xl border text-left transition-all ${mode === opt.id ? (opt.id === 'replace' ? 'bg-red-500/10 border-red-500/40' : 'bg-blue-600/10 border-blue-500/40') : 'bg-black/20 border-white/5'}`}
+                  >
+                    <h5 className="text-[13px] font-black text-white">{opt.label}</h5>
+                    <p className="text-[11px] text-gray-500 mt-1 leading-relaxed">{opt.desc}</p>
+                  </button>
+                ))}
+              </div>
+
+              <button
+                onClick={handleImport}
+                disabled={isBusy}
+                className={`w-full py-5 rounded-[28px] text-white font-black text-sm uppercase tracking-[0.3em] shadow-2xl active:scale-[0.98] transition-all disabled:opacity-40 ${mode === 'replace' ? 'bg-red-600' : 'bg-blue-600'}`}
+              >
+                {isBusy ? '處理中...' : '開始匯入'}
+              </button>
+            </section>
+          )}
+
+          {message && (
+            <p className={`text-[12px] font-black text-center ${message.tone === 'error' ? 'text-red-400' : 'text-[#D4FF5F]'}`}>
+              {message.text}
+            </p>
+          )}
+        </main>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default LibraryArchiveModal;
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { SnapshotType } from '../types';
+import { searchService, SearchHit } from '../services/searchService';
+
+interface LibrarySearchProps {
+  onOpenHit: (hit: SearchHit) => void;
+}
+
+// 輸入停止後才查詢，避免逐字觸發索引讀取
+const SEARCH_DEBOUNCE_MS = 250;
+
+const renderHighlighted = (text: string, highlights: [number, number][]) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  highlights.forEach(([start, end], i) => {
+    if (end <= cursor) return;
+    const from = Math.max(start, cursor);
+    if (from > cursor) parts.push(text.slice(cursor, from));
+    parts.push(<mark key={i} className="bg-[#D4FF5F]/25 text-[#D4FF5F] rounded px-0.5">{text.slice(from, end)}</mark>);
+    cursor = end;
+  });
+  parts.push(text.slice(cursor));
+  return parts;
+};
+
+const LibrarySearch: React.FC<LibrarySearchProps> = ({ onOpenHit }) => {
+  const [query, setQuery] = useState('');
+  const [includeSnapshots, setIncludeSnapshots] = useState(false);
+  const [hits, setHits] = useState<SearchHit[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setHits(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const results = await searchService.search(trimmed, { includeSnapshots });
+        if (!cancelled) setHits(results);
+      } catch (e) {
+        console.error('[Search] 搜尋失敗', e);
+        if (!cancelled) setHits([]);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [query, includeSnapshots]);
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center bg-[#1C1C1E] h-14 px-6 rounded-[2rem] border border-white/5 focus-within:border-blue-500/40 transition-colors">
+        <i className={`fa-solid ${isSearching ? 'fa-circle-notch fa-spin' : 'fa-magnifying-glass'} text-gray-600 mr-4`}></i>
+        <input
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Escape') setQuery(''); }}
+          placeholder="搜尋所有作品與章節..."
+          className="flex-1 bg-transparent text-[15px] font-bold text-white outline-none placeholder-white/20"
+        />
+        <button
+          onClick={() => setIncludeSnapshots(!includeSnapshots)}
+          title="包含快照歷史"
+          className={`ml-3 px-3 py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all ${includeSnapshots ? 'bg-blue-600 border-blue-600 text-white' : 'border-white/10 text-gray-500 hover:text-gray-300'}`}
+        >
+          <i className="fa-regular fa-clock mr-1.5"></i>快照
+        </button>
+        {query && (
+          <button onClick={() => setQuery('')} className="ml-2 w-8 h-8 rounded-full flex items-center justify-center text-gray-500 hover:text-white">
+            <i className="fa-solid fa-xmark"></i>
+          </button>
+        )}
+      </div>
+
+      {hits && (
+        <div className="bg-[#0F0F11] rounded-[32px] border border-white/5 p-3 space-y-1 animate-in fade-in slide-in-from-top-4 duration-500">
+          <p className="px-4 pt-2 pb-3 text-[10px] font-black text-gray-600 uppercase tracking-[0.2em]">
+            {hits.length > 0 ? `找到 ${hits.length} 筆結果 RESULTS` : '沒有符合的內容 NO MATCHES'}
+          </p>
+          {hits.map(hit => (
+            <button
+              key={`${hit.chapterId}-${hit.snapshot?.id || 'current'}`}
+              onClick={() => onOpenHit(hit)}
+              className="w-full text-left p-4 rounded-2xl hover:bg-white/5 transition-colors space-y-2"
+            >
+              <div className="flex items-center justify-between space-x-3">
+                <div className="flex items-center space-x-2 min-w-0 text-[11px] font-black uppercase tracking-widest">
+                  <span className="text-gray-500 truncate">{hit.projectName}</span>
+                  <i className="fa-solid fa-chevron-right text-[8px] text-gray-700"></i>
+                  <span className="text-white truncate">{hit.chapterTitle || '未命名章節'}</span>
+                </div>
+                {hit.snapshot ? (
+                  <span className={`shrink-0 text-[9px] font-black uppercase tracking-widest px-2 py-1 rounded-lg ${hit.snapshot.type === SnapshotType.MILESTONE ? 'bg-[#D4FF5F]/10 text-[#D4FF5F]' : 'bg-blue-600/10 text-blue-400'}`}>
+                    快照 {new Date(hit.snapshot.timestamp).toLocaleDateString()}
+                  </span>
+                ) : (
+                  <span className="shrink-0 text-[9px] font-black text-gray-600 uppercase tracking-widest">{hit.matchCount} 處</span>
+                )}
+              </div>
+              <p className="text-[13px] text-slate-400 leading-relaxed line-clamp-2">{renderHighlighted(hit.snippet, hit.highlights)}</p>
+            </button>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default LibrarySearch;
@@ -3,6 +3,7 @@ import { Project, ISBNState, ChannelRule, SpineNodeId, PublishingSpineState, Spi
 import { SPINE_NODES_CONFIG, INITIAL_SPINE_NODES } from '../constants';
 import ExportConfig from './ExportConfig';
 import ISBNAssistanceModal from './ISBNAssistanceModal';
+import { projectAccess, ProjectRole, ROLE_LABELS } from '../services/projectAccess';
 
 enum PubStep { 
   SPINE_OVERVIEW, 
@@ -20,6 +21,7 @@ interface ProfessionalPublicationCenterProps {
   project: Project | null;
   onClose: () => void;
   onUpdateProject?: (p: Project) => void;
+  role: ProjectRole;
   currentLanguage: SupportedLanguage;
   userCountryCode: string;
 }
@@ -40,7 +42,10 @@ const CHANNEL_RULES: Record<string, ChannelRule> = {
   'Direct Publishing': { requiresISBN: false, allowsPlatformISBN: false }
 };
 
-const ProfessionalPublicationCenter: React.FC<ProfessionalPublicationCenterProps> = ({ project, onClose, onUpdateProject, currentLanguage, userCountryCode }) => {
+const ProfessionalPublicationCenter: React.FC<ProfessionalPublicationCenterProps> = ({ project, onClose, onUpdateProject: updateProject, role, currentLanguage, userCountryCode }) => {
+  // 非編輯者只能查看出版進度：不寫回專案，也不能進入配置與投遞流程
+  const canPublish = projectAccess.canEdit(role);
+  const onUpdateProject = canPublish ? updateProject : undefined;
   const [step, setStep] = useState<PubStep>(PubStep.SPINE_OVERVIEW);
   const [selectedTemplateId, setSelectedTemplateId] = useState<string>('t2');
   const [targetPlatform, setTargetPlatform] = useState('');
@@ -195,7 +200,13 @@ const ProfessionalPublicationCenter: React.FC<ProfessionalPublicationCenterProps
           </div>
         </main>
         <footer className="absolute bottom-0 inset-x-0 p-8 pb-12 bg-gradient-to-t from-black via-black to-transparent shrink-0">
-           <button onClick={() => setStep(PubStep.TEMPLATE_GALLERY)} className="w-full h-24 bg-white text-black rounded-[44px] text-[13px] font-black uppercase tracking-[0.4em] shadow-2xl active:scale-95 transition-all">進入出版配置程序</button>
+           {canPublish ? (
+             <button onClick={() => setStep(PubStep.TEMPLATE_GALLERY)} className="w-full h-24 bg-white text-black rounded-[44px] text-[13px] font-black uppercase tracking-[0.4em] shadow-2xl active:scale-95 transition-all">進入出版配置程序</button>
+           ) : (
+             <p className="w-full h-24 rounded-[44px] border border-white/10 flex items-center justify-center text-[11px] font-black text-gray-500 uppercase tracking-[0.3em]">
+               <i className="fa-solid fa-lock mr-3"></i>{ROLE_LABELS[role]}僅能查看出版進度
+             </p>
+           )}
         </footer>
       </div>
     );
@@ -806,7 +817,8 @@ const ProfessionalPublicationCenter: React.FC<ProfessionalPublicationCenterProps
                 }
                 setStep(PubStep.SPINE_OVERVIEW);
              }}
-             className="flex-1 h-24 bg-white text-black rounded-[44px] text-[13px] font-black uppercase tracking-[0.4em] shadow-2xl active:scale-95 transition-all"
+             disabled={!canPublish}
+             className="flex-1 h-24 bg-white text-black rounded-[44px] text-[13px] font-black uppercase tracking-[0.4em] shadow-2xl active:scale-95 transition-all disabled:opacity-30"
            >
              確認並標記完成
            </button>
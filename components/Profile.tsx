@@ -1,11 +1,13 @@
 
 import React, { useState } from 'react';
-import { AppState, MembershipLevel, SupportedLanguage, AIPreferences, SecuritySettings, BackupSettings, CreditCard } from '../types';
+import { AppState, MembershipLevel, SupportedLanguage, AIPreferences, SecuritySettings, CreditCard } from '../types';
 import LanguageSelector from './LanguageSelector';
 import PrivacyModal from './PrivacyModal';
 import AIPreferencesPage from './AIPreferences';
 import SecuritySettingsPage from './SecuritySettingsPage';
 import CreditCardManager from './CreditCardManager';
+import LibraryArchiveModal from './LibraryArchiveModal';
+import DriveBackupBrowser from './DriveBackupBrowser';
 
 interface ProfileProps {
   state: AppState;
@@ -13,21 +15,35 @@ interface ProfileProps {
   onLanguageChange: (lang: SupportedLanguage) => void;
   onUpdateAIPreferences: (prefs: AIPreferences) => void;
   onUpdateSecuritySettings: (settings: SecuritySettings) => void;
-  onUpdateBackupSettings: (settings: BackupSettings) => void;
   onUpdateSavedCards: (cards: CreditCard[]) => void;
   onUpdateCountryCode?: (code: string) => void;
   onUpdateAvatar?: (avatar: string, type: 'UPLOAD' | 'GRAVATAR') => void;
+  onLibraryImported?: () => void;
+  onToggleEncryption?: () => void;
+  onConnectDrive?: () => void;
+  onDisconnectDrive?: () => void;
+  onBackupNow?: () => void;
+  // 雲端同步帳號；未設定雲端端點時不提供 onCloudSignIn，也不顯示登入區塊
+  cloudAccount?: string | null;
+  onCloudSignIn?: (email: string, password: string) => Promise<void>;
+  onCloudSignOut?: () => void;
 }
 
-const Profile: React.FC<ProfileProps> = ({ state, onUpgrade, onLanguageChange, onUpdateAIPreferences, onUpdateSecuritySettings, onUpdateBackupSettings, onUpdateSavedCards, onUpdateCountryCode, onUpdateAvatar }) => {
+const Profile: React.FC<ProfileProps> = ({ state, onUpgrade, onLanguageChange, onUpdateAIPreferences, onUpdateSecuritySettings, onUpdateSavedCards, onUpdateCountryCode, onUpdateAvatar, onLibraryImported, onToggleEncryption, onConnectDrive, onDisconnectDrive, onBackupNow, cloudAccount, onCloudSignIn, onCloudSignOut }) => {
   const [isSelectorOpen, setIsSelectorOpen] = useState(false);
   const [isPrivacyOpen, setIsPrivacyOpen] = useState(false);
   const [isAIPreferencesOpen, setIsAIPreferencesOpen] = useState(false);
   const [isSecurityOpen, setIsSecurityOpen] = useState(false);
   const [isCardsOpen, setIsCardsOpen] = useState(false);
+  const [isArchiveOpen, setIsArchiveOpen] = useState(false);
+  const [isDriveBrowserOpen, setIsDriveBrowserOpen] = useState(false);
   const [showToast, setShowToast] = useState(false);
   const [isAvatarModalOpen, setIsAvatarModalOpen] = useState(false);
   const [gravatarEmail, setGravatarEmail] = useState('');
+  const [cloudEmail, setCloudEmail] = useState('');
+  const [cloudPassword, setCloudPassword] = useState('');
+  const [cloudError, setCloudError] = useState<string | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
 
   const handleLanguageSelect = (lang: SupportedLanguage) => {
     onLanguageChange(lang);
@@ -35,13 +51,23 @@ const Profile: React.FC<ProfileProps> = ({ state, onUpgrade, onLanguageChange, o
     setTimeout(() => setShowToast(false), 2000);
   };
 
+  const handleCloudSignIn = async () => {
+    if (!onCloudSignIn) return;
+    setIsSigningIn(true);
+    setCloudError(null);
+    try {
+      await onCloudSignIn(cloudEmail, cloudPassword);
+      setCloudPassword('');
+    } catch (e) {
+      setCloudError(e instanceof Error ? e.message : '雲端登入失敗');
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
   const toggleGDrive = () => {
-    onUpdateBackupSettings({
-      ...state.backupSettings,
-      googleDriveConnected: !state.backupSettings.googleDriveConnected,
-      status: state.backupSettings.googleDriveConnected ? 'IDLE' : 'SYNCING',
-      lastBackupTime: state.backupSettings.googleDriveConnected ? state.backupSettings.lastBackupTime : Date.now()
-    });
+    if (state.backupSettings.googleDriveConnected) onDisconnectDrive?.();
+    else onConnectDrive?.();
   };
 
   const handleAddCard = (card: CreditCard) => {
@@ -217,39 +243,121 @@ const Profile: React.FC<ProfileProps> = ({ state, onUpgrade, onLanguageChange, o
                 </button>
              </div>
 
+             <div className="flex items-center justify-between p-4 rounded-2xl bg-black/20 border border-white/5">
+                <div className="flex items-center gap-3">
+                   <span className="text-[11px] font-black text-gray-500 uppercase tracking-widest">本機與備份加密</span>
+                   <i className="fa-solid fa-lock text-[10px] text-[#D4FF5F]/80"></i>
+                </div>
+                <button 
+                  onClick={() => onToggleEncryption?.()}
+                  className={`w-14 h-7 rounded-full flex items-center px-1 transition-all ${state.backupSettings.isEncrypted ? 'bg-[#D4FF5F]/20' : 'bg-white/5'}`}
+                >
+                  <div className={`w-5 h-5 bg-white rounded-full transition-transform ${state.backupSettings.isEncrypted ? 'translate-x-7' : 'translate-x-0'}`} />
+                </button>
+             </div>
+
              {state.backupSettings.googleDriveConnected && (
                <div className="pt-8 border-t border-white/5 space-y-5 animate-in fade-in slide-in-from-top-4 duration-500">
                   <div className="flex justify-between items-center bg-black/20 p-4 rounded-2xl border border-white/5">
                      <span className="text-[11px] font-black text-gray-500 uppercase tracking-widest">備份路徑</span>
                      <span className="text-[11px] font-black text-blue-400 font-mono">{state.backupSettings.backupFolder}</span>
                   </div>
-                  <div className="flex items-center justify-between p-4 rounded-2xl bg-black/20 border border-white/5">
-                     <div className="flex items-center gap-3">
-                        <span className="text-[11px] font-black text-gray-500 uppercase tracking-widest">軍事級端對端加密</span>
-                        <i className="fa-solid fa-lock text-[10px] text-[#D4FF5F]/80"></i>
-                     </div>
-                     <button 
-                       onClick={() => onUpdateBackupSettings({...state.backupSettings, isEncrypted: !state.backupSettings.isEncrypted})}
-                       className={`w-14 h-7 rounded-full flex items-center px-1 transition-all ${state.backupSettings.isEncrypted ? 'bg-[#D4FF5F]/20' : 'bg-white/5'}`}
-                     >
-                       <div className={`w-5 h-5 bg-white rounded-full transition-transform ${state.backupSettings.isEncrypted ? 'translate-x-7' : 'translate-x-0'}`} />
-                     </button>
-                  </div>
                   <div className="flex justify-between items-center px-2 pt-2">
-                     <div className="flex items-center gap-3">
-                        <div className={`w-2 h-2 rounded-full ${state.backupSettings.status === 'SYNCING' ? 'bg-blue-500 animate-pulse' : 'bg-[#D4FF5F]'}`}></div>
-                        <span className="text-[11px] font-black text-gray-400 uppercase tracking-widest">
-                          {state.backupSettings.status === 'SYNCING' ? '同步處理中' : '雲端狀態：安全'}
+                     <div className="flex items-center gap-3 min-w-0">
+                        <div className={`w-2 h-2 rounded-full shrink-0 ${state.backupSettings.status === 'SYNCING' ? 'bg-blue-500 animate-pulse' : state.backupSettings.status === 'ERROR' ? 'bg-red-500' : 'bg-[#D4FF5F]'}`}></div>
+                        <span className={`text-[11px] font-black uppercase tracking-widest truncate ${state.backupSettings.status === 'ERROR' ? 'text-red-400' : 'text-gray-400'}`}>
+                          {state.backupSettings.status === 'SYNCING' ? '同步處理中' : state.backupSettings.status === 'ERROR' ? (state.backupSettings.lastError || '備份失敗') : '雲端狀態：安全'}
                         </span>
                      </div>
-                     <span className="text-[9px] font-black text-gray-700 uppercase tracking-widest">
+                     <span className="text-[9px] font-black text-gray-700 uppercase tracking-widest shrink-0 ml-3">
                        LAST: {state.backupSettings.lastBackupTime ? new Date(state.backupSettings.lastBackupTime).toLocaleString() : 'PENDING'}
                      </span>
                   </div>
+                  <div className="grid grid-cols-2 gap-3">
+                     <button
+                       onClick={state.backupSettings.status === 'ERROR' ? onConnectDrive : onBackupNow}
+                       disabled={state.backupSettings.status === 'SYNCING'}
+                       className="py-3 rounded-2xl bg-blue-600/10 text-blue-400 text-[10px] font-black uppercase tracking-widest hover:bg-blue-600 hover:text-white transition-all disabled:opacity-40"
+                     >
+                       {state.backupSettings.status === 'ERROR' ? '重新授權' : '立即備份'}
+                     </button>
+                     <button
+                       onClick={() => setIsDriveBrowserOpen(true)}
+                       className="py-3 rounded-2xl bg-white/5 text-gray-400 text-[10px] font-black uppercase tracking-widest hover:text-white transition-all"
+                     >
+                       備份版本
+                     </button>
+                  </div>
                </div>
              )}
           </div>
 
+          <button
+            onClick={() => setIsArchiveOpen(true)}
+            className="w-full group bg-[#1C1C1E] rounded-[36px] border border-white/5 hover:border-blue-500/30 p-8 flex items-center justify-between transition-all text-left"
+          >
+            <div className="flex items-center gap-6">
+              <div className="w-16 h-16 rounded-[24px] bg-white/5 text-blue-500 flex items-center justify-center shadow-inner group-hover:scale-110 transition-transform">
+                <i className="fa-solid fa-box-archive text-2xl"></i>
+              </div>
+              <div>
+                <h4 className="text-xl font-black text-white tracking-tight">完整書庫備份</h4>
+                <p className="text-[10px] text-gray-600 uppercase font-black tracking-widest mt-1">EXPORT / IMPORT .INSPUB</p>
+              </div>
+            </div>
+            <i className="fa-solid fa-chevron-right text-gray-800 text-xs"></i>
+          </button>
+
+          {onCloudSignIn && (
+            <div className="bg-[#1C1C1E] rounded-[36px] border border-white/5 p-8 space-y-5">
+              <div className="flex items-center gap-6">
+                <div className={`w-16 h-16 rounded-[24px] flex items-center justify-center shadow-inner ${cloudAccount ? 'bg-[#D4FF5F]/10 text-[#D4FF5F]' : 'bg-white/5 text-gray-600'}`}>
+                  <i className="fa-solid fa-cloud-arrow-up text-2xl"></i>
+                </div>
+                <div className="min-w-0">
+                  <h4 className="text-xl font-black text-white tracking-tight">雲端同步帳號</h4>
+                  <p className="text-[10px] text-gray-600 uppercase font-black tracking-widest mt-1 truncate">
+                    {cloudAccount ? `已登入 ${cloudAccount}` : 'SIGN IN TO SYNC'}
+                  </p>
+                </div>
+              </div>
+              {cloudAccount ? (
+                <button
+                  onClick={onCloudSignOut}
+                  className="w-full py-3 rounded-2xl bg-white/5 text-gray-400 text-[10px] font-black uppercase tracking-widest hover:text-white transition-all"
+                >
+                  登出
+                </button>
+              ) : (
+                <div className="space-y-3">
+                  <input
+                    type="email"
+                    value={cloudEmail}
+                    onChange={e => setCloudEmail(e.target.value)}
+                    placeholder="電子郵件"
+                    className="w-full bg-black/20 border border-white/5 h-12 px-5 rounded-2xl text-[13px] font-bold outline-none focus:border-blue-500 text-white"
+                  />
+                  <input
+                    type="password"
+                    value={cloudPassword}
+                    onChange={e => setCloudPassword(e.target.value)}
+                    onKeyDown={e => e.key === 'Enter' && handleCloudSignIn()}
+                    placeholder="密碼"
+                    className="w-full bg-black/20 border border-white/5 h-12 px-5 rounded-2xl text-[13px] font-bold outline-none focus:border-blue-500 text-white"
+                  />
+                  {cloudError && <p className="text-[11px] font-bold text-red-400 px-1">{cloudError}</p>}
+                  <button
+                    onClick={handleCloudSignIn}
+                    disabled={isSigningIn || !cloudEmail.trim() || !cloudPassword}
+                    className="w-full py-3 rounded-2xl bg-blue-600/10 text-blue-400 text-[10px] font-black uppercase tracking-widest hover:bg-blue-600 hover:text-white transition-all disabled:opacity-40"
+                  >
+                    {isSigningIn ? '登入中' : '登入'}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="bg-[#1C1C1E]/40 border border-dashed border-white/10 p-8 rounded-[36px] flex items-start gap-6">
              <i className="fa-solid fa-cloud-bolt text-3xl text-gray-700 mt-1"></i>
              <div className="space-y-2">
@@ -381,10 +489,29 @@ const Profile: React.FC<ProfileProps> = ({ state, onUpgrade, onLanguageChange, o
         <SecuritySettingsPage
           settings={state.securitySettings}
           onUpdate={onUpdateSecuritySettings}
+          backupSettings={state.backupSettings}
+          onConnectDrive={() => onConnectDrive?.()}
+          onDisconnectDrive={() => onDisconnectDrive?.()}
+          onBackupNow={() => onBackupNow?.()}
           onClose={() => setIsSecurityOpen(false)}
         />
       )}
 
+      {isArchiveOpen && (
+        <LibraryArchiveModal
+          onClose={() => setIsArchiveOpen(false)}
+          onImported={() => onLibraryImported?.()}
+        />
+      )}
+
+      {isDriveBrowserOpen && (
+        <DriveBackupBrowser
+          backupFolder={state.backupSettings.backupFolder}
+          onClose={() => setIsDriveBrowserOpen(false)}
+          onRestored={() => onLibraryImported?.()}
+        />
+      )}
+
       {isCardsOpen && (
         <CreditCardManager 
           cards={state.savedCards}
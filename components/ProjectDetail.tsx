@@ -1,10 +1,13 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Project, Chapter, StructureType, SpineNodeId, SpineNodeStatus, CoverAssetType, CoverAsset } from '../types';
+import { Project, Chapter, StructureType, SpineNodeId, SpineNodeStatus, CoverAssetType, CoverAsset, CountMetric } from '../types';
 import { TEMPLATES, STRUCTURE_DEFINITIONS, SPINE_NODES_CONFIG, INITIAL_SPINE_NODES } from '../constants';
 import { geminiService } from '../services/geminiService';
 import CoverManagementModal from './CoverManagementModal';
 import ArtifactDownloader from './ArtifactDownloader';
+import AssetImage from './AssetImage';
+import { projectAccess, ProjectRole, ROLE_LABELS } from '../services/projectAccess';
+import { textCount, COUNT_METRIC_LABELS } from '../services/textCount';
 
 interface ProjectDetailProps {
   project: Project;
@@ -14,9 +17,15 @@ interface ProjectDetailProps {
   onDeleteProject: (id: string) => void;
   onEnterEditor: (chapterId: string) => void;
   onOpenExport?: () => void; 
+  onOpenCollaboration?: () => void;
+  onOpenReplace?: () => void;
+  onOpenBibliography?: () => void;
+  role: ProjectRole;
 }
 
-const ProjectDetail: React.FC<ProjectDetailProps> = ({ project, onBack, onOpenModule, onUpdateProject, onDeleteProject, onEnterEditor, onOpenExport }) => {
+const ProjectDetail: React.FC<ProjectDetailProps> = ({ project, onBack, onOpenModule, onUpdateProject, onDeleteProject, onEnterEditor, onOpenExport, onOpenCollaboration, onOpenReplace, onOpenBibliography, role }) => {
+  // 檢視者與評論者只能閱讀章節，不能變更結構、名稱與封面
+  const canEdit = projectAccess.canEdit(role);
   const [isAddingChapter, setIsAddingChapter] = useState(false);
   const [newTitle, setNewTitle] = useState('');
   const [draggedIdx, setDraggedIdx] = useState<number | null>(null);
@@ -37,10 +46,13 @@ const ProjectDetail: React.FC<ProjectDetailProps> = ({ project, onBack, onOpenMo
 
   const structDef = STRUCTURE_DEFINITIONS[project.structureType] || STRUCTURE_DEFINITIONS[StructureType.FREE];
 
-  const totalWords = project.chapters.reduce((acc, c) => acc + (c.wordCount || 0), 0);
+  // 寫作目標依專案選定的統計方式計算；頁數依拉丁詞數與中文字數分別估算
+  const counts = textCount.ofProject(project);
+  const goalMetric = project.goalMetric || 'MIXED';
+  const totalWords = textCount.valueOf(counts, goalMetric);
   const writingDays = Math.max(1, Math.ceil((Date.now() - project.createdAt) / (1000 * 60 * 60 * 24)));
 
-  const estPages = Math.ceil(totalWords / 250);
+  const estPages = textCount.estimatePages(counts);
   const estSpineWidth = (estPages * 0.0022).toFixed(2);
 
   useEffect(() => {
@@ -99,7 +111,7 @@ const ProjectDetail: React.FC<ProjectDetailProps> = ({ project, onBack, onOpenMo
           contentFormats: ['epub', 'pdf', 'docx']
         }),
         coverAssets: assets,
-        coverImage: assets[CoverAssetType.EBOOK_DIGITAL]?.url || assets[Object.keys(assets)[0] as CoverAssetType]?.url || project.publishingPayload?.coverImage
+        coverImageRef: assets[CoverAssetType.EBOOK_DIGITAL]?.ref || assets[Object.keys(assets)[0] as CoverAssetType]?.ref || project.publishingPayload?.coverImageRef
       }
     });
     setIsCoverModalOpen(false);
@@ -167,7 +179,7 @@ const ProjectDetail: React.FC<ProjectDetailProps> = ({ project, onBack, onOpenMo
 
   const handleDeleteChapter = (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
-    if (window.confirm('確定要刪除此章節嗎？內容將無法復原。')) {
+    if (window.confirm('確定要刪除此章節嗎？章節與快照歷史將移至回收桶。')) {
       const remaining = project.chapters.filter(c => c.id !== id);
       const reordered = remaining.map((c, i) => ({ ...c, order: i + 1 }));
       onUpdateProject({ ...project, chapters: reordered, updatedAt: Date.now() });
@@ -200,12 +212,18 @@ const ProjectDetail: React.FC<ProjectDetailProps> = ({ project, onBack, onOpenMo
     setDraggedIdx(idx);
   };
 
-  const displayProgress = project.id === 'p1' ? 11 : project.progress;
+  const displayProgress = textCount.goalProgress(project);
   const wordGoal = project.targetWordCount || 50000;
-  const miniProgress = project.id === 'p1' ? 2 : project.progress;
+  const miniProgress = Math.min(100, Math.round((totalWords / wordGoal) * 100));
+
+  const handleCycleGoalMetric = () => {
+    const metrics = Object.keys(COUNT_METRIC_LABELS) as CountMetric[];
+    const next = metrics[(metrics.indexOf(goalMetric) + 1) % metrics.length];
+    onUpdateProject({ ...project, goalMetric: next, updatedAt: Date.now() });
+  };
 
   const hasAssets = project.publishingPayload?.coverAssets && Object.keys(project.publishingPayload.coverAssets).length > 0;
-  const currentPreviewUrl = project.publishingPayload?.coverImage;
+  const currentPreviewRef = project.publishingPayload?.coverImageRef;
 
   return (
     <div className="flex flex-col h-full animate-in fade-in duration-700 overflow-y-auto no-scrollbar pb-40">
@@ -234,23 +252,49 @@ const ProjectDetail: React.FC<ProjectDetailProps> = ({ project, onBack, onOpenMo
             </button>
             {isMenuOpen && (
               <div className="absolute right-0 top-14 w-52 bg-[#1C1C1E] border border-white/10 rounded-[28px] shadow-3xl z-[100] p-2 animate-in fade-in zoom-in duration-300">
-                <button onClick={handleTogglePin} className="w-full flex items-center space-x-4 p-4 rounded-2xl hover:bg-white/5 text-left text-white">
-                  <i className={`fa-solid ${project.isPinned ? 'fa-thumbtack text-[#D4FF5F]' : 'fa-thumbtack text-gray-400'}`}></i>
-                  <span className="text-[11px] font-black uppercase tracking-widest">{project.isPinned ? '取消置頂' : '置頂專案'}</span>
-                </button>
-                <button onClick={() => { setIsEditingName(true); setIsMenuOpen(false); }} className="w-full flex items-center space-x-4 p-4 rounded-2xl hover:bg-white/5 text-left text-white">
-                  <i className="fa-solid fa-pen-to-square text-blue-500 text-lg"></i>
-                  <span className="text-[13px] font-bold tracking-tight">編輯名稱</span>
-                </button>
+                {canEdit && (
+                  <>
+                    <button onClick={handleTogglePin} className="w-full flex items-center space-x-4 p-4 rounded-2xl hover:bg-white/5 text-left text-white">
+                      <i className={`fa-solid ${project.isPinned ? 'fa-thumbtack text-[#D4FF5F]' : 'fa-thumbtack text-gray-400'}`}></i>
+                      <span className="text-[11px] font-black uppercase tracking-widest">{project.isPinned ? '取消置頂' : '置頂專案'}</span>
+                    </button>
+                    <button onClick={() => { setIsEditingName(true); setIsMenuOpen(false); }} className="w-full flex items-center space-x-4 p-4 rounded-2xl hover:bg-white/5 text-left text-white">
+                      <i className="fa-solid fa-pen-to-square text-blue-500 text-lg"></i>
+                      <span className="text-[13px] font-bold tracking-tight">編輯名稱</span>
+                    </button>
+                  </>
+                )}
                 <button onClick={onOpenExport} className="w-full flex items-center space-x-4 p-4 rounded-2xl hover:bg-white/5 text-left text-white">
                   <i className="fa-solid fa-file-export text-blue-400"></i>
                   <span className="text-[11px] font-black uppercase tracking-widest">出版投遞</span>
                 </button>
-                <div className="h-px bg-white/5 my-1.5 mx-2" />
-                <button onClick={() => onDeleteProject(project.id)} className="w-full flex items-center space-x-4 p-4 rounded-2xl hover:bg-red-500/10 text-left text-red-500">
-                  <i className="fa-solid fa-trash-can"></i>
-                  <span className="text-[11px] font-black uppercase tracking-widest">刪除專案</span>
-                </button>
+                {onOpenCollaboration && (
+                  <button onClick={() => { onOpenCollaboration(); setIsMenuOpen(false); }} className="w-full flex items-center space-x-4 p-4 rounded-2xl hover:bg-white/5 text-left text-white">
+                    <i className="fa-solid fa-user-group text-green-400"></i>
+                    <span className="text-[11px] font-black uppercase tracking-widest">協作成員</span>
+                  </button>
+                )}
+                {onOpenReplace && (
+                  <button onClick={() => { onOpenReplace(); setIsMenuOpen(false); }} className="w-full flex items-center space-x-4 p-4 rounded-2xl hover:bg-white/5 text-left text-white">
+                    <i className="fa-solid fa-magnifying-glass text-[#D4FF5F]"></i>
+                    <span className="text-[11px] font-black uppercase tracking-widest">尋找與取代</span>
+                  </button>
+                )}
+                {onOpenBibliography && (
+                  <button onClick={() => { onOpenBibliography(); setIsMenuOpen(false); }} className="w-full flex items-center space-x-4 p-4 rounded-2xl hover:bg-white/5 text-left text-white">
+                    <i className="fa-solid fa-book text-[#D4FF5F]"></i>
+                    <span className="text-[11px] font-black uppercase tracking-widest">參考文獻</span>
+                  </button>
+                )}
+                {projectAccess.canManageMembers(role) && (
+                  <>
+                    <div className="h-px bg-white/5 my-1.5 mx-2" />
+                    <button onClick={() => onDeleteProject(project.id)} className="w-full flex items-center space-x-4 p-4 rounded-2xl hover:bg-red-500/10 text-left text-red-500">
+                      <i className="fa-solid fa-trash-can"></i>
+                      <span className="text-[11px] font-black uppercase tracking-widest">刪除專案</span>
+                    </button>
+                  </>
+                )}
               </div>
             )}
           </div>
@@ -270,13 +314,13 @@ const ProjectDetail: React.FC<ProjectDetailProps> = ({ project, onBack, onOpenMo
               />
             ) : (
               <h1 
-                onClick={() => setIsEditingName(true)}
+                onClick={() => canEdit && setIsEditingName(true)}
                 className="text-4xl font-black tracking-tighter text-white cursor-text"
               >
                 {project.name}
               </h1>
             )}
-            {!isEditingName && (
+            {!isEditingName && canEdit && (
               <button onClick={() => setIsEditingName(true)} className="text-blue-500 opacity-0 group-hover:opacity-100 transition-opacity">
                  <i className="fa-solid fa-pen-to-square text-xl"></i>
               </button>
@@ -285,6 +329,12 @@ const ProjectDetail: React.FC<ProjectDetailProps> = ({ project, onBack, onOpenMo
           <p className="text-[11px] text-[#8E8E93] font-black uppercase tracking-[0.4em] mt-2.5">
             {TEMPLATES[project.writingType]?.label}
           </p>
+          {role !== 'OWNER' && (
+            <span className="inline-flex items-center mt-4 px-4 py-1.5 rounded-full bg-white/5 border border-white/10 text-[10px] font-black text-gray-400 uppercase tracking-widest">
+              <i className={`fa-solid ${canEdit ? 'fa-pen-to-square' : 'fa-eye'} mr-2`}></i>
+              {ROLE_LABELS[role]}{!canEdit && ' · 唯讀'}
+            </span>
+          )}
         </div>
       </header>
 
@@ -293,7 +343,17 @@ const ProjectDetail: React.FC<ProjectDetailProps> = ({ project, onBack, onOpenMo
       {/* Stats Grid */}
       <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6">
         <div className="bg-[#1C1C1E] p-6 sm:p-8 rounded-[32px] sm:rounded-[44px] border border-white/5 space-y-3">
-          <p className="text-[9px] sm:text-[10px] font-black text-[#8E8E93] uppercase tracking-widest">總字數統計</p>
+          <div className="flex items-center justify-between">
+            <p className="text-[9px] sm:text-[10px] font-black text-[#8E8E93] uppercase tracking-widest">總字數統計</p>
+            <button
+              onClick={handleCycleGoalMetric}
+              disabled={!canEdit}
+              title="寫作目標的統計方式"
+              className="px-2 py-0.5 rounded-lg bg-white/5 text-[9px] font-black text-gray-400 uppercase tracking-widest disabled:cursor-default"
+            >
+              {COUNT_METRIC_LABELS[goalMetric]}
+            </button>
+          </div>
           <div className="flex items-baseline space-x-1.5">
             <span className="text-2xl sm:text-3xl font-black text-white">{totalWords.toLocaleString()}</span>
             <span className="text-[10px] sm:text-[11px] font-bold text-gray-700">/ {wordGoal.toLocaleString()}</span>
@@ -372,11 +432,11 @@ const ProjectDetail: React.FC<ProjectDetailProps> = ({ project, onBack, onOpenMo
           </div>
           
           <div className="relative aspect-[3/4] w-full max-w-[360px] mx-auto bg-[#1C1C1E] rounded-[56px] border border-white/10 overflow-hidden shadow-3xl group transition-all">
-             {currentPreviewUrl ? (
+             {currentPreviewRef ? (
                 <>
-                  <img src={currentPreviewUrl} alt="Book Cover" className="w-full h-full object-cover" />
+                  <AssetImage assetRef={currentPreviewRef} alt="Book Cover" className="w-full h-full object-cover" />
                   <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex flex-col items-center justify-center p-10 space-y-4">
-                     <button onClick={() => setIsCoverModalOpen(true)} className="w-full py-5 bg-white/10 backdrop-blur-md border border-white/20 rounded-3xl text-[12px] font-black uppercase tracking-[0.3em] text-white active:scale-95">管理封面資產</button>
+                     {canEdit && <button onClick={() => setIsCoverModalOpen(true)} className="w-full py-5 bg-white/10 backdrop-blur-md border border-white/20 rounded-3xl text-[12px] font-black uppercase tracking-[0.3em] text-white active:scale-95">管理封面資產</button>}
                      <button className="w-full py-5 bg-[#D4FF5F] text-black rounded-3xl text-[12px] font-black uppercase tracking-[0.3em] shadow-xl active:scale-95">下載當前預覽</button>
                   </div>
                   
@@ -397,12 +457,14 @@ const ProjectDetail: React.FC<ProjectDetailProps> = ({ project, onBack, onOpenMo
                         根據專案目標生成符合 Amazon KDP 或實體書規範的出版級封面。
                       </p>
                    </div>
-                   <button 
-                     onClick={() => setIsCoverModalOpen(true)} 
-                     className="w-full py-6 bg-[#2563EB] rounded-[28px] text-[12px] font-black uppercase tracking-[0.3em] text-white shadow-[0_20px_40px_rgba(37,99,235,0.3)] active:scale-95 transition-all"
-                   >
-                     啟動封面管理中心
-                   </button>
+                   {canEdit && (
+                     <button 
+                       onClick={() => setIsCoverModalOpen(true)} 
+                       className="w-full py-6 bg-[#2563EB] rounded-[28px] text-[12px] font-black uppercase tracking-[0.3em] text-white shadow-[0_20px_40px_rgba(37,99,235,0.3)] active:scale-95 transition-all"
+                     >
+                       啟動封面管理中心
+                     </button>
+                   )}
                 </div>
              )}
           </div>
@@ -417,6 +479,7 @@ const ProjectDetail: React.FC<ProjectDetailProps> = ({ project, onBack, onOpenMo
             </div>
             <ArtifactDownloader
               project={project}
+              onUpdateProject={canEdit ? onUpdateProject : undefined}
               onDownloadStart={() => console.log('Download started')}
               onDownloadComplete={() => console.log('Download completed')}
             />
@@ -428,14 +491,16 @@ const ProjectDetail: React.FC<ProjectDetailProps> = ({ project, onBack, onOpenMo
           <div className="flex items-center justify-between px-2">
              <div className="space-y-1.5">
                <h2 className="text-[32px] font-black text-white tracking-tighter leading-none">章節管理</h2>
-               <p className="text-[11px] text-[#4E4E52] font-black uppercase tracking-widest">拖拽排序 · 點擊編輯</p>
+               <p className="text-[11px] text-[#4E4E52] font-black uppercase tracking-widest">{canEdit ? '拖拽排序 · 點擊編輯' : '點擊閱讀'}</p>
              </div>
-             <button 
-               onClick={handleOpenAdd} 
-               className="w-14 h-14 rounded-full bg-[#2563EB] flex items-center justify-center text-white text-2xl shadow-xl active:scale-95 transition-all hover:scale-105"
-             >
-               <i className="fa-solid fa-plus"></i>
-             </button>
+             {canEdit && (
+               <button 
+                 onClick={handleOpenAdd} 
+                 className="w-14 h-14 rounded-full bg-[#2563EB] flex items-center justify-center text-white text-2xl shadow-xl active:scale-95 transition-all hover:scale-105"
+               >
+                 <i className="fa-solid fa-plus"></i>
+               </button>
+             )}
           </div>
           
           <div className="space-y-4">
@@ -448,9 +513,9 @@ const ProjectDetail: React.FC<ProjectDetailProps> = ({ project, onBack, onOpenMo
                 project.chapters.map((unit, idx) => (
                   <div 
                     key={unit.id} 
-                    draggable 
+                    draggable={canEdit} 
                     onDragStart={() => onDragStart(idx)} 
-                    onDragOver={(e) => onDragOver(e, idx)} 
+                    onDragOver={(e) => canEdit && onDragOver(e, idx)} 
                     className="group bg-[#1C1C1E] h-[100px] sm:h-[110px] px-8 rounded-[24px] sm:rounded-[28px] border border-white/5 flex items-center justify-between hover:bg-[#252528] transition-all cursor-pointer"
                     onClick={() => onEnterEditor(unit.id)}
                   >
@@ -479,24 +544,28 @@ const ProjectDetail: React.FC<ProjectDetailProps> = ({ project, onBack, onOpenMo
                                 {unit.title}
                              </h4>
                            )}
-                           <p className="text-[11px] text-gray-600 font-bold mt-0.5">{unit.wordCount} 字</p>
+                           <p className="text-[11px] text-gray-600 font-bold mt-0.5">{textCount.ofChapter(unit).mixed} 字</p>
                         </div>
                      </div>
 
                      {/* Optimized Action Icons */}
                      <div className="flex items-center space-x-4 sm:space-x-6 shrink-0 pl-4">
-                        <button 
-                          onClick={(e) => handleStartEditChapter(e, unit)}
-                          className="w-10 h-10 sm:w-11 sm:h-11 rounded-xl bg-white/5 flex items-center justify-center text-gray-400 hover:text-white hover:bg-white/10 transition-all active:scale-90"
-                        >
-                           <i className="fa-solid fa-pen text-sm"></i>
-                        </button>
-                        <button 
-                          onClick={(e) => handleDeleteChapter(e, unit.id)}
-                          className="w-10 h-10 sm:w-11 sm:h-11 rounded-xl bg-red-500/10 flex items-center justify-center text-red-500 hover:bg-red-500/20 transition-all active:scale-90"
-                        >
-                           <i className="fa-regular fa-trash-can text-sm"></i>
-                        </button>
+                        {canEdit && (
+                          <>
+                            <button 
+                              onClick={(e) => handleStartEditChapter(e, unit)}
+                              className="w-10 h-10 sm:w-11 sm:h-11 rounded-xl bg-white/5 flex items-center justify-center text-gray-400 hover:text-white hover:bg-white/10 transition-all active:scale-90"
+                            >
+                               <i className="fa-solid fa-pen text-sm"></i>
+                            </button>
+                            <button 
+                              onClick={(e) => handleDeleteChapter(e, unit.id)}
+                              className="w-10 h-10 sm:w-11 sm:h-11 rounded-xl bg-red-500/10 flex items-center justify-center text-red-500 hover:bg-red-500/20 transition-all active:scale-90"
+                            >
+                               <i className="fa-regular fa-trash-can text-sm"></i>
+                            </button>
+                          </>
+                        )}
                         <div className="w-14 h-14 sm:w-16 sm:h-16 rounded-[20px] bg-blue-600 flex items-center justify-center text-white shadow-lg active:scale-95 transition-all">
                            <i className="fa-solid fa-play text-lg sm:text-xl translate-x-0.5"></i>
                         </div>
@@ -0,0 +1,253 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { marked } from 'marked';
+import { Project, SnapshotType, StructureUnit, VersionSnapshot } from '../types';
+import { firebaseService } from '../services/firebaseService';
+
+/**
+ * 分割檢視的參考來源：同專案的其他章節、研究筆記（收集中心建立的筆記專案）的章節，或目前章節的版本快照
+ */
+export type ReferenceSource =
+  | { kind: 'CHAPTER'; projectId: string; chapterId: string }
+  | { kind: 'SNAPSHOT'; chapterId: string; snapshotId: string };
+
+export interface ReferencePaneProps {
+  project: Project;
+  // 研究筆記專案
+  notes: Project[];
+  activeChapterId: string;
+  source: ReferenceSource | null;
+  // SIDE 為桌面與平板的並排窗格；SHEET 為手機的底部抽屜
+  layout: 'SIDE' | 'SHEET';
+  syncScroll: boolean;
+  canEditProject: (projectId: string) => boolean;
+  onChangeSource: (source: ReferenceSource) => void;
+  // caret 與 group 供記入該章的復原紀錄
+  onUpdateChapter: (projectId: string, chapterId: string, content: string, caret: number, group: string | null) => void;
+  onToggleSyncScroll: () => void;
+  onClose: () => void;
+  // 內容的捲動容器，供編輯器同步捲動
+  bodyRef: React.RefObject<HTMLDivElement>;
+}
+
+type Resolved =
+  | { kind: 'CHAPTER'; project: Project; chapter: StructureUnit }
+  | { kind: 'SNAPSHOT'; chapter: StructureUnit; snapshot: VersionSnapshot };
+
+// 抽屜：收合時只露出標題列，向上滑展開、向下滑收合或關閉
+const SWIPE_THRESHOLD = 40;
+
+const resolve = (source: ReferenceSource | null, project: Project, notes: Project[]): Resolved | null => {
+  if (!source) return null;
+  if (source.kind === 'SNAPSHOT') {
+    const chapter = project.chapters.find(c => c.id === source.chapterId);
+    const snapshot = chapter?.history?.find(s => s.id === source.snapshotId);
+    return chapter && snapshot ? { kind: 'SNAPSHOT', chapter, snapshot } : null;
+  }
+  const owner = [project, ...notes].find(p => p.id === source.projectId);
+  const chapter = owner?.chapters.find(c => c.id === source.chapterId);
+  return owner && chapter ? { kind: 'CHAPTER', project: owner, chapter } : null;
+};
+
+const snapshotLabel = (snapshot: VersionSnapshot) =>
+  `${new Date(snapshot.timestamp).toLocaleString('zh-TW', { hour12: false, month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' })}${snapshot.type === SnapshotType.MILESTONE ? ' · 里程碑' : ''}`;
+
+const ReferencePane: React.FC<ReferencePaneProps> = ({
+  project,
+  notes,
+  activeChapterId,
+  source,
+  layout,
+  syncScroll,
+  canEditProject,
+  onChangeSource,
+  onUpdateChapter,
+  onToggleSyncScroll,
+  onClose,
+  bodyRef
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSheetOpen, setIsSheetOpen] = useState(true);
+  const [dragOffset, setDragOffset] = useState(0);
+  const touchStartRef = useRef<number | null>(null);
+
+  const resolved = resolve(source, project, notes);
+  const activeChapter = project.chapters.find(c => c.id === activeChapterId);
+  const chapters = [...project.chapters].sort((a, b) => a.order - b.order).filter(c => c.id !== activeChapterId);
+  const snapshots = activeChapter?.history || [];
+  // 快照唯讀；有待審修訂建議的章節須在編輯器中處理，也不開放在此編輯
+  const editable = resolved?.kind === 'CHAPTER' && canEditProject(resolved.project.id) && !resolved.chapter.suggestions?.length;
+  const editing = editable && isEditing;
+
+  const content = resolved?.kind === 'SNAPSHOT' ? resolved.snapshot.content : resolved?.chapter.content || '';
+  const html = useMemo(() => editing ? '' : marked.parse(content, { async: false }), [content, editing]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    if (resolved?.kind !== 'CHAPTER') return;
+    const { project: owner, chapter } = resolved;
+    const next = e.target.value;
+    // 連續輸入合併為一步復原，換行另起一步
+    const group = next[e.target.selectionStart - 1] === '\n' ? null : 'reference:edit';
+    onUpdateChapter(owner.id, chapter.id, next, e.target.selectionStart, group);
+    firebaseService.syncToCloud(owner.id, chapter.id, next);
+  };
+
+  const handleSelectSource = (value: string) => {
+    if (!value) return;
+    setIsEditing(false);
+    onChangeSource(JSON.parse(value) as ReferenceSource);
+  };
+
+  // 抽屜的拖曳：觸控事件不往外傳，避免觸發時間軸與編輯器的滑動手勢
+  const handleTouchStart = (e: React.TouchEvent) => {
+    e.stopPropagation();
+    touchStartRef.current = e.touches[0].clientY;
+  };
+
+  const handleTouchMove = (e: React.TouchEvent) => {
+    e.stopPropagation();
+    if (touchStartRef.current === null) return;
+    setDragOffset(e.touches[0].clientY - touchStartRef.current);
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    e.stopPropagation();
+    if (dragOffset < -SWIPE_THRESHOLD) setIsSheetOpen(true);
+    else if (dragOffset > SWIPE_THRESHOLD) {
+      if (isSheetOpen) setIsSheetOpen(false);
+      else onClose();
+    }
+    touchStartRef.current = null;
+    setDragOffset(0);
+  };
+
+  const sourceValue = source ? JSON.stringify(source) : '';
+
+  const header = (
+    <div className="px-5 py-3 flex items-center space-x-2 border-b border-white/5 shrink-0">
+      <select
+        value={sourceValue}
+        onChange={e => handleSelectSource(e.target.value)}
+        className="flex-1 min-w-0 bg-white/5 border border-white/10 h-10 px-3 rounded-xl text-[12px] font-bold text-white outline-none focus:border-blue-500"
+      >
+        <option value="" disabled>選擇參考內容…</option>
+        {chapters.length > 0 && (
+          <optgroup label="本專案章節">
+            {chapters.map(c => (
+              <option key={c.id} value={JSON.stringify({ kind: 'CHAPTER', projectId: project.id, chapterId: c.id })}>{c.title || '未命名章節'}</option>
+            ))}
+          </optgroup>
+        )}
+        {notes.length > 0 && (
+          <optgroup label="研究筆記">
+            {notes.flatMap(note => note.chapters.map(c => (
+              <option key={`${note.id}/${c.id}`} value={JSON.stringify({ kind: 'CHAPTER', projectId: note.id, chapterId: c.id })}>
+                {note.chapters.length > 1 ? `${note.name} · ${c.title}` : note.name}
+              </option>
+            )))}
+          </optgroup>
+        )}
+        {snapshots.length > 0 && (
+          <optgroup label="本章版本快照">
+            {snapshots.map(s => (
+              <option key={s.id} value={JSON.stringify({ kind: 'SNAPSHOT', chapterId: activeChapterId, snapshotId: s.id })}>{snapshotLabel(s)}</option>
+            ))}
+          </optgroup>
+        )}
+        {/* 來源不在目前清單中（例如先前章節的快照）時仍保留顯示 */}
+        {resolved && ![...chapters.map(c => c.id), ...notes.flatMap(n => n.chapters.map(c => c.id)), ...snapshots.map(s => s.id)]
+          .includes(resolved.kind === 'SNAPSHOT' ? resolved.snapshot.id : resolved.chapter.id) && (
+          <option value={sourceValue}>
+            {resolved.kind === 'SNAPSHOT' ? `${resolved.chapter.title} · ${snapshotLabel(resolved.snapshot)}` : resolved.chapter.title}
+          </option>
+        )}
+      </select>
+      {editable && (
+        <button
+          onClick={() => setIsEditing(!isEditing)}
+          title={editing ? '改為唯讀' : '編輯'}
+          className={`w-10 h-10 rounded-full flex items-center justify-center shrink-0 ${editing ? 'text-white bg-white/10' : 'text-[#8E8E93]'}`}
+        >
+          <i className={`fa-solid ${editing ? 'fa-pen' : 'fa-lock'} text-sm`}></i>
+        </button>
+      )}
+      <button
+        onClick={onToggleSyncScroll}
+        title={syncScroll ? '停止同步捲動' : '同步捲動'}
+        className={`w-10 h-10 rounded-full flex items-center justify-center shrink-0 ${syncScroll ? 'text-[#D4FF5F] bg-[#D4FF5F]/10' : 'text-[#8E8E93]'}`}
+      >
+        <i className="fa-solid fa-arrows-up-down text-sm"></i>
+      </button>
+      <button onClick={onClose} title="關閉分割檢視" className="w-10 h-10 rounded-full flex items-center justify-center text-gray-500 hover:bg-white/5 shrink-0">
+        <i className="fa-solid fa-xmark"></i>
+      </button>
+    </div>
+  );
+
+  const body = (
+    <div ref={bodyRef} className="flex-1 min-h-0 overflow-y-auto no-scrollbar px-6 py-6">
+      {!resolved ? (
+        <p className="py-10 text-[11px] text-gray-600 leading-relaxed text-center">
+          {source ? '這份參考內容已不存在。' : '從上方選擇要對照的章節、研究筆記或版本快照。'}
+        </p>
+      ) : (
+        <>
+          <div className="mb-6">
+            <p className="text-[9px] font-black text-[#8E8E93] uppercase tracking-[0.2em]">
+              {resolved.kind === 'SNAPSHOT' ? `版本快照 · ${snapshotLabel(resolved.snapshot)}` : resolved.project.id === project.id ? '章節' : `研究筆記 · ${resolved.project.name}`}
+              {!editing && ' · 唯讀'}
+            </p>
+            <h3 className="text-lg font-black tracking-tight text-white mt-1">{resolved.kind === 'SNAPSHOT' ? resolved.snapshot.title || resolved.chapter.title : resolved.chapter.title}</h3>
+          </div>
+          {editing ? (
+            <textarea
+              value={content}
+              onChange={handleChange}
+              className="w-full min-h-[60vh] bg-transparent border-none outline-none resize-none focus:ring-0 font-serif-editor text-[1rem] leading-[2.1] text-slate-200"
+            />
+          ) : (
+            <div
+              className="prose-preview font-serif-editor text-[1rem] leading-[2.1] text-slate-300 select-text"
+              dangerouslySetInnerHTML={{ __html: html }}
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+
+  if (layout === 'SIDE') {
+    return (
+      <div className="h-full flex flex-col bg-[#0A0A0B]">
+        {header}
+        {body}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="fixed left-0 right-0 bottom-0 z-[110] flex flex-col bg-[#0F0F10]/95 backdrop-blur-3xl border-t border-white/10 rounded-t-[32px] shadow-[0_-20px_60px_rgba(0,0,0,0.8)] animate-in slide-in-from-bottom duration-300"
+      style={{
+        height: isSheetOpen ? '60vh' : 'calc(7rem + env(safe-area-inset-bottom, 0px))',
+        transform: `translateY(${Math.max(0, dragOffset)}px)`,
+        transition: touchStartRef.current === null ? 'height 0.3s ease, transform 0.3s ease' : 'none'
+      }}
+      onTouchStart={e => e.stopPropagation()}
+      onTouchEnd={e => e.stopPropagation()}
+    >
+      <div
+        className="pt-3 pb-1 flex justify-center shrink-0 touch-none"
+        onTouchStart={handleTouchStart}
+        onTouchMove={handleTouchMove}
+        onTouchEnd={handleTouchEnd}
+        onClick={() => setIsSheetOpen(!isSheetOpen)}
+      >
+        <div className="w-10 h-1.5 rounded-full bg-white/20" />
+      </div>
+      {header}
+      {isSheetOpen && body}
+    </div>
+  );
+};
+
+export default ReferencePane;
@@ -7,11 +7,13 @@ interface SecuritySettingsPageProps {
   settings: SecuritySettings;
   onUpdate: (settings: SecuritySettings) => void;
   backupSettings: BackupSettings;
-  onUpdateBackup: (settings: BackupSettings) => void;
+  onConnectDrive: () => void;
+  onDisconnectDrive: () => void;
+  onBackupNow: () => void;
   onClose: () => void;
 }
 
-const SecuritySettingsPage: React.FC<SecuritySettingsPageProps> = ({ settings, onUpdate, backupSettings, onUpdateBackup, onClose }) => {
+const SecuritySettingsPage: React.FC<SecuritySettingsPageProps> = ({ settings, onUpdate, backupSettings, onConnectDrive, onDisconnectDrive, onBackupNow, onClose }) => {
   const [windowWidth, setWindowWidth] = useState(window.innerWidth);
 
   useEffect(() => {
@@ -22,6 +24,7 @@ const SecuritySettingsPage: React.FC<SecuritySettingsPageProps> = ({ settings, o
 
   const isMobile = windowWidth < 768;
   const retentionOptions: (number | 'NEVER')[] = [30, 60, 90, 120, 180, 240, 360, 'NEVER'];
+  const trashRetentionOptions: (number | 'NEVER')[] = [7, 14, 30, 'NEVER'];
 
   return createPortal(
     <div className="fixed inset-0 z-[6500] bg-black flex flex-col animate-in slide-in-from-right duration-500 overflow-hidden font-sans">
@@ -196,6 +199,36 @@ const SecuritySettingsPage: React.FC<SecuritySettingsPageProps> = ({ settings, o
             </div>
           )}
 
+          {/* 回收桶保留期限 */}
+          <section className="space-y-6">
+            <div className="px-2">
+              <h3 className="text-[10px] sm:text-[11px] font-black text-slate-500 uppercase tracking-[0.4em] flex items-center">
+                <i className="fa-solid fa-dumpster mr-3 text-red-500/40 text-xs"></i>
+                回收桶保留期限 TRASH RETENTION
+              </h3>
+            </div>
+            <div className="bg-[#0F0F11] rounded-[44px] p-8 sm:p-10 border border-white/5">
+               <div className="grid grid-cols-4 gap-2 sm:gap-3">
+                  {trashRetentionOptions.map(option => (
+                    <button
+                      key={option}
+                      onClick={() => onUpdate({ ...settings, trashRetentionDays: option })}
+                      className={`py-3 sm:py-4 rounded-xl sm:rounded-2xl text-[9px] sm:text-[10px] font-black uppercase tracking-widest border transition-all duration-300 ${
+                        settings.trashRetentionDays === option 
+                        ? 'bg-blue-600 border-blue-600 text-white shadow-lg shadow-blue-900/40 scale-[1.05] z-10' 
+                        : 'bg-white/5 border-white/5 text-gray-500 hover:border-white/10 hover:text-gray-300'
+                      }`}
+                    >
+                      {option === 'NEVER' ? '永不' : `${option}D`}
+                    </button>
+                  ))}
+               </div>
+               <p className="mt-8 text-[11px] sm:text-[12px] text-slate-500 leading-relaxed font-bold px-1">
+                 刪除的專案與章節（含快照歷史）會先移至回收桶，超過期限後永久清除。
+               </p>
+            </div>
+          </section>
+
           {/* Google Drive 備份設定 */}
           <section className="space-y-6">
             <div className="px-2">
@@ -218,28 +251,7 @@ const SecuritySettingsPage: React.FC<SecuritySettingsPageProps> = ({ settings, o
                   </div>
                 </div>
                 <button 
-                  onClick={() => {
-                    if (!backupSettings.googleDriveConnected) {
-                      const path = prompt("請輸入 Google Drive 備份路徑：", "/InsPublish/Backups");
-                      if (path) {
-                        onUpdateBackup({
-                          ...backupSettings,
-                          googleDriveConnected: true,
-                          backupFolder: path,
-                          status: 'SYNCING',
-                          lastBackupTime: Date.now()
-                        });
-                      }
-                    } else {
-                      if (confirm("確定要斷開 Google Drive 連結嗎？")) {
-                        onUpdateBackup({
-                          ...backupSettings,
-                          googleDriveConnected: false,
-                          status: 'IDLE'
-                        });
-                      }
-                    }
-                  }}
+                  onClick={backupSettings.googleDriveConnected ? onDisconnectDrive : onConnectDrive}
                   className={`w-16 h-8 rounded-full flex items-center px-1 transition-all duration-500 ${backupSettings.googleDriveConnected ? 'bg-blue-600 shadow-[0_0_20px_rgba(37,99,235,0.4)]' : 'bg-white/10'}`}
                 >
                   <div className={`w-6 h-6 bg-white rounded-full shadow-lg transition-transform duration-500 ${backupSettings.googleDriveConnected ? 'translate-x-8' : 'translate-x-0'}`} />
@@ -258,6 +270,19 @@ const SecuritySettingsPage: React.FC<SecuritySettingsPageProps> = ({ settings, o
                       {backupSettings.lastBackupTime ? new Date(backupSettings.lastBackupTime).toLocaleString() : '從未備份'}
                     </span>
                   </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-[10px] font-black text-gray-500 uppercase tracking-widest">備份狀態</span>
+                    <span className={`text-[10px] font-black ${backupSettings.status === 'ERROR' ? 'text-red-400' : backupSettings.status === 'SYNCING' ? 'text-blue-400' : 'text-gray-400'}`}>
+                      {backupSettings.status === 'SYNCING' ? '備份中...' : backupSettings.status === 'ERROR' ? (backupSettings.lastError || '備份失敗') : '已同步'}
+                    </span>
+                  </div>
+                  <button
+                    onClick={backupSettings.status === 'ERROR' ? onConnectDrive : onBackupNow}
+                    disabled={backupSettings.status === 'SYNCING'}
+                    className="w-full py-3 rounded-2xl bg-blue-600/10 text-blue-400 text-[10px] font-black uppercase tracking-widest hover:bg-blue-600 hover:text-white transition-all disabled:opacity-40"
+                  >
+                    {backupSettings.status === 'ERROR' ? '重新授權 REAUTHORIZE' : '立即備份 BACK UP NOW'}
+                  </button>
                 </div>
               )}
             </div>
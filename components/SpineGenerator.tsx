@@ -1,5 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Project } from '../types';
+import { textCount } from '../services/textCount';
 
 interface SpineGeneratorProps {
   project: Project;
@@ -20,11 +21,8 @@ const SpineGenerator: React.FC<SpineGeneratorProps> = ({ project, onSpineGenerat
 
   // 任務 4.1: 根據專案總字數自動計算頁數與書脊厚度
   const calculateSpineMetrics = () => {
-    const totalWords = project.chapters.reduce((acc, c) => acc + (c.wordCount || 0), 0);
-    
-    // 標準出版：每頁約 250 字（中文）
-    const wordsPerPage = 250;
-    const pageCount = Math.ceil(totalWords / wordsPerPage);
+    // 標準出版：英文每頁約 250 詞、中文每頁約 500 字
+    const pageCount = textCount.estimatePages(textCount.ofProject(project));
     
     // 標準紙張厚度計算
     // 80g 銅版紙：約 0.1mm/頁
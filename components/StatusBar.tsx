@@ -1,36 +1,31 @@
 
 import React, { useState, useEffect } from 'react';
-import { UserStats } from '../types';
+import { syncOutbox, OutboxStatus } from '../services/syncOutbox';
 
 interface StatusBarProps {
-  stats: UserStats;
-  isSyncing: boolean;
+  wordCount: number;
 }
 
-const StatusBar: React.FC<StatusBarProps> = ({ stats, isSyncing }) => {
-  const [syncPhase, setSyncPhase] = useState<'IDLE' | 'CHECKING' | 'SYNCING'>('IDLE');
-  const [isOnline, setIsOnline] = useState(navigator.onLine);
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 
-  useEffect(() => {
-    const handleOnline = () => setIsOnline(true);
-    const handleOffline = () => setIsOnline(false);
-    
-    window.addEventListener('online', handleOnline);
-    window.addEventListener('offline', handleOffline);
-    
-    if (isSyncing) {
-      setSyncPhase('CHECKING');
-      const timer = setTimeout(() => setSyncPhase('SYNCING'), 400);
-      return () => clearTimeout(timer);
-    } else {
-      setSyncPhase('IDLE');
+const StatusBar: React.FC<StatusBarProps> = ({ wordCount }) => {
+  const [status, setStatus] = useState<OutboxStatus>(() => syncOutbox.getStatus());
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  useEffect(() => syncOutbox.subscribe(setStatus), []);
+
+  const handleRetry = async () => {
+    setIsRetrying(true);
+    try {
+      await syncOutbox.retry();
+    } finally {
+      setIsRetrying(false);
     }
+  };
 
-    return () => {
-      window.removeEventListener('online', handleOnline);
-      window.removeEventListener('offline', handleOffline);
-    };
-  }, [isSyncing]);
+  // 失敗佇列中有操作，或排隊中的操作上次執行失敗時才顯示錯誤
+  const showError = !!status.lastError && (status.deadLetters > 0 || status.pending > 0);
 
   return (
     <footer className="h-8 bg-[#0F0F10] border-t border-white/5 flex items-center justify-between px-6 z-50 backdrop-blur-md">
@@ -38,36 +33,54 @@ const StatusBar: React.FC<StatusBarProps> = ({ stats, isSyncing }) => {
       <div className="flex items-center space-x-8 text-[9px] font-black text-slate-500 uppercase tracking-[0.2em]">
         <div className="flex items-center space-x-2.5">
           <div className="w-1.5 h-1.5 rounded-full bg-blue-500 shadow-[0_0_8px_rgba(59,130,246,0.6)]"></div>
-          <span className="text-slate-300">{stats.wordCount.toLocaleString()} WORDS</span>
+          <span className="text-slate-300">{wordCount.toLocaleString()} WORDS</span>
         </div>
-        
-        {!isOnline && (
+
+        {!status.online && (
           <div className="flex items-center space-x-2.5 text-orange-500 animate-pulse">
             <i className="fa-solid fa-shield-halved"></i>
-            <span>離線保護模式啟動</span>
+            <span>離線中 · 修改已保存在本機</span>
           </div>
         )}
       </div>
 
-      {/* Right side: Sync Engine Status */}
-      <div className="flex items-center space-x-4">
-        <div className="flex items-center space-x-3 text-[9px] font-black uppercase tracking-widest">
-           {syncPhase === 'CHECKING' && (
-             <div className="flex items-center space-x-2 text-orange-400">
-               <i className="fa-solid fa-ellipsis animate-pulse"></i>
-               <span>增量同步校驗中...</span>
+      {/* Right side: Sync Outbox Status */}
+      <div className="flex items-center space-x-4 min-w-0">
+        <div className="flex items-center space-x-3 text-[9px] font-black uppercase tracking-widest min-w-0">
+           {showError && (
+             <div className="flex items-center space-x-2 text-red-400 min-w-0" title={status.lastError!.message}>
+               <i className="fa-solid fa-triangle-exclamation"></i>
+               <span className="truncate max-w-[240px]">
+                 {status.deadLetters > 0 ? `${status.deadLetters} 項同步失敗` : '同步失敗'}：{status.lastError!.message}
+               </span>
+               <button
+                 onClick={handleRetry}
+                 disabled={isRetrying || !status.online}
+                 className="px-2 h-5 rounded-md bg-red-500/10 text-red-400 hover:bg-red-500/20 disabled:opacity-30 shrink-0"
+               >
+                 重試
+               </button>
              </div>
            )}
-           {syncPhase === 'SYNCING' && (
+           {status.running ? (
              <div className="flex items-center space-x-2 text-blue-500">
                <div className="w-2.5 h-2.5 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
-               <span>雲端雙重備份中</span>
+               <span>同步中 · 剩餘 {status.pending} 項</span>
              </div>
-           )}
-           {syncPhase === 'IDLE' && isOnline && (
+           ) : status.pending > 0 ? (
+             <div className="flex items-center space-x-2 text-orange-400">
+               <i className="fa-solid fa-clock-rotate-left"></i>
+               <span>
+                 {status.pending} 項待同步
+                 {status.online && status.nextRetryAt && status.nextRetryAt > Date.now() && ` · 預計 ${formatTime(status.nextRetryAt)}`}
+               </span>
+             </div>
+           ) : !showError && (
              <div className="flex items-center space-x-2 text-green-500/60">
                <i className="fa-solid fa-cloud-check text-[10px]"></i>
-               <span className="text-[8px] opacity-80">數據同步已完成</span>
+               <span className="text-[8px] opacity-80">
+                 {status.lastSuccessAt ? `上次同步 ${formatTime(status.lastSuccessAt)}` : '沒有待同步的修改'}
+               </span>
              </div>
            )}
         </div>
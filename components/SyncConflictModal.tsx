@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { ChapterConflict, ConflictResolution } from '../types';
+
+interface SyncConflictModalProps {
+  conflicts: ChapterConflict[];
+  onResolve: (resolutions: Record<string, ConflictResolution>) => void;
+}
+
+const SyncConflictModal: React.FC<SyncConflictModalProps> = ({ conflicts, onResolve }) => {
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>(
+    () => Object.fromEntries(conflicts.map(c => [c.chapterId, 'LOCAL' as ConflictResolution]))
+  );
+
+  const options: { id: ConflictResolution, label: string }[] = [
+    { id: 'LOCAL', label: '保留此分頁' },
+    { id: 'REMOTE', label: '採用其他分頁' },
+    { id: 'BOTH', label: '兩者並存' }
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[3000] flex items-end sm:items-center justify-center animate-in fade-in duration-300">
+      <div className="absolute inset-0 bg-black/90 backdrop-blur-xl" />
+
+      <div className="relative w-full max-w-4xl bg-[#1C1C1E] rounded-t-[44px] sm:rounded-[44px] border border-white/5 shadow-3xl flex flex-col max-h-[92vh] animate-in slide-in-from-bottom duration-500">
+        <header className="p-8 sm:p-10 border-b border-white/5 shrink-0">
+          <h2 className="text-2xl font-black text-white tracking-tight">同步衝突</h2>
+          <p className="text-[10px] font-black text-amber-500 uppercase tracking-[0.2em] mt-1">EDITED IN ANOTHER TAB</p>
+          <p className="text-[12px] text-[#8E8E93] font-medium leading-relaxed mt-4">
+            以下章節同時在另一個分頁中被修改。請為每個章節選擇要保留的版本，其他章節的變更已自動合併。
+          </p>
+        </header>
+
+        <main className="flex-1 overflow-y-auto no-scrollbar p-8 sm:p-10 space-y-10">
+          {conflicts.map(conflict => (
+            <section key={conflict.chapterId} className="space-y-5">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <h3 className="text-lg font-black text-white tracking-tight truncate">{conflict.local.title}</h3>
+                <div className="flex bg-black/40 rounded-2xl p-1 border border-white/5 shrink-0">
+                  {options.map(opt => (
+                    <button
+                      key={opt.id}
+                      onClick={() => setResolutions(prev => ({ ...prev, [conflict.chapterId]: opt.id }))}
+                      className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${resolutions[conflict.chapterId] === opt.id ? 'bg-blue-600 text-white shadow-lg' : 'text-gray-500 hover:text-gray-300'}`}
+                    >
+                      {opt.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {[
+                  { label: '此分頁版本 THIS TAB', unit: conflict.local, active: resolutions[conflict.chapterId] !== 'REMOTE' },
+                  { label: '其他分頁版本 OTHER TAB', unit: conflict.remote, active: resolutions[conflict.chapterId] !== 'LOCAL' }
+                ].map(side => (
+                  <div key={side.label} className={`rounded-[28px] border p-6 space-y-3 transition-all ${side.active ? 'bg-black/40 border-blue-500/40' : 'bg-black/20 border-white/5 opacity-50'}`}>
+                    <div className="flex justify-between items-center">
+                      <span className="text-[9px] font-black text-[#8E8E93] uppercase tracking-widest">{side.label}</span>
+                      <span className="text-[9px] font-black text-gray-600 uppercase tracking-widest">
+                        {new Date(side.unit.lastEdited).toLocaleTimeString()}
+                      </span>
+                    </div>
+                    <p className="text-[13px] text-slate-300 leading-relaxed whitespace-pre-wrap font-serif-editor max-h-64 overflow-y-auto no-scrollbar">
+                      {side.unit.content || '（空白內容）'}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </section>
+          ))}
+        </main>
+
+        <footer className="p-8 bg-[#0F0F10] border-t border-white/5 rounded-b-[44px] shrink-0">
+          <button
+            onClick={() => onResolve(resolutions)}
+            className="w-full py-6 rounded-[32px] bg-blue-600 text-white font-black text-sm uppercase tracking-[0.4em] shadow-2xl active:scale-[0.98] transition-all"
+          >
+            套用選擇
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default SyncConflictModal;
@@ -7,9 +7,12 @@ interface TimelineProps {
   membership: MembershipLevel;
   isNight: boolean;
   onRestore: (snapshot: VersionSnapshot) => void;
+  // 檢視者與評論者只能瀏覽版本，不能還原或變更快照
+  canRestore?: boolean;
   onPreview: (snapshot: VersionSnapshot) => void;
   onCreateMilestone: () => void;
   onClearSnapshots: () => void;
+  onCompactStorage?: () => Promise<void>;
   onClose: () => void;
   securitySettings: SecuritySettings;
   onUpdateSecuritySettings: (settings: SecuritySettings) => void;
@@ -19,13 +22,16 @@ const Timeline: React.FC<TimelineProps> = ({
   history, 
   onCreateMilestone, 
   onRestore, 
+  canRestore = true,
   onPreview, 
   onClearSnapshots,
+  onCompactStorage,
   onClose,
   securitySettings
 }) => {
   const [restoringId, setRestoringId] = useState<string | null>(null);
   const [isClearing, setIsClearing] = useState(false);
+  const [isCompacting, setIsCompacting] = useState(false);
 
   const handleRestoreClick = (snapshot: VersionSnapshot) => {
     setRestoringId(snapshot.id);
@@ -43,6 +49,16 @@ const Timeline: React.FC<TimelineProps> = ({
     }
   };
 
+  const handleCompactClick = async () => {
+    if (!onCompactStorage) return;
+    setIsCompacting(true);
+    try {
+      await onCompactStorage();
+    } finally {
+      setIsCompacting(false);
+    }
+  };
+
   const cleanupText = securitySettings.autoSnapshotCleanupDays === 'NEVER' 
     ? '自動生成的快照將永久保留。' 
     : `自動生成的快照將在 ${securitySettings.autoSnapshotCleanupDays} 天後進入循環清理程序。`;
@@ -94,12 +110,18 @@ const Timeline: React.FC<TimelineProps> = ({
             </div>
             <span className="text-[12px] font-black uppercase tracking-[0.2em] text-white">LIVE EDITION ACTIVE</span>
           </div>
-          <button
-            onClick={onCreateMilestone}
-            className="px-5 py-2.5 rounded-xl bg-amber-500/10 border border-amber-500/30 text-amber-500 text-[9px] font-black uppercase tracking-[0.2em] active:scale-95 transition-all shadow-lg"
-          >
-            標記里程碑
-          </button>
+          {canRestore ? (
+            <button
+              onClick={onCreateMilestone}
+              className="px-5 py-2.5 rounded-xl bg-amber-500/10 border border-amber-500/30 text-amber-500 text-[9px] font-black uppercase tracking-[0.2em] active:scale-95 transition-all shadow-lg"
+            >
+              標記里程碑
+            </button>
+          ) : (
+            <span className="text-[9px] font-black text-slate-600 uppercase tracking-[0.2em]">
+              <i className="fa-solid fa-lock mr-1.5"></i>唯讀 READ ONLY
+            </span>
+          )}
         </div>
 
         {/* Vertical Axis Line */}
@@ -131,11 +153,18 @@ const Timeline: React.FC<TimelineProps> = ({
                     <span className="text-[11px] font-black text-slate-500 uppercase tracking-widest">
                       {new Date(snapshot.timestamp).toLocaleTimeString('zh-TW', { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' })}
                     </span>
-                    {snapshot.type === SnapshotType.MILESTONE && (
-                      <span className="text-[8px] font-black bg-amber-500 text-black px-2 py-0.5 rounded tracking-[0.2em]">
-                        MILESTONE
-                      </span>
-                    )}
+                    <div className="flex items-center space-x-2">
+                      {!!snapshot.suggestions?.length && (
+                        <span className="text-[8px] font-black bg-[#D4FF5F]/10 text-[#D4FF5F] px-2 py-0.5 rounded tracking-[0.2em]">
+                          {snapshot.suggestions.length} 項修訂
+                        </span>
+                      )}
+                      {snapshot.type === SnapshotType.MILESTONE && (
+                        <span className="text-[8px] font-black bg-amber-500 text-black px-2 py-0.5 rounded tracking-[0.2em]">
+                          MILESTONE
+                        </span>
+                      )}
+                    </div>
                   </div>
                   
                   <p 
@@ -146,7 +175,7 @@ const Timeline: React.FC<TimelineProps> = ({
                   </p>
 
                   <div className="flex items-center space-x-6 opacity-0 group-hover:opacity-100 transition-all">
-                    <button 
+                    {canRestore && <button 
                       onClick={() => handleRestoreClick(snapshot)} 
                       disabled={restoringId !== null}
                       className="text-[10px] font-black uppercase tracking-[0.3em] text-blue-500 hover:text-blue-400 flex items-center space-x-2"
@@ -162,7 +191,7 @@ const Timeline: React.FC<TimelineProps> = ({
                           <span>RESTORE</span>
                         </>
                       )}
-                    </button>
+                    </button>}
                     <button onClick={() => onPreview(snapshot)} className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-500 hover:text-slate-300">
                       PREVIEW
                     </button>
@@ -185,9 +214,14 @@ const Timeline: React.FC<TimelineProps> = ({
           </p>
         </div>
         
-        <div className="flex items-center justify-between px-1">
-          <button className="text-[11px] font-black text-blue-600 hover:text-blue-500 uppercase tracking-[0.4em] transition-colors">
-            STORAGE MGMT
+        {canRestore && <div className="flex items-center justify-between px-1">
+          <button 
+            onClick={handleCompactClick}
+            disabled={isCompacting || !onCompactStorage}
+            className="text-[11px] font-black text-blue-600 hover:text-blue-500 uppercase tracking-[0.4em] transition-colors flex items-center space-x-3"
+          >
+            {isCompacting && <div className="w-3 h-3 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />}
+            <span>STORAGE MGMT</span>
           </button>
           <button 
             onClick={handleClearClick}
@@ -201,7 +235,7 @@ const Timeline: React.FC<TimelineProps> = ({
             )}
             <span>CLEAR AUTO</span>
           </button>
-        </div>
+        </div>}
       </footer>
     </div>
   );
@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Project } from '../types';
+import { dbService, TrashItem } from '../services/dbService';
+
+interface TrashModalProps {
+  retentionDays: number | 'NEVER';
+  onClose: () => void;
+  onRestored: (project: Project) => void;
+}
+
+const DAY_MS = 86400000;
+
+const TrashModal: React.FC<TrashModalProps> = ({ retentionDays, onClose, onRestored }) => {
+  const [items, setItems] = useState<TrashItem[] | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrash = () => {
+    dbService.getTrash()
+      .then(setItems)
+      .catch(e => {
+        console.error('[Trash] 讀取回收桶失敗', e);
+        setError('無法讀取回收桶');
+        setItems([]);
+      });
+  };
+
+  useEffect(loadTrash, []);
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusyId(item.id);
+    setError(null);
+    try {
+      const project = item.kind === 'project'
+        ? await dbService.restoreProject(item.id)
+        : await dbService.restoreChapter(item.id);
+      if (project) onRestored(project);
+      loadTrash();
+    } catch (e) {
+      console.error('[Trash] 還原失敗', e);
+      setError('還原失敗，請稍後再試');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleEmpty = async () => {
+    if (!items || items.length === 0) return;
+    if (!window.confirm(`將永久刪除回收桶中的 ${items.length} 個項目（含快照歷史與封面），此動作無法復原。確定要清空嗎？`)) return;
+    setBusyId('*');
+    try {
+      await dbService.purgeTrash();
+      loadTrash();
+    } catch (e) {
+      console.error('[Trash] 清空失敗', e);
+      setError('清空失敗，請稍後再試');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const remainingText = (deletedAt: number) => {
+    if (retentionDays === 'NEVER') return '永久保留';
+    const days = Math.max(0, Math.ceil((deletedAt + retentionDays * DAY_MS - Date.now()) / DAY_MS));
+    return `${days} 天後清除`;
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[6500] flex items-end sm:items-center justify-center animate-in fade-in duration-300">
+      <div className="absolute inset-0 bg-black/90 backdrop-blur-xl" onClick={busyId ? undefined : onClose} />
+
+      <div className="relative w-full max-w-xl bg-[#1C1C1E] rounded-t-[44px] sm:rounded-[44px] border border-white/5 shadow-3xl flex flex-col max-h-[92vh] animate-in slide-in-from-bottom duration-500">
+        <header className="p-8 sm:p-10 border-b border-white/5 flex items-center justify-between shrink-0">
+          <div>
+            <h2 className="text-2xl font-black text-white tracking-tight">回收桶</h2>
+            <p className="text-[10px] font-black text-[#8E8E93] uppercase tracking-[0.2em] mt-1">
+              TRASH {retentionDays === 'NEVER' ? '· KEPT FOREVER' : `· ${retentionDays} DAY RETENTION`}
+            </p>
+          </div>
+          <button onClick={onClose} disabled={!!busyId} className="w-10 h-10 rounded-full bg-white/5 flex items-center justify-center text-gray-500 hover:text-white transition-colors disabled:opacity-30">
+            <i className="fa-solid fa-xmark"></i>
+          </button>
+        </header>
+
+        <main className="flex-1 overflow-y-auto no-scrollbar p-6 sm:p-8 space-y-3">
+          {items === null && (
+            <p className="text-center py-16 text-[11px] font-black text-gray-600 uppercase tracking-widest">載入中...</p>
+          )}
+          {items?.length === 0 && (
+            <div className="flex flex-col items-center py-16 space-y-4 text-gray-600">
+              <i className="fa-solid fa-trash-can text-3xl opacity-40"></i>
+              <p className="text-[11px] font-black uppercase tracking-widest">回收桶是空的 EMPTY</p>
+            </div>
+          )}
+          {items?.map(item => (
+            <div key={`${item.kind}-${item.id}`} className="flex items-center justify-between p-5 rounded-[28px] bg-black/30 border border-white/5">
+              <div className="flex items-center space-x-4 min-w-0">
+                <div
+                  className="w-11 h-11 rounded-2xl flex items-center justify-center shrink-0"
+                  style={{ backgroundColor: item.kind === 'project' ? `${item.color || '#B2A4FF'}26` : 'rgba(255,255,255,0.05)' }}
+                >
+                  <i
+                    className={`fa-solid ${item.kind === 'project' ? (item.icon || 'fa-book') : 'fa-file-lines'}`}
+                    style={{ color: item.kind === 'project' ? item.color || '#B2A4FF' : '#8E8E93' }}
+                  ></i>
+                </div>
+                <div className="min-w-0">
+                  <h4 className="text-[15px] font-black text-white truncate">{item.kind === 'project' ? item.name : (item.title || '未命名章節')}</h4>
+                  <p className="text-[10px] font-black text-gray-600 uppercase tracking-widest mt-1 truncate">
+                    {item.kind === 'project' ? '專案 PROJECT' : `${item.projectName} · ${item.wordCount} 字`}
+                    {' · '}{new Date(item.deletedAt).toLocaleDateString()}{' · '}{remainingText(item.deletedAt)}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={() => handleRestore(item)}
+                disabled={!!busyId}
+                className="ml-4 px-5 py-3 rounded-2xl bg-blue-600/10 text-blue-400 text-[10px] font-black uppercase tracking-widest hover:bg-blue-600 hover:text-white transition-all disabled:opacity-40 shrink-0"
+              >
+                {busyId === item.id ? '還原中...' : '還原'}
+              </button>
+            </div>
+          ))}
+          {error && <p className="text-[12px] font-black text-red-400 text-center pt-2">{error}</p>}
+        </main>
+
+        <footer className="p-6 sm:p-8 border-t border-white/5 shrink-0">
+          <button
+            onClick={handleEmpty}
+            disabled={!!busyId || !items || items.length === 0}
+            className="w-full py-4 rounded-[24px] bg-red-500/10 text-red-500 font-black text-[11px] uppercase tracking-[0.3em] hover:bg-red-500/20 transition-all disabled:opacity-30"
+          >
+            {busyId === '*' ? '清空中...' : '清空回收桶 EMPTY TRASH'}
+          </button>
+        </footer>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default TrashModal;
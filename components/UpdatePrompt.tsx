@@ -0,0 +1,49 @@
+import React, { useState, useEffect } from 'react';
+import { appUpdateService } from '../services/appUpdateService';
+
+const UpdatePrompt: React.FC = () => {
+  const [isUpdateReady, setIsUpdateReady] = useState(false);
+  const [isDismissed, setIsDismissed] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  useEffect(() => appUpdateService.subscribe(ready => {
+    setIsUpdateReady(ready);
+    if (ready) setIsDismissed(false);
+  }), []);
+
+  if (!isUpdateReady || isDismissed) return null;
+
+  const handleApply = () => {
+    setIsApplying(true);
+    appUpdateService.applyUpdate();
+  };
+
+  return (
+    <div className="fixed top-[calc(env(safe-area-inset-top,0px)+16px)] left-1/2 -translate-x-1/2 z-[1100] w-[calc(100%-32px)] max-w-md animate-in slide-in-from-top fade-in duration-500">
+      <div className="flex items-center space-x-4 p-4 pl-5 rounded-3xl bg-[#1C1C1E] border border-white/10 shadow-2xl">
+        <div className="w-10 h-10 rounded-2xl bg-[#D4FF5F]/10 text-[#D4FF5F] flex items-center justify-center shrink-0">
+          <i className="fa-solid fa-arrows-rotate"></i>
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-[14px] font-bold text-white">新版本已就緒</p>
+          <p className="text-[9px] font-black text-gray-500 uppercase tracking-widest mt-0.5">重新載入後套用 · 內容已自動保存</p>
+        </div>
+        <button
+          onClick={() => setIsDismissed(true)}
+          className="h-9 px-3 rounded-xl text-[11px] font-black text-gray-400 hover:bg-white/5 shrink-0"
+        >
+          稍後
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={isApplying}
+          className="h-9 px-4 rounded-xl bg-white text-black text-[11px] font-black uppercase tracking-widest disabled:opacity-30 shrink-0"
+        >
+          {isApplying ? '更新中' : '重新載入'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UpdatePrompt;
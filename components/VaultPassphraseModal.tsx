@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { WrongPassphraseError } from '../services/cryptoService';
+
+interface VaultPassphraseModalProps {
+  mode: 'unlock' | 'setup';
+  onSubmit: (passphrase: string) => Promise<void>;
+  onCancel?: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const VaultPassphraseModal: React.FC<VaultPassphraseModalProps> = ({ mode, onSubmit, onCancel }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const isSetup = mode === 'setup';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSetup && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`密語至少需要 ${MIN_PASSPHRASE_LENGTH} 個字元`);
+      return;
+    }
+    if (isSetup && passphrase !== confirmation) {
+      setError('兩次輸入的密語不一致');
+      return;
+    }
+    setIsBusy(true);
+    setError(null);
+    try {
+      await onSubmit(passphrase);
+    } catch (err) {
+      setError(err instanceof WrongPassphraseError ? '密語錯誤，請再試一次' : '處理失敗，請稍後再試');
+      setIsBusy(false);
+    }
+  };
+
+  return createPortal(
+    <div className={`fixed inset-0 z-[9000] flex items-center justify-center p-6 animate-in fade-in duration-300 ${isSetup ? 'bg-black/90 backdrop-blur-xl' : 'bg-black'}`}>
+      <form onSubmit={handleSubmit} className="w-full max-w-md bg-[#1C1C1E] rounded-[44px] border border-white/5 shadow-3xl p-8 sm:p-10 space-y-8">
+        <div className="flex flex-col items-center text-center space-y-5">
+          <div className="w-20 h-20 rounded-[28px] bg-[#D4FF5F]/10 flex items-center justify-center text-[#D4FF5F] border border-[#D4FF5F]/20 shadow-inner">
+            <i className={`fa-solid ${isSetup ? 'fa-key' : 'fa-lock'} text-3xl`}></i>
+          </div>
+          <div>
+            <h2 className="text-2xl font-black text-white tracking-tight">{isSetup ? '設定加密密語' : '解鎖書庫'}</h2>
+            <p className="text-[10px] font-black text-[#8E8E93] uppercase tracking-[0.2em] mt-1">{isSetup ? 'ENCRYPT AT REST' : 'LOCAL DATA ENCRYPTED'}</p>
+          </div>
+          <p className="text-[13px] text-slate-400 leading-relaxed font-medium">
+            {isSetup
+              ? '章節內容、快照與設定將以 AES-256 加密後儲存於本機，Google Drive 備份亦使用同一把金鑰。密語遺失將無法復原資料。'
+              : '本機資料已加密，請輸入密語以繼續。'}
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <input
+            type="password"
+            autoFocus
+            value={passphrase}
+            onChange={e => setPassphrase(e.target.value)}
+            placeholder="密語 PASSPHRASE"
+            className="w-full bg-black/40 border border-white/10 rounded-2xl px-6 py-4 text-white text-[15px] outline-none focus:border-blue-500/50 transition-colors"
+          />
+          {isSetup && (
+            <input
+              type="password"
+              value={confirmation}
+              onChange={e => setConfirmation(e.target.value)}
+              placeholder="再次輸入 CONFIRM"
+              className="w-full bg-black/40 border border-white/10 rounded-2xl px-6 py-4 text-white text-[15px] outline-none focus:border-blue-500/50 transition-colors"
+            />
+          )}
+          {error && <p className="text-[12px] font-black text-red-400 text-center pt-1">{error}</p>}
+        </div>
+
+        <div className="space-y-3">
+          <button
+            type="submit"
+            disabled={isBusy || !passphrase}
+            className="w-full py-5 rounded-[28px] bg-blue-600 text-white font-black text-sm uppercase tracking-[0.3em] shadow-2xl active:scale-[0.98] transition-all disabled:opacity-40"
+          >
+            {isBusy ? (isSetup ? '加密中...' : '驗證中...') : (isSetup ? '啟用加密' : '解鎖')}
+          </button>
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={isBusy}
+              className="w-full py-4 text-[11px] font-black text-gray-500 uppercase tracking-widest hover:text-white transition-colors"
+            >
+              取消
+            </button>
+          )}
+        </div>
+      </form>
+    </div>,
+    document.body
+  );
+};
+
+export default VaultPassphraseModal;
@@ -0,0 +1,131 @@
+// 本機協作 relay：把同一房間（網址路徑）內任一連線送來的訊息轉送給其他連線，不保存任何內容。
+// 只實作瀏覽器 WebSocket 需要的部分（文字訊息、ping/pong、關閉），不依賴額外套件。
+// 用法：node scripts/collab-relay.mjs [port]，並在 .env.local 設定 COLLAB_RELAY_URL=ws://localhost:8790
+
+import { createServer } from 'http';
+import { createHash } from 'crypto';
+
+const PORT = Number(process.argv[2] || process.env.COLLAB_RELAY_PORT || 8790);
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// 單一訊息上限；完整章節狀態含墓碑，需保留足夠空間
+const MAX_PAYLOAD = 32 * 1024 * 1024;
+
+const rooms = new Map();
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+const join = (room, socket) => {
+  if (!rooms.has(room)) rooms.set(room, new Set());
+  rooms.get(room).add(socket);
+  console.log(`[Relay] ${room} 連線數 ${rooms.get(room).size}`);
+};
+
+const leave = (room, socket) => {
+  const peers = rooms.get(room);
+  if (!peers || !peers.delete(socket)) return;
+  if (peers.size === 0) rooms.delete(room);
+  console.log(`[Relay] ${room} 連線數 ${peers.size}`);
+};
+
+const broadcast = (room, sender, payload) => {
+  const frame = encodeFrame(0x1, payload);
+  rooms.get(room)?.forEach(socket => {
+    if (socket !== sender && !socket.destroyed) socket.write(frame);
+  });
+};
+
+/**
+ * 解析緩衝區中完整的訊框，回傳尚未收齊的剩餘位元組
+ */
+const readFrames = (buffer, onFrame) => {
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const fin = (buffer[offset] & 0x80) !== 0;
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    if (length > MAX_PAYLOAD) throw new Error('訊息過大');
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length < cursor + maskLength + length) break;
+    const mask = buffer.subarray(cursor, cursor + maskLength);
+    const payload = Buffer.from(buffer.subarray(cursor + maskLength, cursor + maskLength + length));
+    if (masked) for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    onFrame(opcode, payload, fin);
+    offset = cursor + maskLength + length;
+  }
+  return buffer.subarray(offset);
+};
+
+const server = createServer((req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('WebSocket only');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key) {
+    socket.destroy();
+    return;
+  }
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const room = decodeURIComponent(new URL(req.url || '/', 'http://relay').pathname.slice(1)) || 'default';
+  // 分段訊息（FIN 未設定）的累積內容
+  let fragments = [];
+  let pending = Buffer.alloc(0);
+  join(room, socket);
+
+  socket.on('data', chunk => {
+    try {
+      pending = readFrames(Buffer.concat([pending, chunk]), (opcode, payload, fin) => {
+        if (opcode === 0x8) {
+          socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+        } else if (opcode === 0x9) {
+          socket.write(encodeFrame(0xa, payload));
+        } else if (opcode === 0x1 || opcode === 0x0) {
+          fragments.push(payload);
+          if (!fin) return;
+          broadcast(room, socket, Buffer.concat(fragments));
+          fragments = [];
+        }
+      });
+    } catch (e) {
+      console.error('[Relay] 連線錯誤', e.message);
+      socket.destroy();
+    }
+  });
+  socket.on('close', () => leave(room, socket));
+  socket.on('error', () => leave(room, socket));
+});
+
+server.listen(PORT, () => console.log(`[Relay] 協作 relay 已啟動：ws://localhost:${PORT}`));
@@ -0,0 +1,230 @@
+// 本機模擬的 Google Drive：實作備份與還原用到的 REST 端點與 OAuth 授權頁，資料只保存在記憶體中。
+// 授權頁直接核發測試權杖並導回應用程式，API 只接受由此核發的權杖，與正式服務相同地走完授權流程。
+// 用法：node scripts/fake-drive.mjs [port]，並在 .env.local 設定
+//   GOOGLE_DRIVE_API_URL=http://localhost:8787
+//   GOOGLE_OAUTH_URL=http://localhost:8787
+
+import { createServer } from 'http';
+import { randomBytes } from 'crypto';
+
+const PORT = Number(process.argv[2] || process.env.FAKE_DRIVE_PORT || 8787);
+const TOKEN_TTL_SECONDS = 3600;
+
+const tokens = new Map();
+// id → { id, name, mimeType, parents, appProperties, trashed, revisions: [{ id, modifiedTime, keepForever, data }] }
+const files = new Map();
+let nextId = 1;
+
+const newId = prefix => `${prefix}${(nextId++).toString(36).padStart(6, '0')}`;
+
+const send = (res, status, body, headers = {}) => {
+  const payload = Buffer.isBuffer(body) ? body : Buffer.from(JSON.stringify(body));
+  res.writeHead(status, {
+    'Content-Type': Buffer.isBuffer(body) ? 'application/octet-stream' : 'application/json',
+    'Content-Length': payload.length,
+    ...headers
+  });
+  res.end(payload);
+};
+
+const fail = (res, status, message) => send(res, status, { error: { code: status, message } });
+
+const readBody = req => new Promise((resolve, reject) => {
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const latest = file => file.revisions[file.revisions.length - 1];
+
+const metadata = file => {
+  const revision = latest(file);
+  return {
+    id: file.id,
+    name: file.name,
+    mimeType: file.mimeType,
+    modifiedTime: revision?.modifiedTime || file.createdTime,
+    ...(revision ? { size: String(revision.data.length) } : {}),
+    ...(file.appProperties ? { appProperties: file.appProperties } : {})
+  };
+};
+
+const revisionInfo = revision => ({
+  id: revision.id,
+  modifiedTime: revision.modifiedTime,
+  size: String(revision.data.length),
+  keepForever: revision.keepForever
+});
+
+/**
+ * 解析應用程式用到的查詢語法：以 and 串接的 name =、mimeType =、'<id>' in parents、trashed =
+ */
+const matcher = q => {
+  const tests = (q || '').split(/\s+and\s+/i).filter(Boolean).map(clause => {
+    let m;
+    if ((m = /^name\s*=\s*'((?:\\.|[^'])*)'$/.exec(clause))) {
+      const name = m[1].replace(/\\(.)/g, '$1');
+      return file => file.name === name;
+    }
+    if ((m = /^mimeType\s*=\s*'([^']*)'$/.exec(clause))) return file => file.mimeType === m[1];
+    if ((m = /^'([^']*)'\s+in\s+parents$/.exec(clause))) return file => file.parents.includes(m[1]);
+    if ((m = /^trashed\s*=\s*(true|false)$/.exec(clause))) return file => file.trashed === (m[1] === 'true');
+    throw new Error(`不支援的查詢條件：${clause}`);
+  });
+  return file => tests.every(test => test(file));
+};
+
+/**
+ * 解析 multipart 上傳：與 Drive 相同，第一段為 metadata（JSON），第二段為檔案內容
+ */
+const parseMultipart = (body, contentType) => {
+  const boundary = /boundary=(?:"([^"]+)"|([^;]+))/.exec(contentType || '');
+  if (!boundary) throw new Error('缺少 multipart boundary');
+  const delimiter = Buffer.from(`--${boundary[1] || boundary[2]}`);
+  const parts = [];
+  let start = body.indexOf(delimiter);
+  while (start !== -1) {
+    const next = body.indexOf(delimiter, start + delimiter.length);
+    if (next === -1) break;
+    // 略過分隔線後的換行，以及下一個分隔線前的換行
+    const part = body.subarray(start + delimiter.length + 2, next - 2);
+    const split = part.indexOf('\r\n\r\n');
+    if (split !== -1) parts.push(part.subarray(split + 4));
+    start = next;
+  }
+  return {
+    metadata: parts[0] ? JSON.parse(parts[0].toString() || '{}') : {},
+    data: parts[1] ? Buffer.from(parts[1]) : Buffer.alloc(0)
+  };
+};
+
+const createFile = meta => {
+  const file = {
+    id: newId('f'),
+    name: meta.name || '未命名',
+    mimeType: meta.mimeType || 'application/octet-stream',
+    parents: meta.parents || ['root'],
+    appProperties: meta.appProperties,
+    trashed: false,
+    createdTime: new Date().toISOString(),
+    revisions: []
+  };
+  files.set(file.id, file);
+  return file;
+};
+
+const addRevision = (file, data, keepForever) => {
+  file.revisions.push({ id: newId('r'), modifiedTime: new Date().toISOString(), keepForever, data });
+};
+
+const authorize = (req, res) => {
+  const token = /^Bearer (.+)$/.exec(req.headers.authorization || '')?.[1];
+  const expiresAt = token && tokens.get(token);
+  if (!expiresAt || expiresAt <= Date.now()) {
+    fail(res, 401, '存取權杖無效或已過期');
+    return false;
+  }
+  return true;
+};
+
+const handle = async (req, res) => {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+  const path = url.pathname;
+
+  // OAuth 隱含授權：核發權杖後導回 redirect_uri，權杖放在網址片段
+  if (req.method === 'GET' && path === '/o/oauth2/v2/auth') {
+    const redirect = url.searchParams.get('redirect_uri');
+    if (!redirect) return fail(res, 400, '缺少 redirect_uri');
+    const token = `fake-${randomBytes(16).toString('hex')}`;
+    tokens.set(token, Date.now() + TOKEN_TTL_SECONDS * 1000);
+    const fragment = new URLSearchParams({
+      access_token: token,
+      token_type: 'Bearer',
+      expires_in: String(TOKEN_TTL_SECONDS),
+      scope: url.searchParams.get('scope') || '',
+      state: url.searchParams.get('state') || ''
+    });
+    console.log('[FakeDrive] 已核發存取權杖');
+    res.writeHead(302, { Location: `${redirect}#${fragment}` });
+    return res.end();
+  }
+
+  if (!authorize(req, res)) return;
+
+  if (req.method === 'GET' && path === '/drive/v3/files') {
+    const matches = [...files.values()].filter(matcher(url.searchParams.get('q')));
+    const offset = Number(url.searchParams.get('pageToken') || 0);
+    const pageSize = Number(url.searchParams.get('pageSize') || 100);
+    const page = matches.slice(offset, offset + pageSize).map(metadata);
+    const nextPageToken = offset + pageSize < matches.length ? String(offset + pageSize) : undefined;
+    return send(res, 200, { files: page, ...(nextPageToken ? { nextPageToken } : {}) });
+  }
+
+  if (req.method === 'POST' && path === '/drive/v3/files') {
+    const file = createFile(JSON.parse((await readBody(req)).toString() || '{}'));
+    return send(res, 200, metadata(file));
+  }
+
+  if (path === '/upload/drive/v3/files' || path.startsWith('/upload/drive/v3/files/')) {
+    const { metadata: meta, data } = parseMultipart(await readBody(req), req.headers['content-type']);
+    const keepForever = url.searchParams.get('keepRevisionForever') === 'true';
+    if (req.method === 'POST' && path === '/upload/drive/v3/files') {
+      const file = createFile(meta);
+      addRevision(file, data, keepForever);
+      console.log(`[FakeDrive] 上傳 ${file.name}（${data.length} bytes）`);
+      return send(res, 200, metadata(file));
+    }
+    if (req.method === 'PATCH') {
+      const file = files.get(decodeURIComponent(path.slice('/upload/drive/v3/files/'.length)));
+      if (!file) return fail(res, 404, '找不到檔案');
+      if (meta.name) file.name = meta.name;
+      if (meta.appProperties) file.appProperties = { ...file.appProperties, ...meta.appProperties };
+      addRevision(file, data, keepForever);
+      console.log(`[FakeDrive] 更新 ${file.name}，共 ${file.revisions.length} 個修訂版本`);
+      return send(res, 200, metadata(file));
+    }
+  }
+
+  const match = /^\/drive\/v3\/files\/([^/]+)(?:\/revisions(?:\/([^/]+))?)?$/.exec(path);
+  if (req.method === 'DELETE' && match && !path.includes('/revisions')) {
+    const id = decodeURIComponent(match[1]);
+    if (!files.delete(id)) return fail(res, 404, '找不到檔案');
+    console.log(`[FakeDrive] 刪除 ${id}`);
+    res.writeHead(204);
+    return res.end();
+  }
+  if (req.method === 'GET' && match) {
+    const file = files.get(decodeURIComponent(match[1]));
+    if (!file || file.trashed) return fail(res, 404, '找不到檔案');
+    const media = url.searchParams.get('alt') === 'media';
+    if (path.includes('/revisions')) {
+      if (!match[2]) return send(res, 200, { revisions: file.revisions.map(revisionInfo) });
+      const revision = file.revisions.find(r => r.id === decodeURIComponent(match[2]));
+      if (!revision) return fail(res, 404, '找不到修訂版本');
+      return media ? send(res, 200, revision.data) : send(res, 200, revisionInfo(revision));
+    }
+    if (!media) return send(res, 200, metadata(file));
+    const revision = latest(file);
+    if (!revision) return fail(res, 404, '檔案沒有內容');
+    return send(res, 200, revision.data);
+  }
+
+  fail(res, 404, `不支援的端點：${req.method} ${path}`);
+};
+
+const server = createServer((req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    return res.end();
+  }
+  handle(req, res).catch(e => {
+    console.error('[FakeDrive] 請求失敗', e.message);
+    if (!res.headersSent) fail(res, 400, e.message);
+  });
+});
+
+server.listen(PORT, () => console.log(`[FakeDrive] 模擬 Google Drive 已啟動：http://localhost:${PORT}`));
@@ -0,0 +1,343 @@
+// 本機模擬的 PostgREST 與 Supabase Auth：實作雲端同步用到的端點，資料只保存在記憶體中。
+// 讀寫依 supabase/schema.sql 的列層級權限與評論者觸發器判斷，可用多個帳號模擬不同裝置與協作成員。
+// 帳號在第一次以該電子郵件登入時建立，之後須使用相同密碼。
+// 用法：node scripts/mock-postgrest.mjs [port]，並在 .env.local 設定
+//   SUPABASE_URL=http://localhost:3001
+//   SUPABASE_ANON_KEY=anon-key
+// MOCK_POSTGREST_TOKEN_TTL（秒）可縮短存取權杖效期，用來測試權杖換發。
+
+import { createServer } from 'http';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+
+const PORT = Number(process.argv[2] || process.env.MOCK_POSTGREST_PORT || 3001);
+const TOKEN_TTL_SECONDS = Number(process.env.MOCK_POSTGREST_TOKEN_TTL || 3600);
+
+// email → { id, password }
+const users = new Map();
+// 存取權杖 → { userId, expiresAt }；更新權杖 → userId
+const accessTokens = new Map();
+const refreshTokens = new Map();
+
+class HttpError extends Error {
+  constructor(status, code, message) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// 主鍵與未提供欄位時的預設值（對應 schema.sql 的 default）
+const TABLES = {
+  profiles: { key: ['id'], defaults: () => ({ membership: 'FREE', export_count: 0, ai_usage: 0 }) },
+  projects: { key: ['id'], defaults: uid => ({ owner_id: uid, revision: 1, deleted_at: null }) },
+  chapters: {
+    key: ['id'],
+    defaults: uid => ({
+      owner_id: uid, title: '', content: '', comments: [], suggestions: [], sealed: null, word_count: 0, revision: 1, deleted: false
+    })
+  },
+  project_members: { key: ['project_id', 'member_id'], defaults: () => ({ token_hash: null, user_id: null }) }
+};
+
+const tables = Object.fromEntries(Object.keys(TABLES).map(name => [name, new Map()]));
+const keyOf = (table, row) => TABLES[table].key.map(column => row[column]).join('\u0000');
+
+const projectOwner = projectId => tables.projects.get(projectId)?.owner_id;
+
+// 同 schema.sql 的 project_role()：目前帳號在專案中的成員角色
+const projectRole = (projectId, uid) =>
+  [...tables.project_members.values()].find(m => m.project_id === projectId && m.user_id === uid)?.role ?? null;
+
+const isProjectOwner = (projectId, uid) => projectOwner(projectId) === uid;
+
+// 列層級權限：select 與 update、delete 的 using 判斷既有資料列，insert 與 check 判斷寫入後的資料列
+const POLICIES = {
+  profiles: {
+    select: (row, uid) => row.id === uid,
+    insert: () => false,
+    update: () => false,
+    check: () => false,
+    delete: () => false
+  },
+  projects: {
+    select: (row, uid) => row.owner_id === uid || projectRole(row.id, uid) !== null,
+    insert: (row, uid) => row.owner_id === uid,
+    update: (row, uid) => row.owner_id === uid,
+    check: (row, uid) => row.owner_id === uid,
+    delete: (row, uid) => row.owner_id === uid
+  },
+  chapters: {
+    select: (row, uid) => row.owner_id === uid || projectRole(row.project_id, uid) !== null,
+    insert: (row, uid) => row.owner_id === uid
+      || (projectRole(row.project_id, uid) === 'EDITOR' && row.owner_id === projectOwner(row.project_id)),
+    update: (row, uid) => row.owner_id === uid || ['EDITOR', 'COMMENTER'].includes(projectRole(row.project_id, uid)),
+    check: (row, uid) => row.owner_id === uid
+      || (['EDITOR', 'COMMENTER'].includes(projectRole(row.project_id, uid)) && row.owner_id === projectOwner(row.project_id)),
+    delete: (row, uid) => row.owner_id === uid
+  },
+  project_members: {
+    select: (row, uid) => isProjectOwner(row.project_id, uid) || row.user_id === uid,
+    insert: (row, uid) => isProjectOwner(row.project_id, uid),
+    update: (row, uid) => isProjectOwner(row.project_id, uid),
+    check: (row, uid) => isProjectOwner(row.project_id, uid),
+    delete: (row, uid) => isProjectOwner(row.project_id, uid)
+  }
+};
+
+// 同 schema.sql 的 chapters_commenter_guard 觸發器：評論者只能修改批註與同步欄位
+const COMMENTER_LOCKED = ['id', 'project_id', 'owner_id', 'title', 'content', 'suggestions', 'sealed', 'order', 'word_count', 'created_at', 'deleted'];
+
+const beforeUpdate = (table, before, after, uid) => {
+  if (table !== 'chapters' || projectRole(before.project_id, uid) !== 'COMMENTER') return;
+  if (COMMENTER_LOCKED.some(column => JSON.stringify(before[column]) !== JSON.stringify(after[column]))) {
+    throw new HttpError(403, '42501', '評論者只能修改批註');
+  }
+};
+
+const rlsViolation = table => new HttpError(403, '42501', `new row violates row-level security policy for table "${table}"`);
+
+/**
+ * 解析 PostgREST 篩選條件：eq、neq、is、in，可加 not. 前綴
+ */
+const parseFilter = raw => {
+  const negate = raw.startsWith('not.');
+  const body = negate ? raw.slice(4) : raw;
+  const dot = body.indexOf('.');
+  const op = body.slice(0, dot);
+  const arg = body.slice(dot + 1);
+  let test;
+  if (op === 'eq') test = value => value !== null && value !== undefined && String(value) === arg;
+  else if (op === 'neq') test = value => value !== null && value !== undefined && String(value) !== arg;
+  else if (op === 'is') test = value => arg === 'null' ? value === null || value === undefined : String(value) === arg;
+  else if (op === 'in') {
+    const values = arg.replace(/^\(|\)$/g, '').split(',').map(v => v.trim().replace(/^"(.*)"$/, '$1'));
+    test = value => value !== null && value !== undefined && values.includes(String(value));
+  } else {
+    throw new HttpError(400, 'PGRST100', `不支援的篩選運算子：${op}`);
+  }
+  return negate ? value => !test(value) : test;
+};
+
+const RESERVED_PARAMS = new Set(['select', 'order', 'on_conflict', 'limit']);
+
+const matcher = params => {
+  const tests = [...params.entries()]
+    .filter(([column]) => !RESERVED_PARAMS.has(column))
+    .map(([column, raw]) => [column, parseFilter(raw)]);
+  return row => tests.every(([column, test]) => test(row[column]));
+};
+
+const project = (rows, params) => {
+  const select = params.get('select');
+  const order = params.get('order');
+  let result = rows;
+  if (order) {
+    const [column, direction] = order.split('.');
+    const sign = direction === 'desc' ? -1 : 1;
+    result = [...result].sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * sign);
+  }
+  if (!select || select === '*') return result;
+  const columns = select.split(',').map(c => c.trim());
+  return result.map(row => Object.fromEntries(columns.map(c => [c, row[c] ?? null])));
+};
+
+const send = (res, status, body) => {
+  if (status === 204) {
+    res.writeHead(204);
+    return res.end();
+  }
+  const payload = Buffer.from(JSON.stringify(body));
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Content-Length': payload.length });
+  res.end(payload);
+};
+
+const readJson = req => new Promise((resolve, reject) => {
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => {
+    const text = Buffer.concat(chunks).toString();
+    try {
+      resolve(text ? JSON.parse(text) : {});
+    } catch {
+      reject(new HttpError(400, 'PGRST102', '請求內容不是有效的 JSON'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const issueSession = (user, email) => {
+  const accessToken = `mock-${randomBytes(16).toString('hex')}`;
+  const refreshToken = randomBytes(16).toString('hex');
+  accessTokens.set(accessToken, { userId: user.id, expiresAt: Date.now() + TOKEN_TTL_SECONDS * 1000 });
+  refreshTokens.set(refreshToken, user.id);
+  return { access_token: accessToken, token_type: 'bearer', refresh_token: refreshToken, expires_in: TOKEN_TTL_SECONDS, user: { id: user.id, email } };
+};
+
+const handleAuth = async (req, res, url) => {
+  if (req.method === 'POST' && url.pathname === '/auth/v1/token') {
+    const body = await readJson(req);
+    const grantType = url.searchParams.get('grant_type');
+    if (grantType === 'password') {
+      const email = String(body.email || '').toLowerCase();
+      if (!email || !body.password) return send(res, 400, { error: 'invalid_grant', error_description: '缺少電子郵件或密碼' });
+      let user = users.get(email);
+      if (!user) {
+        user = { id: randomUUID(), password: body.password };
+        users.set(email, user);
+        tables.profiles.set(user.id, { id: user.id, ...TABLES.profiles.defaults() });
+        console.log(`[MockPostgREST] 建立帳號 ${email}（${user.id}）`);
+      } else if (user.password !== body.password) {
+        return send(res, 400, { error: 'invalid_grant', error_description: '電子郵件或密碼不正確' });
+      }
+      return send(res, 200, issueSession(user, email));
+    }
+    if (grantType === 'refresh_token') {
+      const userId = refreshTokens.get(body.refresh_token);
+      if (!userId) return send(res, 400, { error: 'invalid_grant', error_description: '更新權杖無效' });
+      refreshTokens.delete(body.refresh_token);
+      const [email, user] = [...users.entries()].find(([, u]) => u.id === userId);
+      return send(res, 200, issueSession(user, email));
+    }
+    return send(res, 400, { error: 'unsupported_grant_type', error_description: `不支援的 grant_type：${grantType}` });
+  }
+  if (req.method === 'POST' && url.pathname === '/auth/v1/logout') {
+    const userId = authenticate(req);
+    [...refreshTokens].filter(([, id]) => id === userId).forEach(([token]) => refreshTokens.delete(token));
+    return send(res, 204);
+  }
+  throw new HttpError(404, 'PGRST404', `不支援的端點：${req.method} ${url.pathname}`);
+};
+
+const authenticate = req => {
+  const token = /^Bearer (.+)$/.exec(req.headers.authorization || '')?.[1];
+  const entry = token && accessTokens.get(token);
+  if (!entry || entry.expiresAt <= Date.now()) throw new HttpError(401, 'PGRST301', 'JWT expired');
+  return entry.userId;
+};
+
+// 同 schema.sql 的 accept_invite()：以 security definer 執行，不受列層級權限限制
+const acceptInvite = (body, uid) => {
+  const hash = createHash('sha256').update(String(body.p_token || ''), 'utf8').digest('hex');
+  const member = [...tables.project_members.values()].find(m =>
+    m.project_id === body.p_project_id && m.user_id === null && m.token_hash === hash);
+  if (!member) return [];
+  member.user_id = uid;
+  member.token_hash = null;
+  console.log(`[MockPostgREST] ${uid} 以 ${member.role} 身分加入專案 ${member.project_id}`);
+  return [{ member_id: member.member_id, role: member.role }];
+};
+
+const insertRows = (table, body, uid, prefer, conflictColumns) => {
+  const store = tables[table];
+  const policy = POLICIES[table];
+  const merge = prefer.includes('resolution=merge-duplicates');
+  const incoming = (Array.isArray(body) ? body : [body]).map(row => ({ ...TABLES[table].defaults(uid), ...row }));
+  const conflictKey = row => (conflictColumns || TABLES[table].key).map(c => row[c]).join('\u0000');
+
+  // 整批先檢查再寫入，任一列失敗時不留下部分結果
+  const writes = incoming.map(row => {
+    const existing = [...store.values()].find(r => conflictKey(r) === conflictKey(row));
+    if (!existing) {
+      if (!policy.insert(row, uid)) throw rlsViolation(table);
+      return { before: null, after: row };
+    }
+    if (!merge) throw new HttpError(409, '23505', `duplicate key value violates unique constraint "${table}_pkey"`);
+    const after = { ...existing, ...row };
+    if (!policy.update(existing, uid)) throw rlsViolation(table);
+    beforeUpdate(table, existing, after, uid);
+    if (!policy.check(after, uid)) throw rlsViolation(table);
+    return { before: existing, after };
+  });
+  writes.forEach(({ before, after }) => {
+    if (before) store.delete(keyOf(table, before));
+    store.set(keyOf(table, after), after);
+  });
+  return writes.map(w => w.after);
+};
+
+const updateRows = (table, rows, patch, uid) => {
+  const store = tables[table];
+  const policy = POLICIES[table];
+  const writes = rows.filter(row => policy.update(row, uid)).map(before => {
+    const after = { ...before, ...patch };
+    beforeUpdate(table, before, after, uid);
+    if (!policy.check(after, uid)) throw rlsViolation(table);
+    return { before, after };
+  });
+  writes.forEach(({ before, after }) => {
+    store.delete(keyOf(table, before));
+    store.set(keyOf(table, after), after);
+  });
+  return writes.map(w => w.after);
+};
+
+const deleteRows = (table, rows, uid) => {
+  const removed = rows.filter(row => POLICIES[table].delete(row, uid));
+  removed.forEach(row => {
+    tables[table].delete(keyOf(table, row));
+    // 對應 references projects(id) on delete cascade
+    if (table === 'projects') {
+      ['chapters', 'project_members'].forEach(child => {
+        [...tables[child].values()].filter(r => r.project_id === row.id).forEach(r => tables[child].delete(keyOf(child, r)));
+      });
+    }
+  });
+  return removed;
+};
+
+const handleRest = async (req, res, url) => {
+  const uid = authenticate(req);
+  const path = url.pathname.slice('/rest/v1/'.length);
+  const prefer = String(req.headers.prefer || '');
+  const represent = prefer.includes('return=representation');
+
+  if (path === 'rpc/accept_invite' && req.method === 'POST') {
+    return send(res, 200, acceptInvite(await readJson(req), uid));
+  }
+
+  const table = path;
+  if (!TABLES[table]) throw new HttpError(404, '42P01', `relation "${table}" does not exist`);
+  const params = url.searchParams;
+  const matches = matcher(params);
+  const visible = () => [...tables[table].values()].filter(row => POLICIES[table].select(row, uid) && matches(row));
+
+  let rows;
+  let status = 200;
+  if (req.method === 'GET') {
+    return send(res, 200, project(visible(), params));
+  } else if (req.method === 'POST') {
+    const conflict = params.get('on_conflict');
+    rows = insertRows(table, await readJson(req), uid, prefer, conflict ? conflict.split(',') : null);
+    status = 201;
+  } else if (req.method === 'PATCH') {
+    rows = updateRows(table, visible(), await readJson(req), uid);
+  } else if (req.method === 'DELETE') {
+    rows = deleteRows(table, visible(), uid);
+  } else {
+    throw new HttpError(405, 'PGRST405', `不支援的方法：${req.method}`);
+  }
+
+  console.log(`[MockPostgREST] ${req.method} ${table}：${rows.length} 列`);
+  return represent ? send(res, status, project(rows, params)) : send(res, 204);
+};
+
+const server = createServer((req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, apikey, Prefer');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    return res.end();
+  }
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+  const handler = url.pathname.startsWith('/auth/v1/') ? handleAuth
+    : url.pathname.startsWith('/rest/v1/') ? handleRest
+    : null;
+  if (!handler) return send(res, 404, { code: 'PGRST404', message: `不支援的端點：${req.method} ${url.pathname}` });
+  handler(req, res, url).catch(e => {
+    if (!(e instanceof HttpError)) console.error('[MockPostgREST] 請求失敗', e);
+    if (!res.headersSent) send(res, e.status || 500, { code: e.code || 'XX000', message: e.message });
+  });
+});
+
+server.listen(PORT, () => console.log(`[MockPostgREST] 模擬 PostgREST 與 Supabase Auth 已啟動：http://localhost:${PORT}`));
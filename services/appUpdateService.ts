@@ -0,0 +1,75 @@
+// 註冊 service worker 並偵測新版本：新版本安裝完成後進入等待，由使用者確認後才啟用並重新載入，
+// 避免正在寫作的頁面被換掉。
+const SERVICE_WORKER_URL = process.env.SERVICE_WORKER_URL || '';
+// 長時間開著的分頁定期檢查是否有新版本
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+export type UpdateListener = (updateReady: boolean) => void;
+
+const listeners = new Set<UpdateListener>();
+let registration: ServiceWorkerRegistration | null = null;
+let waiting: ServiceWorker | null = null;
+let reloading = false;
+
+const setWaiting = (worker: ServiceWorker | null) => {
+  waiting = worker;
+  listeners.forEach(listener => listener(!!worker));
+};
+
+// 只有已有頁面受控時的新安裝才算更新；首次安裝直接啟用
+const track = (worker: ServiceWorker | null) => {
+  if (!worker) return;
+  const check = () => {
+    if (worker.state === 'installed' && navigator.serviceWorker.controller) setWaiting(worker);
+  };
+  check();
+  worker.addEventListener('statechange', check);
+};
+
+const checkForUpdate = () => {
+  registration?.update().catch(e => console.warn('[SW] 檢查更新失敗', e));
+};
+
+export const appUpdateService = {
+  isSupported(): boolean {
+    return !!SERVICE_WORKER_URL && 'serviceWorker' in navigator;
+  },
+
+  async register(): Promise<void> {
+    if (!this.isSupported() || registration) return;
+    try {
+      registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+    } catch (e) {
+      console.error('[SW] 註冊失敗', e);
+      return;
+    }
+    track(registration.waiting);
+    registration.addEventListener('updatefound', () => track(registration!.installing));
+
+    // 新版本接手後重新載入，讓頁面與快取的檔案版本一致（首次安裝接手時不重新載入）
+    const hadController = !!navigator.serviceWorker.controller;
+    navigator.serviceWorker.addEventListener('controllerchange', () => {
+      if (reloading || !hadController) return;
+      reloading = true;
+      window.location.reload();
+    });
+
+    window.setInterval(checkForUpdate, UPDATE_CHECK_INTERVAL_MS);
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') checkForUpdate();
+    });
+  },
+
+  /**
+   * 啟用等待中的新版本；service worker 接手後頁面會自動重新載入
+   */
+  applyUpdate() {
+    waiting?.postMessage({ type: 'SKIP_WAITING' });
+  },
+
+  subscribe(listener: UpdateListener): () => void {
+    listeners.add(listener);
+    listener(!!waiting);
+    return () => { listeners.delete(listener); };
+  }
+};
@@ -0,0 +1,101 @@
+import { STORES, BlobRecord } from './dbSchema';
+import { dbService } from './dbService';
+import { digestHex, decodeDataUrl } from './contentHash';
+
+// 尚未被任何專案引用的資產保留期限：封面編輯中（尚未儲存專案）的圖片不會被回收
+const ORPHAN_GRACE_MS = 24 * 3600000;
+
+// 已解析的 object URL，同一參照在本分頁只建立一次
+const objectUrls = new Map<string, string>();
+
+const requestResult = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+export const assetStore = {
+  /**
+   * 以內容雜湊寫入資產並回傳參照；相同內容只會儲存一份。
+   * 新資產的引用計數為 0，直到專案儲存時由 dbService 累加。
+   */
+  async put(blob: Blob): Promise<string> {
+    const hash = await digestHex(new Uint8Array(await blob.arrayBuffer()));
+    const db = await dbService.initDB();
+    const tx = db.transaction(STORES.BLOBS, 'readwrite');
+    const store = tx.objectStore(STORES.BLOBS);
+    const existing = await requestResult<BlobRecord | undefined>(store.get(hash));
+    if (!existing) {
+      store.put({ hash, blob, type: blob.type, size: blob.size, refCount: 0, createdAt: Date.now() });
+    } else if (existing.refCount === 0) {
+      // 重新使用待回收的資產時延長保留期限
+      store.put({ ...existing, createdAt: Date.now() });
+    }
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    return hash;
+  },
+
+  async putDataUrl(dataUrl: string): Promise<string> {
+    const { bytes, type } = decodeDataUrl(dataUrl);
+    return this.put(new Blob([bytes], { type }));
+  },
+
+  async get(ref: string): Promise<Blob | null> {
+    const db = await dbService.initDB();
+    const tx = db.transaction(STORES.BLOBS, 'readonly');
+    const record = await requestResult<BlobRecord | undefined>(tx.objectStore(STORES.BLOBS).get(ref));
+    return record?.blob || null;
+  },
+
+  /**
+   * 取得可供 <img> 使用的 object URL
+   */
+  async getObjectUrl(ref: string): Promise<string | null> {
+    const cached = objectUrls.get(ref);
+    if (cached) return cached;
+    const blob = await this.get(ref);
+    if (!blob) return null;
+    const url = URL.createObjectURL(blob);
+    objectUrls.set(ref, url);
+    return url;
+  },
+
+  /**
+   * 取得 data URL，供需要 base64 的介面（jsPDF、Gemini 影像輸入）使用
+   */
+  async getDataUrl(ref: string): Promise<string | null> {
+    const blob = await this.get(ref);
+    if (!blob) return null;
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  },
+
+  /**
+   * 刪除引用計數為 0 且超過保留期限的資產，回傳刪除數量
+   */
+  async collectGarbage(graceMs = ORPHAN_GRACE_MS): Promise<number> {
+    const db = await dbService.initDB();
+    const tx = db.transaction(STORES.BLOBS, 'readwrite');
+    const store = tx.objectStore(STORES.BLOBS);
+    const orphans = await requestResult<BlobRecord[]>(store.index('refCount').getAll(IDBKeyRange.upperBound(0)));
+    const cutoff = Date.now() - graceMs;
+    const expired = orphans.filter(b => b.createdAt < cutoff);
+    expired.forEach(b => {
+      store.delete(b.hash);
+      const url = objectUrls.get(b.hash);
+      if (url) {
+        URL.revokeObjectURL(url);
+        objectUrls.delete(b.hash);
+      }
+    });
+    if (expired.length > 0) console.log(`[Assets] 回收 ${expired.length} 個未引用的資產`);
+    return expired.length;
+  }
+};
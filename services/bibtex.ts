@@ -0,0 +1,227 @@
+import { BibEntry, CslName } from '../types';
+
+/**
+ * 匯入參考文獻：BibTeX（.bib）與 CSL-JSON，統一轉為 CSL-JSON 條目。
+ * BibTeX 的 @string、@preamble、@comment 會略過，LaTeX 指令只處理常見的重音與跳脫字元。
+ */
+
+export class BibliographyImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BibliographyImportError';
+  }
+}
+
+const TYPE_MAP: Record<string, string> = {
+  article: 'article-journal',
+  book: 'book',
+  booklet: 'book',
+  inbook: 'chapter',
+  incollection: 'chapter',
+  inproceedings: 'paper-conference',
+  conference: 'paper-conference',
+  proceedings: 'book',
+  phdthesis: 'thesis',
+  mastersthesis: 'thesis',
+  thesis: 'thesis',
+  techreport: 'report',
+  report: 'report',
+  manual: 'report',
+  unpublished: 'manuscript',
+  online: 'webpage'
+};
+
+const ACCENTS: Record<string, Record<string, string>> = {
+  '\'': { a: 'á', e: 'é', i: 'í', o: 'ó', u: 'ú', y: 'ý', A: 'Á', E: 'É', I: 'Í', O: 'Ó', U: 'Ú' },
+  '`': { a: 'à', e: 'è', i: 'ì', o: 'ò', u: 'ù', A: 'À', E: 'È', O: 'Ò' },
+  '"': { a: 'ä', e: 'ë', i: 'ï', o: 'ö', u: 'ü', A: 'Ä', O: 'Ö', U: 'Ü' },
+  '^': { a: 'â', e: 'ê', i: 'î', o: 'ô', u: 'û' },
+  '~': { a: 'ã', n: 'ñ', o: 'õ', N: 'Ñ' },
+  'c': { c: 'ç', C: 'Ç' }
+};
+
+/**
+ * 去除 LaTeX 標記：重音指令轉為對應字元，保護大小寫用的大括號直接移除
+ */
+const fromLatex = (value: string) => value
+  .replace(/\{?\\([`'"^~c])\s*\{?\\?([A-Za-z])\}?\}?/g, (match, accent: string, letter: string) => ACCENTS[accent]?.[letter] || letter)
+  .replace(/\\([&%$#_{}])/g, '$1')
+  .replace(/\\(textit|emph|textbf|textrm)\s*/g, '')
+  .replace(/--/g, '–')
+  .replace(/[{}]/g, '')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+/**
+ * 拆解作者清單：以 and 分隔，每位作者可寫成「姓, 名」或「名 姓」；整個以大括號包住的視為機構名稱
+ */
+const parseNames = (raw: string): CslName[] => {
+  const names: string[] = [];
+  let depth = 0;
+  let current = '';
+  // 只在最外層的 and 分隔，{Smith and Sons} 保持一位作者
+  for (let i = 0; i < raw.length; i++) {
+    const ch = raw[i];
+    if (ch === '{') depth++;
+    if (ch === '}') depth--;
+    if (depth === 0 && /^\sand\s/i.test(raw.slice(i, i + 5))) {
+      names.push(current);
+      current = '';
+      i += 4;
+      continue;
+    }
+    current += ch;
+  }
+  names.push(current);
+
+  return names.map(name => name.trim()).filter(Boolean).map(name => {
+    if (/^\{[^{}]*\}$/.test(name) && !name.includes(',')) return { literal: fromLatex(name) };
+    if (name.includes(',')) {
+      const [family, ...given] = name.split(',');
+      return { family: fromLatex(family), given: fromLatex(given.join(',')) };
+    }
+    const parts = fromLatex(name).split(' ');
+    if (parts.length === 1) return { family: parts[0] };
+    // 姓氏前綴（van、de、von）歸入姓
+    const prefixAt = parts.findIndex((part, i) => i > 0 && i < parts.length - 1 && /^[a-z]/.test(part));
+    const familyAt = prefixAt === -1 ? parts.length - 1 : prefixAt;
+    return { family: parts.slice(familyAt).join(' '), given: parts.slice(0, familyAt).join(' ') };
+  });
+};
+
+/**
+ * 讀取欄位值：{...}（可巢狀）、"..." 或數字與 @string 名稱，以 # 串接
+ */
+const readValue = (source: string, start: number, strings: Map<string, string>): { value: string; end: number } => {
+  let i = start;
+  let value = '';
+  for (;;) {
+    while (/\s/.test(source[i] || '')) i++;
+    if (source[i] === '{' || source[i] === '"') {
+      const quoted = source[i] === '"';
+      let depth = quoted ? 0 : 1;
+      const begin = i + 1;
+      for (i++; i < source.length; i++) {
+        if (source[i] === '\\') { i++; continue; }
+        if (source[i] === '{') depth++;
+        else if (source[i] === '}' && --depth === 0 && !quoted) break;
+        else if (source[i] === '"' && quoted && depth === 0) break;
+      }
+      if (i >= source.length) throw new BibliographyImportError('BibTeX 欄位缺少結尾的括號或引號');
+      value += source.slice(begin, i);
+      i++;
+    } else {
+      const match = /^[\w:.-]+/.exec(source.slice(i));
+      if (!match) throw new BibliographyImportError(`BibTeX 欄位值格式不正確（位置 ${i}）`);
+      value += strings.get(match[0].toLowerCase()) ?? match[0];
+      i += match[0].length;
+    }
+    while (/\s/.test(source[i] || '')) i++;
+    if (source[i] !== '#') return { value, end: i };
+    i++;
+  }
+};
+
+const toEntry = (bibType: string, key: string, fields: Record<string, string>): BibEntry => {
+  const field = (name: string) => fields[name] !== undefined ? fromLatex(fields[name]) : undefined;
+  const url = field('url');
+  const type = TYPE_MAP[bibType] || (url ? 'webpage' : 'document');
+  const entry: BibEntry = { id: key, type };
+  const year = field('year') || field('date')?.slice(0, 4);
+
+  if (field('title')) entry.title = field('title');
+  if (fields.author) entry.author = parseNames(fields.author);
+  if (fields.editor) entry.editor = parseNames(fields.editor);
+  if (year) entry.issued = /^\d+$/.test(year) ? { 'date-parts': [[Number(year)]] } : { literal: year };
+  const container = field('journal') || field('journaltitle') || field('booktitle');
+  if (container) entry['container-title'] = container;
+  const publisher = field('publisher') || field('school') || field('institution') || field('organization');
+  if (publisher) entry.publisher = publisher;
+  const place = field('address') || field('location');
+  if (place) entry['publisher-place'] = place;
+  if (field('volume')) entry.volume = field('volume');
+  if (field('number')) entry.issue = field('number');
+  if (field('pages')) entry.page = field('pages');
+  if (field('edition')) entry.edition = field('edition');
+  if (field('doi')) entry.DOI = field('doi');
+  if (url) entry.URL = url;
+  return entry;
+};
+
+const isCslEntry = (value: unknown): value is BibEntry =>
+  !!value && typeof value === 'object'
+  && typeof (value as BibEntry).id === 'string' && !!(value as BibEntry).id
+  && typeof (value as BibEntry).type === 'string';
+
+export const bibtex = {
+  parse(source: string): BibEntry[] {
+    const entries: BibEntry[] = [];
+    const strings = new Map<string, string>();
+    const pattern = /@(\w+)\s*[{(]/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(source))) {
+      const bibType = match[1].toLowerCase();
+      let i = pattern.lastIndex;
+      if (bibType === 'comment' || bibType === 'preamble') continue;
+
+      if (bibType === 'string') {
+        const name = /^\s*([\w:.-]+)\s*=/.exec(source.slice(i));
+        if (!name) continue;
+        const { value, end } = readValue(source, i + name[0].length, strings);
+        strings.set(name[1].toLowerCase(), value);
+        pattern.lastIndex = end;
+        continue;
+      }
+
+      const keyMatch = /^\s*([^\s,{}()]+)\s*,/.exec(source.slice(i));
+      if (!keyMatch) throw new BibliographyImportError(`BibTeX 條目缺少引用鍵（@${match[1]}）`);
+      i += keyMatch[0].length;
+      const fields: Record<string, string> = {};
+      for (;;) {
+        const name = /^\s*([\w:.-]+)\s*=/.exec(source.slice(i));
+        if (!name) break;
+        const { value, end } = readValue(source, i + name[0].length, strings);
+        fields[name[1].toLowerCase()] = value;
+        i = end;
+        if (source[i] !== ',') break;
+        i++;
+      }
+      while (/\s/.test(source[i] || '')) i++;
+      if (source[i] !== '}' && source[i] !== ')') throw new BibliographyImportError(`BibTeX 條目「${keyMatch[1]}」未正確結束`);
+      pattern.lastIndex = i + 1;
+      entries.push(toEntry(bibType, keyMatch[1], fields));
+    }
+    return entries;
+  },
+
+  parseCslJson(source: string): BibEntry[] {
+    let data: unknown;
+    try {
+      data = JSON.parse(source);
+    } catch {
+      throw new BibliographyImportError('CSL-JSON 格式不正確');
+    }
+    const items = Array.isArray(data) ? data : [data];
+    const invalid = items.findIndex(item => !isCslEntry(item));
+    if (invalid !== -1) throw new BibliographyImportError(`CSL-JSON 第 ${invalid + 1} 筆缺少 id 或 type`);
+    return items as BibEntry[];
+  },
+
+  /**
+   * 依內容判斷格式：以 [ 或 { 開頭視為 CSL-JSON，其餘視為 BibTeX
+   */
+  parseAny(source: string): BibEntry[] {
+    const entries = /^\s*[[{]/.test(source) ? this.parseCslJson(source) : this.parse(source);
+    if (entries.length === 0) throw new BibliographyImportError('沒有找到任何參考文獻條目');
+    return entries;
+  },
+
+  /**
+   * 合併匯入的條目：同一引用鍵以新匯入的為準
+   */
+  merge(existing: BibEntry[], imported: BibEntry[]): BibEntry[] {
+    const byId = new Map(existing.map(entry => [entry.id, entry]));
+    imported.forEach(entry => byId.set(entry.id, entry));
+    return [...byId.values()];
+  }
+};
@@ -0,0 +1,119 @@
+import { ChapterComment, CommentAnchor, CommentReply } from '../types';
+
+// 錨點保留的前後文長度，引文重複出現時用來判斷原本的位置
+const CONTEXT_LENGTH = 32;
+
+const newId = (prefix: string) => `${prefix}-${Date.now()}-${crypto.randomUUID().slice(0, 6)}`;
+
+const anchorAt = (text: string, start: number, end: number): CommentAnchor => ({
+  start,
+  end,
+  quote: text.slice(start, end),
+  prefix: text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+  suffix: text.slice(end, end + CONTEXT_LENGTH)
+});
+
+const commonPrefixLength = (a: string, b: string) => {
+  let n = 0;
+  while (n < a.length && n < b.length && a[n] === b[n]) n++;
+  return n;
+};
+
+const commonSuffixLength = (a: string, b: string) => {
+  let n = 0;
+  while (n < a.length && n < b.length && a[a.length - 1 - n] === b[b.length - 1 - n]) n++;
+  return n;
+};
+
+/**
+ * 在新文字中尋找引文：多處相符時取前後文最吻合者，同分取最接近原位置者；
+ * 前後文完全不符時不採用，避免批註跳到碰巧相同的常見字詞上
+ */
+const relocate = (anchor: CommentAnchor, text: string): CommentAnchor | null => {
+  if (!anchor.quote) return null;
+  let best: { start: number; score: number; distance: number } | null = null;
+  for (let start = text.indexOf(anchor.quote); start !== -1; start = text.indexOf(anchor.quote, start + 1)) {
+    const end = start + anchor.quote.length;
+    const score = commonSuffixLength(text.slice(Math.max(0, start - CONTEXT_LENGTH), start), anchor.prefix)
+      + commonPrefixLength(text.slice(end, end + CONTEXT_LENGTH), anchor.suffix);
+    const distance = Math.abs(start - anchor.start);
+    if (!best || score > best.score || (score === best.score && distance < best.distance)) best = { start, score, distance };
+  }
+  return best && best.score > 0 ? anchorAt(text, best.start, best.start + anchor.quote.length) : null;
+};
+
+/**
+ * 依單一連續區段的差異（與協作 diffToOps 相同的比對方式）平移錨點；
+ * 編輯落在範圍內時範圍隨之伸縮，與範圍部分重疊時保留未被刪除的部分
+ */
+const shift = (anchor: CommentAnchor, oldText: string, newText: string): CommentAnchor | null => {
+  const prefix = commonPrefixLength(oldText, newText);
+  const suffix = Math.min(
+    commonSuffixLength(oldText, newText),
+    oldText.length - prefix,
+    newText.length - prefix
+  );
+  const oldEnd = oldText.length - suffix;
+  const newEnd = newText.length - suffix;
+  const delta = newText.length - oldText.length;
+  const { start, end } = anchor;
+
+  if (end <= prefix) return anchorAt(newText, start, end);
+  if (start >= oldEnd) return anchorAt(newText, start + delta, end + delta);
+
+  const nextStart = start <= prefix ? start : newEnd;
+  const nextEnd = end >= oldEnd ? end + delta : prefix;
+  return nextStart < nextEnd ? anchorAt(newText, nextStart, nextEnd) : null;
+};
+
+const updateComment = (comments: ChapterComment[], id: string, update: (comment: ChapterComment) => ChapterComment) =>
+  comments.map(c => c.id === id ? update(c) : c);
+
+export const chapterComments = {
+  create(text: string, start: number, end: number, author: string, body: string): ChapterComment {
+    return {
+      id: newId('cm'),
+      anchor: anchorAt(text, Math.min(start, end), Math.max(start, end)),
+      author,
+      text: body.trim(),
+      createdAt: Date.now(),
+      resolved: false,
+      replies: []
+    };
+  },
+
+  reply(comments: ChapterComment[], id: string, author: string, body: string): ChapterComment[] {
+    const reply: CommentReply = { id: newId('rp'), author, text: body.trim(), createdAt: Date.now() };
+    return updateComment(comments, id, c => ({ ...c, replies: [...c.replies, reply] }));
+  },
+
+  setResolved(comments: ChapterComment[], id: string, resolved: boolean, author: string): ChapterComment[] {
+    return updateComment(comments, id, c => resolved
+      ? { ...c, resolved, resolvedAt: Date.now(), resolvedBy: author }
+      : { ...c, resolved, resolvedAt: undefined, resolvedBy: undefined });
+  },
+
+  remove(comments: ChapterComment[], id: string): ChapterComment[] {
+    return comments.filter(c => c.id !== id);
+  },
+
+  /**
+   * 內文由 oldText 改為 newText 後重新對位所有批註：先依差異平移，
+   * 範圍整段被刪除時改以引文與前後文搜尋，仍找不到則標記為孤立；孤立的批註在引文重新出現時恢復
+   */
+  remap(comments: ChapterComment[], oldText: string, newText: string): ChapterComment[] {
+    if (oldText === newText || comments.length === 0) return comments;
+    return comments.map(comment => {
+      const anchor = comment.orphaned
+        ? relocate(comment.anchor, newText)
+        : shift(comment.anchor, oldText, newText) || relocate(comment.anchor, newText);
+      if (!anchor) return comment.orphaned ? comment : { ...comment, orphaned: true };
+      const { orphaned, ...rest } = comment;
+      return { ...rest, anchor };
+    });
+  },
+
+  unresolvedCount(comments: ChapterComment[] | undefined): number {
+    return (comments || []).filter(c => !c.resolved).length;
+  }
+};
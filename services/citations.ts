@@ -0,0 +1,361 @@
+import { BibEntry, CitationStyle, CslName, CustomCitationStyle, Project } from '../types';
+import { chapterComments } from './chapterComments';
+
+/**
+ * 內文引用與參考文獻：內文以 [@鍵] 引用，可加頁碼 [@鍵, p. 33]、前綴 [see @鍵]、多筆 [@a; @b]，
+ * [-@鍵] 省略作者。引用與參考文獻依專案選定的格式產生，格式以範本描述：
+ * {欄位} 代入條目資料，[ ] 內的片段在其中欄位皆有值時才輸出。參考文獻中的 *文字* 為斜體；
+ * 條目資料來自匯入的檔案，代入時以反斜線跳脫其中的 * 與 \，輸出 HTML 時一律經過 citations.html 跳脫。
+ */
+
+export interface CitationItem {
+  key: string;
+  prefix: string;
+  locator: string;
+  suppressAuthor: boolean;
+}
+
+export interface Citation {
+  start: number;
+  end: number;
+  items: CitationItem[];
+}
+
+export interface CitationContext {
+  style: CitationStyle;
+  custom?: CustomCitationStyle;
+  entries: Map<string, BibEntry>;
+  // 同作者同年份的條目在年份後加上 a、b 區分
+  yearSuffixes: Map<string, string>;
+}
+
+interface StyleDefinition {
+  heading: string;
+  inText: string;
+  reference: { article: string; book: string; chapter: string; generic: string };
+  shortAuthors: (names: string[]) => string;
+  fullAuthors: (names: CslName[]) => string;
+  noDate: string;
+  // 純數字的頁碼是否加上 p. / pp.
+  pagePrefix: boolean;
+}
+
+export const CITATION_STYLE_LABELS: Record<CitationStyle, string> = {
+  APA: 'APA 7',
+  MLA: 'MLA 9',
+  CHICAGO: 'Chicago（作者-年份）',
+  CUSTOM: '自訂格式'
+};
+
+export const DEFAULT_CUSTOM_STYLE: CustomCitationStyle = {
+  inText: '{author}, {year}[, {locator}]',
+  reference: '{authors}. ({year}). {title}.[ *{container}*].[ {publisher}.][ {link}]',
+  heading: 'References'
+};
+
+const CITATION = /\[([^[\]]*@[^[\]]*)\]/g;
+const CITATION_ITEM = /^((?:.*?\s)?)(-?)@([\w:.#$%&+?<>~/-]*\w)(?:\s*,\s*(.+))?$/;
+const CJK = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+const familyOf = (name: CslName) => name.family || name.literal || '';
+
+// 中日韓姓名姓在前且不加逗號
+const isCjkName = (name: CslName) => CJK.test(`${name.family || ''}${name.given || ''}`);
+
+const initials = (given: string) => given.split(/\s+/).filter(Boolean)
+  .map(part => part.split('-').map(p => `${p[0].toUpperCase()}.`).join('-')).join(' ');
+
+const invertedName = (name: CslName, initialsOnly: boolean) => {
+  if (name.literal || !name.given) return familyOf(name);
+  if (isCjkName(name)) return `${name.family || ''}${name.given}`;
+  return `${name.family}, ${initialsOnly ? initials(name.given) : name.given}`;
+};
+
+const directName = (name: CslName) => {
+  if (name.literal || !name.given) return familyOf(name);
+  if (isCjkName(name)) return `${name.family || ''}${name.given}`;
+  return `${name.given} ${name.family}`;
+};
+
+const joinNames = (names: string[], conjunction: string, serialComma = true) => {
+  if (names.length <= 1) return names.join('');
+  if (names.length === 2) return `${names[0]}${serialComma && conjunction === '&' ? ',' : ''} ${conjunction} ${names[1]}`;
+  return `${names.slice(0, -1).join(', ')}, ${conjunction} ${names[names.length - 1]}`;
+};
+
+const STYLES: Record<Exclude<CitationStyle, 'CUSTOM'>, StyleDefinition> = {
+  APA: {
+    heading: 'References',
+    inText: '{author}, {year}[, {locator}]',
+    reference: {
+      article: '{authors}. ({year}). {title}.[ *{container}*][, *{volume}*][({issue})][, {pages}].[ {link}]',
+      book: '{authors}. ({year}).[ *{title}*][ ({edition} ed.)].[ {publisher}.][ {link}]',
+      chapter: '{authors}. ({year}). {title}. In[ {editors} ({eds}),][ *{container}*][ (pp. {pages})].[ {publisher}.][ {link}]',
+      generic: '{authors}. ({year}).[ *{title}*].[ {container}.][ {link}]'
+    },
+    shortAuthors: names => names.length > 2 ? `${names[0]} et al.` : names.join(' & '),
+    fullAuthors: names => joinNames(names.slice(0, 20).map(n => invertedName(n, true)), '&'),
+    noDate: 'n.d.',
+    pagePrefix: true
+  },
+  MLA: {
+    heading: 'Works Cited',
+    inText: '{author}[ {locator}]',
+    reference: {
+      article: '{authors}.[ "{title}."][ *{container}*][, vol. {volume}][, no. {issue}][, {year}][, pp. {pages}].[ {link}.]',
+      book: '{authors}.[ *{title}*.][ {publisher},][ {year}].',
+      chapter: '{authors}.[ "{title}."][ *{container}*,][ edited by {editors},][ {publisher},][ {year},][ pp. {pages}].',
+      generic: '{authors}.[ *{title}*.][ {container},][ {year},][ {link}].'
+    },
+    shortAuthors: names => names.length > 2 ? `${names[0]} et al.` : names.join(' and '),
+    fullAuthors: names => names.length > 2
+      ? `${invertedName(names[0], false)}, et al.`
+      : joinNames([invertedName(names[0], false), ...names.slice(1).map(directName)], 'and'),
+    noDate: '',
+    pagePrefix: false
+  },
+  CHICAGO: {
+    heading: 'Bibliography',
+    inText: '{author} {year}[, {locator}]',
+    reference: {
+      article: '{authors}. {year}.[ "{title}."][ *{container}*][ {volume}][ ({issue})][: {pages}].[ {link}.]',
+      book: '{authors}. {year}.[ *{title}*.][ {place}:][ {publisher}].',
+      chapter: '{authors}. {year}.[ "{title}."] In[ *{container}*][, edited by {editors}][, {pages}].[ {place}:][ {publisher}].',
+      generic: '{authors}. {year}.[ *{title}*.][ {container}.][ {link}.]'
+    },
+    shortAuthors: names => names.length > 3 ? `${names[0]} et al.` : joinNames(names, 'and'),
+    fullAuthors: names => joinNames([invertedName(names[0], false), ...names.slice(1, 10).map(directName)], 'and'),
+    noDate: 'n.d.',
+    pagePrefix: false
+  }
+};
+
+const styleOf = (context: CitationContext): StyleDefinition => {
+  if (context.style !== 'CUSTOM') return STYLES[context.style];
+  const custom = context.custom || DEFAULT_CUSTOM_STYLE;
+  return {
+    ...STYLES.APA,
+    heading: custom.heading,
+    inText: custom.inText,
+    reference: { article: custom.reference, book: custom.reference, chapter: custom.reference, generic: custom.reference }
+  };
+};
+
+const kindOf = (entry: BibEntry): keyof StyleDefinition['reference'] => {
+  if (entry.type.startsWith('article')) return 'article';
+  if (['book', 'report', 'thesis', 'manuscript'].includes(entry.type)) return 'book';
+  if (['chapter', 'paper-conference', 'entry-encyclopedia', 'entry-dictionary'].includes(entry.type)) return 'chapter';
+  return 'generic';
+};
+
+const yearOf = (entry: BibEntry) => String(entry.issued?.['date-parts']?.[0]?.[0] ?? entry.issued?.literal ?? '');
+
+const shortAuthorOf = (entry: BibEntry, style: StyleDefinition) => {
+  // 中日韓作者在內文中寫全名
+  const names = (entry.author?.length ? entry.author : entry.editor || [])
+    .map(name => isCjkName(name) && !name.literal ? `${name.family || ''}${name.given || ''}` : familyOf(name)).filter(Boolean);
+  return names.length > 0 ? style.shortAuthors(names) : entry.title || entry.id;
+};
+
+/**
+ * 代入範本：先處理 [ ] 選擇性片段與代入後為空的斜體，再代入欄位，最後清理空欄位留下的多餘標點
+ */
+const fill = (template: string, fields: Record<string, string>) => template
+  .replace(/\[([^[\]]*)\]/g, (_, group: string) =>
+    [...group.matchAll(/\{(\w+)\}/g)].every(m => fields[m[1]]) ? group : '')
+  .replace(/\*([^*]*)\*/g, (span, inner: string) =>
+    inner.replace(/\{(\w+)\}/g, (_, name: string) => fields[name] || '').trim() ? span : '')
+  .replace(/\{(\w+)\}/g, (_, name: string) => fields[name] || '')
+  .replace(/\(\s*\)/g, '')
+  .replace(/\s+([.,;:])/g, '$1')
+  .replace(/([?!])\./g, '$1')
+  .replace(/\.(\s*\.)+/g, '.')
+  .replace(/,\./g, '.')
+  .replace(/\s{2,}/g, ' ')
+  .trim();
+
+const formatLocator = (locator: string, style: StyleDefinition) => {
+  const bare = locator.replace(/^pp?\.\s*/, '').replace(/--?/g, '–');
+  if (!/^[\d\s–,]+$/.test(bare)) return locator;
+  return style.pagePrefix ? `${/[–,]/.test(bare) ? 'pp.' : 'p.'} ${bare}` : bare;
+};
+
+// 條目資料中的 * 與 \ 視為文字，不作為斜體標記
+const escapeMarkup = (value: string) => value.replace(/[\\*]/g, '\\$&');
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const referenceFields = (entry: BibEntry, context: CitationContext, style: StyleDefinition): Record<string, string> => {
+  const authors = entry.author?.length ? style.fullAuthors(entry.author) : '';
+  const year = `${yearOf(entry) || style.noDate}${context.yearSuffixes.get(entry.id) || ''}`;
+  const fields: Record<string, string> = {
+    // 沒有作者時以標題代替作者的位置
+    authors: authors || entry.title || entry.id,
+    title: authors ? entry.title || '' : '',
+    year,
+    container: entry['container-title'] || '',
+    volume: entry.volume !== undefined ? String(entry.volume) : '',
+    issue: entry.issue !== undefined ? String(entry.issue) : '',
+    pages: (entry.page || '').replace(/--?/g, '–'),
+    edition: entry.edition !== undefined ? String(entry.edition) : '',
+    publisher: entry.publisher || '',
+    place: entry['publisher-place'] || '',
+    editors: joinNames((entry.editor || []).map(directName), context.style === 'APA' ? '&' : 'and'),
+    eds: (entry.editor || []).length > 1 ? 'Eds.' : 'Ed.',
+    link: entry.DOI ? `https://doi.org/${entry.DOI.replace(/^https?:\/\/(dx\.)?doi\.org\//, '')}` : entry.URL || ''
+  };
+  return Object.fromEntries(Object.entries(fields).map(([name, value]) => [name, escapeMarkup(value)]));
+};
+
+const sortKey = (entry: BibEntry) => `${(entry.author?.[0] ? familyOf(entry.author[0]) : entry.title || entry.id).toLowerCase()}\u0000${yearOf(entry)}\u0000${(entry.title || '').toLowerCase()}`;
+
+const parseItems = (body: string): CitationItem[] | null => {
+  const items: CitationItem[] = [];
+  for (const part of body.split(';')) {
+    const match = CITATION_ITEM.exec(part.trim());
+    if (!match) return null;
+    items.push({ prefix: match[1].trim(), suppressAuthor: match[2] === '-', key: match[3], locator: (match[4] || '').trim() });
+  }
+  return items;
+};
+
+export const citations = {
+  parse(content: string): Citation[] {
+    const result: Citation[] = [];
+    for (const match of content.matchAll(CITATION)) {
+      // Markdown 連結 [文字](網址) 與註腳 [^標籤] 不是引用；@ 前須為空白，避免把電子郵件當成引用
+      if (content[match.index! + match[0].length] === '(' || match[1].startsWith('^')) continue;
+      const items = parseItems(match[1]);
+      if (items) result.push({ start: match.index!, end: match.index! + match[0].length, items });
+    }
+    return result;
+  },
+
+  /**
+   * 專案中依出現順序列出被引用的條目鍵（不重複）
+   */
+  citedKeys(project: Pick<Project, 'chapters'>): string[] {
+    const keys = new Set<string>();
+    [...project.chapters].sort((a, b) => a.order - b.order)
+      .forEach(chapter => this.parse(chapter.content).forEach(c => c.items.forEach(item => keys.add(item.key))));
+    return [...keys];
+  },
+
+  contextOf(project: Pick<Project, 'chapters' | 'bibliography' | 'citationStyle' | 'customCitationStyle'>): CitationContext {
+    const entries = new Map((project.bibliography || []).map(entry => [entry.id, entry]));
+    const context: CitationContext = {
+      style: project.citationStyle || 'APA',
+      custom: project.customCitationStyle,
+      entries,
+      yearSuffixes: new Map()
+    };
+    if (context.style !== 'MLA') {
+      const style = styleOf(context);
+      const groups = new Map<string, BibEntry[]>();
+      this.citedKeys(project).map(key => entries.get(key)).filter((e): e is BibEntry => !!e).forEach(entry => {
+        const group = `${shortAuthorOf(entry, style)}\u0000${yearOf(entry)}`;
+        groups.set(group, [...(groups.get(group) || []), entry]);
+      });
+      groups.forEach(group => {
+        if (group.length < 2) return;
+        [...group].sort((a, b) => (a.title || '').localeCompare(b.title || ''))
+          .forEach((entry, i) => context.yearSuffixes.set(entry.id, String.fromCharCode(97 + i)));
+      });
+    }
+    return context;
+  },
+
+  /**
+   * 產生一筆內文引用；找不到的鍵以 ?鍵 標示
+   */
+  formatCitation(citation: Citation, context: CitationContext): string {
+    const style = styleOf(context);
+    const parts = citation.items.map(item => {
+      const entry = context.entries.get(item.key);
+      if (!entry) return `?${item.key}`;
+      const fields = {
+        author: shortAuthorOf(entry, style),
+        year: `${yearOf(entry) || style.noDate}${context.yearSuffixes.get(entry.id) || ''}`,
+        locator: item.locator ? formatLocator(item.locator, style) : ''
+      };
+      const template = item.suppressAuthor ? style.inText.replace(/\{author\}[\s,]*/, '') : style.inText;
+      return [item.prefix, fill(template, fields)].filter(Boolean).join(' ');
+    });
+    return `(${parts.join('; ')})`;
+  },
+
+  /**
+   * 以格式化後的引用取代內文中的 [@鍵]
+   */
+  render(content: string, context: CitationContext): string {
+    let result = '';
+    let position = 0;
+    this.parse(content).forEach(citation => {
+      result += content.slice(position, citation.start) + this.formatCitation(citation, context);
+      position = citation.end;
+    });
+    return result + content.slice(position);
+  },
+
+  /**
+   * 匯出前套用引用：各章內文的 [@鍵] 換成格式化後的引用，批註錨點隨之平移
+   */
+  renderProject<T extends Pick<Project, 'chapters' | 'bibliography' | 'citationStyle' | 'customCitationStyle'>>(project: T): T {
+    if (!project.bibliography?.length) return project;
+    const context = this.contextOf(project);
+    return {
+      ...project,
+      chapters: project.chapters.map(chapter => {
+        const content = this.render(chapter.content, context);
+        if (content === chapter.content) return chapter;
+        return { ...chapter, content, comments: chapter.comments && chapterComments.remap(chapter.comments, chapter.content, content) };
+      })
+    };
+  },
+
+  /**
+   * 參考文獻列表：依作者、年份、標題排序，只列出 keys 中存在的條目
+   */
+  bibliography(context: CitationContext, keys: string[]): { heading: string; entries: string[] } {
+    const style = styleOf(context);
+    const entries = keys.map(key => context.entries.get(key)).filter((e): e is BibEntry => !!e)
+      .sort((a, b) => sortKey(a).localeCompare(sortKey(b)));
+    return {
+      heading: style.heading,
+      entries: entries.map(entry => fill(style.reference[kindOf(entry)], referenceFields(entry, context, style)))
+    };
+  },
+
+  /**
+   * 將參考文獻條目拆成一般與斜體的文字片段，並還原跳脫的字元
+   */
+  segments(text: string): { text: string; italic: boolean }[] {
+    const result: { text: string; italic: boolean }[] = [];
+    let current = '';
+    let italic = false;
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\\' && i + 1 < text.length) {
+        current += text[++i];
+      } else if (text[i] === '*') {
+        if (current) result.push({ text: current, italic });
+        current = '';
+        italic = !italic;
+      } else {
+        current += text[i];
+      }
+    }
+    if (current) result.push({ text: current, italic });
+    return result;
+  },
+
+  // 去除斜體標記，供不支援樣式的輸出使用
+  plain(text: string): string {
+    return this.segments(text).map(segment => segment.text).join('');
+  },
+
+  // 參考文獻條目的 HTML：文字一律跳脫，斜體以 <em> 輸出
+  html(text: string): string {
+    return this.segments(text).map(segment => segment.italic ? `<em>${escapeHtml(segment.text)}</em>` : escapeHtml(segment.text)).join('');
+  }
+};
@@ -0,0 +1,93 @@
+import { CrdtItem, CrdtOp } from './textCrdt';
+
+/**
+ * 協作房間內傳遞的訊息；房間為單一章節，傳輸層只負責轉送給同房間的其他站點
+ */
+export type CollabMessage =
+  | { type: 'hello'; from: string }
+  // fresh：送出者尚未與任何站點交換過資料，其狀態只是本機儲存的內容
+  | { type: 'state'; from: string; items: CrdtItem[]; fresh: boolean }
+  | { type: 'ops'; from: string; ops: CrdtOp[] }
+  | { type: 'presence'; from: string; name: string; color: string; cursor: { anchor: string | null; head: string | null } | null }
+  | { type: 'leave'; from: string };
+
+export type TransportStatus = 'connecting' | 'online' | 'offline';
+
+export interface CollaborationTransport {
+  send(message: CollabMessage): void;
+  close(): void;
+}
+
+export interface TransportHandlers {
+  onMessage: (message: CollabMessage) => void;
+  // 連線（或重新連線）成功後呼叫，協作工作階段藉此重新同步
+  onOpen: () => void;
+  onStatus?: (status: TransportStatus) => void;
+}
+
+export type TransportFactory = (room: string, handlers: TransportHandlers) => CollaborationTransport;
+
+/**
+ * 同一瀏覽器的分頁之間以 BroadcastChannel 轉送，不需任何伺服器
+ */
+export const broadcastChannelTransport: TransportFactory = (room, handlers) => {
+  const channel = new BroadcastChannel(`inspublish_collab:${room}`);
+  channel.onmessage = (e: MessageEvent<CollabMessage>) => handlers.onMessage(e.data);
+  handlers.onStatus?.('online');
+  // 讓工作階段先完成註冊再開始同步
+  queueMicrotask(handlers.onOpen);
+  return {
+    send: message => channel.postMessage(message),
+    close: () => channel.close()
+  };
+};
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+/**
+ * 連線至 WebSocket relay（見 scripts/collab-relay.mjs），斷線後以指數退避重連；
+ * 離線期間的本機編輯保留在 CRDT 中，重連時透過完整狀態交換補齊
+ */
+export const webSocketTransport = (url: string): TransportFactory => (room, handlers) => {
+  let socket: WebSocket | null = null;
+  let retryTimer: number | null = null;
+  let attempts = 0;
+  let closed = false;
+
+  const connect = () => {
+    handlers.onStatus?.('connecting');
+    socket = new WebSocket(`${url.replace(/\/$/, '')}/${encodeURIComponent(room)}`);
+    socket.onopen = () => {
+      attempts = 0;
+      handlers.onStatus?.('online');
+      handlers.onOpen();
+    };
+    socket.onmessage = (e: MessageEvent<string>) => {
+      try {
+        handlers.onMessage(JSON.parse(e.data));
+      } catch (err) {
+        console.warn('[Collab] 無法解析的協作訊息', err);
+      }
+    };
+    socket.onclose = () => {
+      socket = null;
+      if (closed) return;
+      handlers.onStatus?.('offline');
+      const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempts++);
+      retryTimer = window.setTimeout(connect, delay);
+    };
+  };
+
+  connect();
+  return {
+    send: message => {
+      if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    },
+    close: () => {
+      closed = true;
+      if (retryTimer) window.clearTimeout(retryTimer);
+      socket?.close();
+    }
+  };
+};
@@ -0,0 +1,192 @@
+// PBKDF2 迭代次數（OWASP 建議 SHA-256 至少 310,000 次）
+const PBKDF2_ITERATIONS = 310000;
+
+// 驗證密語用的已知明文，解密成功即代表密語正確
+const VERIFIER_TEXT = 'inspublish-vault-v1';
+
+// 加密檔案（雲端備份）開頭的識別碼，後接 12 bytes IV 與密文
+const BLOB_MAGIC = new TextEncoder().encode('INSPUBENC1');
+
+// 由主金鑰材料以 HKDF 衍生搜尋索引詞彙雜湊金鑰時使用的 info
+const TERM_KEY_INFO = new TextEncoder().encode('inspublish-search-v1');
+
+export interface SealedPayload {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+// 儲存於 settings 儲存區（本身不加密），記錄金鑰衍生參數與驗證密文
+export interface VaultConfig {
+  version: 1;
+  salt: Uint8Array;
+  iterations: number;
+  verifier: SealedPayload;
+  createdAt: number;
+}
+
+/**
+ * 本機加密已啟用但尚未輸入密語
+ */
+export class VaultLockedError extends Error {
+  constructor() {
+    super('本機資料已加密，請先解鎖');
+    this.name = 'VaultLockedError';
+  }
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('密語錯誤');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+let activeConfig: VaultConfig | null = null;
+let activeKey: CryptoKey | null = null;
+let activeTermKey: CryptoKey | null = null;
+
+// 詞彙雜湊結果快取，金鑰變更時清除
+const blindedTerms = new Map<string, string>();
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+interface DerivedKeys {
+  key: CryptoKey;
+  termKey: CryptoKey;
+}
+
+/**
+ * PBKDF2 衍生 256 位元主金鑰材料：直接作為 AES-GCM 金鑰（與 deriveKey 結果相同），
+ * 另以 HKDF 衍生搜尋索引用的 HMAC 金鑰
+ */
+const deriveKeys = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<DerivedKeys> => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations, hash: 'SHA-256' }, material, 256);
+  const key = await crypto.subtle.importKey('raw', bits, 'AES-GCM', false, ['encrypt', 'decrypt']);
+  const hkdf = await crypto.subtle.importKey('raw', bits, 'HKDF', false, ['deriveKey']);
+  const termKey = await crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(), info: TERM_KEY_INFO },
+    hkdf,
+    { name: 'HMAC', hash: 'SHA-256', length: 256 },
+    false,
+    ['sign']
+  );
+  return { key, termKey };
+};
+
+const setKeys = (keys: DerivedKeys | null) => {
+  activeKey = keys?.key || null;
+  activeTermKey = keys?.termKey || null;
+  blindedTerms.clear();
+};
+
+const encryptBytes = async (key: CryptoKey, bytes: Uint8Array): Promise<SealedPayload> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes);
+  return { iv, data };
+};
+
+const requireKey = (): CryptoKey => {
+  if (!activeKey) throw new VaultLockedError();
+  return activeKey;
+};
+
+export const cryptoService = {
+  isEnabled(): boolean {
+    return activeConfig !== null;
+  },
+
+  isUnlocked(): boolean {
+    return activeKey !== null;
+  },
+
+  /**
+   * 由 dbService 在開啟資料庫時載入（或於其他分頁變更後重新載入）。
+   * 設定被移除或更換時一併清除記憶體中的金鑰。
+   */
+  setConfig(config: VaultConfig | null) {
+    if (!config || config.createdAt !== activeConfig?.createdAt) setKeys(null);
+    activeConfig = config;
+  },
+
+  /**
+   * 以新密語建立金鑰庫並立即解鎖，回傳需寫入資料庫的設定
+   */
+  async createVault(passphrase: string): Promise<VaultConfig> {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const keys = await deriveKeys(passphrase, salt, PBKDF2_ITERATIONS);
+    const config: VaultConfig = {
+      version: 1,
+      salt,
+      iterations: PBKDF2_ITERATIONS,
+      verifier: await encryptBytes(keys.key, encoder.encode(VERIFIER_TEXT)),
+      createdAt: Date.now()
+    };
+    activeConfig = config;
+    setKeys(keys);
+    return config;
+  },
+
+  async unlock(passphrase: string): Promise<void> {
+    if (!activeConfig) return;
+    const keys = await deriveKeys(passphrase, activeConfig.salt, activeConfig.iterations);
+    try {
+      const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: activeConfig.verifier.iv }, keys.key, activeConfig.verifier.data);
+      if (decoder.decode(plain) !== VERIFIER_TEXT) throw new Error();
+    } catch {
+      throw new WrongPassphraseError();
+    }
+    setKeys(keys);
+  },
+
+  lock() {
+    setKeys(null);
+  },
+
+  /**
+   * 搜尋索引的詞彙鍵：加密啟用時以 HMAC 雜湊，避免索引洩漏內文；未啟用時原樣回傳
+   */
+  async blindTerms(terms: string[]): Promise<string[]> {
+    if (!activeConfig) return terms;
+    if (!activeTermKey) throw new VaultLockedError();
+    const termKey = activeTermKey;
+    return Promise.all(terms.map(async term => {
+      const cached = blindedTerms.get(term);
+      if (cached) return cached;
+      const mac = new Uint8Array(await crypto.subtle.sign('HMAC', termKey, encoder.encode(term)));
+      const blinded = Array.from(mac.subarray(0, 12), b => b.toString(16).padStart(2, '0')).join('');
+      blindedTerms.set(term, blinded);
+      return blinded;
+    }));
+  },
+
+  async seal(value: unknown): Promise<SealedPayload> {
+    return encryptBytes(requireKey(), encoder.encode(JSON.stringify(value)));
+  },
+
+  async open<T>(payload: SealedPayload): Promise<T> {
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: payload.iv }, requireKey(), payload.data);
+    return JSON.parse(decoder.decode(plain)) as T;
+  },
+
+  /**
+   * 加密整個檔案（雲端備份用），輸出格式：識別碼 + IV + 密文
+   */
+  async sealBlob(blob: Blob): Promise<Blob> {
+    const { iv, data } = await encryptBytes(requireKey(), new Uint8Array(await blob.arrayBuffer()));
+    return new Blob([BLOB_MAGIC, iv, data], { type: 'application/octet-stream' });
+  },
+
+  async isSealedBlob(blob: Blob): Promise<boolean> {
+    const head = new Uint8Array(await blob.slice(0, BLOB_MAGIC.length).arrayBuffer());
+    return head.length === BLOB_MAGIC.length && head.every((b, i) => b === BLOB_MAGIC[i]);
+  },
+
+  async openBlob(blob: Blob, type = 'application/octet-stream'): Promise<Blob> {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const iv = bytes.slice(BLOB_MAGIC.length, BLOB_MAGIC.length + 12);
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, requireKey(), bytes.slice(BLOB_MAGIC.length + 12));
+    return new Blob([plain], { type });
+  }
+};
@@ -0,0 +1,378 @@
+import { Project, StructureUnit, VersionSnapshot, PublishingPayload, CoverAsset } from '../types';
+import { DeltaOp, encodeHistory, decodeHistory } from './snapshotCodec';
+import { SealedPayload } from './cryptoService';
+import { sha256Hex, decodeDataUrl } from './contentHash';
+
+export const DB_NAME = 'InsPublishDB';
+export const DB_VERSION = 6;
+
+export const STORES = {
+  PROJECTS: 'projects',
+  CHAPTERS: 'chapters',
+  SNAPSHOTS: 'snapshots',
+  ASSETS: 'assets',
+  BLOBS: 'blobs',
+  SEARCH_TERMS: 'searchTerms',
+  SEARCH_DOCS: 'searchDocs',
+  SETTINGS: 'settings',
+  OUTBOX: 'outbox'
+} as const;
+
+// settings 儲存區中保存金鑰庫設定（VaultConfig）的鍵，本身不加密
+export const VAULT_KEY = 'vault';
+// 雲端登入工作階段（含更新權杖）：只屬於這台裝置，完整備份不匯出
+export const CLOUD_SESSION_KEY = 'cloudSession@v1';
+
+// 專案主記錄：不含章節內容與封面資產。deletedAt 存在時代表已移入回收桶
+export type ProjectRecord = Omit<Project, 'chapters' | 'publishingPayload'> & {
+  publishingPayload?: Omit<PublishingPayload, 'coverAssets' | 'coverImageRef'>;
+  deletedAt?: number;
+};
+
+// 本機加密啟用時，標題、內文、批註與修訂建議移入 sealed，原欄位留空。deletedAt 存在時代表已移入回收桶（快照保留）
+export type ChapterRecord = Omit<StructureUnit, 'history'> & { projectId: string; sealed?: SealedPayload; deletedAt?: number };
+
+// 快照記錄為關鍵影格（content 全文）或基於 baseId 的增量（delta），詳見 snapshotCodec。
+// 本機加密啟用時 title、content、delta、suggestions 移入 sealed
+export type SnapshotRecord = Omit<VersionSnapshot, 'content'> & {
+  projectId: string;
+  chapterId: string;
+  content?: string;
+  baseId?: string;
+  delta?: DeltaOp[];
+  sealed?: SealedPayload;
+};
+
+// 封面資產集合：每個專案一筆，保存封面中繼資料與其歷史，圖片本身以參照指向 blobs
+export interface AssetRecord {
+  id: string;
+  projectId: string;
+  coverAssets?: PublishingPayload['coverAssets'];
+  coverImageRef?: string;
+}
+
+// 以內容雜湊為鍵的二進位資產；refCount 為引用此資產的專案數，歸零後由垃圾回收刪除
+export interface BlobRecord {
+  hash: string;
+  blob: Blob;
+  type: string;
+  size: number;
+  refCount: number;
+  createdAt: number;
+}
+
+// 全文搜尋倒排索引：每個詞彙一筆，postings 為章節 id → 詞頻。
+// 本機加密啟用時 term 為 HMAC 雜湊，索引本身不含可讀內文
+export interface SearchTermRecord {
+  term: string;
+  postings: Record<string, number>;
+}
+
+// 每個已索引章節的詞頻表，更新時與新內容比對，只改寫有變動的詞彙
+export interface SearchDocRecord {
+  id: string;
+  projectId: string;
+  terms: Record<string, number>;
+  length: number;
+}
+
+/**
+ * 資產記錄引用的所有 blob（含封面歷史），不重複
+ */
+export const assetRefs = (asset: AssetRecord | null | undefined): string[] => {
+  if (!asset) return [];
+  const refs = new Set<string>();
+  const collect = (cover: CoverAsset) => {
+    if (cover.ref) refs.add(cover.ref);
+    (cover.history || []).forEach(collect);
+  };
+  Object.values(asset.coverAssets || {}).forEach(c => c && collect(c));
+  if (asset.coverImageRef) refs.add(asset.coverImageRef);
+  return [...refs];
+};
+
+// 待送出的雲端同步或備份操作。seq 由資料庫遞增配發，決定同一類操作的執行順序；
+// key 相同的待送操作只保留一筆。deadAt 存在時代表重試用盡或無法重試，移入失敗佇列等待手動重試
+export interface OutboxRecord {
+  seq?: number;
+  kind: string;
+  key: string;
+  payload: Record<string, string>;
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: number;
+  lastError?: string;
+  failedAt?: number;
+  deadAt?: number;
+}
+
+// 整個資料庫的原始記錄，供完整備份匯出與匯入使用
+export interface LibraryDump {
+  projects: ProjectRecord[];
+  chapters: ChapterRecord[];
+  snapshots: SnapshotRecord[];
+  assets: AssetRecord[];
+  blobs: BlobRecord[];
+  settings: Record<string, unknown>;
+}
+
+export const coverAssetId = (projectId: string) => `cover-${projectId}`;
+
+export const toChapterRecord = (projectId: string, chapter: StructureUnit): ChapterRecord => {
+  const { history, ...rest } = chapter;
+  return { ...rest, projectId };
+};
+
+export const toProjectRecord = (project: Project): ProjectRecord => {
+  const { chapters, publishingPayload, ...rest } = project;
+  if (!publishingPayload) return rest;
+  // coverImage 為 v3 之前的 base64 預覽欄位，遷移時一併移除
+  const { coverAssets, coverImageRef, coverImage, ...payload } = publishingPayload as PublishingPayload & { coverImage?: string };
+  return { ...rest, publishingPayload: payload };
+};
+
+export const toAssetRecord = (project: Project): AssetRecord | null => {
+  const payload = project.publishingPayload;
+  if (!payload?.coverAssets && !payload?.coverImageRef) return null;
+  return {
+    id: coverAssetId(project.id),
+    projectId: project.id,
+    coverAssets: payload.coverAssets,
+    coverImageRef: payload.coverImageRef
+  };
+};
+
+/**
+ * 將舊版（v1）單一專案物件拆分為各儲存區的記錄
+ */
+export const splitProject = (project: Project) => ({
+  project: toProjectRecord(project),
+  chapters: project.chapters.map(c => toChapterRecord(project.id, c)),
+  snapshots: project.chapters.flatMap(c => encodeHistory(project.id, c.id, c.history || [])),
+  asset: toAssetRecord(project)
+});
+
+/**
+ * 由各儲存區的記錄重組完整的 Project，回收桶中的章節不列入
+ */
+export const composeProject = (
+  record: ProjectRecord,
+  chapters: ChapterRecord[],
+  snapshots: SnapshotRecord[],
+  asset: AssetRecord | null
+): Project => {
+  const recordsByChapter: Record<string, SnapshotRecord[]> = {};
+  snapshots.forEach(s => {
+    (recordsByChapter[s.chapterId] ||= []).push(s);
+  });
+
+  const composed: Project = {
+    ...record,
+    chapters: chapters
+      .filter(c => !c.deletedAt)
+      .map(({ projectId, deletedAt, ...chapter }) => ({
+        ...chapter,
+        history: decodeHistory(recordsByChapter[chapter.id] || [])
+      }))
+      .sort((a, b) => a.order - b.order),
+    publishingPayload: record.publishingPayload as PublishingPayload | undefined
+  };
+
+  if (asset && composed.publishingPayload) {
+    composed.publishingPayload = {
+      ...composed.publishingPayload,
+      coverAssets: asset.coverAssets,
+      coverImageRef: asset.coverImageRef
+    };
+  }
+  return composed;
+};
+
+// v3 之前封面以 base64 data URL 內嵌於 url / coverImage 欄位
+type LegacyCover = Omit<CoverAsset, 'ref' | 'history'> & { ref?: string; url?: string; history?: LegacyCover[] };
+export type LegacyCovers = { coverAssets?: Record<string, LegacyCover>; coverImage?: string; coverImageRef?: string };
+
+/**
+ * 將內嵌 base64 的封面拆為 blob 記錄並改為參照（引用計數留給呼叫端計算）
+ */
+export const extractLegacyCovers = (projectId: string, legacy: LegacyCovers): { asset: AssetRecord | null; blobs: BlobRecord[] } => {
+  if (!legacy.coverAssets && !legacy.coverImage && !legacy.coverImageRef) return { asset: null, blobs: [] };
+  const blobs = new Map<string, BlobRecord>();
+
+  const toRef = (dataUrl: string): string => {
+    const { bytes, type } = decodeDataUrl(dataUrl);
+    const hash = sha256Hex(bytes);
+    if (!blobs.has(hash)) {
+      blobs.set(hash, { hash, blob: new Blob([bytes], { type }), type, size: bytes.length, refCount: 0, createdAt: Date.now() });
+    }
+    return hash;
+  };
+
+  const convert = (cover: LegacyCover): CoverAsset => {
+    const { url, history, ...rest } = cover;
+    return {
+      ...rest,
+      ref: url?.startsWith('data:') ? toRef(url) : (rest.ref || ''),
+      history: history?.map(convert)
+    };
+  };
+
+  const coverAssets = legacy.coverAssets
+    ? Object.fromEntries(Object.entries(legacy.coverAssets).map(([type, cover]) => [type, convert(cover)])) as PublishingPayload['coverAssets']
+    : undefined;
+  const asset: AssetRecord = {
+    id: coverAssetId(projectId),
+    projectId,
+    coverAssets,
+    coverImageRef: legacy.coverImage?.startsWith('data:') ? toRef(legacy.coverImage) : legacy.coverImageRef
+  };
+  return { asset, blobs: [...blobs.values()] };
+};
+
+// 仍以 url / coverImage 內嵌封面的 v3 之前記錄；已轉換為參照的記錄不含這兩個欄位
+const hasInlineCovers = (legacy: LegacyCovers): boolean => {
+  const inline = (cover: LegacyCover): boolean => cover.url !== undefined || !!cover.history?.some(inline);
+  return legacy.coverImage !== undefined || Object.values(legacy.coverAssets || {}).some(inline);
+};
+
+// 同一升級交易中的引用計數累計於記憶體，避免同鍵讀寫交錯造成遺漏
+const migratedBlobs = new WeakMap<IDBTransaction, Map<string, BlobRecord>>();
+
+const migrateLegacyCovers = (tx: IDBTransaction, projectId: string, legacy: LegacyCovers): AssetRecord | null => {
+  const { asset, blobs } = extractLegacyCovers(projectId, legacy);
+  let known = migratedBlobs.get(tx);
+  if (!known) migratedBlobs.set(tx, known = new Map());
+  blobs.forEach(b => { if (!known!.has(b.hash)) known!.set(b.hash, b); });
+
+  const store = tx.objectStore(STORES.BLOBS);
+  assetRefs(asset).forEach(hash => {
+    const record = known!.get(hash);
+    if (!record) return;
+    record.refCount++;
+    store.put(record);
+  });
+  return asset;
+};
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (db: IDBDatabase, tx: IDBTransaction) => void;
+}
+
+/**
+ * 依版本排序的結構遷移。新增遷移時只能附加在尾端並遞增 DB_VERSION，
+ * 已發佈的遷移不得再修改。
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: '建立專案與設定儲存區',
+    migrate: (db) => {
+      if (!db.objectStoreNames.contains(STORES.PROJECTS)) {
+        db.createObjectStore(STORES.PROJECTS, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.SETTINGS)) {
+        db.createObjectStore(STORES.SETTINGS);
+      }
+    }
+  },
+  {
+    version: 2,
+    description: '拆分章節、快照與封面資產為獨立儲存區',
+    migrate: (db, tx) => {
+      const projects = tx.objectStore(STORES.PROJECTS);
+      if (!projects.indexNames.contains('updatedAt')) {
+        projects.createIndex('updatedAt', 'updatedAt');
+      }
+
+      const chapters = db.createObjectStore(STORES.CHAPTERS, { keyPath: 'id' });
+      chapters.createIndex('projectId', 'projectId');
+      chapters.createIndex('lastEdited', 'lastEdited');
+
+      const snapshots = db.createObjectStore(STORES.SNAPSHOTS, { keyPath: 'id' });
+      snapshots.createIndex('projectId', 'projectId');
+      snapshots.createIndex('chapterId', 'chapterId');
+      snapshots.createIndex('timestamp', 'timestamp');
+
+      const assets = db.createObjectStore(STORES.ASSETS, { keyPath: 'id' });
+      assets.createIndex('projectId', 'projectId');
+
+      projects.openCursor().onsuccess = (e) => {
+        const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) return;
+        const legacy = cursor.value as Project;
+        if (Array.isArray(legacy.chapters)) {
+          const split = splitProject(legacy);
+          split.chapters.forEach(c => chapters.put(c));
+          split.snapshots.forEach(s => snapshots.put(s));
+          // 由 v1 直接升級時 v3 的 blobs 儲存區已建立，封面在此一併轉換
+          const asset = db.objectStoreNames.contains(STORES.BLOBS)
+            ? migrateLegacyCovers(tx, legacy.id, (legacy.publishingPayload || {}) as LegacyCovers)
+            : split.asset;
+          if (asset) assets.put(asset);
+          cursor.update(split.project);
+        }
+        cursor.continue();
+      };
+    }
+  },
+  {
+    version: 3,
+    description: '封面圖片改存為以內容雜湊為鍵的二進位資產',
+    migrate: (db, tx) => {
+      const blobs = db.createObjectStore(STORES.BLOBS, { keyPath: 'hash' });
+      blobs.createIndex('refCount', 'refCount');
+
+      tx.objectStore(STORES.ASSETS).openCursor().onsuccess = (e) => {
+        const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) return;
+        const legacy = cursor.value as AssetRecord & LegacyCovers;
+        // 由 v1 直接升級時 v2 已在同一交易中轉換並計入引用，不再重複計算
+        if (!hasInlineCovers(legacy)) {
+          cursor.continue();
+          return;
+        }
+        const asset = migrateLegacyCovers(tx, legacy.projectId, legacy);
+        if (asset) cursor.update(asset);
+        else cursor.delete();
+        cursor.continue();
+      };
+    }
+  },
+  {
+    version: 4,
+    description: '建立回收桶索引',
+    migrate: (_db, tx) => {
+      tx.objectStore(STORES.PROJECTS).createIndex('deletedAt', 'deletedAt');
+      tx.objectStore(STORES.CHAPTERS).createIndex('deletedAt', 'deletedAt');
+    }
+  },
+  {
+    version: 5,
+    description: '建立全文搜尋索引儲存區（內容於開啟後重建）',
+    migrate: (db) => {
+      db.createObjectStore(STORES.SEARCH_TERMS, { keyPath: 'term' });
+      const docs = db.createObjectStore(STORES.SEARCH_DOCS, { keyPath: 'id' });
+      docs.createIndex('projectId', 'projectId');
+    }
+  },
+  {
+    version: 6,
+    description: '建立離線同步佇列儲存區',
+    migrate: (db) => {
+      const outbox = db.createObjectStore(STORES.OUTBOX, { keyPath: 'seq', autoIncrement: true });
+      outbox.createIndex('key', 'key');
+    }
+  }
+];
+
+export const runMigrations = (db: IDBDatabase, tx: IDBTransaction, oldVersion: number, newVersion: number) => {
+  MIGRATIONS
+    .filter(m => m.version > oldVersion && m.version <= newVersion)
+    .sort((a, b) => a.version - b.version)
+    .forEach(m => {
+      console.log(`[DB] 執行結構遷移 v${m.version}：${m.description}`);
+      m.migrate(db, tx);
+    });
+};
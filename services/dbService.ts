@@ -1,37 +1,548 @@
+import { Project, VersionSnapshot, SecuritySettings, SnapshotType } from '../types';
+import {
+  DB_NAME, DB_VERSION, STORES, VAULT_KEY, CLOUD_SESSION_KEY, runMigrations, composeProject, coverAssetId,
+  toProjectRecord, toChapterRecord, toAssetRecord,
+  ProjectRecord, ChapterRecord, SnapshotRecord, AssetRecord, BlobRecord, OutboxRecord, LibraryDump, assetRefs
+} from './dbSchema';
+import { encodeHistory, encodeSnapshot, decodeHistory } from './snapshotCodec';
+import { cryptoService, VaultConfig, SealedPayload } from './cryptoService';
+import { searchIndex, SearchDocInput } from './searchIndex';
 
-import { Project, VersionSnapshot } from '../types';
+// 動作停止制下的輪詢上限（秒），確保閒置判定的誤差不超過此值
+const IDLE_POLL_SECONDS = 5;
 
-const DB_NAME = 'InsPublishDB';
-const DB_VERSION = 1;
-const STORE_NAME = 'projects';
-const SETTINGS_STORE = 'settings';
+const PROJECT_STORES = [STORES.PROJECTS, STORES.CHAPTERS, STORES.SNAPSHOTS, STORES.ASSETS, STORES.BLOBS];
+
+export type RestoreMode = 'merge' | 'replace' | 'overwrite';
+
+export interface AutoSnapshotChange {
+  chapterId: string;
+  created: VersionSnapshot | null;
+  expiredIds: string[];
+}
+
+type AutoSnapshotListener = (projectId: string, changes: AutoSnapshotChange[]) => void;
+
+// 跨分頁廣播訊息（inspublish_sync 頻道）
+type SyncMessage =
+  | { type: 'project-saved'; id: string; revision: number }
+  | { type: 'project-deleted'; id: string }
+  | { type: 'auto-snapshot'; projectId: string; changes: AutoSnapshotChange[] }
+  | { type: 'vault-changed' };
+
+export type SyncEvent =
+  | { type: 'saved'; id: string; revision: number }
+  | { type: 'deleted'; id: string }
+  | { type: 'vault-changed' };
+
+export type VaultStatus = 'none' | 'locked' | 'unlocked';
+
+// 回收桶項目；章節僅列出所屬專案仍在書庫中的項目
+export type TrashItem =
+  | { kind: 'project'; id: string; name: string; color?: string; icon?: string; deletedAt: number }
+  | { kind: 'chapter'; id: string; projectId: string; projectName: string; title: string; wordCount: number; deletedAt: number };
+
+type SyncListener = (event: SyncEvent) => void;
+
+/**
+ * 專案已被其他分頁寫入較新的版本，需先合併再儲存
+ */
+export class StaleRevisionError extends Error {
+  constructor(public projectId: string) {
+    super(`專案 ${projectId} 已在其他分頁更新`);
+    this.name = 'StaleRevisionError';
+  }
+}
+
+// 已寫入資料庫的物件參照（章節、快照陣列、封面集合）。
+// React 狀態為不可變更新，參照未變即代表內容未變，可略過寫入。
+const persistedRefs = new WeakSet<object>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// 本分頁最後一次讀取或寫入時各專案的 revision
+const knownRevisions = new Map<string, number>();
+
+let syncChannel: BroadcastChannel | null = null;
+
+const getSyncChannel = (): BroadcastChannel => {
+  if (!syncChannel) {
+    syncChannel = new BroadcastChannel('inspublish_sync');
+    syncChannel.onmessage = (e: MessageEvent<SyncMessage>) => {
+      const msg = e.data;
+      if (msg.type === 'project-saved') {
+        if (msg.revision <= (knownRevisions.get(msg.id) ?? -1)) return;
+        dbService.syncListeners.forEach(l => l({ type: 'saved', id: msg.id, revision: msg.revision }));
+      } else if (msg.type === 'project-deleted') {
+        knownRevisions.delete(msg.id);
+        dbService.syncListeners.forEach(l => l({ type: 'deleted', id: msg.id }));
+      } else if (msg.type === 'auto-snapshot') {
+        dbService.snapshotListeners.forEach(l => l(msg.projectId, msg.changes));
+      } else if (msg.type === 'vault-changed') {
+        // 其他分頁啟用或停用加密：重新載入設定，金鑰不同時本分頁會回到鎖定狀態
+        dbService.reloadVault().then(() => {
+          dbService.syncListeners.forEach(l => l({ type: 'vault-changed' }));
+        });
+      }
+    };
+  }
+  return syncChannel;
+};
+
+const postSync = (msg: SyncMessage) => getSyncChannel().postMessage(msg);
+
+// 本次工作階段已壓縮過快照鏈的專案
+const compactedProjects = new Set<string>();
+
+const requestResult = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const txDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// 加密啟用時，章節標題、內文、批註與修訂建議封存於 sealed；索引與排序欄位維持明文
+const sealChapter = async (record: ChapterRecord): Promise<ChapterRecord> => {
+  if (!cryptoService.isEnabled()) return record;
+  const { title, content, comments, suggestions, ...rest } = record;
+  return { ...rest, title: '', content: '', sealed: await cryptoService.seal({ title, content, comments, suggestions }) };
+};
+
+const openChapter = async (record: ChapterRecord): Promise<ChapterRecord> => {
+  if (!record.sealed) return record;
+  const { sealed, ...rest } = record;
+  return { ...rest, ...(await cryptoService.open<Pick<ChapterRecord, 'title' | 'content' | 'comments' | 'suggestions'>>(sealed)) };
+};
+
+const sealSnapshot = async (record: SnapshotRecord): Promise<SnapshotRecord> => {
+  if (!cryptoService.isEnabled()) return record;
+  const { title, content, delta, suggestions, ...rest } = record;
+  return { ...rest, title: '', sealed: await cryptoService.seal({ title, content, delta, suggestions }) };
+};
+
+const openSnapshot = async (record: SnapshotRecord): Promise<SnapshotRecord> => {
+  if (!record.sealed) return record;
+  const { sealed, ...rest } = record;
+  return { ...rest, ...(await cryptoService.open<Pick<SnapshotRecord, 'title' | 'content' | 'delta' | 'suggestions'>>(sealed)) };
+};
+
+type SealedSetting = { __sealed: SealedPayload };
+
+const sealSetting = async (value: unknown): Promise<unknown> =>
+  cryptoService.isEnabled() ? { __sealed: await cryptoService.seal(value) } : value;
+
+const openSetting = async (value: unknown): Promise<unknown> =>
+  value && typeof value === 'object' && '__sealed' in value
+    ? cryptoService.open((value as SealedSetting).__sealed)
+    : value;
+
+// 快照寫入期間資料持續被其他寫入變更時的重試上限
+const SNAPSHOT_COMMIT_ATTEMPTS = 3;
+
+const sameRecords = (a: unknown[], b: unknown[]) => a.length === b.length && JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * 在單一讀寫交易中重新讀取專案的快照（與章節），確認自先前讀取後未被其他分頁或儲存變更才套用刪除與寫入。
+ * 快照須在交易外先行加密，因此改以比對原始記錄偵測中間的寫入；已變更時中止交易並回傳 false，由呼叫端重新計算。
+ */
+const commitSnapshots = async (
+  db: IDBDatabase,
+  projectId: string,
+  observed: { chapters?: ChapterRecord[]; snapshots: SnapshotRecord[] },
+  deletes: string[],
+  puts: SnapshotRecord[]
+): Promise<boolean> => {
+  const tx = db.transaction([STORES.CHAPTERS, STORES.SNAPSHOTS], 'readwrite');
+  const snapshotStore = tx.objectStore(STORES.SNAPSHOTS);
+  let isStale = false;
+
+  // 同一交易的請求依序完成：快照的結果回來時章節的結果也已就緒
+  const chaptersReq = observed.chapters ? tx.objectStore(STORES.CHAPTERS).index('projectId').getAll(projectId) : null;
+  const snapshotsReq = snapshotStore.index('projectId').getAll(projectId);
+  snapshotsReq.onsuccess = () => {
+    const unchanged = sameRecords(snapshotsReq.result, observed.snapshots)
+      && (!chaptersReq || sameRecords(chaptersReq.result, observed.chapters!));
+    if (!unchanged) {
+      isStale = true;
+      tx.abort();
+      return;
+    }
+    deletes.forEach(id => snapshotStore.delete(id));
+    puts.forEach(r => snapshotStore.put(r));
+  };
+
+  try {
+    await txDone(tx);
+    return true;
+  } catch (e) {
+    if (isStale) return false;
+    throw e;
+  }
+};
+
+/**
+ * 依資產記錄前後引用的差異調整 blob 引用計數
+ */
+const adjustRefCounts = (blobStore: IDBObjectStore, before: string[], after: string[]) => {
+  const prev = new Set(before);
+  const next = new Set(after);
+  const deltas: [string, number][] = [
+    ...after.filter(ref => !prev.has(ref)).map(ref => [ref, 1] as [string, number]),
+    ...before.filter(ref => !next.has(ref)).map(ref => [ref, -1] as [string, number])
+  ];
+  deltas.forEach(([hash, delta]) => {
+    blobStore.get(hash).onsuccess = (e) => {
+      const record = (e.target as IDBRequest<BlobRecord | undefined>).result;
+      if (record) blobStore.put({ ...record, refCount: Math.max(0, record.refCount + delta) });
+    };
+  });
+};
+
+/**
+ * 依所有資產記錄重新計算引用計數（整批匯入後使用）
+ */
+const recountRefs = async (tx: IDBTransaction): Promise<void> => {
+  const blobStore = tx.objectStore(STORES.BLOBS);
+  const [assets, blobs] = await Promise.all([
+    requestResult<AssetRecord[]>(tx.objectStore(STORES.ASSETS).getAll()),
+    requestResult<BlobRecord[]>(blobStore.getAll())
+  ]);
+  const counts = new Map<string, number>();
+  assets.forEach(a => assetRefs(a).forEach(ref => counts.set(ref, (counts.get(ref) || 0) + 1)));
+  blobs.forEach(b => {
+    const refCount = counts.get(b.hash) || 0;
+    if (refCount !== b.refCount) blobStore.put({ ...b, refCount });
+  });
+};
+
+/**
+ * 於交易中永久刪除專案及其章節、快照與封面資產（並釋放 blob 引用）
+ */
+const purgeProjectRecords = (tx: IDBTransaction, id: string) => {
+  tx.objectStore(STORES.PROJECTS).delete(id);
+  tx.objectStore(STORES.ASSETS).get(coverAssetId(id)).onsuccess = (e) => {
+    const stored = (e.target as IDBRequest<AssetRecord | undefined>).result;
+    adjustRefCounts(tx.objectStore(STORES.BLOBS), assetRefs(stored), []);
+  };
+  [STORES.CHAPTERS, STORES.SNAPSHOTS, STORES.ASSETS].forEach(name => {
+    const store = tx.objectStore(name);
+    store.index('projectId').getAllKeys(id).onsuccess = (e) => {
+      (e.target as IDBRequest<IDBValidKey[]>).result.forEach(key => store.delete(key));
+    };
+  });
+};
+
+const purgeChapterRecords = (tx: IDBTransaction, id: string) => {
+  const snapshotStore = tx.objectStore(STORES.SNAPSHOTS);
+  tx.objectStore(STORES.CHAPTERS).delete(id);
+  snapshotStore.index('chapterId').getAllKeys(id).onsuccess = (e) => {
+    (e.target as IDBRequest<IDBValidKey[]>).result.forEach(key => snapshotStore.delete(key));
+  };
+};
+
+const toSearchDoc = (projectId: string, chapter: { id: string; title: string; content: string }): SearchDocInput => ({
+  id: chapter.id,
+  projectId,
+  title: chapter.title,
+  content: chapter.content
+});
+
+/**
+ * 讀取並重組專案（略過回收桶中的專案），不更新 revision 追蹤
+ */
+const readProjects = async (db: IDBDatabase): Promise<{ record: ProjectRecord; project: Project }[]> => {
+  const tx = db.transaction(PROJECT_STORES, 'readonly');
+  const [records, chapters, snapshots, assets] = await Promise.all([
+    requestResult<ProjectRecord[]>(tx.objectStore(STORES.PROJECTS).getAll()),
+    requestResult<ChapterRecord[]>(tx.objectStore(STORES.CHAPTERS).getAll()),
+    requestResult<SnapshotRecord[]>(tx.objectStore(STORES.SNAPSHOTS).getAll()),
+    requestResult<AssetRecord[]>(tx.objectStore(STORES.ASSETS).getAll())
+  ]);
+  const openedChapters = await Promise.all(chapters.map(openChapter));
+  const openedSnapshots = await Promise.all(snapshots.map(openSnapshot));
+  return records.filter(record => !record.deletedAt).map(record => ({
+    record,
+    project: composeProject(
+      record,
+      openedChapters.filter(c => c.projectId === record.id),
+      openedSnapshots.filter(s => s.projectId === record.id),
+      assets.find(a => a.projectId === record.id) || null
+    )
+  }));
+};
+
+const readProject = async (db: IDBDatabase, id: string): Promise<{ project: Project; revision: number } | null> => {
+  const tx = db.transaction(PROJECT_STORES, 'readonly');
+  const [record, chapters, snapshots, asset] = await Promise.all([
+    requestResult<ProjectRecord | undefined>(tx.objectStore(STORES.PROJECTS).get(id)),
+    requestResult<ChapterRecord[]>(tx.objectStore(STORES.CHAPTERS).index('projectId').getAll(id)),
+    requestResult<SnapshotRecord[]>(tx.objectStore(STORES.SNAPSHOTS).index('projectId').getAll(id)),
+    requestResult<AssetRecord | undefined>(tx.objectStore(STORES.ASSETS).get(coverAssetId(id)))
+  ]);
+  if (!record || record.deletedAt) return null;
+  const project = composeProject(
+    record,
+    await Promise.all(chapters.map(openChapter)),
+    await Promise.all(snapshots.map(openSnapshot)),
+    asset || null
+  );
+  return { project, revision: record.revision ?? 0 };
+};
+
+const markPersisted = (project: Project) => {
+  project.chapters.forEach(c => {
+    persistedRefs.add(c);
+    if (c.history) persistedRefs.add(c.history);
+  });
+  if (project.publishingPayload?.coverAssets) persistedRefs.add(project.publishingPayload.coverAssets);
+};
 
 export const dbService = {
   async initDB(): Promise<IDBDatabase> {
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
-      request.onupgradeneeded = () => {
-        const db = request.result;
-        if (!db.objectStoreNames.contains(STORE_NAME)) {
-          db.createObjectStore(STORE_NAME, { keyPath: 'id' });
-        }
-        if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
-          db.createObjectStore(SETTINGS_STORE);
-        }
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (e) => {
+          runMigrations(request.result, request.transaction!, e.oldVersion, DB_VERSION);
+        };
+        request.onsuccess = () => {
+          const db = request.result;
+          // 其他分頁升級結構時釋放連線，下次呼叫重新開啟
+          db.onversionchange = () => {
+            db.close();
+            dbPromise = null;
+          };
+          // 先載入金鑰庫設定，確保加密啟用時不會有明文寫入
+          const vaultReq = db.transaction(STORES.SETTINGS, 'readonly').objectStore(STORES.SETTINGS).get(VAULT_KEY);
+          vaultReq.onsuccess = () => {
+            cryptoService.setConfig((vaultReq.result as VaultConfig | undefined) || null);
+            resolve(db);
+          };
+          vaultReq.onerror = () => reject(vaultReq.error);
+        };
+        request.onerror = () => {
+          dbPromise = null;
+          reject(request.error);
+        };
+        request.onblocked = () => console.warn('[DB] 結構升級等待其他分頁關閉連線...');
+      });
+    }
+    return dbPromise;
+  },
+
+  /**
+   * 增量儲存專案：專案主記錄每次寫入（體積小），
+   * 章節、快照與封面僅在物件參照改變時寫入，已移除的章節移入回收桶（快照保留以便還原），
+   * 已移除的快照則直接刪除。
+   * 若資料庫中的 revision 已被其他分頁推進，整筆交易中止並拋出 StaleRevisionError。
+   * 本機加密啟用時，章節與快照於開啟交易前先行加密（WebCrypto 為非同步，無法在交易中等待）。
+   * 背景寫入（如雲端同步）帶入 expectedRevision：以其判斷是否過期且不更新本分頁的 revision 追蹤，
+   * 本分頁的下一次儲存因此會得到 StaleRevisionError 並走合併流程；寫入後同時通知本分頁的同步監聽者。
+   */
+  async saveProject(project: Project, expectedRevision?: number): Promise<void> {
+    const db = await this.initDB();
+    const changedChapters = project.chapters.filter(c => !persistedRefs.has(c));
+    const chapterRecords = await Promise.all(changedChapters.map(c => sealChapter(toChapterRecord(project.id, c))));
+    const historyRecords = await Promise.all(project.chapters
+      .filter(c => c.history && !persistedRefs.has(c.history))
+      .map(async c => ({
+        chapterId: c.id,
+        records: await Promise.all(encodeHistory(project.id, c.id, c.history!).map(sealSnapshot))
+      })));
+
+    const tx = db.transaction(PROJECT_STORES, 'readwrite');
+    const projectStore = tx.objectStore(STORES.PROJECTS);
+    const chapterStore = tx.objectStore(STORES.CHAPTERS);
+    const snapshotStore = tx.objectStore(STORES.SNAPSHOTS);
+    let revision = 0;
+    let isStale = false;
+
+    projectStore.get(project.id).onsuccess = (e) => {
+      const stored = (e.target as IDBRequest<ProjectRecord | undefined>).result;
+      const storedRevision = stored?.revision ?? 0;
+      const expected = expectedRevision ?? knownRevisions.get(project.id);
+      if (expected !== undefined && storedRevision !== expected) {
+        isStale = true;
+        tx.abort();
+        return;
+      }
+      revision = storedRevision + 1;
+      projectStore.put({ ...toProjectRecord(project), revision });
+    };
+
+    const coverAssets = project.publishingPayload?.coverAssets;
+    if (!coverAssets || !persistedRefs.has(coverAssets)) {
+      const asset = toAssetRecord(project);
+      const assetStore = tx.objectStore(STORES.ASSETS);
+      assetStore.get(coverAssetId(project.id)).onsuccess = (e) => {
+        const stored = (e.target as IDBRequest<AssetRecord | undefined>).result;
+        adjustRefCounts(tx.objectStore(STORES.BLOBS), assetRefs(stored), assetRefs(asset));
+        if (asset) assetStore.put(asset);
+        else if (stored) assetStore.delete(stored.id);
+      };
+    }
+
+    const liveIds = new Set(project.chapters.map(c => c.id));
+    const deletedAt = Date.now();
+    chapterStore.index('projectId').getAll(project.id).onsuccess = (e) => {
+      const stored = (e.target as IDBRequest<ChapterRecord[]>).result;
+      stored
+        .filter(c => !liveIds.has(c.id) && !c.deletedAt)
+        .forEach(c => chapterStore.put({ ...c, deletedAt }));
+    };
+
+    chapterRecords.forEach(record => chapterStore.put(record));
+
+    historyRecords.forEach(({ chapterId, records }) => {
+      const liveSnapshotIds = new Set(records.map(r => r.id));
+      snapshotStore.index('chapterId').getAllKeys(chapterId).onsuccess = (e) => {
+        const storedKeys = new Set((e.target as IDBRequest<IDBValidKey[]>).result);
+        const removed = [...storedKeys].filter(key => !liveSnapshotIds.has(key as string));
+        removed.forEach(key => snapshotStore.delete(key));
+        // 有版本被移除時整條鏈重新寫入，避免增量失去基準
+        records.forEach(record => {
+          if (removed.length > 0 || !storedKeys.has(record.id)) snapshotStore.put(record);
+        });
       };
-      request.onsuccess = () => resolve(request.result);
-      request.onerror = () => reject(request.error);
     });
+
+    try {
+      await txDone(tx);
+    } catch (e) {
+      if (isStale) throw new StaleRevisionError(project.id);
+      throw e;
+    }
+    markPersisted(project);
+    postSync({ type: 'project-saved', id: project.id, revision });
+    if (expectedRevision === undefined) knownRevisions.set(project.id, revision);
+    else this.syncListeners.forEach(l => l({ type: 'saved', id: project.id, revision }));
+    searchIndex.update(db, changedChapters.map(c => toSearchDoc(project.id, c)));
+  },
+
+  /**
+   * 將專案移入回收桶：章節、快照與封面原封不動保留，直到還原或超過保留期限後清除
+   */
+  async deleteProject(id: string): Promise<void> {
+    const db = await this.initDB();
+    const tx = db.transaction(STORES.PROJECTS, 'readwrite');
+    const projectStore = tx.objectStore(STORES.PROJECTS);
+    const stored = await requestResult<ProjectRecord | undefined>(projectStore.get(id));
+    if (stored && !stored.deletedAt) {
+      projectStore.put({ ...stored, deletedAt: Date.now(), revision: (stored.revision ?? 0) + 1 });
+    }
+    await txDone(tx);
+    knownRevisions.delete(id);
+    postSync({ type: 'project-deleted', id });
   },
 
-  async saveProject(project: Project): Promise<void> {
+  /**
+   * 列出回收桶內容，依刪除時間由新到舊排序
+   */
+  async getTrash(): Promise<TrashItem[]> {
     const db = await this.initDB();
-    const tx = db.transaction(STORE_NAME, 'readwrite');
-    tx.objectStore(STORE_NAME).put(project);
-    
-    // Ensure project-specific region is also updated if needed
-    // The userCountryCode is often handled globally, but we save it here for persistence context
-    this.scheduleAutoSnapshot(project.id);
+    const tx = db.transaction([STORES.PROJECTS, STORES.CHAPTERS], 'readonly');
+    const [projects, chapters] = await Promise.all([
+      requestResult<ProjectRecord[]>(tx.objectStore(STORES.PROJECTS).getAll()),
+      requestResult<ChapterRecord[]>(tx.objectStore(STORES.CHAPTERS).index('deletedAt').getAll())
+    ]);
+    const liveProjects = new Map(projects.filter(p => !p.deletedAt).map(p => [p.id, p]));
+    const openedChapters = await Promise.all(chapters.filter(c => liveProjects.has(c.projectId)).map(openChapter));
+
+    const items: TrashItem[] = [
+      ...projects.filter(p => p.deletedAt).map(p => ({
+        kind: 'project' as const, id: p.id, name: p.name, color: p.color, icon: p.icon, deletedAt: p.deletedAt!
+      })),
+      ...openedChapters.map(c => ({
+        kind: 'chapter' as const,
+        id: c.id,
+        projectId: c.projectId,
+        projectName: liveProjects.get(c.projectId)!.name,
+        title: c.title,
+        wordCount: c.wordCount,
+        deletedAt: c.deletedAt!
+      }))
+    ];
+    return items.sort((a, b) => b.deletedAt - a.deletedAt);
+  },
+
+  /**
+   * 從回收桶還原專案，回傳重組後的專案
+   */
+  async restoreProject(id: string): Promise<Project | null> {
+    const db = await this.initDB();
+    const tx = db.transaction(STORES.PROJECTS, 'readwrite');
+    const projectStore = tx.objectStore(STORES.PROJECTS);
+    const stored = await requestResult<ProjectRecord | undefined>(projectStore.get(id));
+    if (!stored) return null;
+    const { deletedAt, ...record } = stored;
+    const revision = (stored.revision ?? 0) + 1;
+    projectStore.put({ ...record, revision });
+    await txDone(tx);
+    postSync({ type: 'project-saved', id, revision });
+    return this.getProject(id);
+  },
+
+  /**
+   * 從回收桶還原章節：依原本的順序插回，其餘章節重新編號；快照歷史隨章節一併恢復。
+   * 回傳更新後的所屬專案。
+   */
+  async restoreChapter(id: string): Promise<Project | null> {
+    const db = await this.initDB();
+    const tx = db.transaction([STORES.PROJECTS, STORES.CHAPTERS], 'readwrite');
+    const projectStore = tx.objectStore(STORES.PROJECTS);
+    const chapterStore = tx.objectStore(STORES.CHAPTERS);
+    const chapter = await requestResult<ChapterRecord | undefined>(chapterStore.get(id));
+    if (!chapter) return null;
+    const [project, siblings] = await Promise.all([
+      requestResult<ProjectRecord | undefined>(projectStore.get(chapter.projectId)),
+      requestResult<ChapterRecord[]>(chapterStore.index('projectId').getAll(chapter.projectId))
+    ]);
+    if (!project || project.deletedAt) return null;
+
+    const { deletedAt, ...restored } = chapter;
+    const ordered = siblings.filter(c => !c.deletedAt && c.id !== id).sort((a, b) => a.order - b.order);
+    ordered.splice(Math.min(Math.max(chapter.order - 1, 0), ordered.length), 0, restored);
+    ordered.forEach((c, i) => {
+      if (c === restored || c.order !== i + 1) chapterStore.put({ ...c, order: i + 1 });
+    });
+
+    const revision = (project.revision ?? 0) + 1;
+    projectStore.put({ ...project, revision, updatedAt: Date.now() });
+    await txDone(tx);
+    postSync({ type: 'project-saved', id: project.id, revision });
+    return this.getProject(project.id);
+  },
+
+  /**
+   * 永久刪除在 before 之前移入回收桶的專案與章節（預設為全部），回傳刪除的項目數
+   */
+  async purgeTrash(before = Infinity): Promise<number> {
+    const db = await this.initDB();
+    const tx = db.transaction(PROJECT_STORES, 'readwrite');
+    const range = IDBKeyRange.upperBound(before, true);
+    const [projects, chapters] = await Promise.all([
+      requestResult<ProjectRecord[]>(tx.objectStore(STORES.PROJECTS).index('deletedAt').getAll(range)),
+      requestResult<ChapterRecord[]>(tx.objectStore(STORES.CHAPTERS).index('deletedAt').getAll(range))
+    ]);
+    const purgedProjects = new Set(projects.map(p => p.id));
+    const purgedChapters = chapters.filter(c => !purgedProjects.has(c.projectId));
+    const projectChapterIds = await Promise.all([...purgedProjects].map(id =>
+      requestResult<IDBValidKey[]>(tx.objectStore(STORES.CHAPTERS).index('projectId').getAllKeys(id))
+    ));
+    purgedProjects.forEach(id => purgeProjectRecords(tx, id));
+    purgedChapters.forEach(c => purgeChapterRecords(tx, c.id));
+    await txDone(tx);
+    searchIndex.update(db, [], [...purgedChapters.map(c => c.id), ...projectChapterIds.flat().map(String)]);
+
+    const count = purgedProjects.size + purgedChapters.length;
+    if (count > 0) console.log(`[Trash] 永久刪除 ${purgedProjects.size} 個專案、${purgedChapters.length} 個章節`);
+    return count;
   },
 
   /**
@@ -39,53 +550,446 @@ export const dbService = {
    */
   async saveAppSetting(key: string, value: any): Promise<void> {
     const db = await this.initDB();
-    const tx = db.transaction(SETTINGS_STORE, 'readwrite');
-    tx.objectStore(SETTINGS_STORE).put(value, key);
+    const stored = await sealSetting(value);
+    const tx = db.transaction(STORES.SETTINGS, 'readwrite');
+    tx.objectStore(STORES.SETTINGS).put(stored, key);
   },
 
   async getAppSetting(key: string): Promise<any> {
     const db = await this.initDB();
-    return new Promise((resolve) => {
-      const tx = db.transaction(SETTINGS_STORE, 'readonly');
-      const req = tx.objectStore(SETTINGS_STORE).get(key);
-      req.onsuccess = () => resolve(req.result);
-    });
+    const tx = db.transaction(STORES.SETTINGS, 'readonly');
+    return openSetting(await requestResult(tx.objectStore(STORES.SETTINGS).get(key)));
+  },
+
+  /**
+   * 離線同步佇列的所有操作（含失敗佇列），依加入順序排列
+   */
+  async listOutbox(): Promise<OutboxRecord[]> {
+    const db = await this.initDB();
+    const tx = db.transaction(STORES.OUTBOX, 'readonly');
+    return requestResult<OutboxRecord[]>(tx.objectStore(STORES.OUTBOX).getAll());
+  },
+
+  /**
+   * 新增或更新佇列中的操作，回傳其 seq
+   */
+  async putOutbox(record: OutboxRecord): Promise<number> {
+    const db = await this.initDB();
+    const tx = db.transaction(STORES.OUTBOX, 'readwrite');
+    const seq = await requestResult(tx.objectStore(STORES.OUTBOX).put(record));
+    await txDone(tx);
+    return seq as number;
+  },
+
+  async deleteOutbox(seq: number): Promise<void> {
+    const db = await this.initDB();
+    const tx = db.transaction(STORES.OUTBOX, 'readwrite');
+    tx.objectStore(STORES.OUTBOX).delete(seq);
+    await txDone(tx);
+  },
+
+  async getVaultStatus(): Promise<VaultStatus> {
+    await this.initDB();
+    if (!cryptoService.isEnabled()) return 'none';
+    return cryptoService.isUnlocked() ? 'unlocked' : 'locked';
+  },
+
+  /**
+   * 以密語解鎖本機加密資料，密語錯誤時拋出 WrongPassphraseError
+   */
+  async unlockVault(passphrase: string): Promise<void> {
+    await this.initDB();
+    await cryptoService.unlock(passphrase);
+  },
+
+  async reloadVault(): Promise<void> {
+    const db = await this.initDB();
+    const tx = db.transaction(STORES.SETTINGS, 'readonly');
+    const config = await requestResult<VaultConfig | undefined>(tx.objectStore(STORES.SETTINGS).get(VAULT_KEY));
+    cryptoService.setConfig(config || null);
+  },
+
+  /**
+   * 啟用本機加密：以密語衍生金鑰，並將所有章節、快照與設定重新加密寫入
+   */
+  async enableEncryption(passphrase: string): Promise<void> {
+    if (cryptoService.isEnabled()) return;
+    const dump = await this.dumpLibrary();
+    const config = await cryptoService.createVault(passphrase);
+    try {
+      await this.rewriteLibrary(dump, config);
+    } catch (e) {
+      cryptoService.setConfig(null);
+      throw e;
+    }
+    postSync({ type: 'vault-changed' });
+    await this.rebuildSearchIndex();
+  },
+
+  /**
+   * 停用本機加密：需已解鎖，所有資料解密後以明文寫回
+   */
+  async disableEncryption(): Promise<void> {
+    if (!cryptoService.isEnabled()) return;
+    const dump = await this.dumpLibrary();
+    const db = await this.initDB();
+    const tx = db.transaction([STORES.CHAPTERS, STORES.SNAPSHOTS, STORES.SETTINGS], 'readwrite');
+    dump.chapters.forEach(c => tx.objectStore(STORES.CHAPTERS).put(c));
+    dump.snapshots.forEach(s => tx.objectStore(STORES.SNAPSHOTS).put(s));
+    Object.entries(dump.settings).forEach(([key, value]) => tx.objectStore(STORES.SETTINGS).put(value, key));
+    tx.objectStore(STORES.SETTINGS).delete(VAULT_KEY);
+    await txDone(tx);
+    cryptoService.setConfig(null);
+    postSync({ type: 'vault-changed' });
+    await this.rebuildSearchIndex();
+  },
+
+  /**
+   * 以目前的加密狀態重新寫入章節、快照與設定，並保存金鑰庫設定
+   */
+  async rewriteLibrary(dump: LibraryDump, config: VaultConfig): Promise<void> {
+    const db = await this.initDB();
+    const chapters = await Promise.all(dump.chapters.map(sealChapter));
+    const snapshots = await Promise.all(dump.snapshots.map(sealSnapshot));
+    const settings = await Promise.all(Object.entries(dump.settings).map(async ([key, value]) => [key, await sealSetting(value)] as const));
+
+    const tx = db.transaction([STORES.CHAPTERS, STORES.SNAPSHOTS, STORES.SETTINGS], 'readwrite');
+    chapters.forEach(c => tx.objectStore(STORES.CHAPTERS).put(c));
+    snapshots.forEach(s => tx.objectStore(STORES.SNAPSHOTS).put(s));
+    settings.forEach(([key, value]) => tx.objectStore(STORES.SETTINGS).put(value, key));
+    tx.objectStore(STORES.SETTINGS).put(config, VAULT_KEY);
+    await txDone(tx);
   },
 
   snapshotTimers: {} as Record<string, number>,
+  snapshotListeners: [] as AutoSnapshotListener[],
 
-  scheduleAutoSnapshot(projectId: string) {
-    if (this.snapshotTimers[projectId]) return;
-    
-    this.snapshotTimers[projectId] = window.setInterval(async () => {
-      console.log("[Safety] 執行 2 分鐘安全快照檢測...");
-      const project = await this.getProject(projectId);
-      if (project) {
-        // 快照邏輯實作點
+  /**
+   * 啟動專案的背景快照引擎。
+   * 固定時間制：每 autoSnapshotIntervalMinutes 分鐘檢查一次；
+   * 動作停止制：定期輪詢，章節停止編輯超過 autoSnapshotIdleSeconds 秒後建立快照。
+   * 重複呼叫會以新的設定取代既有計時器。
+   */
+  scheduleAutoSnapshot(projectId: string, settings: SecuritySettings) {
+    this.cancelAutoSnapshot(projectId);
+    if (!settings.autoSnapshotEnabled) return;
+
+    const tickMs = settings.autoSnapshotMode === 'interval'
+      ? Math.max(1, settings.autoSnapshotIntervalMinutes) * 60000
+      : Math.max(1, Math.min(settings.autoSnapshotIdleSeconds, IDLE_POLL_SECONDS)) * 1000;
+
+    if (!compactedProjects.has(projectId)) {
+      compactedProjects.add(projectId);
+      this.compactSnapshots(projectId).catch(e => console.error('[Safety] 快照壓縮失敗', e));
+    }
+
+    this.snapshotTimers[projectId] = window.setInterval(() => {
+      this.runAutoSnapshot(projectId, settings).catch(e => console.error('[Safety] 自動快照失敗', e));
+    }, tickMs);
+  },
+
+  /**
+   * 停止指定專案的快照引擎；未指定時停止全部。
+   */
+  cancelAutoSnapshot(projectId?: string) {
+    const ids = projectId ? [projectId] : Object.keys(this.snapshotTimers);
+    ids.forEach(id => {
+      if (this.snapshotTimers[id]) {
+        window.clearInterval(this.snapshotTimers[id]);
+        delete this.snapshotTimers[id];
       }
-    }, 120000);
+    });
   },
 
-  async getProject(id: string): Promise<Project | null> {
+  /**
+   * 訂閱背景快照事件，回傳取消訂閱函式。
+   */
+  onAutoSnapshot(listener: AutoSnapshotListener): () => void {
+    this.snapshotListeners.push(listener);
+    return () => {
+      this.snapshotListeners = this.snapshotListeners.filter(l => l !== listener);
+    };
+  },
+
+  /**
+   * 比對每個章節與其最新快照，為有變動的章節寫入 AUTO 快照，
+   * 並依 autoSnapshotCleanupDays 清理過期的自動快照。
+   * 只寫入快照儲存區，不會覆蓋同時寫入的章節內容；讀取後章節或快照已被變更時重新比對。本機加密尚未解鎖時略過。
+   */
+  async runAutoSnapshot(projectId: string, settings: SecuritySettings): Promise<VersionSnapshot[]> {
     const db = await this.initDB();
-    return new Promise((resolve) => {
-      const tx = db.transaction(STORE_NAME, 'readonly');
-      const req = tx.objectStore(STORE_NAME).get(id);
-      req.onsuccess = () => resolve(req.result || null);
-    });
+    if (cryptoService.isEnabled() && !cryptoService.isUnlocked()) return [];
+    for (let attempt = 0; attempt < SNAPSHOT_COMMIT_ATTEMPTS; attempt++) {
+      const readTx = db.transaction([STORES.CHAPTERS, STORES.SNAPSHOTS], 'readonly');
+      const changes: AutoSnapshotChange[] = [];
+      const deletes: string[] = [];
+      const puts: SnapshotRecord[] = [];
+
+      const [chapterRecords, snapshotRecords] = await Promise.all([
+        requestResult<ChapterRecord[]>(readTx.objectStore(STORES.CHAPTERS).index('projectId').getAll(projectId)),
+        requestResult<SnapshotRecord[]>(readTx.objectStore(STORES.SNAPSHOTS).index('projectId').getAll(projectId))
+      ]);
+      const chapters = await Promise.all(chapterRecords.filter(c => !c.deletedAt).map(openChapter));
+      const snapshots = await Promise.all(snapshotRecords.map(openSnapshot));
+
+      const now = Date.now();
+      const idleMs = settings.autoSnapshotIdleSeconds * 1000;
+      const expiry = settings.autoSnapshotCleanupDays === 'NEVER'
+        ? null
+        : now - settings.autoSnapshotCleanupDays * 86400000;
+
+      chapters.forEach(chapter => {
+        const history = decodeHistory(snapshots.filter(s => s.chapterId === chapter.id));
+
+        const expiredIds = expiry === null
+          ? []
+          : history.filter(s => s.type === SnapshotType.AUTO && s.timestamp < expiry).map(s => s.id);
+        const remaining = history.filter(s => !expiredIds.includes(s.id));
+
+        const latest = remaining[0];
+        const isDirty = latest ? latest.content !== chapter.content : chapter.content.trim().length > 0;
+        const isIdle = settings.autoSnapshotMode !== 'idle' || now - chapter.lastEdited >= idleMs;
+
+        let created: VersionSnapshot | null = null;
+        if (isDirty && isIdle) {
+          created = {
+            id: `v-${now}-${chapter.id}`,
+            timestamp: now,
+            content: chapter.content,
+            title: chapter.title,
+            type: SnapshotType.AUTO
+          };
+        }
+
+        if (expiredIds.length > 0) {
+          deletes.push(...expiredIds);
+          puts.push(...encodeHistory(projectId, chapter.id, created ? [created, ...remaining] : remaining));
+        } else if (created) {
+          puts.push(encodeSnapshot(projectId, chapter.id, created, latest, remaining.length));
+        }
+
+        if (created || expiredIds.length > 0) changes.push({ chapterId: chapter.id, created, expiredIds });
+      });
+
+      if (changes.length === 0) return [];
+      const sealed = await Promise.all(puts.map(sealSnapshot));
+      if (!(await commitSnapshots(db, projectId, { chapters: chapterRecords, snapshots: snapshotRecords }, deletes, sealed))) continue;
+      this.snapshotListeners.forEach(l => l(projectId, changes));
+      postSync({ type: 'auto-snapshot', projectId, changes });
+      return changes.flatMap(c => c.created ? [c.created] : []);
+    }
+    console.warn('[Safety] 快照資料持續變動，略過本次自動快照');
+    return [];
+  },
+
+  /**
+   * 重新編碼專案所有章節的快照鏈：依目前的關鍵影格間隔重建增量基準，
+   * 並移除已無法還原的孤立增量。讀取後快照已被其他寫入變更時重新編碼。
+   */
+  async compactSnapshots(projectId: string): Promise<void> {
+    const db = await this.initDB();
+    if (cryptoService.isEnabled() && !cryptoService.isUnlocked()) return;
+    for (let attempt = 0; attempt < SNAPSHOT_COMMIT_ATTEMPTS; attempt++) {
+      const readTx = db.transaction(STORES.SNAPSHOTS, 'readonly');
+      const stored = await requestResult<SnapshotRecord[]>(readTx.objectStore(STORES.SNAPSHOTS).index('projectId').getAll(projectId));
+      const records = await Promise.all(stored.map(openSnapshot));
+
+      const byChapter: Record<string, SnapshotRecord[]> = {};
+      records.forEach(r => (byChapter[r.chapterId] ||= []).push(r));
+
+      const deletes: string[] = [];
+      const puts: SnapshotRecord[] = [];
+      Object.entries(byChapter).forEach(([chapterId, chapterRecords]) => {
+        const history = decodeHistory(chapterRecords);
+        const kept = new Set(history.map(s => s.id));
+        chapterRecords.filter(r => !kept.has(r.id)).forEach(r => deletes.push(r.id));
+        puts.push(...encodeHistory(projectId, chapterId, history));
+      });
+
+      const sealed = await Promise.all(puts.map(sealSnapshot));
+      if (await commitSnapshots(db, projectId, { snapshots: stored }, deletes, sealed)) return;
+    }
+    console.warn('[Safety] 快照資料持續變動，略過本次快照壓縮');
+  },
+
+  async getProject(id: string): Promise<Project | null> {
+    const loaded = await readProject(await this.initDB(), id);
+    if (!loaded) return null;
+    knownRevisions.set(id, loaded.revision);
+    markPersisted(loaded.project);
+    return loaded.project;
+  },
+
+  /**
+   * 讀取專案與其目前的 revision，供背景寫入搭配 saveProject 的 expectedRevision 使用，不更新 revision 追蹤
+   */
+  async getProjectRevision(id: string): Promise<{ project: Project; revision: number } | null> {
+    return readProject(await this.initDB(), id);
   },
 
   async getAllProjects(): Promise<Project[]> {
+    const loaded = await readProjects(await this.initDB());
+    return loaded.map(({ record, project }) => {
+      knownRevisions.set(record.id, record.revision ?? 0);
+      markPersisted(project);
+      return project;
+    });
+  },
+
+  /**
+   * 供全文搜尋讀取專案內容；不影響本分頁的 revision 追蹤，避免略過待合併的遠端變更
+   */
+  async getSearchableProjects(): Promise<Project[]> {
+    return (await readProjects(await this.initDB())).map(({ project }) => project);
+  },
+
+  /**
+   * 清空並重建全文搜尋索引（含回收桶中的章節，查詢時再行排除）
+   */
+  async rebuildSearchIndex(): Promise<void> {
     const db = await this.initDB();
-    return new Promise((resolve) => {
-      const tx = db.transaction(STORE_NAME, 'readonly');
-      const req = tx.objectStore(STORE_NAME).getAll();
-      req.onsuccess = () => resolve(req.result || []);
+    const tx = db.transaction(STORES.CHAPTERS, 'readonly');
+    const chapters = await Promise.all(
+      (await requestResult<ChapterRecord[]>(tx.objectStore(STORES.CHAPTERS).getAll())).map(openChapter)
+    );
+    await searchIndex.rebuild(db, chapters.map(c => toSearchDoc(c.projectId, c)));
+  },
+
+  /**
+   * 索引尚未建立（首次升級至 v5 或索引遺失）時重建
+   */
+  async ensureSearchIndex(): Promise<void> {
+    const db = await this.initDB();
+    if (await searchIndex.isEmpty(db)) await this.rebuildSearchIndex();
+  },
+
+  /**
+   * 讀出所有儲存區的記錄（快照維持增量編碼，已加密的內容會先解密），供完整備份使用。
+   * 金鑰庫設定與雲端登入工作階段不包含在內。
+   */
+  async dumpLibrary(): Promise<LibraryDump> {
+    const db = await this.initDB();
+    const tx = db.transaction([...PROJECT_STORES, STORES.SETTINGS], 'readonly');
+    const settingsStore = tx.objectStore(STORES.SETTINGS);
+    const [projects, chapters, snapshots, assets, blobs, settingKeys, settingValues] = await Promise.all([
+      requestResult<ProjectRecord[]>(tx.objectStore(STORES.PROJECTS).getAll()),
+      requestResult<ChapterRecord[]>(tx.objectStore(STORES.CHAPTERS).getAll()),
+      requestResult<SnapshotRecord[]>(tx.objectStore(STORES.SNAPSHOTS).getAll()),
+      requestResult<AssetRecord[]>(tx.objectStore(STORES.ASSETS).getAll()),
+      requestResult<BlobRecord[]>(tx.objectStore(STORES.BLOBS).getAll()),
+      requestResult<IDBValidKey[]>(settingsStore.getAllKeys()),
+      requestResult<unknown[]>(settingsStore.getAll())
+    ]);
+    const settings: Record<string, unknown> = {};
+    for (let i = 0; i < settingKeys.length; i++) {
+      if (settingKeys[i] !== VAULT_KEY && settingKeys[i] !== CLOUD_SESSION_KEY) settings[String(settingKeys[i])] = await openSetting(settingValues[i]);
+    }
+    return {
+      projects,
+      chapters: await Promise.all(chapters.map(openChapter)),
+      snapshots: await Promise.all(snapshots.map(openSnapshot)),
+      assets,
+      blobs: blobs.filter(b => b.refCount > 0),
+      settings
+    };
+  },
+
+  /**
+   * 取得目前已使用的專案、章節與快照 id，供匯入時判斷衝突
+   */
+  async getLibraryKeys(): Promise<{ projects: Set<string>; chapters: Set<string>; snapshots: Set<string> }> {
+    const db = await this.initDB();
+    const tx = db.transaction([STORES.PROJECTS, STORES.CHAPTERS, STORES.SNAPSHOTS], 'readonly');
+    const [projects, chapters, snapshots] = await Promise.all(
+      [STORES.PROJECTS, STORES.CHAPTERS, STORES.SNAPSHOTS].map(name =>
+        requestResult<IDBValidKey[]>(tx.objectStore(name).getAllKeys())
+      )
+    );
+    const toSet = (keys: IDBValidKey[]) => new Set(keys.map(String));
+    return { projects: toSet(projects), chapters: toSet(chapters), snapshots: toSet(snapshots) };
+  },
+
+  /**
+   * 於單一交易寫入完整備份。
+   * replace：清空所有儲存區後寫入，備份中的設定覆蓋本機設定；
+   * merge：保留既有資料，僅補上本機沒有的設定鍵。id 衝突需由呼叫端事先重新編號；
+   * overwrite：備份中的專案連同章節、快照與封面整個取代本機同 id 的專案（含回收桶中的），其餘資料與設定同 merge。
+   * 寫入的專案 revision 一律推進，並廣播給其他分頁。本機加密啟用時依目前金鑰加密，金鑰庫設定不受影響。
+   */
+  async restoreLibrary(dump: LibraryDump, mode: RestoreMode): Promise<void> {
+    const db = await this.initDB();
+    const chapters = await Promise.all(dump.chapters.map(sealChapter));
+    const snapshots = await Promise.all(dump.snapshots.map(sealSnapshot));
+    const settings = await Promise.all(Object.entries(dump.settings)
+      .filter(([key]) => key !== VAULT_KEY)
+      .map(async ([key, value]) => [key, await sealSetting(value)] as const));
+
+    const tx = db.transaction([...PROJECT_STORES, STORES.SETTINGS], 'readwrite');
+    const projectStore = tx.objectStore(STORES.PROJECTS);
+    const settingsStore = tx.objectStore(STORES.SETTINGS);
+
+    const [existing, settingKeys] = await Promise.all([
+      requestResult<ProjectRecord[]>(projectStore.getAll()),
+      requestResult<IDBValidKey[]>(settingsStore.getAllKeys())
+    ]);
+    const existingRevisions = new Map(existing.map(p => [p.id, p.revision ?? 0]));
+    const localSettings = new Set(settingKeys.map(String));
+
+    if (mode === 'replace') {
+      PROJECT_STORES.forEach(name => tx.objectStore(name).clear());
+      settingKeys.filter(key => key !== VAULT_KEY).forEach(key => settingsStore.delete(key));
+    }
+    if (mode === 'overwrite') {
+      // 先移除舊的章節與快照，備份中已不存在的記錄才不會殘留；blob 引用數稍後統一重算
+      await Promise.all(dump.projects.flatMap(({ id }) =>
+        [STORES.CHAPTERS, STORES.SNAPSHOTS, STORES.ASSETS].map(async name => {
+          const store = tx.objectStore(name);
+          const keys = await requestResult<IDBValidKey[]>(store.index('projectId').getAllKeys(id));
+          keys.forEach(key => store.delete(key));
+        })
+      ));
+    }
+
+    const revisions = new Map<string, number>();
+    dump.projects.forEach(record => {
+      const revision = (existingRevisions.get(record.id) ?? 0) + 1;
+      revisions.set(record.id, revision);
+      projectStore.put({ ...record, revision });
+    });
+    chapters.forEach(c => tx.objectStore(STORES.CHAPTERS).put(c));
+    snapshots.forEach(s => tx.objectStore(STORES.SNAPSHOTS).put(s));
+    dump.assets.forEach(a => tx.objectStore(STORES.ASSETS).put(a));
+    dump.blobs.forEach(b => tx.objectStore(STORES.BLOBS).put(b));
+    await recountRefs(tx);
+    settings.forEach(([key, value]) => {
+      if (mode === 'replace' || !localSettings.has(key)) settingsStore.put(value, key);
     });
+
+    await txDone(tx);
+
+    if (mode === 'replace') {
+      existing.filter(p => !revisions.has(p.id)).forEach(p => {
+        knownRevisions.delete(p.id);
+        postSync({ type: 'project-deleted', id: p.id });
+      });
+    }
+    revisions.forEach((revision, id) => {
+      knownRevisions.set(id, revision);
+      postSync({ type: 'project-saved', id, revision });
+    });
+    await this.rebuildSearchIndex();
   },
 
-  onSync(callback: (id: string) => void) {
-    const channel = new BroadcastChannel('inspublish_sync');
-    channel.onmessage = (e) => callback(e.data.id);
+  syncListeners: [] as SyncListener[],
+
+  /**
+   * 訂閱其他分頁的儲存與刪除事件，回傳取消訂閱函式。
+   */
+  onSync(callback: SyncListener): () => void {
+    getSyncChannel();
+    this.syncListeners.push(callback);
+    return () => {
+      this.syncListeners = this.syncListeners.filter(l => l !== callback);
+    };
   }
 };
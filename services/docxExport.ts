@@ -0,0 +1,162 @@
+import {
+  Document, Packer, Paragraph, TextRun, HeadingLevel, FootnoteReferenceRun,
+  CommentRangeStart, CommentRangeEnd, CommentReference, ICommentOptions, ParagraphChild
+} from 'docx';
+import JSZip from 'jszip';
+import { ChapterComment, Project, StructureUnit } from '../types';
+import { citations } from './citations';
+import { ChapterNotes, FootnoteRef, footnotes } from './footnotes';
+
+export interface DocxExportOptions {
+  // 將未解決的批註匯出為 Word 註解（回覆併入同一則註解）
+  includeComments: boolean;
+}
+
+type CommentMark = { id: number; start: number; end: number };
+
+const initialsOf = (name: string) => name.replace(/@.*$/, '').slice(0, 2).toUpperCase();
+
+const toWordComment = (id: number, comment: ChapterComment): ICommentOptions => ({
+  id,
+  author: comment.author,
+  initials: initialsOf(comment.author),
+  date: new Date(comment.createdAt),
+  children: [
+    new Paragraph({ children: [new TextRun(comment.text)] }),
+    ...comment.replies.map(reply => new Paragraph({
+      children: [new TextRun({ text: `${reply.author}：`, bold: true }), new TextRun(reply.text)]
+    }))
+  ]
+});
+
+// 註腳內容以空行分段，段內的換行視為空白
+const noteParagraphs = (text: string) => text.split(/\n{2,}/).map(p => new Paragraph({ children: [new TextRun(p.replace(/\n/g, ' '))] }));
+
+// 參考文獻條目：*文字* 為斜體，第二行起凸排
+const referenceParagraph = (text: string) => new Paragraph({
+  indent: { left: 720, hanging: 720 },
+  children: citations.segments(text).map(segment => new TextRun({ text: segment.text, italics: segment.italic }))
+});
+
+/**
+ * Word 預設全文連續編號；每章重新編號時在每個節的設定加上 numRestart，讓註腳編號逐節重新起算
+ */
+const restartFootnotesEachSection = async (blob: Blob): Promise<Blob> => {
+  const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+  const documentXml = await zip.file('word/document.xml')!.async('string');
+  zip.file('word/document.xml', documentXml.replace(/<w:sectPr(\s[^>]*)?>/g, '$&<w:footnotePr><w:numRestart w:val="eachSect"/></w:footnotePr>'));
+  return zip.generateAsync({ type: 'blob', mimeType: blob.type });
+};
+
+/**
+ * 章節內文依換行切成段落；註解範圍可跨段落，起訖標記放在對應位移處。
+ * 註腳定義行不輸出，引用處換成 renderRef 產生的註腳標記
+ */
+const chapterParagraphs = (
+  chapter: StructureUnit,
+  marks: CommentMark[],
+  notes: ChapterNotes,
+  renderRef: (ref: FootnoteRef) => ParagraphChild
+): Paragraph[] => {
+  const text = chapter.content;
+  const paragraphs: Paragraph[] = [];
+  let lineStart = 0;
+  text.split('\n').forEach(line => {
+    const lineEnd = lineStart + line.length;
+    if (notes.definitions.some(d => lineStart >= d.start && lineStart <= d.end)) {
+      lineStart = lineEnd + 1;
+      return;
+    }
+    const refs = notes.refs.filter(r => r.start >= lineStart && r.end <= lineEnd);
+    const cuts = Array.from(new Set([
+      lineStart,
+      lineEnd,
+      ...marks.flatMap(m => [m.start, m.end]).filter(p => p > lineStart && p < lineEnd),
+      ...refs.flatMap(r => [r.start, r.end])
+    ])).sort((a, b) => a - b);
+
+    const children: ParagraphChild[] = [];
+    const emitMarks = (position: number) => {
+      marks.filter(m => m.end === position).forEach(m => {
+        children.push(new CommentRangeEnd(m.id), new TextRun({ children: [new CommentReference(m.id)] }));
+      });
+      marks.filter(m => m.start === position).forEach(m => children.push(new CommentRangeStart(m.id)));
+    };
+    cuts.forEach((position, i) => {
+      emitMarks(position);
+      if (i === cuts.length - 1) return;
+      const ref = refs.find(r => r.start === position);
+      if (ref) children.push(renderRef(ref));
+      else if (!refs.some(r => position > r.start && position < r.end)) children.push(new TextRun(text.slice(position, cuts[i + 1])));
+    });
+    paragraphs.push(new Paragraph({ children }));
+    lineStart = lineEnd + 1;
+  });
+  return paragraphs;
+};
+
+export const docxExport = {
+  /**
+   * 將專案所有章節依順序組成 Word 文稿，每章一節；註腳輸出為 Word 原生註腳，
+   * 內文引用套用專案的引用格式，被引用的文獻列在最後一節
+   */
+  async build(project: Project, options: DocxExportOptions): Promise<Blob> {
+    const source = citations.renderProject(project);
+    const wordComments: ICommentOptions[] = [];
+    const wordFootnotes: Record<number, { children: Paragraph[] }> = {};
+    const chapters = [...source.chapters].sort((a, b) => a.order - b.order);
+    const notesByChapter = footnotes.ofProject(source);
+
+    const sections = chapters.map(chapter => {
+      const notes = notesByChapter.get(chapter.id)!;
+      // Word 的註腳只能被引用一次，重複引用同一則註腳時以上標編號表示
+      const emitted = new Set<number>();
+      const renderRef = (ref: FootnoteRef): ParagraphChild => {
+        if (emitted.has(ref.number)) return new TextRun({ text: String(ref.number), superScript: true });
+        emitted.add(ref.number);
+        const id = Object.keys(wordFootnotes).length + 1;
+        wordFootnotes[id] = { children: noteParagraphs(notes.notes.find(n => n.number === ref.number)!.text) };
+        return new FootnoteReferenceRun(id);
+      };
+
+      const marks = options.includeComments
+        ? (chapter.comments || [])
+          .filter(c => !c.resolved && !c.orphaned && c.anchor.end > c.anchor.start && c.anchor.start < chapter.content.length)
+          .map(c => {
+            const id = wordComments.length;
+            wordComments.push(toWordComment(id, c));
+            const start = Math.min(c.anchor.start, chapter.content.length);
+            return { id, start, end: Math.max(start, Math.min(c.anchor.end, chapter.content.length)) };
+          })
+        : [];
+      return {
+        children: [
+          new Paragraph({ heading: HeadingLevel.HEADING_1, children: [new TextRun(chapter.title)] }),
+          ...chapterParagraphs(chapter, marks, notes, renderRef)
+        ]
+      };
+    });
+
+    const references = citations.bibliography(citations.contextOf(project), citations.citedKeys(project));
+    if (references.entries.length > 0) {
+      sections.push({
+        children: [
+          new Paragraph({ heading: HeadingLevel.HEADING_1, children: [new TextRun(references.heading)] }),
+          ...references.entries.map(referenceParagraph)
+        ]
+      });
+    }
+
+    const doc = new Document({
+      creator: project.publishingPayload?.author || 'InsPublish',
+      title: project.publishingPayload?.title || project.name,
+      comments: { children: wordComments },
+      footnotes: wordFootnotes,
+      sections: sections.length > 0 ? sections : [{ children: [] }]
+    });
+    const blob = await Packer.toBlob(doc);
+    return project.footnoteNumbering === 'BOOK' || Object.keys(wordFootnotes).length === 0
+      ? blob
+      : restartFootnotesEachSection(blob);
+  }
+};
@@ -0,0 +1,243 @@
+import { BackupSettings } from '../types';
+import { dbService } from './dbService';
+import { cryptoService } from './cryptoService';
+import { syncOutbox } from './syncOutbox';
+import { googleDriveService, DriveApiError, DriveRevision } from './googleDriveService';
+import {
+  ARCHIVE_EXTENSION, ImportSummary, packLibraryArchive, pickProjects, readLibraryArchive, importLibraryArchive
+} from './libraryArchive';
+
+// 排程備份的間隔；沒有變動的專案不會上傳，空跑只讀取本機資料
+const BACKUP_INTERVAL_MINUTES = 10;
+// 隱含授權流程的權杖有效期為一小時，提前一分鐘視為失效
+const TOKEN_TTL_MS = 59 * 60 * 1000;
+// settings 儲存區中記錄已上傳檔案的鍵
+const INDEX_KEY = 'driveBackupIndex@v1';
+
+interface DriveBackupIndex {
+  folderPath: string;
+  folderId: string;
+  // 專案 id → Drive 檔案 id、上傳時的專案 revision 與是否加密（舊版記錄沒有 encrypted，視為未加密）
+  files: Record<string, { fileId: string; revision: number; uploadedAt: number; encrypted?: boolean }>;
+}
+
+export interface BackupRunResult {
+  uploaded: number;
+  skipped: number;
+  finishedAt: number;
+}
+
+export interface DriveBackupEntry {
+  fileId: string;
+  projectId: string;
+  projectName: string;
+  modifiedTime: string;
+  isEncrypted: boolean;
+}
+
+export type BackupStatusListener = (update: Pick<BackupSettings, 'status'> & Partial<Pick<BackupSettings, 'lastBackupTime' | 'lastError'>>) => void;
+
+/**
+ * 尚未授權或權杖已失效，需重新連結 Google Drive
+ */
+export class DriveAuthError extends Error {
+  constructor() {
+    super('Google Drive 授權已失效，請重新連結');
+    this.name = 'DriveAuthError';
+  }
+}
+
+let accessToken: { value: string; expiresAt: number } | null = null;
+let running: Promise<BackupRunResult> | null = null;
+let schedule: { timer: number; tick: () => Promise<void>; listener: BackupStatusListener } | null = null;
+
+const requireToken = (): string => {
+  if (!accessToken || accessToken.expiresAt <= Date.now()) {
+    accessToken = null;
+    throw new DriveAuthError();
+  }
+  return accessToken.value;
+};
+
+// 401 代表權杖被撤銷或過期，清除後改拋 DriveAuthError
+const withAuth = async <T>(task: (token: string) => Promise<T>): Promise<T> => {
+  try {
+    return await task(requireToken());
+  } catch (e) {
+    if (e instanceof DriveApiError && e.status === 401) {
+      accessToken = null;
+      throw new DriveAuthError();
+    }
+    throw e;
+  }
+};
+
+const loadIndex = async (): Promise<DriveBackupIndex | null> =>
+  (await dbService.getAppSetting(INDEX_KEY)) || null;
+
+const resolveFolder = async (folderPath: string, token: string): Promise<DriveBackupIndex> => {
+  const index = await loadIndex();
+  if (index && index.folderPath === folderPath) return index;
+  // 首次備份或備份路徑變更後，在新資料夾重新建立完整備份
+  const created: DriveBackupIndex = { folderPath, folderId: await googleDriveService.ensureFolder(folderPath, token), files: {} };
+  await dbService.saveAppSetting(INDEX_KEY, created);
+  return created;
+};
+
+const backupFileName = (projectName: string, projectId: string) =>
+  `${projectName.replace(/[\\/:*?"<>|]/g, '_').trim() || 'Untitled'}-${projectId}${ARCHIVE_EXTENSION}`;
+
+const runBackup = (folderPath: string): Promise<BackupRunResult> => withAuth(async token => {
+  const index = await resolveFolder(folderPath, token);
+  const dump = await dbService.dumpLibrary();
+  const live = dump.projects.filter(p => !p.deletedAt);
+  const encrypted = cryptoService.isEnabled();
+  const changed = live.filter(p => {
+    const entry = index.files[p.id];
+    return entry?.revision !== (p.revision ?? 0) || !!entry.encrypted !== encrypted;
+  });
+
+  for (const project of changed) {
+    const blob = await packLibraryArchive(pickProjects(dump, [project.id]));
+    const upload = (fileId?: string) => googleDriveService.uploadBackup(blob, backupFileName(project.name, project.id), token, {
+      parentId: index.folderId,
+      fileId,
+      appProperties: { projectId: project.id, projectName: project.name }
+    });
+    const existing = index.files[project.id];
+    // 加密狀態改變時另建新檔並刪除舊檔：更新同一檔案會在修訂版本中留下先前狀態的內容
+    const replaced = existing && !!existing.encrypted !== encrypted ? existing.fileId : undefined;
+    let file;
+    try {
+      file = await upload(replaced ? undefined : existing?.fileId);
+    } catch (e) {
+      // 雲端檔案已被手動刪除時改為建立新檔
+      if (!(existing && !replaced && e instanceof DriveApiError && e.status === 404)) throw e;
+      file = await upload();
+    }
+    if (replaced) {
+      await googleDriveService.deleteFile(replaced, token).catch(e => {
+        if (!(e instanceof DriveApiError && e.status === 404)) throw e;
+      });
+    }
+    index.files[project.id] = { fileId: file.id, revision: project.revision ?? 0, uploadedAt: Date.now(), encrypted };
+    // 逐一記錄進度，中途失敗時已上傳的專案不必重傳
+    await dbService.saveAppSetting(INDEX_KEY, index);
+  }
+
+  console.log(`[Backup] 已上傳 ${changed.length} 個專案，${live.length - changed.length} 個未變動`);
+  return { uploaded: changed.length, skipped: live.length - changed.length, finishedAt: Date.now() };
+});
+
+export const driveBackupService = {
+  isAuthorized(): boolean {
+    return !!accessToken && accessToken.expiresAt > Date.now();
+  },
+
+  /**
+   * 開啟 Google 授權視窗取得存取權杖（僅保存在記憶體中）
+   */
+  async connect(): Promise<void> {
+    accessToken = { value: await googleDriveService.authenticate(), expiresAt: Date.now() + TOKEN_TTL_MS };
+  },
+
+  disconnect() {
+    accessToken = null;
+    this.cancelSchedule();
+  },
+
+  /**
+   * 上傳自上次備份後有變動的專案（以專案 revision 與加密狀態判斷），每個專案對應一個 Drive 檔案。
+   * 同時只會有一次備份在執行，重複呼叫會取得同一個結果。
+   */
+  backupNow(folderPath: string): Promise<BackupRunResult> {
+    if (!running) {
+      running = runBackup(folderPath).finally(() => { running = null; });
+    }
+    return running;
+  },
+
+  /**
+   * 啟動排程備份：立即排入一次，之後每隔固定時間排入離線同步佇列，由佇列執行並回報狀態
+   */
+  schedule(folderPath: string, listener: BackupStatusListener) {
+    this.cancelSchedule();
+    const tick = () => syncOutbox.enqueue('driveBackup', 'driveBackup', { folderPath });
+    schedule = { timer: window.setInterval(tick, BACKUP_INTERVAL_MINUTES * 60000), tick, listener };
+    tick();
+  },
+
+  cancelSchedule() {
+    if (schedule) window.clearInterval(schedule.timer);
+    schedule = null;
+  },
+
+  /**
+   * 於排程中立即備份一次（狀態同樣回報給排程的監聽者）
+   */
+  runScheduled() {
+    schedule?.tick();
+  },
+
+  /**
+   * 列出備份資料夾中的專案備份檔
+   */
+  listBackups(folderPath: string): Promise<DriveBackupEntry[]> {
+    return withAuth(async token => {
+      const index = await resolveFolder(folderPath, token);
+      const files = await googleDriveService.listFiles(index.folderId, token);
+      return files
+        .filter(f => f.appProperties?.projectId)
+        .map(f => ({
+          fileId: f.id,
+          projectId: f.appProperties!.projectId,
+          projectName: f.appProperties!.projectName || f.name,
+          modifiedTime: f.modifiedTime || '',
+          isEncrypted: f.name.endsWith('.enc')
+        }))
+        .sort((a, b) => b.modifiedTime.localeCompare(a.modifiedTime));
+    });
+  },
+
+  /**
+   * 列出備份檔的所有版本，新的在前
+   */
+  listVersions(fileId: string): Promise<DriveRevision[]> {
+    return withAuth(async token => {
+      const revisions = await googleDriveService.listRevisions(fileId, token);
+      return [...revisions].sort((a, b) => b.modifiedTime.localeCompare(a.modifiedTime));
+    });
+  },
+
+  /**
+   * 下載指定版本並取代本機的同一專案；加密備份需本機已以同一把金鑰解鎖
+   */
+  restore(fileId: string, revisionId?: string): Promise<ImportSummary> {
+    return withAuth(async token => {
+      const downloaded = await googleDriveService.downloadFile(fileId, token, revisionId);
+      const archive = await readLibraryArchive(await googleDriveService.openBackup(downloaded, 'application/zip'));
+      // 還原會推進專案 revision，下次排程即將還原的內容上傳為同一檔案的新版本
+      return importLibraryArchive(archive, 'overwrite');
+    });
+  }
+};
+
+// 排程備份由離線同步佇列執行：失敗時依退避重試，授權失效不重試
+syncOutbox.registerHandler('driveBackup', {
+  async run({ folderPath }) {
+    // 排程已取消（中斷連結）時略過佇列中剩下的備份
+    if (!schedule) return null;
+    const { listener } = schedule;
+    listener({ status: 'SYNCING' });
+    try {
+      const result = await driveBackupService.backupNow(folderPath);
+      listener({ status: 'IDLE', lastBackupTime: result.finishedAt, lastError: undefined });
+      return result;
+    } catch (e) {
+      console.error('[Backup] 雲端備份失敗', e);
+      listener({ status: 'ERROR', lastError: e instanceof Error ? e.message : '雲端備份失敗' });
+      throw e;
+    }
+  },
+  isPermanent: e => e instanceof DriveAuthError
+});
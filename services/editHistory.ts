@@ -0,0 +1,100 @@
+import { TrackedChange } from '../types';
+
+/**
+ * 編輯器的復原/重做紀錄：每個章節各自一組，保存在記憶體中，切換章節後回來仍可復原。
+ * 每一步保存編輯前的完整狀態（原文、修訂建議與游標），連續輸入在短時間內合併為一步。
+ */
+
+export interface HistoryState {
+  content: string;
+  suggestions: TrackedChange[];
+  // 原文位移
+  caret: number;
+}
+
+interface HistoryEntry {
+  state: HistoryState;
+  // 同一 group 且間隔夠短的連續編輯合併；null 表示獨立的一步（AI 套用、取代、還原）
+  group: string | null;
+  at: number;
+}
+
+interface ChapterHistory {
+  undo: HistoryEntry[];
+  redo: HistoryState[];
+}
+
+// 連續輸入合併為一步的最長間隔
+const COALESCE_MS = 1000;
+// 每個章節保留的步數上限
+const MAX_DEPTH = 200;
+
+const histories = new Map<string, ChapterHistory>();
+
+const keyOf = (projectId: string, chapterId: string) => `${projectId}:${chapterId}`;
+
+const historyOf = (key: string): ChapterHistory => {
+  let history = histories.get(key);
+  if (!history) {
+    history = { undo: [], redo: [] };
+    histories.set(key, history);
+  }
+  return history;
+};
+
+export const editHistory = {
+  /**
+   * 記錄一次編輯前的狀態；group 與上一步相同且在合併間隔內時只延長上一步
+   */
+  record(projectId: string, chapterId: string, before: HistoryState, group: string | null = null) {
+    const history = historyOf(keyOf(projectId, chapterId));
+    const now = Date.now();
+    const last = history.undo[history.undo.length - 1];
+    history.redo = [];
+    // 同一次變更可能由多處記錄（專案取代與編輯器偵測到的外部變更），相同狀態只保留一筆
+    if (last && last.state.content === before.content
+      && JSON.stringify(last.state.suggestions) === JSON.stringify(before.suggestions)) {
+      last.at = now;
+      return;
+    }
+    if (group && last?.group === group && now - last.at < COALESCE_MS) {
+      last.at = now;
+      return;
+    }
+    history.undo.push({ state: before, group, at: now });
+    if (history.undo.length > MAX_DEPTH) history.undo.shift();
+  },
+
+  /**
+   * 取出上一步的狀態，並把目前狀態放入重做紀錄；沒有可復原的步驟時回傳 null
+   */
+  undo(projectId: string, chapterId: string, current: HistoryState): HistoryState | null {
+    const history = historyOf(keyOf(projectId, chapterId));
+    const entry = history.undo.pop();
+    if (!entry) return null;
+    history.redo.push(current);
+    return entry.state;
+  },
+
+  redo(projectId: string, chapterId: string, current: HistoryState): HistoryState | null {
+    const history = historyOf(keyOf(projectId, chapterId));
+    const state = history.redo.pop();
+    if (!state) return null;
+    history.undo.push({ state: current, group: null, at: Date.now() });
+    return state;
+  },
+
+  canUndo(projectId: string, chapterId: string): boolean {
+    return (histories.get(keyOf(projectId, chapterId))?.undo.length || 0) > 0;
+  },
+
+  canRedo(projectId: string, chapterId: string): boolean {
+    return (histories.get(keyOf(projectId, chapterId))?.redo.length || 0) > 0;
+  },
+
+  // 結束目前的輸入群組，下一次輸入另起一步（例如移動游標之後）
+  seal(projectId: string, chapterId: string) {
+    const last = histories.get(keyOf(projectId, chapterId))?.undo.slice(-1)[0];
+    if (last) last.group = null;
+  }
+};
@@ -0,0 +1,122 @@
+import JSZip from 'jszip';
+import { marked } from 'marked';
+import { Project } from '../types';
+import { citations } from './citations';
+import { footnotes } from './footnotes';
+
+/**
+ * EPUB 3 電子書：每章一個 XHTML 檔，註腳以 epub:type="noteref" 引用、
+ * 章末的 <aside epub:type="footnote"> 定義，支援的閱讀器會以彈出視窗顯示註腳。
+ * 內文引用套用專案的引用格式，被引用的文獻另成一頁列在書末。
+ */
+
+const STYLESHEET = `body { font-family: serif; line-height: 1.7; }
+h1 { font-size: 1.6em; margin: 1em 0; }
+sup a { text-decoration: none; }
+aside.footnote { font-size: 0.85em; }
+aside.footnote p { margin: 0.3em 0; }
+section.bibliography p { margin: 0.4em 0; padding-left: 2em; text-indent: -2em; }`;
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * marked 輸出的是 HTML（例如 <br>、未跳脫的 &），經瀏覽器解析後再序列化為合法的 XHTML
+ */
+const toXhtml = (html: string): string => {
+  const doc = new DOMParser().parseFromString(`<div>${html}</div>`, 'text/html');
+  return new XMLSerializer().serializeToString(doc.body.firstElementChild!)
+    .replace(/^<div xmlns="http:\/\/www\.w3\.org\/1999\/xhtml">/, '')
+    .replace(/<\/div>$/, '')
+    // epub:type 在 HTML 解析時無法保留命名空間，序列化後才換回
+    .replace(/data-epub-type=/g, 'epub:type=');
+};
+
+const xhtmlPage = (title: string, language: string, body: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css" />
+</head>
+<body>
+${body}
+</body>
+</html>`;
+
+export const epubExport = {
+  /**
+   * 將專案所有章節依順序組成 EPUB 3 電子書
+   */
+  async build(project: Project): Promise<Blob> {
+    const payload = project.publishingPayload;
+    const title = payload?.title || project.name;
+    const author = payload?.author || '';
+    const language = escapeXml(payload?.languageCode || 'zh-TW');
+    const identifier = payload?.isbn13 ? `urn:isbn:${payload.isbn13}` : `urn:uuid:${project.id}`;
+    const source = citations.renderProject(project);
+    const chapters = [...source.chapters].sort((a, b) => a.order - b.order);
+    const notesByChapter = footnotes.ofProject(source);
+
+    const zip = new JSZip();
+    // mimetype 必須是第一個檔案且不壓縮
+    zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+    zip.file('META-INF/container.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+</container>`);
+    zip.file('OEBPS/style.css', STYLESHEET);
+
+    const files = chapters.map((chapter, index) => {
+      const notes = notesByChapter.get(chapter.id)!;
+      const markdown = footnotes.inline(chapter.content, notes, number =>
+        `<sup><a data-epub-type="noteref" href="#fn-${number}" id="fnref-${number}">${number}</a></sup>`
+      );
+      // 註腳編號放在第一段開頭並連回引用處
+      const asides = notes.notes.map(note => {
+        const html = marked.parse(note.text, { async: false }).replace(/^<p>/, `<p><a href="#fnref-${note.number}">${note.number}.</a> `);
+        return `<aside data-epub-type="footnote" class="footnote" id="fn-${note.number}">${html}</aside>`;
+      }).join('');
+      const body = toXhtml(`<section><h1>${escapeXml(chapter.title)}</h1>${marked.parse(markdown, { async: false })}${asides}</section>`);
+      const href = `chapter-${index + 1}.xhtml`;
+      zip.file(`OEBPS/${href}`, xhtmlPage(chapter.title, language, body));
+      return { id: `chapter-${index + 1}`, href, title: chapter.title };
+    });
+
+    const references = citations.bibliography(citations.contextOf(project), citations.citedKeys(project));
+    if (references.entries.length > 0) {
+      const entries = references.entries.map(entry => `<p>${citations.html(entry)}</p>`).join('');
+      const body = toXhtml(`<section data-epub-type="bibliography" class="bibliography"><h1>${escapeXml(references.heading)}</h1>${entries}</section>`);
+      zip.file('OEBPS/references.xhtml', xhtmlPage(references.heading, language, body));
+      files.push({ id: 'references', href: 'references.xhtml', title: references.heading });
+    }
+
+    zip.file('OEBPS/nav.xhtml', xhtmlPage(title, language, `<nav epub:type="toc" id="toc"><h1>目錄</h1><ol>
+${files.map(f => `<li><a href="${f.href}">${escapeXml(f.title)}</a></li>`).join('\n')}
+</ol></nav>`));
+
+    zip.file('OEBPS/content.opf', `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">${escapeXml(identifier)}</dc:identifier>
+<dc:title>${escapeXml(title)}</dc:title>
+${author ? `<dc:creator>${escapeXml(author)}</dc:creator>\n` : ''}<dc:language>${language}</dc:language>
+<meta property="dcterms:modified">${new Date(project.updatedAt).toISOString().replace(/\.\d{3}Z$/, 'Z')}</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+<item id="style" href="style.css" media-type="text/css"/>
+${files.map(f => `<item id="${f.id}" href="${f.href}" media-type="application/xhtml+xml"/>`).join('\n')}
+</manifest>
+<spine>
+${files.map(f => `<itemref idref="${f.id}"/>`).join('\n')}
+</spine>
+</package>`);
+
+    return zip.generateAsync({ type: 'blob', mimeType: 'application/epub+zip' });
+  }
+};
@@ -1,6 +1,13 @@
+// 即時協作：章節內文以 CRDT（textCrdt）建模，並行編輯合併後不遺失內容。
+// 傳輸層可替換（setTransport），預設為本機 WebSocket relay（設定 COLLAB_RELAY_URL 時）或同瀏覽器分頁間的 BroadcastChannel；
+// 日後接上 Firestore 只需實作 TransportFactory。
 
-// 此文件為 Firebase 實施框架。請在取得憑證後填入對應資料。
-// 引入方式建議：import { initializeApp } from "https://www.gstatic.com/firebasejs/10.7.1/firebase-app.js";
+import {
+  TextDoc, createTextDoc, docText, applyOps, diffToOps, encodeDoc, loadDoc, mergeDoc, toRelative, fromRelative
+} from './textCrdt';
+import {
+  CollabMessage, CollaborationTransport, TransportFactory, TransportStatus, broadcastChannelTransport, webSocketTransport
+} from './collabTransport';
 
 export const firebaseConfig = {
   apiKey: "YOUR_API_KEY",
@@ -11,15 +18,226 @@ export const firebaseConfig = {
   appId: "APP_ID"
 };
 
+const COLLAB_RELAY_URL = process.env.COLLAB_RELAY_URL || '';
+// 在線狀態的廣播間隔；超過逾時未收到即視為離開
+const PRESENCE_INTERVAL_MS = 5000;
+const PRESENCE_TIMEOUT_MS = 15000;
+const PEER_COLORS = ['#7b61ff', '#D4FF5F', '#FF6B6B', '#4FC3F7', '#FFB74D', '#81C784'];
+
+export interface CollaborationPeer {
+  id: string;
+  name: string;
+  color: string;
+  // 以目前文字計算的位移，未聚焦編輯區時為 null
+  cursor: { anchor: number; head: number } | null;
+}
+
+export interface CollaborationUpdate {
+  content: string;
+  peers: CollaborationPeer[];
+  // 本機游標依相對位置換算後的位移，遠端編輯後用來還原選取範圍
+  cursor: { anchor: number; head: number } | null;
+  status: TransportStatus;
+  // 內容因遠端編輯而改變
+  remote: boolean;
+}
+
+export interface CollaborationSession {
+  readonly selfId: string;
+  readonly color: string;
+  setCursor(anchor: number, head: number): void;
+  clearCursor(): void;
+  close(): void;
+}
+
+type RelativeCursor = { anchor: string | null; head: string | null };
+
+interface Room {
+  doc: TextDoc;
+  transport: CollaborationTransport;
+  // 尚未與任何站點交換過資料，也沒有本機編輯
+  fresh: boolean;
+  name: string;
+  color: string;
+  cursor: RelativeCursor | null;
+  peers: Map<string, { name: string; color: string; cursor: RelativeCursor | null; lastSeen: number }>;
+  status: TransportStatus;
+  timer: number;
+  callback: (update: CollaborationUpdate) => void;
+}
+
+let transportFactory: TransportFactory = COLLAB_RELAY_URL ? webSocketTransport(COLLAB_RELAY_URL) : broadcastChannelTransport;
+const rooms = new Map<string, Room>();
+
+const roomKey = (projectId: string, chapterId: string) => `${projectId}/${chapterId}`;
+
+const colorFor = (site: string) =>
+  PEER_COLORS[Array.from(site).reduce((sum, c) => sum + c.charCodeAt(0), 0) % PEER_COLORS.length];
+
+const notify = (room: Room, remote: boolean) => {
+  const resolve = (cursor: RelativeCursor | null) => cursor && {
+    anchor: fromRelative(room.doc, cursor.anchor),
+    head: fromRelative(room.doc, cursor.head)
+  };
+  room.callback({
+    content: docText(room.doc),
+    peers: Array.from(room.peers, ([id, peer]) => ({ id, name: peer.name, color: peer.color, cursor: resolve(peer.cursor) })),
+    cursor: resolve(room.cursor),
+    status: room.status,
+    remote
+  });
+};
+
+const sendPresence = (room: Room) => {
+  room.transport.send({ type: 'presence', from: room.doc.site, name: room.name, color: room.color, cursor: room.cursor });
+};
+
+/**
+ * 完整狀態的取捨：新加入（fresh）的站點直接採用房間內的狀態，避免兩份各自初始化的內文被合併成重複文字；
+ * 雙方都是新加入時以站點 id 較小者為準。已交換過資料的站點之間則合併。
+ */
+const receiveState = (room: Room, message: Extract<CollabMessage, { type: 'state' }>) => {
+  const before = docText(room.doc);
+  if (room.fresh) {
+    if (message.fresh && message.from > room.doc.site) return;
+    loadDoc(room.doc, message.items);
+    room.fresh = false;
+  } else {
+    if (message.fresh) return;
+    mergeDoc(room.doc, message.items);
+  }
+  notify(room, docText(room.doc) !== before);
+};
+
+const handleMessage = (room: Room, message: CollabMessage) => {
+  if (message.from === room.doc.site) return;
+  switch (message.type) {
+    case 'hello':
+      room.transport.send({ type: 'state', from: room.doc.site, items: encodeDoc(room.doc), fresh: room.fresh });
+      sendPresence(room);
+      break;
+    case 'state':
+      receiveState(room, message);
+      break;
+    case 'ops': {
+      const before = docText(room.doc);
+      applyOps(room.doc, message.ops);
+      const changed = docText(room.doc) !== before;
+      if (changed) room.fresh = false;
+      notify(room, changed);
+      break;
+    }
+    case 'presence':
+      room.peers.set(message.from, { name: message.name, color: message.color, cursor: message.cursor, lastSeen: Date.now() });
+      notify(room, false);
+      break;
+    case 'leave':
+      room.peers.delete(message.from);
+      notify(room, false);
+      break;
+  }
+};
+
 export const firebaseService = {
-  async syncToCloud(projectId: string, data: any) {
-    console.log(`[Firebase] 正在同步專案 ${projectId} 到 Firestore...`);
-    // 實作實時協作邏輯：const docRef = doc(db, "projects", projectId); await setDoc(docRef, data, { merge: true });
+  /**
+   * 替換協作傳輸層（只影響之後開啟的工作階段）
+   */
+  setTransport(factory: TransportFactory) {
+    transportFactory = factory;
+  },
+
+  /**
+   * 章節是否已開啟協作工作階段（內文由 CRDT 與其他站點收斂）
+   */
+  hasSession(projectId: string, chapterId: string): boolean {
+    return rooms.has(roomKey(projectId, chapterId));
+  },
+
+  /**
+   * 將本機編輯送入已開啟的協作工作階段；該章節未開啟協作時回傳 false
+   */
+  syncToCloud(projectId: string, chapterId: string, content: string): boolean {
+    const room = rooms.get(roomKey(projectId, chapterId));
+    if (!room) return false;
+    const ops = diffToOps(room.doc, content);
+    if (ops.length > 0) {
+      room.fresh = false;
+      room.transport.send({ type: 'ops', from: room.doc.site, ops });
+    }
     return true;
   },
 
-  onCollaborationUpdate(projectId: string, callback: (newData: any) => void) {
-    console.log(`[Firebase] 已開啟多人協作監聽：${projectId}`);
-    // 實作監聽邏輯：onSnapshot(doc(db, "projects", projectId), (doc) => callback(doc.data()));
+  /**
+   * 開啟章節的協作工作階段：以 initialContent 初始化，之後的遠端編輯與在線狀態都透過 callback 回報
+   */
+  onCollaborationUpdate(
+    projectId: string,
+    chapterId: string,
+    initialContent: string,
+    callback: (update: CollaborationUpdate) => void,
+    options: { name?: string } = {}
+  ): CollaborationSession {
+    const key = roomKey(projectId, chapterId);
+    const previous = rooms.get(key);
+    if (previous) {
+      window.clearInterval(previous.timer);
+      previous.transport.close();
+    }
+
+    const site = crypto.randomUUID().replace(/-/g, '').slice(0, 12);
+    const room = {
+      doc: createTextDoc(site, initialContent),
+      fresh: true,
+      name: options.name || `作者 ${site.slice(0, 4).toUpperCase()}`,
+      color: colorFor(site),
+      cursor: null,
+      peers: new Map(),
+      status: 'connecting',
+      callback
+    } as Omit<Room, 'transport' | 'timer'> as Room;
+
+    room.transport = transportFactory(key, {
+      onMessage: message => handleMessage(room, message),
+      onOpen: () => {
+        room.transport.send({ type: 'hello', from: site });
+        // 離線期間的本機編輯以完整狀態補送
+        if (!room.fresh) room.transport.send({ type: 'state', from: site, items: encodeDoc(room.doc), fresh: false });
+        sendPresence(room);
+      },
+      onStatus: status => {
+        room.status = status;
+        notify(room, false);
+      }
+    });
+    room.timer = window.setInterval(() => {
+      sendPresence(room);
+      const now = Date.now();
+      let pruned = false;
+      room.peers.forEach((peer, id) => {
+        if (now - peer.lastSeen > PRESENCE_TIMEOUT_MS) pruned = room.peers.delete(id);
+      });
+      if (pruned) notify(room, false);
+    }, PRESENCE_INTERVAL_MS);
+    rooms.set(key, room);
+    console.log(`[Collab] 已開啟協作工作階段：${key}`);
+
+    return {
+      selfId: site,
+      color: room.color,
+      setCursor(anchor: number, head: number) {
+        room.cursor = { anchor: toRelative(room.doc, anchor), head: toRelative(room.doc, head) };
+        sendPresence(room);
+      },
+      clearCursor() {
+        room.cursor = null;
+        sendPresence(room);
+      },
+      close() {
+        window.clearInterval(room.timer);
+        room.transport.send({ type: 'leave', from: site });
+        room.transport.close();
+        if (rooms.get(key) === room) rooms.delete(key);
+      }
+    };
   }
 };
@@ -0,0 +1,166 @@
+import { FootnoteNumbering, Project, StructureUnit } from '../types';
+
+/**
+ * 註腳：採用 Markdown 註腳語法，內文以 [^標籤] 引用，另起一行以 [^標籤]: 內容 定義，
+ * 定義之後縮排的行視為同一則註腳的續行。依引用出現的順序編號，重複引用同一標籤沿用同一個編號；
+ * 沒有定義的引用維持原樣，沒有被引用的定義不輸出。
+ */
+
+export interface Footnote {
+  number: number;
+  label: string;
+  text: string;
+}
+
+// 內文中的引用位置（原文位移）
+export interface FootnoteRef {
+  start: number;
+  end: number;
+  number: number;
+}
+
+export interface ChapterNotes {
+  // 依編號排序
+  notes: Footnote[];
+  refs: FootnoteRef[];
+  // 註腳定義所佔的原文範圍（整行），輸出內文時略過
+  definitions: { start: number; end: number }[];
+}
+
+interface ParsedNotes {
+  refs: { label: string; start: number; end: number }[];
+  definitions: { label: string; text: string; start: number; end: number }[];
+}
+
+const DEFINITION = /^ {0,3}\[\^([^\]\s]+)\]:[ \t]?(.*)$/;
+const CONTINUATION = /^( {4}|\t)/;
+const REFERENCE = /\[\^([^\]\s]+)\](?!:)/g;
+
+// 章節物件不可變，以物件本身快取解析結果
+const parsedCache = new WeakMap<StructureUnit, ParsedNotes>();
+
+const parse = (content: string): ParsedNotes => {
+  const definitions: ParsedNotes['definitions'] = [];
+  const lines = content.split('\n');
+  let lineStart = 0;
+  for (let i = 0; i < lines.length; i++) {
+    const match = DEFINITION.exec(lines[i]);
+    if (!match) {
+      lineStart += lines[i].length + 1;
+      continue;
+    }
+    const start = lineStart;
+    const text = [match[2]];
+    let end = lineStart + lines[i].length;
+    // 續行：縮排的行，中間可以夾空行
+    while (i + 1 < lines.length) {
+      let next = i + 1;
+      while (next < lines.length && !lines[next].trim()) next++;
+      if (next >= lines.length || !CONTINUATION.test(lines[next])) break;
+      for (; i < next; i++) {
+        lineStart += lines[i].length + 1;
+        text.push('');
+      }
+      text[text.length - 1] = lines[i].replace(CONTINUATION, '');
+      end = lineStart + lines[i].length;
+    }
+    definitions.push({ label: match[1], text: text.join('\n').replace(/\n{3,}/g, '\n\n').trim(), start, end });
+    lineStart += lines[i].length + 1;
+  }
+
+  const refs: ParsedNotes['refs'] = [];
+  for (const match of content.matchAll(REFERENCE)) {
+    const start = match.index!;
+    if (definitions.some(d => start >= d.start && start <= d.end)) continue;
+    refs.push({ label: match[1], start, end: start + match[0].length });
+  }
+  return { refs, definitions };
+};
+
+const numberNotes = (parsed: ParsedNotes, firstNumber: number): ChapterNotes => {
+  const texts = new Map<string, string>();
+  // 同一標籤定義兩次時以第一個為準
+  parsed.definitions.forEach(d => { if (!texts.has(d.label)) texts.set(d.label, d.text); });
+  const numbers = new Map<string, number>();
+  const notes: Footnote[] = [];
+  const refs: FootnoteRef[] = [];
+  parsed.refs.forEach(ref => {
+    const text = texts.get(ref.label);
+    if (text === undefined) return;
+    let number = numbers.get(ref.label);
+    if (number === undefined) {
+      number = firstNumber + notes.length;
+      numbers.set(ref.label, number);
+      notes.push({ number, label: ref.label, text });
+    }
+    refs.push({ start: ref.start, end: ref.end, number });
+  });
+  return { notes, refs, definitions: parsed.definitions.map(({ start, end }) => ({ start, end })) };
+};
+
+const parsedOf = (chapter: StructureUnit): ParsedNotes => {
+  let parsed = parsedCache.get(chapter);
+  if (!parsed) {
+    parsed = parse(chapter.content);
+    parsedCache.set(chapter, parsed);
+  }
+  return parsed;
+};
+
+export const FOOTNOTE_NUMBERING_LABELS: Record<FootnoteNumbering, string> = {
+  CHAPTER: '每章編號',
+  BOOK: '全書編號'
+};
+
+export const footnotes = {
+  /**
+   * 解析單一章節的註腳，編號自 firstNumber 起算
+   */
+  ofChapter(content: string, firstNumber = 1): ChapterNotes {
+    return numberNotes(parse(content), firstNumber);
+  },
+
+  /**
+   * 依章節順序解析整個專案的註腳；全書編號時每章接續上一章的編號
+   */
+  ofProject(project: Pick<Project, 'chapters' | 'footnoteNumbering'>): Map<string, ChapterNotes> {
+    const result = new Map<string, ChapterNotes>();
+    let next = 1;
+    [...project.chapters].sort((a, b) => a.order - b.order).forEach(chapter => {
+      const notes = numberNotes(parsedOf(chapter), project.footnoteNumbering === 'BOOK' ? next : 1);
+      next += notes.notes.length;
+      result.set(chapter.id, notes);
+    });
+    return result;
+  },
+
+  /**
+   * 章節第一個註腳的編號：全書編號時為前面各章的註腳數加一（編輯器預覽用）
+   */
+  firstNumberOf(project: Pick<Project, 'chapters' | 'footnoteNumbering'>, chapterId: string): number {
+    const chapter = project.chapters.find(c => c.id === chapterId);
+    if (project.footnoteNumbering !== 'BOOK' || !chapter) return 1;
+    return project.chapters
+      .filter(c => c.order < chapter.order)
+      .reduce((next, c) => next + numberNotes(parsedOf(c), 1).notes.length, 1);
+  },
+
+  /**
+   * 以 renderRef 的結果取代內文中的引用並移除註腳定義，其餘文字原樣保留
+   */
+  inline(content: string, notes: ChapterNotes, renderRef: (number: number) => string): string {
+    const cuts = [
+      ...notes.refs.map(r => ({ start: r.start, end: r.end, text: renderRef(r.number) })),
+      // 連同定義行後的換行一起移除
+      ...notes.definitions.map(d => ({ start: d.start, end: Math.min(content.length, d.end + 1), text: '' }))
+    ].sort((a, b) => a.start - b.start);
+    let result = '';
+    let position = 0;
+    cuts.forEach(cut => {
+      if (cut.start < position) return;
+      result += content.slice(position, cut.start) + cut.text;
+      position = cut.end;
+    });
+    return result + content.slice(position);
+  }
+};
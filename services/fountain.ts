@@ -0,0 +1,190 @@
+/**
+ * Fountain 劇本格式（https://fountain.io）：以純文字撰寫，依行的寫法判斷元素——
+ * INT./EXT. 開頭為場景標題、全大寫且下一行接著文字為角色、角色之後為對白與括號提示、以 TO: 結尾為轉場。
+ * 中文角色名沒有大小寫，須以 @ 開頭標示。
+ */
+
+export type FountainElementType =
+  | 'SCENE_HEADING' | 'ACTION' | 'CHARACTER' | 'PARENTHETICAL' | 'DIALOGUE'
+  | 'TRANSITION' | 'CENTERED' | 'LYRICS' | 'PAGE_BREAK' | 'SECTION' | 'SYNOPSIS';
+
+export interface FountainElement {
+  type: FountainElementType;
+  // 已去除強制標記（. ! @ > ~ 等）、註記與場景編號的文字；動作段落可包含多行
+  text: string;
+  // 原文位移
+  start: number;
+  end: number;
+  // 場景標題的編號（#1A# 指定，否則依順序編號）
+  sceneNumber?: string;
+  // 雙人對白的第二位角色（角色名稱以 ^ 結尾）
+  dual?: boolean;
+  // 段落（#）的層級
+  depth?: number;
+}
+
+export interface FountainScript {
+  titlePage: { key: string; value: string }[];
+  elements: FountainElement[];
+}
+
+// 場景標題行在原文中的範圍
+export interface FountainScene {
+  number: string;
+  heading: string;
+  start: number;
+  end: number;
+}
+
+const SCENE_PREFIX = /^(INT|EXT|EST|INT\.?\/EXT|I\/E)[.\s]/i;
+const SCENE_NUMBER = /\s*#([\w.-]+)#\s*$/;
+const TITLE_KEY = /^([A-Za-z][A-Za-z ]*):\s*(.*)$/;
+const PAGE_BREAK = /^\s*={3,}\s*$/;
+
+/**
+ * 以空白取代 /* 註解 *\/ 與 [[註記]] 的內容（保留換行），讓其餘文字的位移不變
+ */
+const blankOut = (text: string) => text.replace(/\/\*[\s\S]*?\*\/|\[\[[\s\S]*?\]\]/g, match => match.replace(/[^\n]/g, ' '));
+
+const isUpperCase = (text: string) => text === text.toUpperCase() && /\p{Lu}/u.test(text);
+
+const isCharacterCue = (line: string) => {
+  const trimmed = line.trim();
+  if (trimmed.startsWith('@')) return trimmed.length > 1;
+  // 角色延伸（V.O.）、（CONT'D）可以小寫
+  const name = trimmed.replace(/\^$/, '').replace(/\(.*\)\s*$/, '').trim();
+  return !!name && isUpperCase(name) && !/[.!?:]$/.test(name) && !SCENE_PREFIX.test(trimmed);
+};
+
+const isTransition = (line: string) => {
+  const trimmed = line.trim();
+  return (trimmed.startsWith('>') && !trimmed.endsWith('<')) || (isUpperCase(trimmed) && /TO:$/.test(trimmed));
+};
+
+const isSceneHeading = (line: string) => {
+  const trimmed = line.trim();
+  return (trimmed.startsWith('.') && /^\.[^.]/.test(trimmed)) || SCENE_PREFIX.test(trimmed);
+};
+
+export const fountain = {
+  parse(source: string): FountainScript {
+    const text = blankOut(source);
+    const lines = text.split('\n');
+    const offsets: number[] = [];
+    lines.reduce((offset, line) => { offsets.push(offset); return offset + line.length + 1; }, 0);
+    const blank = (i: number) => i < 0 || i >= lines.length || !lines[i].trim();
+
+    const titlePage: FountainScript['titlePage'] = [];
+    let i = 0;
+    // 標題頁：開頭連續的「鍵: 值」，值可以換行縮排續寫
+    if (TITLE_KEY.test(lines[0] || '')) {
+      for (; i < lines.length && !blank(i); i++) {
+        const match = TITLE_KEY.exec(lines[i]);
+        if (match && !/^\s/.test(lines[i])) titlePage.push({ key: match[1].trim(), value: match[2].trim() });
+        else if (titlePage.length > 0) {
+          const last = titlePage[titlePage.length - 1];
+          last.value = last.value ? `${last.value}\n${lines[i].trim()}` : lines[i].trim();
+        }
+      }
+    }
+
+    const elements: FountainElement[] = [];
+    let sceneCount = 0;
+    const push = (type: FountainElementType, line: number, content: string, extra: Partial<FountainElement> = {}) => {
+      elements.push({ type, text: content, start: offsets[line], end: offsets[line] + lines[line].length, ...extra });
+    };
+
+    for (; i < lines.length; i++) {
+      const line = lines[i];
+      const trimmed = line.trim();
+      if (!trimmed) continue;
+
+      if (PAGE_BREAK.test(line)) {
+        push('PAGE_BREAK', i, '');
+      } else if (/^#+/.test(trimmed)) {
+        push('SECTION', i, trimmed.replace(/^#+\s*/, ''), { depth: trimmed.match(/^#+/)![0].length });
+      } else if (/^=(?!=)/.test(trimmed)) {
+        push('SYNOPSIS', i, trimmed.slice(1).trim());
+      } else if (trimmed.startsWith('~')) {
+        push('LYRICS', i, trimmed.slice(1).trim());
+      } else if (blank(i - 1) && isSceneHeading(line)) {
+        const numbered = SCENE_NUMBER.exec(trimmed);
+        const heading = trimmed.replace(SCENE_NUMBER, '').replace(/^\./, '').trim();
+        sceneCount++;
+        push('SCENE_HEADING', i, heading.toUpperCase(), { sceneNumber: numbered ? numbered[1] : String(sceneCount) });
+      } else if (trimmed.startsWith('>') && trimmed.endsWith('<')) {
+        push('CENTERED', i, trimmed.slice(1, -1).trim());
+      } else if (blank(i - 1) && blank(i + 1) && isTransition(line)) {
+        push('TRANSITION', i, trimmed.replace(/^>/, '').trim().toUpperCase());
+      } else if (!trimmed.startsWith('!') && blank(i - 1) && !blank(i + 1) && isCharacterCue(line)) {
+        const dual = trimmed.endsWith('^');
+        push('CHARACTER', i, trimmed.replace(/^@/, '').replace(/\^$/, '').trim(), dual ? { dual } : {});
+        // 對白區塊：直到空行為止，括號開頭的行為表演提示
+        for (; !blank(i + 1); i++) {
+          const next = lines[i + 1].trim();
+          push(next.startsWith('(') ? 'PARENTHETICAL' : 'DIALOGUE', i + 1, next);
+        }
+      } else {
+        // 動作：連續的非空行合併為一段，遇到其他元素的開頭時結束
+        const start = i;
+        const parts = [trimmed.replace(/^!/, '')];
+        while (!blank(i + 1) && !PAGE_BREAK.test(lines[i + 1]) && !/^\s*[#=~]/.test(lines[i + 1])) {
+          parts.push(lines[++i].trimEnd());
+        }
+        elements.push({ type: 'ACTION', text: parts.join('\n'), start: offsets[start], end: offsets[i] + lines[i].length });
+      }
+    }
+    return { titlePage, elements };
+  },
+
+  /**
+   * 章節中的場景，供大綱導覽
+   */
+  scenes(source: string): FountainScene[] {
+    return this.parse(source).elements
+      .filter(e => e.type === 'SCENE_HEADING')
+      .map(e => ({ number: e.sceneNumber!, heading: e.text, start: e.start, end: e.end }));
+  },
+
+  /**
+   * 按下 Enter 時整理游標所在行：場景標題、轉場與已出現過的角色名稱轉為大寫（中文角色名補上 @），
+   * 括號提示補上右括號。回傳整理後的文字與插入換行後的游標；不需特別處理時回傳 null，維持一般換行。
+   * 角色之後只換一行接著寫對白，對白與場景標題之後空一行回到動作。
+   */
+  formatOnEnter(source: string, caret: number): { text: string; caret: number } | null {
+    const lineStart = source.lastIndexOf('\n', caret - 1) + 1;
+    const lineEnd = source.indexOf('\n', caret) === -1 ? source.length : source.indexOf('\n', caret);
+    if (caret !== lineEnd) return null;
+    const line = source.slice(lineStart, lineEnd);
+    const trimmed = line.trim();
+    if (!trimmed) return null;
+    const before = source.slice(0, lineStart);
+    const prevLine = before.replace(/\n$/, '').split('\n').pop() || '';
+    const atBlockStart = lineStart === 0 || !prevLine.trim();
+    const done = (formatted: string, newline: string) => ({
+      text: before + formatted + newline + source.slice(lineEnd),
+      caret: lineStart + formatted.length + newline.length
+    });
+
+    if (atBlockStart) {
+      if (isSceneHeading(line)) return done(line.toUpperCase(), '\n\n');
+      if (isTransition(line) || /^\s*[\p{L}\s]+ to:$/iu.test(line)) return done(line.toUpperCase(), '\n\n');
+      if (isCharacterCue(line)) return done(line, '\n');
+      const known = new Set(this.parse(source).elements.filter(e => e.type === 'CHARACTER').map(e => e.text.replace(/\s*\(.*\)$/, '').toUpperCase()));
+      const name = trimmed.replace(/\s*\(.*\)$/, '');
+      if (known.has(name.toUpperCase())) {
+        // 延伸如 (V.O.) 依慣例大寫
+        const cue = isUpperCase(name.toUpperCase()) ? trimmed.toUpperCase() : `@${trimmed}`;
+        return done(line.replace(trimmed, cue), '\n');
+      }
+      return null;
+    }
+
+    // 對白區塊內：往上找到區塊開頭確認是角色
+    const blockStart = before.replace(/\n$/, '').lastIndexOf('\n\n');
+    const blockFirst = source.slice(blockStart === -1 ? 0 : blockStart + 2).split('\n')[0];
+    if (!isCharacterCue(blockFirst)) return null;
+    if (trimmed.startsWith('(')) return done(trimmed.endsWith(')') ? line : `${line})`, '\n');
+    return done(line, '\n\n');
+  }
+};
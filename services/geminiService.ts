@@ -2,6 +2,7 @@
 // @google/genai SDK implementation for InsPublish core AI services.
 import { GoogleGenAI, Type } from "@google/genai";
 import { CoverAssetType, CoverAsset } from "../types";
+import { assetStore } from "./assetStore";
 
 // Initialize AI client with environment API key.
 const getAIClient = () => {
@@ -60,10 +61,11 @@ export const geminiService = {
 
     if (response.generatedImages && response.generatedImages.length > 0) {
       const base64Bytes = response.generatedImages[0].image.imageBytes;
-      const url = `data:image/jpeg;base64,${base64Bytes}`;
+      const ref = await assetStore.putDataUrl(`data:image/jpeg;base64,${base64Bytes}`);
       
       return {
-        url,
+        ref,
+        mimeType: 'image/jpeg',
         type: targetSpecs,
         width: spec.width,
         height: spec.height,
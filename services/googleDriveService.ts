@@ -1,3 +1,59 @@
+import { cryptoService } from './cryptoService';
+
+// 可指向本機模擬的 Drive REST 端點（GOOGLE_DRIVE_API_URL），預設為正式服務
+const DRIVE_API_URL = process.env.GOOGLE_DRIVE_API_URL || 'https://www.googleapis.com';
+// OAuth 授權端點（GOOGLE_OAUTH_URL）；本機模擬伺服器（scripts/fake-drive.mjs）也提供授權頁並核發測試權杖
+const OAUTH_URL = process.env.GOOGLE_OAUTH_URL || 'https://accounts.google.com';
+const FOLDER_MIME = 'application/vnd.google-apps.folder';
+const FILE_FIELDS = 'id,name,mimeType,modifiedTime,size,appProperties';
+
+export interface DriveFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  modifiedTime?: string;
+  size?: string;
+  appProperties?: Record<string, string>;
+}
+
+export interface DriveRevision {
+  id: string;
+  modifiedTime: string;
+  size?: string;
+  keepForever?: boolean;
+}
+
+export interface UploadOptions {
+  parentId?: string;
+  fileId?: string;
+  appProperties?: Record<string, string>;
+}
+
+/**
+ * Drive API 回應錯誤；status 401 代表存取權杖失效
+ */
+export class DriveApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'DriveApiError';
+  }
+}
+
+const checkResponse = async (response: Response, fallbackMessage: string): Promise<Response> => {
+  if (response.ok) return response;
+  const error = await response.json().catch(() => null);
+  throw new DriveApiError(error?.error?.message || fallbackMessage, response.status);
+};
+
+const driveRequest = async <T>(path: string, accessToken: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(`${DRIVE_API_URL}${path}`, {
+    ...init,
+    headers: { ...init.headers, 'Authorization': `Bearer ${accessToken}` }
+  });
+  return (await checkResponse(response, 'Google Drive 請求失敗')).json();
+};
+
+const escapeQuery = (value: string) => value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
 
 export const googleDriveService = {
   CLIENT_ID: 'YOUR_GOOGLE_CLIENT_ID.apps.googleusercontent.com', // Placeholder for actual Client ID
@@ -6,7 +62,7 @@ export const googleDriveService = {
   async authenticate(): Promise<string> {
     return new Promise((resolve, reject) => {
       const callbackUrl = window.location.origin;
-      const authUrl = `https://accounts.google.com/o/oauth2/v2/auth?client_id=${this.CLIENT_ID}&redirect_uri=${encodeURIComponent(callbackUrl)}&response_type=token&scope=${encodeURIComponent(this.SCOPES)}&include_granted_scopes=true&state=inspublish_auth`;
+      const authUrl = `${OAUTH_URL}/o/oauth2/v2/auth?client_id=${this.CLIENT_ID}&redirect_uri=${encodeURIComponent(callbackUrl)}&response_type=token&scope=${encodeURIComponent(this.SCOPES)}&include_granted_scopes=true&state=inspublish_auth`;
       
       const width = 500, height = 600;
       const left = (window.innerWidth - width) / 2;
@@ -37,29 +93,113 @@ export const googleDriveService = {
     });
   },
 
-  async uploadFile(blob: Blob, fileName: string, accessToken: string): Promise<any> {
-    const metadata = {
+  /**
+   * 上傳檔案至指定資料夾；帶入 fileId 時改為更新既有檔案（Drive 會保留為新的修訂版本）
+   */
+  async uploadFile(blob: Blob, fileName: string, accessToken: string, options: UploadOptions = {}): Promise<DriveFile> {
+    const metadata: Record<string, unknown> = {
       name: fileName,
-      mimeType: blob.type,
+      mimeType: blob.type || 'application/octet-stream',
     };
+    if (options.appProperties) metadata.appProperties = options.appProperties;
+    if (options.parentId && !options.fileId) metadata.parents = [options.parentId];
 
     const form = new FormData();
     form.append('metadata', new Blob([JSON.stringify(metadata)], { type: 'application/json' }));
     form.append('file', blob);
 
-    const response = await fetch('https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-      },
-      body: form,
+    const query = `uploadType=multipart&fields=${FILE_FIELDS}${options.fileId ? '&keepRevisionForever=true' : ''}`;
+    const response = await fetch(
+      options.fileId ? `${DRIVE_API_URL}/upload/drive/v3/files/${options.fileId}?${query}` : `${DRIVE_API_URL}/upload/drive/v3/files?${query}`,
+      {
+        method: options.fileId ? 'PATCH' : 'POST',
+        headers: { 'Authorization': `Bearer ${accessToken}` },
+        body: form,
+      }
+    );
+    return (await checkResponse(response, '上傳至 Google Drive 失敗')).json();
+  },
+
+  /**
+   * 上傳備份檔：本機加密啟用時以同一把金鑰加密，檔名加上 .enc
+   */
+  async uploadBackup(blob: Blob, fileName: string, accessToken: string, options: UploadOptions = {}): Promise<DriveFile> {
+    if (!cryptoService.isEnabled()) return this.uploadFile(blob, fileName, accessToken, options);
+    return this.uploadFile(await cryptoService.sealBlob(blob), `${fileName}.enc`, accessToken, options);
+  },
+
+  /**
+   * 永久刪除檔案及其所有修訂版本
+   */
+  async deleteFile(fileId: string, accessToken: string): Promise<void> {
+    const response = await fetch(`${DRIVE_API_URL}/drive/v3/files/${fileId}`, {
+      method: 'DELETE',
+      headers: { 'Authorization': `Bearer ${accessToken}` }
     });
+    await checkResponse(response, '自 Google Drive 刪除檔案失敗');
+  },
 
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error?.message || '上傳至 Google Drive 失敗');
+  /**
+   * 依路徑逐層尋找資料夾，不存在的層級自動建立，回傳最末層資料夾 id
+   */
+  async ensureFolder(path: string, accessToken: string): Promise<string> {
+    let parentId = 'root';
+    for (const name of path.split('/').filter(Boolean)) {
+      const q = `name = '${escapeQuery(name)}' and mimeType = '${FOLDER_MIME}' and '${parentId}' in parents and trashed = false`;
+      const { files } = await driveRequest<{ files: DriveFile[] }>(`/drive/v3/files?q=${encodeURIComponent(q)}&fields=files(id)`, accessToken);
+      if (files.length > 0) {
+        parentId = files[0].id;
+        continue;
+      }
+      const created = await driveRequest<DriveFile>('/drive/v3/files?fields=id', accessToken, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, mimeType: FOLDER_MIME, parents: [parentId] })
+      });
+      parentId = created.id;
     }
+    return parentId;
+  },
+
+  async listFiles(folderId: string, accessToken: string): Promise<DriveFile[]> {
+    const q = `'${folderId}' in parents and trashed = false`;
+    const files: DriveFile[] = [];
+    let pageToken: string | undefined;
+    do {
+      const page = await driveRequest<{ files: DriveFile[]; nextPageToken?: string }>(
+        `/drive/v3/files?q=${encodeURIComponent(q)}&pageSize=1000&fields=nextPageToken,files(${FILE_FIELDS})${pageToken ? `&pageToken=${pageToken}` : ''}`,
+        accessToken
+      );
+      files.push(...page.files);
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+    return files;
+  },
+
+  async listRevisions(fileId: string, accessToken: string): Promise<DriveRevision[]> {
+    const { revisions } = await driveRequest<{ revisions: DriveRevision[] }>(
+      `/drive/v3/files/${fileId}/revisions?fields=revisions(id,modifiedTime,size,keepForever)`,
+      accessToken
+    );
+    return revisions;
+  },
+
+  /**
+   * 下載檔案內容；指定 revisionId 時下載該修訂版本
+   */
+  async downloadFile(fileId: string, accessToken: string, revisionId?: string): Promise<Blob> {
+    const path = revisionId ? `/drive/v3/files/${fileId}/revisions/${revisionId}` : `/drive/v3/files/${fileId}`;
+    const response = await fetch(`${DRIVE_API_URL}${path}?alt=media`, {
+      headers: { 'Authorization': `Bearer ${accessToken}` }
+    });
+    return (await checkResponse(response, '自 Google Drive 下載失敗')).blob();
+  },
 
-    return await response.json();
+  /**
+   * 還原下載的備份檔；加密檔需本機已解鎖且為同一把金鑰
+   */
+  async openBackup(blob: Blob, type?: string): Promise<Blob> {
+    if (!(await cryptoService.isSealedBlob(blob))) return blob;
+    return cryptoService.openBlob(blob, type);
   }
 };
@@ -0,0 +1,301 @@
+import JSZip from 'jszip';
+import {
+  DB_VERSION, LibraryDump, ProjectRecord, ChapterRecord, SnapshotRecord, AssetRecord, BlobRecord, LegacyCovers,
+  coverAssetId, assetRefs, extractLegacyCovers
+} from './dbSchema';
+import { decodeHistory } from './snapshotCodec';
+import { digestHex } from './contentHash';
+import { dbService, RestoreMode } from './dbService';
+import { settingsRegistry } from './settingsRegistry';
+
+export const ARCHIVE_FORMAT = 'inspub';
+export const ARCHIVE_EXTENSION = '.inspub';
+
+// 最早可匯入的資料庫結構版本：v2 起才有獨立的章節、快照與資產儲存區
+const MIN_SCHEMA_VERSION = 2;
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  schemaVersion: number;
+  exportedAt: number;
+  projects: { id: string; name: string; chapterCount: number; snapshotCount: number }[];
+  // v3 起封面圖片以 blobs/<hash> 原始檔案保存
+  blobs?: { hash: string; type: string; size: number }[];
+  settingKeys: string[];
+  // 匯出裝置的本機使用者 id：ownerId 與其相同的專案為匯出者本人的專案
+  userId?: string;
+}
+
+export interface LibraryArchive {
+  manifest: ArchiveManifest;
+  dump: LibraryDump;
+}
+
+export interface ImportSummary {
+  projectCount: number;
+  remappedProjects: number;
+  mode: RestoreMode;
+}
+
+/**
+ * 備份檔格式錯誤或內容損毀
+ */
+export class LibraryArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LibraryArchiveError';
+  }
+}
+
+const projectPath = (projectId: string, file: string) => `projects/${projectId}/${file}`;
+const blobPath = (hash: string) => `blobs/${hash}`;
+
+/**
+ * 自完整傾印中取出指定專案及其章節、快照與封面資產（不含設定），供單一專案備份使用
+ */
+export const pickProjects = (dump: LibraryDump, projectIds: string[]): LibraryDump => {
+  const ids = new Set(projectIds);
+  const assets = dump.assets.filter(a => ids.has(a.projectId));
+  const refs = new Set(assets.flatMap(a => assetRefs(a)));
+  return {
+    projects: dump.projects.filter(p => ids.has(p.id)),
+    chapters: dump.chapters.filter(c => ids.has(c.projectId)),
+    snapshots: dump.snapshots.filter(s => ids.has(s.projectId)),
+    assets,
+    blobs: dump.blobs.filter(b => refs.has(b.hash)),
+    settings: {}
+  };
+};
+
+/**
+ * 將資料庫傾印打包為 .inspub（ZIP）：
+ * manifest.json、settings.json、blobs/（封面圖片原檔），以及每個專案一個資料夾（project / chapters / snapshots / assets）。
+ * 快照維持關鍵影格 + 增量編碼，不另行展開。
+ */
+export const packLibraryArchive = async (dump: LibraryDump): Promise<Blob> => {
+  const zip = new JSZip();
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    schemaVersion: DB_VERSION,
+    exportedAt: Date.now(),
+    projects: dump.projects.map(p => ({
+      id: p.id,
+      name: p.name,
+      chapterCount: dump.chapters.filter(c => c.projectId === p.id).length,
+      snapshotCount: dump.snapshots.filter(s => s.projectId === p.id).length
+    })),
+    blobs: dump.blobs.map(b => ({ hash: b.hash, type: b.type, size: b.size })),
+    settingKeys: Object.keys(dump.settings),
+    userId: (await settingsRegistry.get('userId')) || undefined
+  };
+
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+  zip.file('settings.json', JSON.stringify(dump.settings));
+
+  dump.blobs.forEach(b => zip.file(blobPath(b.hash), b.blob));
+
+  dump.projects.forEach(({ revision, ...record }) => {
+    zip.file(projectPath(record.id, 'project.json'), JSON.stringify(record));
+    zip.file(projectPath(record.id, 'chapters.json'), JSON.stringify(dump.chapters.filter(c => c.projectId === record.id)));
+    zip.file(projectPath(record.id, 'snapshots.json'), JSON.stringify(dump.snapshots.filter(s => s.projectId === record.id)));
+    const asset = dump.assets.find(a => a.projectId === record.id);
+    if (asset) zip.file(projectPath(record.id, 'assets.json'), JSON.stringify(asset));
+  });
+
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+export const exportLibraryArchive = async (): Promise<Blob> => packLibraryArchive(await dbService.dumpLibrary());
+
+const readJson = async <T>(zip: JSZip, path: string, required = true): Promise<T | null> => {
+  const entry = zip.file(path);
+  if (!entry) {
+    if (required) throw new LibraryArchiveError(`備份檔缺少 ${path}`);
+    return null;
+  }
+  try {
+    return JSON.parse(await entry.async('string')) as T;
+  } catch {
+    throw new LibraryArchiveError(`${path} 不是有效的 JSON`);
+  }
+};
+
+const validateProject = (id: string, record: ProjectRecord, chapters: ChapterRecord[], snapshots: SnapshotRecord[]) => {
+  if (!record || record.id !== id || typeof record.name !== 'string') {
+    throw new LibraryArchiveError(`專案 ${id} 的主記錄無效`);
+  }
+  if (!Array.isArray(chapters) || !Array.isArray(snapshots)) {
+    throw new LibraryArchiveError(`專案「${record.name}」的章節或快照格式無效`);
+  }
+
+  const chapterIds = new Set<string>();
+  chapters.forEach(c => {
+    if (typeof c.id !== 'string' || c.projectId !== id || typeof c.content !== 'string' || typeof c.order !== 'number') {
+      throw new LibraryArchiveError(`專案「${record.name}」含有無效的章節記錄`);
+    }
+    chapterIds.add(c.id);
+  });
+
+  const byChapter: Record<string, SnapshotRecord[]> = {};
+  snapshots.forEach(s => {
+    const isKeyframe = typeof s.content === 'string';
+    const isDelta = typeof s.baseId === 'string' && Array.isArray(s.delta);
+    if (typeof s.id !== 'string' || s.projectId !== id || !chapterIds.has(s.chapterId) || typeof s.timestamp !== 'number' || (!isKeyframe && !isDelta)) {
+      throw new LibraryArchiveError(`專案「${record.name}」含有無效的快照記錄`);
+    }
+    (byChapter[s.chapterId] ||= []).push(s);
+  });
+
+  // 每條快照鏈都必須能完整還原
+  Object.values(byChapter).forEach(records => {
+    if (decodeHistory(records).length !== records.length) {
+      throw new LibraryArchiveError(`專案「${record.name}」的快照鏈已損毀`);
+    }
+  });
+};
+
+/**
+ * 讀取並驗證 .inspub 備份檔。結構版本較新、檔案缺漏或快照鏈無法還原時拋出 LibraryArchiveError。
+ */
+export const readLibraryArchive = async (file: Blob): Promise<LibraryArchive> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new LibraryArchiveError('無法開啟備份檔，檔案可能已損毀');
+  }
+
+  const manifest = (await readJson<ArchiveManifest>(zip, 'manifest.json'))!;
+  if (manifest.format !== ARCHIVE_FORMAT || !Array.isArray(manifest.projects)) {
+    throw new LibraryArchiveError('不是 InsPublish 備份檔');
+  }
+  if (typeof manifest.schemaVersion !== 'number' || manifest.schemaVersion < MIN_SCHEMA_VERSION) {
+    throw new LibraryArchiveError('備份檔的資料結構版本過舊，無法匯入');
+  }
+  if (manifest.schemaVersion > DB_VERSION) {
+    throw new LibraryArchiveError('備份檔由較新版本的 InsPublish 建立，請先更新應用程式');
+  }
+  if (manifest.userId !== undefined && typeof manifest.userId !== 'string') {
+    throw new LibraryArchiveError('備份檔的使用者資訊無效');
+  }
+
+  const dump: LibraryDump = {
+    projects: [],
+    chapters: [],
+    snapshots: [],
+    assets: [],
+    blobs: [],
+    settings: (await readJson<Record<string, unknown>>(zip, 'settings.json', false)) || {}
+  };
+
+  for (const { id } of manifest.projects) {
+    const record = (await readJson<ProjectRecord>(zip, projectPath(id, 'project.json')))!;
+    const chapters = (await readJson<ChapterRecord[]>(zip, projectPath(id, 'chapters.json')))!;
+    const snapshots = (await readJson<SnapshotRecord[]>(zip, projectPath(id, 'snapshots.json')))!;
+    const asset = await readJson<AssetRecord & LegacyCovers>(zip, projectPath(id, 'assets.json'), false);
+    validateProject(id, record, chapters, snapshots);
+
+    dump.projects.push(record);
+    dump.chapters.push(...chapters);
+    dump.snapshots.push(...snapshots);
+    if (!asset) continue;
+    if (manifest.schemaVersion < 3) {
+      // v2 備份的封面為內嵌 base64，於此轉為參照
+      const legacy = extractLegacyCovers(id, asset);
+      if (legacy.asset) dump.assets.push(legacy.asset);
+      dump.blobs.push(...legacy.blobs.filter(b => !dump.blobs.some(existing => existing.hash === b.hash)));
+    } else {
+      dump.assets.push({ ...asset, id: coverAssetId(id), projectId: id });
+    }
+  }
+
+  for (const { hash, type } of manifest.blobs || []) {
+    const entry = zip.file(blobPath(hash));
+    if (!entry) throw new LibraryArchiveError(`備份檔缺少封面資產 ${hash}`);
+    const bytes = await entry.async('uint8array');
+    if (await digestHex(bytes) !== hash) throw new LibraryArchiveError(`封面資產 ${hash} 內容與雜湊不符`);
+    dump.blobs.push({ hash, blob: new Blob([bytes], { type }), type, size: bytes.length, refCount: 0, createdAt: Date.now() } as BlobRecord);
+  }
+
+  const available = new Set(dump.blobs.map(b => b.hash));
+  dump.assets.forEach(asset => {
+    const missing = assetRefs(asset).find(ref => !available.has(ref));
+    if (missing) throw new LibraryArchiveError(`封面資產 ${missing} 遺失`);
+  });
+
+  return { manifest, dump };
+};
+
+/**
+ * 為與本機既有資料衝突的 id 重新編號。
+ * 專案 id 衝突時整個專案視為副本，章節與快照一併換新 id；快照增量的 baseId 同步改寫。
+ */
+export const remapCollisions = (
+  dump: LibraryDump,
+  existing: { projects: Set<string>; chapters: Set<string>; snapshots: Set<string> }
+): { dump: LibraryDump; remappedProjects: number } => {
+  const stamp = Date.now().toString(36);
+  const projectIds = new Map<string, string>();
+  const chapterIds = new Map<string, string>();
+  const snapshotIds = new Map<string, string>();
+
+  dump.projects.forEach(p => {
+    if (existing.projects.has(p.id)) projectIds.set(p.id, `${p.id}-${stamp}`);
+  });
+  dump.chapters.forEach(c => {
+    if (projectIds.has(c.projectId) || existing.chapters.has(c.id)) chapterIds.set(c.id, `${c.id}-${stamp}`);
+  });
+  dump.snapshots.forEach(s => {
+    if (chapterIds.has(s.chapterId) || existing.snapshots.has(s.id)) snapshotIds.set(s.id, `${s.id}-${stamp}`);
+  });
+
+  const pid = (id: string) => projectIds.get(id) || id;
+  const cid = (id: string) => chapterIds.get(id) || id;
+  const sid = (id: string) => snapshotIds.get(id) || id;
+
+  return {
+    remappedProjects: projectIds.size,
+    dump: {
+      projects: dump.projects.map(p => projectIds.has(p.id) ? { ...p, id: pid(p.id), name: `${p.name}（匯入）` } : p),
+      chapters: dump.chapters.map(c => ({ ...c, id: cid(c.id), projectId: pid(c.projectId) })),
+      snapshots: dump.snapshots.map(s => ({
+        ...s,
+        id: sid(s.id),
+        projectId: pid(s.projectId),
+        chapterId: cid(s.chapterId),
+        ...(s.baseId ? { baseId: sid(s.baseId) } : {})
+      })),
+      assets: dump.assets.map(a => ({ ...a, id: coverAssetId(pid(a.projectId)), projectId: pid(a.projectId) })),
+      blobs: dump.blobs,
+      settings: dump.settings
+    }
+  };
+};
+
+/**
+ * 匯出者本人的專案（ownerId 與匯出裝置的使用者 id 相同或未設定）改由本機使用者擁有；
+ * 他人共享給匯出者的專案保留原擁有者。本機使用者 id 尚未產生時清除 ownerId，由載入書庫時認領。
+ */
+const adoptOwnProjects = (dump: LibraryDump, archiveUserId: string | undefined, localUserId: string): LibraryDump => ({
+  ...dump,
+  projects: dump.projects.map(p => !p.ownerId || p.ownerId === archiveUserId ? { ...p, ownerId: localUserId || undefined } : p)
+});
+
+/**
+ * 匯入已驗證的備份。merge 會保留本機資料並為衝突的 id 重新編號；replace 以備份取代整個資料庫；
+ * overwrite 僅以備份內容取代同 id 的專案。
+ * replace 一併套用備份中的使用者 id；其餘模式沿用本機的使用者 id，匯出者本人的專案改歸本機使用者。
+ */
+export const importLibraryArchive = async (archive: LibraryArchive, mode: RestoreMode): Promise<ImportSummary> => {
+  let dump = archive.dump;
+  let remappedProjects = 0;
+  if (mode !== 'replace') {
+    dump = adoptOwnProjects(dump, archive.manifest.userId, await settingsRegistry.get('userId'));
+  }
+  if (mode === 'merge') {
+    ({ dump, remappedProjects } = remapCollisions(dump, await dbService.getLibraryKeys()));
+  }
+  await dbService.restoreLibrary(dump, mode);
+  return { projectCount: dump.projects.length, remappedProjects, mode };
+};
@@ -0,0 +1,224 @@
+import jsPDF from 'jspdf';
+import { Project } from '../types';
+import { citations } from './citations';
+import { ChapterNotes, Footnote, footnotes } from './footnotes';
+
+// PAGE 註腳排在引用所在頁的頁尾；CHAPTER_END 集中在每章結尾
+export type PdfNotePlacement = 'PAGE' | 'CHAPTER_END';
+
+export interface PdfExportOptions {
+  notePlacement: PdfNotePlacement;
+}
+
+// 版面（mm / pt）
+const MARGIN = 20;
+const BODY_SIZE = 11;
+const NOTE_SIZE = 8.5;
+const TITLE_SIZE = 18;
+const SUP_SCALE = 0.6;
+const PT_TO_MM = 0.3528;
+const lineHeightOf = (size: number) => size * PT_TO_MM * 1.5;
+
+// 斷行單位：中日韓文字逐字、其餘以詞與空白為單位；上標的註腳編號附在前一個單位後，不會單獨換行
+type Part = { text: string; sup: boolean };
+type Piece = { parts: Part[]; space: boolean };
+type Line = Piece[];
+
+const TOKEN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|\s+|[^\s\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+/gu;
+
+const piecesOf = (text: string): Piece[] =>
+  (text.match(TOKEN) || []).map(token => ({ parts: [{ text: token, sup: false }], space: !token.trim() }));
+
+const appendMarker = (pieces: Piece[], number: number) => {
+  const marker = { text: String(number), sup: true };
+  const last = pieces[pieces.length - 1];
+  if (last && !last.space) last.parts.push(marker);
+  else pieces.push({ parts: [marker], space: false });
+};
+
+/**
+ * 以 jsPDF 產生文稿 PDF：每章另起一頁，內文自行斷行以便追蹤每一行引用的註腳，
+ * 頁尾註腳所需的高度在排入該行之前先預留
+ */
+const createLayout = (options: PdfExportOptions) => {
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  const width = pdf.internal.pageSize.getWidth() - MARGIN * 2;
+  const bottom = pdf.internal.pageSize.getHeight() - MARGIN;
+  // 頁尾註腳上方的分隔線與間距
+  const separatorHeight = lineHeightOf(NOTE_SIZE);
+  let y = MARGIN;
+  let started = false;
+  // 本頁待排在頁尾的註腳
+  let pageNotes: Line[][] = [];
+  let pageNotesHeight = 0;
+
+  const widthOf = (piece: Piece, size: number): number => piece.parts.reduce((sum, part) => {
+    pdf.setFontSize(part.sup ? size * SUP_SCALE : size);
+    return sum + pdf.getTextWidth(part.text);
+  }, 0);
+
+  const wrap = (pieces: Piece[], size: number): Line[] => {
+    const lines: Line[] = [];
+    let line: Line = [];
+    let lineWidth = 0;
+    pieces.forEach(piece => {
+      if (piece.space && line.length === 0) return;
+      const pieceWidth = widthOf(piece, size);
+      if (!piece.space && line.length > 0 && lineWidth + pieceWidth > width) {
+        while (line.length > 0 && line[line.length - 1].space) line.pop();
+        lines.push(line);
+        line = [];
+        lineWidth = 0;
+      }
+      line.push(piece);
+      lineWidth += pieceWidth;
+    });
+    if (line.length > 0) lines.push(line);
+    return lines;
+  };
+
+  const drawLine = (line: Line, size: number, baseline: number) => {
+    let x = MARGIN;
+    line.forEach(piece => piece.parts.forEach(part => {
+      pdf.setFontSize(part.sup ? size * SUP_SCALE : size);
+      pdf.text(part.text, x, part.sup ? baseline - size * PT_TO_MM * 0.35 : baseline);
+      x += pdf.getTextWidth(part.text);
+    }));
+  };
+
+  // 註腳內容以空行分段，段內的換行視為空白
+  const noteLines = (note: Footnote): Line[] => note.text.split(/\n{2,}/).flatMap((paragraph, i) =>
+    wrap(piecesOf(`${i === 0 ? `${note.number}. ` : ''}${paragraph.replace(/\n/g, ' ')}`), NOTE_SIZE)
+  );
+
+  const flushPageNotes = () => {
+    if (pageNotes.length === 0) return;
+    let noteY = bottom - pageNotesHeight;
+    pdf.setLineWidth(0.2);
+    pdf.line(MARGIN, noteY, MARGIN + width / 3, noteY);
+    noteY += separatorHeight * 0.5;
+    pageNotes.flat().forEach(line => {
+      noteY += lineHeightOf(NOTE_SIZE);
+      drawLine(line, NOTE_SIZE, noteY - lineHeightOf(NOTE_SIZE) * 0.3);
+    });
+    pageNotes = [];
+    pageNotesHeight = 0;
+  };
+
+  const newPage = () => {
+    flushPageNotes();
+    if (started) pdf.addPage();
+    started = true;
+    y = MARGIN;
+  };
+
+  // 排入一行；該行首次引用的註腳需要一起放進本頁頁尾，放不下時換頁
+  const placeLine = (line: Line, size: number, notes: Line[][] = []) => {
+    const lineHeight = lineHeightOf(size);
+    const notesHeight = () => notes.length === 0 ? 0
+      : notes.reduce((sum, lines) => sum + lines.length * lineHeightOf(NOTE_SIZE), 0) + (pageNotes.length === 0 ? separatorHeight : 0);
+    if (y + lineHeight + notesHeight() > bottom - pageNotesHeight && y > MARGIN) newPage();
+    y += lineHeight;
+    drawLine(line, size, y - lineHeight * 0.3);
+    pageNotesHeight += notesHeight();
+    pageNotes.push(...notes);
+  };
+
+  return {
+    newPage,
+
+    heading(title: string) {
+      wrap(piecesOf(title), TITLE_SIZE).forEach(line => placeLine(line, TITLE_SIZE));
+      y += lineHeightOf(BODY_SIZE);
+    },
+
+    // 不含註腳的單一段落，用於參考文獻
+    paragraph(text: string) {
+      wrap(piecesOf(text), BODY_SIZE).forEach(line => placeLine(line, BODY_SIZE));
+      y += lineHeightOf(BODY_SIZE) * 0.4;
+    },
+
+    /**
+     * 排入章節內文：略過註腳定義行，引用處換成上標編號
+     */
+    chapterBody(content: string, notes: ChapterNotes) {
+      const placed = new Set<number>();
+      let lineStart = 0;
+      content.split('\n').forEach(text => {
+        const offset = lineStart;
+        const lineEnd = lineStart + text.length;
+        lineStart = lineEnd + 1;
+        if (notes.definitions.some(d => offset >= d.start && offset <= d.end)) return;
+        if (!text.trim()) {
+          y += lineHeightOf(BODY_SIZE) * 0.5;
+          return;
+        }
+
+        // 記下每則註腳首次引用時附在哪個斷行單位，換行後才知道註腳落在哪一行
+        const pieces: Piece[] = [];
+        const notesOf = new Map<Piece, number[]>();
+        let position = offset;
+        notes.refs.filter(r => r.start >= offset && r.end <= lineEnd).forEach(ref => {
+          pieces.push(...piecesOf(content.slice(position, ref.start)));
+          appendMarker(pieces, ref.number);
+          if (!placed.has(ref.number)) {
+            placed.add(ref.number);
+            const last = pieces[pieces.length - 1];
+            notesOf.set(last, [...(notesOf.get(last) || []), ref.number]);
+          }
+          position = ref.end;
+        });
+        pieces.push(...piecesOf(content.slice(position, lineEnd)));
+
+        wrap(pieces, BODY_SIZE).forEach(line => {
+          const lineNotes = options.notePlacement === 'PAGE'
+            ? line.flatMap(piece => notesOf.get(piece) || []).map(n => noteLines(notes.notes.find(note => note.number === n)!))
+            : [];
+          placeLine(line, BODY_SIZE, lineNotes);
+        });
+        y += lineHeightOf(BODY_SIZE) * 0.4;
+      });
+
+      if (options.notePlacement === 'CHAPTER_END' && notes.notes.length > 0) {
+        y += lineHeightOf(BODY_SIZE);
+        wrap(piecesOf('Notes'), BODY_SIZE).forEach(line => placeLine(line, BODY_SIZE));
+        notes.notes.forEach(note => noteLines(note).forEach(line => placeLine(line, NOTE_SIZE)));
+      }
+    },
+
+    finish(): jsPDF {
+      flushPageNotes();
+      return pdf;
+    }
+  };
+};
+
+export const pdfExport = {
+  /**
+   * 將專案所有章節依順序組成文稿 PDF，內文引用套用專案的引用格式，被引用的文獻另起一頁列在最後
+   */
+  build(project: Project, options: PdfExportOptions): Blob {
+    const layout = createLayout(options);
+    const source = citations.renderProject(project);
+    const notesByChapter = footnotes.ofProject(source);
+    [...source.chapters].sort((a, b) => a.order - b.order).forEach(chapter => {
+      layout.newPage();
+      layout.heading(chapter.title);
+      layout.chapterBody(chapter.content, notesByChapter.get(chapter.id)!);
+    });
+    const references = citations.bibliography(citations.contextOf(project), citations.citedKeys(project));
+    if (references.entries.length > 0) {
+      layout.newPage();
+      layout.heading(references.heading);
+      // jsPDF 的內建字型無法混排斜體，移除斜體標記
+      references.entries.forEach(entry => layout.paragraph(citations.plain(entry)));
+    }
+    const pdf = layout.finish();
+    pdf.setProperties({
+      title: project.publishingPayload?.title || project.name,
+      author: project.publishingPayload?.author || '',
+      creator: 'InsPublish'
+    });
+    return pdf.output('blob');
+  }
+};
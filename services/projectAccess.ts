@@ -0,0 +1,139 @@
+import { AppState, PermissionLevel, Project, ProjectMember } from '../types';
+import { digestHex } from './contentHash';
+
+/**
+ * 本機使用者在專案中的角色：OWNER 為擁有者；REVOKED 代表曾受邀但已被移除，只保留唯讀檢視；
+ * 不是擁有者也未接受邀請的作品為 VIEWER
+ */
+export type ProjectRole = 'OWNER' | PermissionLevel | 'REVOKED';
+
+export const ROLE_LABELS: Record<ProjectRole, string> = {
+  OWNER: '擁有者',
+  [PermissionLevel.EDITOR]: '編輯者',
+  [PermissionLevel.COMMENTER]: '評論者',
+  [PermissionLevel.VIEWER]: '檢視者',
+  REVOKED: '已撤銷'
+};
+
+/**
+ * 邀請碼無效、已被撤銷，或本機沒有該作品
+ */
+export class InviteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InviteError';
+  }
+}
+
+const randomToken = () => Array.from(crypto.getRandomValues(new Uint8Array(12)), b => b.toString(16).padStart(2, '0')).join('');
+
+// 專案只保存邀請碼的雜湊：取得專案副本的人無法由成員清單還原可用的邀請碼
+const hashToken = (token: string) => digestHex(new TextEncoder().encode(token));
+
+const withMembers = (project: Project, members: ProjectMember[]): Project => ({ ...project, members, updatedAt: Date.now() });
+
+// 本機使用者的身分：自己的使用者 id 與以成員身分加入的專案
+type Identity = Pick<AppState, 'userId' | 'projectMemberships'>;
+
+export const projectAccess = {
+  /**
+   * 擁有者以 ownerId 判斷；其餘透過匯入、協作同步或雲端取得的作品，未接受邀請前只能檢視。
+   * 成員在擁有者端可能仍顯示為待接受（接受狀態未必同步回擁有者），因此只要成員仍在清單中即沿用其角色。
+   */
+  roleOf(project: Project, identity: Identity): ProjectRole {
+    if (identity.userId && project.ownerId === identity.userId) return 'OWNER';
+    const memberId = identity.projectMemberships[project.id];
+    if (!memberId) return PermissionLevel.VIEWER;
+    const member = project.members?.find(m => m.id === memberId);
+    return member ? member.role : 'REVOKED';
+  },
+
+  canEdit(role: ProjectRole): boolean {
+    return role === 'OWNER' || role === PermissionLevel.EDITOR;
+  },
+
+  canComment(role: ProjectRole): boolean {
+    return this.canEdit(role) || role === PermissionLevel.COMMENTER;
+  },
+
+  canManageMembers(role: ProjectRole): boolean {
+    return role === 'OWNER';
+  },
+
+  /**
+   * 批註與協作顯示的作者名稱：成員以受邀信箱表示，擁有者顯示角色名稱
+   */
+  authorName(project: Project, identity: Identity): string {
+    const memberId = identity.projectMemberships[project.id];
+    return project.members?.find(m => m.id === memberId)?.email || ROLE_LABELS.OWNER;
+  },
+
+  // 邀請碼格式：<專案 id>.<token>
+  parseInviteCode(code: string): { projectId: string; token: string } {
+    const trimmed = code.trim();
+    const dot = trimmed.lastIndexOf('.');
+    if (dot <= 0 || dot === trimmed.length - 1) throw new InviteError('邀請碼格式不正確');
+    return { projectId: trimmed.slice(0, dot), token: trimmed.slice(dot + 1) };
+  },
+
+  /**
+   * 建立待接受的邀請並回傳邀請碼（只在此時取得一次）；同一信箱已有成員時改為更新其角色，不產生邀請碼
+   */
+  async invite(project: Project, email: string, role: PermissionLevel): Promise<{ project: Project; member: ProjectMember; code: string | null }> {
+    const normalized = email.trim().toLowerCase();
+    const members = project.members || [];
+    const existing = members.find(m => m.email === normalized);
+    if (existing) {
+      const member = { ...existing, role };
+      return { project: withMembers(project, members.map(m => m.id === existing.id ? member : m)), member, code: null };
+    }
+    const token = randomToken();
+    const member: ProjectMember = {
+      id: `m-${Date.now()}-${randomToken().slice(0, 6)}`,
+      email: normalized,
+      role,
+      status: 'PENDING',
+      inviteTokenHash: await hashToken(token),
+      invitedAt: Date.now()
+    };
+    return { project: withMembers(project, [...members, member]), member, code: `${project.id}.${token}` };
+  },
+
+  /**
+   * 重新產生待接受成員的邀請碼，先前的邀請碼隨之失效
+   */
+  async reissue(project: Project, memberId: string): Promise<{ project: Project; code: string }> {
+    const token = randomToken();
+    const inviteTokenHash = await hashToken(token);
+    return {
+      project: withMembers(project, (project.members || []).map(m => m.id === memberId ? { ...m, inviteTokenHash } : m)),
+      code: `${project.id}.${token}`
+    };
+  },
+
+  changeRole(project: Project, memberId: string, role: PermissionLevel): Project {
+    return withMembers(project, (project.members || []).map(m => m.id === memberId ? { ...m, role } : m));
+  },
+
+  /**
+   * 移除成員；待接受的邀請一併失效
+   */
+  revoke(project: Project, memberId: string): Project {
+    return withMembers(project, (project.members || []).filter(m => m.id !== memberId));
+  },
+
+  /**
+   * 接受邀請：以邀請碼的雜湊比對待接受的成員，成功後成員轉為 ACTIVE，
+   * 回傳更新後的專案與本機使用者的成員 id
+   */
+  async accept(project: Project, token: string): Promise<{ project: Project; memberId: string }> {
+    const hash = await hashToken(token);
+    const member = project.members?.find(m => m.status === 'PENDING' && m.inviteTokenHash === hash);
+    if (!member) throw new InviteError('邀請碼無效或已被撤銷');
+    const accepted: ProjectMember = { ...member, status: 'ACTIVE', inviteTokenHash: undefined, acceptedAt: Date.now() };
+    return {
+      project: withMembers(project, project.members!.map(m => m.id === member.id ? accepted : m)),
+      memberId: member.id
+    };
+  }
+};
@@ -0,0 +1,141 @@
+import { Project, StructureUnit, VersionSnapshot, ChapterComment, ChapterConflict, ConflictResolution } from '../types';
+
+const isEqual = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const assignField = <K extends keyof Project>(target: Project, source: Project, key: K) => {
+  target[key] = source[key];
+};
+
+// 快照歷史不列入比對：兩邊各自新增的快照會在合併時取聯集
+const chapterChanged = (a?: StructureUnit, b?: StructureUnit) => {
+  if (!a || !b) return a !== b;
+  return a.content !== b.content || a.title !== b.title || a.order !== b.order || !isEqual(a.comments || [], b.comments || [])
+    || !isEqual(a.suggestions || [], b.suggestions || []);
+};
+
+/**
+ * 快照集合三方合併：任一邊新增的保留，任一邊移除的（清理、清除自動快照）一併移除
+ */
+const mergeHistory = (base?: VersionSnapshot[], local?: VersionSnapshot[], remote?: VersionSnapshot[]) => {
+  const baseIds = new Set((base || []).map(s => s.id));
+  const localIds = new Set((local || []).map(s => s.id));
+  const remoteIds = new Set((remote || []).map(s => s.id));
+  const byId = new Map<string, VersionSnapshot>();
+  [...(remote || []), ...(local || [])].forEach(s => {
+    const removed = baseIds.has(s.id) && (!localIds.has(s.id) || !remoteIds.has(s.id));
+    if (!removed) byId.set(s.id, s);
+  });
+  return [...byId.values()].sort((a, b) => b.timestamp - a.timestamp);
+};
+
+/**
+ * 批註三方合併：任一邊新增的保留，任一邊刪除的移除；同一則兩邊都修改時以本分頁為準
+ */
+const mergeComments = (base?: ChapterComment[], local?: ChapterComment[], remote?: ChapterComment[]) => {
+  const baseById = new Map((base || []).map(c => [c.id, c] as const));
+  const localById = new Map((local || []).map(c => [c.id, c] as const));
+  const remoteById = new Map((remote || []).map(c => [c.id, c] as const));
+  const byId = new Map<string, ChapterComment>();
+  [...(remote || []), ...(local || [])].forEach(c => {
+    const removed = baseById.has(c.id) && (!localById.has(c.id) || !remoteById.has(c.id));
+    if (removed) return;
+    const l = localById.get(c.id);
+    const localUnchanged = !l || isEqual(l, baseById.get(c.id));
+    byId.set(c.id, localUnchanged ? remoteById.get(c.id) || c : l);
+  });
+  return [...byId.values()];
+};
+
+/**
+ * 以 base（本分頁上次同步的版本）為共同祖先，合併本分頁與其他分頁的專案。
+ * 只有一邊修改的章節自動採用該邊；兩邊都修改且內容不同的章節列為衝突，暫時保留本分頁版本。
+ * 本分頁沒有任何獨有變更時直接回傳 remote 物件本身。
+ * isLive 為開啟即時協作的章節：內文已由協作的 CRDT 在各分頁間收斂，兩邊不同只是尚未收到對方的編輯，
+ * 因此採用本分頁版本而不列為衝突。
+ */
+export const mergeProjects = (
+  base: Project,
+  local: Project,
+  remote: Project,
+  isLive: (chapterId: string) => boolean = () => false
+): { merged: Project; conflicts: ChapterConflict[] } => {
+  const conflicts: ChapterConflict[] = [];
+  let diverged = false;
+
+  const merged = { ...remote } as Project;
+  (Object.keys({ ...base, ...local, ...remote }) as (keyof Project)[]).forEach(key => {
+    if (key === 'chapters' || key === 'revision') return;
+    if (base[key] !== local[key] && !isEqual(base[key], local[key]) && !isEqual(local[key], remote[key])) {
+      assignField(merged, local, key);
+      diverged = true;
+    }
+  });
+
+  const find = (p: Project, id: string) => p.chapters.find(c => c.id === id);
+  const ids = [...new Set([...remote.chapters, ...local.chapters, ...base.chapters].map(c => c.id))];
+
+  const chapters: StructureUnit[] = [];
+  ids.forEach(id => {
+    const b = find(base, id), l = find(local, id), r = find(remote, id);
+    const localChanged = chapterChanged(b, l);
+    const remoteChanged = chapterChanged(b, r);
+
+    let picked: StructureUnit | undefined;
+    if (!localChanged) picked = r;
+    else if (!remoteChanged) picked = l;
+    else if (l && r && (l.content !== r.content || l.title !== r.title) && !(isLive(id) && l.title === r.title)) {
+      conflicts.push({ chapterId: id, local: l, remote: r });
+      picked = l;
+    } else if (l && r) {
+      // 內文相同（或由協作收斂）、只有批註或排序不同：批註取兩邊的聯集
+      picked = { ...l, comments: mergeComments(b?.comments, l.comments, r.comments) };
+    } else {
+      // 一邊刪除另一邊修改：保留仍存在的版本
+      picked = l || r;
+    }
+    if (!picked) {
+      if (r) diverged = true;
+      return;
+    }
+
+    const history = mergeHistory(b?.history, l?.history, r?.history);
+    const sameHistory = r && isEqual(history.map(s => s.id), (r.history || []).map(s => s.id));
+    if (picked === r && sameHistory) {
+      chapters.push(r);
+    } else {
+      chapters.push({ ...picked, history });
+      diverged = true;
+    }
+  });
+
+  if (!diverged && chapters.length === remote.chapters.length) return { merged: remote, conflicts };
+  merged.chapters = chapters.sort((a, b) => a.order - b.order);
+  return { merged, conflicts };
+};
+
+/**
+ * 套用使用者對衝突章節的選擇。BOTH 會保留本分頁版本，並將另一分頁版本另存為新章節。
+ */
+export const applyConflictResolutions = (
+  project: Project,
+  conflicts: ChapterConflict[],
+  resolutions: Record<string, ConflictResolution>
+): Project => {
+  let chapters = [...project.chapters];
+  conflicts.forEach(({ chapterId, remote }) => {
+    const choice = resolutions[chapterId] || 'LOCAL';
+    if (choice === 'REMOTE') {
+      chapters = chapters.map(c => c.id === chapterId ? { ...remote, history: c.history } : c);
+    } else if (choice === 'BOTH') {
+      chapters.push({
+        ...remote,
+        id: `u-${Date.now()}-${chapterId}`,
+        title: `${remote.title}（其他分頁版本）`,
+        order: chapters.length + 1,
+        history: [],
+        lastEdited: Date.now()
+      });
+    }
+  });
+  return { ...project, chapters, updatedAt: Date.now() };
+};
@@ -0,0 +1,187 @@
+import { Project, SnapshotType, StructureUnit, VersionSnapshot } from '../types';
+import { chapterComments } from './chapterComments';
+import { trackChanges } from './trackChanges';
+import { textCount } from './textCount';
+
+export interface ReplaceOptions {
+  matchCase: boolean;
+  wholeWord: boolean;
+  // 以正規表示式搜尋，取代文字可使用 $1、$<name> 等群組參照
+  regex: boolean;
+}
+
+export interface ReplaceMatch {
+  id: string;
+  chapterId: string;
+  chapterTitle: string;
+  start: number;
+  end: number;
+  text: string;
+  replacement: string;
+  // 同一行中的前後文，供預覽顯示
+  before: string;
+  after: string;
+}
+
+// 取代前的章節狀態，復原整批取代時使用
+export interface ReplaceBatch {
+  projectId: string;
+  count: number;
+  chapters: { chapterId: string; before: Pick<StructureUnit, 'content' | 'suggestions'>; after: string }[];
+}
+
+/**
+ * 搜尋字串不是有效的正規表示式
+ */
+export class ReplacePatternError extends Error {
+  constructor(message: string) {
+    super(`搜尋條件無效：${message}`);
+    this.name = 'ReplacePatternError';
+  }
+}
+
+// 預覽前後文的長度
+const CONTEXT_LENGTH = 30;
+// 單次搜尋最多列出的符合項目
+const MAX_MATCHES = 2000;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const buildPattern = (query: string, options: ReplaceOptions): RegExp => {
+  let source = options.regex ? query : escapeRegExp(query);
+  // 前後不是字母、數字或底線才算完整字詞（中文字也視為字母）
+  if (options.wholeWord) source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+  try {
+    return new RegExp(source, options.matchCase ? 'gu' : 'giu');
+  } catch (e) {
+    throw new ReplacePatternError(e instanceof Error ? e.message : String(e));
+  }
+};
+
+/**
+ * 展開取代文字中的 $&、$1…$99、$<name> 與 $$（與 String.prototype.replace 相同的規則）
+ */
+const expandReplacement = (replacement: string, match: RegExpExecArray): string =>
+  replacement.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (token, ref: string, name?: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return match[0];
+    if (name !== undefined) return match.groups?.[name] ?? '';
+    const index = Number(ref);
+    return index > 0 && index < match.length ? match[index] ?? '' : token;
+  });
+
+const contextOf = (text: string) => text.replace(/\s+/g, ' ');
+
+export const projectReplace = {
+  /**
+   * 在專案所有章節中搜尋，依章節順序列出每一個符合項目與取代後的文字
+   */
+  find(project: Project, query: string, replacement: string, options: ReplaceOptions): ReplaceMatch[] {
+    if (!query) return [];
+    const pattern = buildPattern(query, options);
+    const matches: ReplaceMatch[] = [];
+    const chapters = [...project.chapters].sort((a, b) => a.order - b.order);
+    for (const chapter of chapters) {
+      const text = chapter.content;
+      pattern.lastIndex = 0;
+      for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+        // 空字串符合（例如 ^ 或 \b）不取代，前進一格避免無窮迴圈
+        if (match[0].length === 0) {
+          pattern.lastIndex++;
+          continue;
+        }
+        const start = match.index;
+        const end = start + match[0].length;
+        const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+        const lineEnd = text.indexOf('\n', end);
+        matches.push({
+          id: `${chapter.id}:${start}`,
+          chapterId: chapter.id,
+          chapterTitle: chapter.title,
+          start,
+          end,
+          text: match[0],
+          replacement: options.regex ? expandReplacement(replacement, match) : replacement,
+          before: contextOf(text.slice(Math.max(lineStart, start - CONTEXT_LENGTH), start)),
+          after: contextOf(text.slice(end, Math.min(lineEnd === -1 ? text.length : lineEnd, end + CONTEXT_LENGTH)))
+        });
+        if (matches.length >= MAX_MATCHES) return matches;
+      }
+    }
+    return matches;
+  },
+
+  /**
+   * 套用選取的符合項目：取代前先為每個受影響的章節建立里程碑快照，
+   * 批註與修訂建議隨內文平移。回傳更新後的專案與復原所需的取代前狀態
+   */
+  apply(project: Project, matches: ReplaceMatch[]): { project: Project; batch: ReplaceBatch } {
+    const now = Date.now();
+    const batch: ReplaceBatch = { projectId: project.id, count: 0, chapters: [] };
+    const chapters = project.chapters.map((chapter, index) => {
+      // 由後往前取代，前面的位移才不會因取代而改變
+      const hits = matches
+        .filter(m => m.chapterId === chapter.id && chapter.content.slice(m.start, m.end) === m.text)
+        .sort((a, b) => b.start - a.start);
+      if (hits.length === 0) return chapter;
+
+      let content = chapter.content;
+      let lastStart = Infinity;
+      hits.forEach(hit => {
+        if (hit.end > lastStart) return;
+        content = content.slice(0, hit.start) + hit.replacement + content.slice(hit.end);
+        lastStart = hit.start;
+        batch.count++;
+      });
+
+      const milestone: VersionSnapshot = {
+        id: `v-${now}-${index}`,
+        timestamp: now,
+        content: chapter.content,
+        title: chapter.title,
+        type: SnapshotType.MILESTONE,
+        ...(chapter.suggestions?.length ? { suggestions: chapter.suggestions } : {})
+      };
+      batch.chapters.push({
+        chapterId: chapter.id,
+        before: { content: chapter.content, suggestions: chapter.suggestions },
+        after: content
+      });
+      return {
+        ...chapter,
+        content,
+        wordCount: textCount.count(content).mixed,
+        lastEdited: now,
+        history: [milestone, ...(chapter.history || [])],
+        comments: chapter.comments && chapterComments.remap(chapter.comments, chapter.content, content),
+        suggestions: chapter.suggestions && trackChanges.remap(chapter.suggestions, chapter.content, content)
+      };
+    });
+    return { project: { ...project, chapters, updatedAt: now }, batch };
+  },
+
+  /**
+   * 復原整批取代；取代後又被修改過的章節不還原，回傳略過的章節數
+   */
+  revert(project: Project, batch: ReplaceBatch): { project: Project; skipped: number } {
+    const now = Date.now();
+    let skipped = 0;
+    const chapters = project.chapters.map(chapter => {
+      const entry = batch.chapters.find(c => c.chapterId === chapter.id);
+      if (!entry) return chapter;
+      if (chapter.content !== entry.after) {
+        skipped++;
+        return chapter;
+      }
+      return {
+        ...chapter,
+        ...entry.before,
+        wordCount: textCount.count(entry.before.content).mixed,
+        lastEdited: now,
+        // 取代後才新增或解決的批註保留，只平移回原本的位置
+        comments: chapter.comments && chapterComments.remap(chapter.comments, chapter.content, entry.before.content)
+      };
+    });
+    return { project: { ...project, chapters, updatedAt: now }, skipped };
+  }
+};
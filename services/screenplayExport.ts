@@ -0,0 +1,261 @@
+import jsPDF from 'jspdf';
+import { Project } from '../types';
+import { fountain, FountainElement, FountainScript } from './fountain';
+
+/**
+ * 劇本匯出：各章節依順序串接為一份 Fountain 劇本，輸出業界格式的 PDF（Letter、Courier 12、標準邊界）
+ * 與 Final Draft 的 .fdx。
+ */
+
+// 版面（英吋）：Courier 12 每英吋 10 字、6 行，內文區上下邊界各 1 英吋，每頁 54 行
+const PAGE_WIDTH = 8.5;
+const PAGE_HEIGHT = 11;
+const TOP = 1;
+const LINE = 1 / 6;
+const CHAR = 0.1;
+const LINES_PER_PAGE = 54;
+const RIGHT_EDGE = 7.5;
+
+// 各元素的左邊界（英吋）與每行字數
+const LAYOUT: Partial<Record<FountainElement['type'], { left: number; width: number }>> = {
+  SCENE_HEADING: { left: 1.5, width: 60 },
+  ACTION: { left: 1.5, width: 60 },
+  CHARACTER: { left: 3.7, width: 38 },
+  PARENTHETICAL: { left: 3.1, width: 25 },
+  DIALOGUE: { left: 2.5, width: 35 },
+  LYRICS: { left: 2.5, width: 35 },
+  TRANSITION: { left: 1.5, width: 60 },
+  CENTERED: { left: 1.5, width: 60 }
+};
+
+const FDX_TYPES: Partial<Record<FountainElement['type'], string>> = {
+  SCENE_HEADING: 'Scene Heading',
+  ACTION: 'Action',
+  CHARACTER: 'Character',
+  PARENTHETICAL: 'Parenthetical',
+  DIALOGUE: 'Dialogue',
+  LYRICS: 'Dialogue',
+  TRANSITION: 'Transition',
+  CENTERED: 'Action'
+};
+
+// PDF 不支援強調樣式的混排，移除 Fountain 的 *、**、_ 標記
+const plain = (text: string) => text.replace(/(\*{1,3}|_)(?=\S)([\s\S]*?\S)\1/g, '$2').replace(/\\([*_])/g, '$1');
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * 將強調標記轉為 Final Draft 的 Text 樣式
+ */
+const fdxText = (text: string): string => {
+  const runs: string[] = [];
+  const pattern = /(\*{3}|\*{2}|\*|_)(?=\S)([\s\S]*?\S)\1/g;
+  const styles: Record<string, string> = { '***': 'Bold+Italic', '**': 'Bold', '*': 'Italic', '_': 'Underline' };
+  let position = 0;
+  for (const match of text.matchAll(pattern)) {
+    if (match.index! > position) runs.push(`<Text>${escapeXml(text.slice(position, match.index))}</Text>`);
+    runs.push(`<Text Style="${styles[match[1]]}">${escapeXml(match[2])}</Text>`);
+    position = match.index! + match[0].length;
+  }
+  if (position < text.length || runs.length === 0) runs.push(`<Text>${escapeXml(text.slice(position))}</Text>`);
+  return runs.join('');
+};
+
+/**
+ * 依每行字數斷行，盡量在空白處斷開；中日韓文字寬度以兩個字元計
+ */
+const wrapText = (text: string, width: number): string[] => text.split('\n').flatMap(paragraph => {
+  const lines: string[] = [];
+  let line = '';
+  let lineWidth = 0;
+  for (const token of paragraph.match(/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|\s+|[^\s\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+/gu) || []) {
+    const tokenWidth = [...token].reduce((sum, ch) => sum + (/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u.test(ch) ? 2 : 1), 0);
+    if (!token.trim()) {
+      if (line) { line += token; lineWidth += tokenWidth; }
+      continue;
+    }
+    if (line && lineWidth + tokenWidth > width) {
+      lines.push(line.trimEnd());
+      line = '';
+      lineWidth = 0;
+    }
+    line += token;
+    lineWidth += tokenWidth;
+  }
+  lines.push(line.trimEnd());
+  return lines;
+});
+
+const scriptOf = (project: Project): FountainScript => fountain.parse(
+  [...project.chapters].sort((a, b) => a.order - b.order).map(c => c.content.trim()).join('\n\n')
+);
+
+// 沒有標題頁時以專案資料補上
+const titlePageOf = (project: Project, script: FountainScript) => script.titlePage.length > 0 ? script.titlePage : [
+  { key: 'Title', value: project.publishingPayload?.title || project.name },
+  ...(project.publishingPayload?.author ? [{ key: 'Credit', value: 'Written by' }, { key: 'Author', value: project.publishingPayload.author }] : [])
+];
+
+type PrintLine = { text: string; left: number; align?: 'right' | 'center' };
+
+/**
+ * 劇本分頁：元素之間空一行；場景標題不留在頁尾，對白跨頁時加上 (MORE) 與 (CONT'D)
+ */
+const paginate = (elements: FountainElement[]): PrintLine[][] => {
+  const pages: PrintLine[][] = [[]];
+  const current = () => pages[pages.length - 1];
+  const remaining = () => LINES_PER_PAGE - current().length;
+  const newPage = () => { if (current().length > 0) pages.push([]); };
+  const spacer = () => { if (current().length > 0) current().push({ text: '', left: 0 }); };
+  const linesOf = (element: FountainElement): PrintLine[] => {
+    const layout = LAYOUT[element.type]!;
+    const text = plain(element.text);
+    if (element.type === 'TRANSITION') return [{ text, left: RIGHT_EDGE, align: 'right' }];
+    if (element.type === 'CENTERED') return wrapText(text, layout.width).map(line => ({ text: line, left: layout.left + CHAR * layout.width / 2, align: 'center' }));
+    return wrapText(text, layout.width).map(line => ({ text: line, left: layout.left }));
+  };
+
+  for (let i = 0; i < elements.length; i++) {
+    const element = elements[i];
+    if (element.type === 'PAGE_BREAK') {
+      newPage();
+      continue;
+    }
+    if (!LAYOUT[element.type]) continue;
+
+    if (element.type === 'CHARACTER') {
+      // 對白區塊：角色與其後的括號提示、對白一起排
+      const cue = plain(element.text);
+      const body: PrintLine[] = [];
+      while (elements[i + 1] && (elements[i + 1].type === 'DIALOGUE' || elements[i + 1].type === 'PARENTHETICAL')) {
+        body.push(...linesOf(elements[++i]));
+      }
+      const gap = current().length > 0 ? 1 : 0;
+      if (gap + 1 + body.length <= remaining()) {
+        spacer();
+        current().push({ text: cue, left: LAYOUT.CHARACTER!.left }, ...body);
+        continue;
+      }
+      // 本頁至少放得下角色、兩行對白與 (MORE) 才拆開，否則整段移到下一頁
+      let rest = body;
+      if (remaining() - gap >= 4) {
+        const fit = remaining() - gap - 2;
+        spacer();
+        current().push({ text: cue, left: LAYOUT.CHARACTER!.left }, ...body.slice(0, fit), { text: '(MORE)', left: LAYOUT.CHARACTER!.left });
+        rest = body.slice(fit);
+        newPage();
+        current().push({ text: `${cue.replace(/\s*\(CONT'D\)$/i, '')} (CONT'D)`, left: LAYOUT.CHARACTER!.left });
+      } else {
+        newPage();
+        current().push({ text: cue, left: LAYOUT.CHARACTER!.left });
+      }
+      while (rest.length > 0) {
+        const take = rest.slice(0, remaining());
+        current().push(...take);
+        rest = rest.slice(take.length);
+        if (rest.length > 0) newPage();
+      }
+      continue;
+    }
+
+    let lines = linesOf(element);
+    const gap = current().length > 0 ? 1 : 0;
+    // 場景標題至少要與下一個元素的第一行同頁
+    const keep = element.type === 'SCENE_HEADING' ? lines.length + 2 : Math.min(lines.length, 2);
+    if (gap + keep > remaining()) newPage();
+    else spacer();
+    while (lines.length > 0) {
+      const take = lines.slice(0, remaining());
+      current().push(...take);
+      lines = lines.slice(take.length);
+      if (lines.length > 0) newPage();
+    }
+  }
+  return pages.filter((page, index) => page.length > 0 || index === 0);
+};
+
+export const screenplayExport = {
+  /**
+   * 產生業界格式的劇本 PDF：標題頁、Courier 12、第二頁起右上角頁碼
+   */
+  buildPdf(project: Project): Blob {
+    const script = scriptOf(project);
+    const pdf = new jsPDF({ orientation: 'portrait', unit: 'in', format: 'letter' });
+    pdf.setFont('courier', 'normal');
+    pdf.setFontSize(12);
+
+    const titlePage = titlePageOf(project, script);
+    const field = (key: string) => titlePage.filter(f => f.key.toLowerCase() === key).map(f => f.value).join('\n');
+    const centered = ['title', 'credit', 'author', 'authors', 'source'].flatMap(key => {
+      const value = field(key);
+      return value ? [...value.split('\n').map(line => key === 'title' ? plain(line).toUpperCase() : plain(line)), ''] : [];
+    });
+    centered.forEach((line, index) => pdf.text(line, PAGE_WIDTH / 2, 3.5 + index * LINE, { align: 'center' }));
+    const contact = [field('contact'), field('copyright')].filter(Boolean).join('\n').split('\n').filter(Boolean);
+    contact.forEach((line, index) => pdf.text(plain(line), 1.5, PAGE_HEIGHT - 1 - (contact.length - 1 - index) * LINE));
+    const draft = [field('draft date'), field('date'), field('revision')].filter(Boolean).join('\n').split('\n').filter(Boolean);
+    draft.forEach((line, index) => pdf.text(plain(line), RIGHT_EDGE, PAGE_HEIGHT - 1 - (draft.length - 1 - index) * LINE, { align: 'right' }));
+
+    paginate(script.elements).forEach((page, index) => {
+      pdf.addPage('letter', 'portrait');
+      if (index > 0) pdf.text(`${index + 1}.`, RIGHT_EDGE, 0.5, { align: 'right' });
+      page.forEach((line, row) => {
+        if (line.text) pdf.text(line.text, line.left, TOP + (row + 1) * LINE, line.align ? { align: line.align } : undefined);
+      });
+    });
+
+    pdf.setProperties({
+      title: project.publishingPayload?.title || project.name,
+      author: project.publishingPayload?.author || '',
+      creator: 'InsPublish'
+    });
+    return pdf.output('blob');
+  },
+
+  /**
+   * 產生 Final Draft 文件（.fdx）
+   */
+  buildFdx(project: Project): Blob {
+    const script = scriptOf(project);
+    const paragraphs: string[] = [];
+    let newPage = false;
+    script.elements.forEach(element => {
+      if (element.type === 'PAGE_BREAK') {
+        newPage = true;
+        return;
+      }
+      const type = FDX_TYPES[element.type];
+      if (!type) return;
+      const attributes = [
+        `Type="${type}"`,
+        ...(element.type === 'SCENE_HEADING' ? [`Number="${escapeXml(element.sceneNumber!)}"`] : []),
+        ...(element.type === 'CENTERED' ? ['Alignment="Center"'] : []),
+        ...(newPage ? ['StartsNewPage="Yes"'] : [])
+      ];
+      newPage = false;
+      paragraphs.push(`    <Paragraph ${attributes.join(' ')}>${fdxText(element.text)}</Paragraph>`);
+    });
+
+    const titlePage = titlePageOf(project, script).flatMap(({ key, value }) => value.split('\n').map(line =>
+      `      <Paragraph Alignment="${/contact|copyright|date|revision/i.test(key) ? 'Left' : 'Center'}">${fdxText(line)}</Paragraph>`
+    ));
+
+    const xml = `<?xml version="1.0" encoding="UTF-8" standalone="no" ?>
+<FinalDraft DocumentType="Script" Template="No" Version="5">
+  <Content>
+${paragraphs.join('\n')}
+  </Content>
+  <TitlePage>
+    <Content>
+${titlePage.join('\n')}
+    </Content>
+  </TitlePage>
+</FinalDraft>
+`;
+    return new Blob([xml], { type: 'application/xml' });
+  }
+};
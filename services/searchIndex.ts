@@ -0,0 +1,161 @@
+import { STORES, SearchDocRecord, SearchTermRecord } from './dbSchema';
+import { cryptoService } from './cryptoService';
+
+const CJK_RANGE = '\\u3040-\\u30ff\\u3400-\\u4dbf\\u4e00-\\u9fff\\uf900-\\ufaff\\uac00-\\ud7af';
+const WORD_RUN = /[\p{L}\p{N}]+/gu;
+const SCRIPT_RUN = new RegExp(`[${CJK_RANGE}]+|[^${CJK_RANGE}]+`, 'g');
+const CJK_RUN = new RegExp(`^[${CJK_RANGE}]`);
+
+export interface SearchDocInput {
+  id: string;
+  projectId: string;
+  title: string;
+  content: string;
+}
+
+/**
+ * 斷詞：中日韓文字沒有空白分隔，以單字與相鄰二字（bigram）索引；
+ * 其他文字依字母數字連續區段切為單詞。
+ * 查詢時中日韓區段只取 bigram（單一字元則取單字），即可涵蓋任意長度的片語。
+ */
+export const tokenize = (text: string, forQuery = false): string[] => {
+  const tokens: string[] = [];
+  const words = text.normalize('NFKC').toLowerCase().match(WORD_RUN) || [];
+  words.forEach(word => {
+    (word.match(SCRIPT_RUN) || []).forEach(run => {
+      if (!CJK_RUN.test(run)) {
+        tokens.push(run);
+        return;
+      }
+      const chars = Array.from(run);
+      if (!forQuery || chars.length === 1) tokens.push(...chars);
+      for (let i = 0; i < chars.length - 1; i++) tokens.push(chars[i] + chars[i + 1]);
+    });
+  });
+  return tokens;
+};
+
+export const termFrequencies = (text: string): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  tokenize(text).forEach(t => { counts[t] = (counts[t] || 0) + 1; });
+  return counts;
+};
+
+const requestResult = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const txDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const prepareDoc = async (doc: SearchDocInput): Promise<SearchDocRecord> => {
+  const counts = termFrequencies(`${doc.title}\n${doc.content}`);
+  const terms = Object.keys(counts);
+  const keys = await cryptoService.blindTerms(terms);
+  const blinded: Record<string, number> = {};
+  terms.forEach((term, i) => { blinded[keys[i]] = counts[term]; });
+  return { id: doc.id, projectId: doc.projectId, terms: blinded, length: doc.content.length };
+};
+
+/**
+ * 於交易中寫入（或移除）章節索引：與既有詞頻表比對，
+ * 所有章節的變動先彙整為每個詞彙一次讀寫，避免同一交易內對同鍵交錯更新。
+ */
+const writeDocs = async (tx: IDBTransaction, docs: SearchDocRecord[], removedIds: string[]) => {
+  const docStore = tx.objectStore(STORES.SEARCH_DOCS);
+  const termStore = tx.objectStore(STORES.SEARCH_TERMS);
+  const ids = [...docs.map(d => d.id), ...removedIds];
+  const stored = await Promise.all(ids.map(id => requestResult<SearchDocRecord | undefined>(docStore.get(id))));
+
+  // 詞彙 → 章節 id → 新詞頻（0 表示移除）
+  const deltas = new Map<string, Map<string, number>>();
+  const setDelta = (term: string, docId: string, tf: number) => {
+    if (!deltas.has(term)) deltas.set(term, new Map());
+    deltas.get(term)!.set(docId, tf);
+  };
+  ids.forEach((id, i) => {
+    const before = stored[i]?.terms || {};
+    const after = docs[i]?.terms || {};
+    Object.keys(before).forEach(term => { if (!(term in after)) setDelta(term, id, 0); });
+    Object.entries(after).forEach(([term, tf]) => { if (before[term] !== tf) setDelta(term, id, tf); });
+  });
+
+  const terms = [...deltas.keys()];
+  const records = await Promise.all(terms.map(term => requestResult<SearchTermRecord | undefined>(termStore.get(term))));
+  terms.forEach((term, i) => {
+    const postings = { ...(records[i]?.postings || {}) };
+    deltas.get(term)!.forEach((tf, docId) => {
+      if (tf > 0) postings[docId] = tf;
+      else delete postings[docId];
+    });
+    if (Object.keys(postings).length > 0) termStore.put({ term, postings });
+    else termStore.delete(term);
+  });
+
+  docs.forEach(d => docStore.put(d));
+  removedIds.forEach(id => docStore.delete(id));
+};
+
+// 索引更新依序執行，確保較舊的內容不會覆蓋較新的索引
+let queue: Promise<void> = Promise.resolve();
+
+const enqueue = (task: () => Promise<void>): Promise<void> => {
+  queue = queue.then(task).catch(e => console.error('[Search] 索引更新失敗', e));
+  return queue;
+};
+
+export const searchIndex = {
+  /**
+   * 更新已變動章節的索引並移除指定章節
+   */
+  update(db: IDBDatabase, docs: SearchDocInput[], removedIds: string[] = []): Promise<void> {
+    if (docs.length === 0 && removedIds.length === 0) return queue;
+    return enqueue(async () => {
+      const prepared = await Promise.all(docs.map(prepareDoc));
+      const tx = db.transaction([STORES.SEARCH_TERMS, STORES.SEARCH_DOCS], 'readwrite');
+      await writeDocs(tx, prepared, removedIds);
+      await txDone(tx);
+    });
+  },
+
+  /**
+   * 清空並以目前的加密狀態重建整個索引
+   */
+  rebuild(db: IDBDatabase, docs: SearchDocInput[]): Promise<void> {
+    return enqueue(async () => {
+      const prepared = await Promise.all(docs.map(prepareDoc));
+      const tx = db.transaction([STORES.SEARCH_TERMS, STORES.SEARCH_DOCS], 'readwrite');
+      tx.objectStore(STORES.SEARCH_TERMS).clear();
+      tx.objectStore(STORES.SEARCH_DOCS).clear();
+      await writeDocs(tx, prepared, []);
+      await txDone(tx);
+      console.log(`[Search] 已重建 ${docs.length} 個章節的索引`);
+    });
+  },
+
+  async isEmpty(db: IDBDatabase): Promise<boolean> {
+    const tx = db.transaction(STORES.SEARCH_DOCS, 'readonly');
+    return (await requestResult(tx.objectStore(STORES.SEARCH_DOCS).count())) === 0;
+  },
+
+  /**
+   * 查詢詞彙的 postings，回傳每個詞彙的章節詞頻表與已索引章節總數
+   */
+  async lookup(db: IDBDatabase, terms: string[]): Promise<{ postings: Record<string, number>[]; docCount: number }> {
+    await queue;
+    const keys = await cryptoService.blindTerms(terms);
+    const tx = db.transaction([STORES.SEARCH_TERMS, STORES.SEARCH_DOCS], 'readonly');
+    const termStore = tx.objectStore(STORES.SEARCH_TERMS);
+    const [records, docCount] = await Promise.all([
+      Promise.all(keys.map(key => requestResult<SearchTermRecord | undefined>(termStore.get(key)))),
+      requestResult(tx.objectStore(STORES.SEARCH_DOCS).count())
+    ]);
+    return { postings: records.map(r => r?.postings || {}), docCount };
+  }
+};
@@ -0,0 +1,158 @@
+import { SnapshotType } from '../types';
+import { dbService } from './dbService';
+import { searchIndex, tokenize } from './searchIndex';
+
+// 摘要於命中位置前後保留的字元數
+const SNIPPET_RADIUS = 40;
+const MAX_HITS = 50;
+// 同一章節最多列出的快照命中數
+const MAX_SNAPSHOT_HITS_PER_CHAPTER = 3;
+
+export interface SearchHit {
+  projectId: string;
+  projectName: string;
+  chapterId: string;
+  chapterTitle: string;
+  // 命中快照歷史時附帶快照資訊
+  snapshot?: { id: string; timestamp: number; type: SnapshotType };
+  score: number;
+  matchCount: number;
+  snippet: string;
+  // snippet 內需標示的 [起, 迄) 範圍
+  highlights: [number, number][];
+  // 第一個命中位置於內文的位移與長度，供編輯器捲動；僅標題命中時為 -1
+  offset: number;
+  length: number;
+}
+
+export interface SearchOptions {
+  includeSnapshots?: boolean;
+}
+
+const findAll = (haystack: string, needle: string): number[] => {
+  const positions: number[] = [];
+  for (let i = haystack.indexOf(needle); i !== -1; i = haystack.indexOf(needle, i + needle.length)) {
+    positions.push(i);
+  }
+  return positions;
+};
+
+interface TextMatch {
+  count: number;
+  offset: number;
+  length: number;
+  snippet: string;
+  highlights: [number, number][];
+}
+
+/**
+ * 以不分大小寫的字串比對確認所有關鍵字都出現在內文或標題中（排除 bigram 造成的誤判），並擷取摘要
+ */
+const matchText = (title: string, content: string, keywords: string[]): TextMatch | null => {
+  const lowerTitle = title.toLowerCase();
+  const lowerContent = content.toLowerCase();
+  let count = 0;
+  for (const keyword of keywords) {
+    const hits = findAll(lowerContent, keyword).length + findAll(lowerTitle, keyword).length;
+    if (hits === 0) return null;
+    count += hits;
+  }
+
+  const first = keywords
+    .map(k => ({ at: lowerContent.indexOf(k), length: k.length }))
+    .filter(m => m.at !== -1)
+    .sort((a, b) => a.at - b.at)[0];
+  if (!first) {
+    return { count, offset: -1, length: 0, snippet: content.slice(0, SNIPPET_RADIUS * 2), highlights: [] };
+  }
+
+  const start = Math.max(0, first.at - SNIPPET_RADIUS);
+  const end = Math.min(content.length, first.at + first.length + SNIPPET_RADIUS);
+  const prefix = start > 0 ? '…' : '';
+  const snippet = prefix + content.slice(start, end).replace(/\s+/g, ' ') + (end < content.length ? '…' : '');
+  const lowerSnippet = snippet.toLowerCase();
+  const highlights = keywords
+    .flatMap(k => findAll(lowerSnippet, k).map(at => [at, at + k.length] as [number, number]))
+    .sort((a, b) => a[0] - b[0]);
+  return { count, offset: first.at, length: first.length, snippet, highlights };
+};
+
+export const searchService = {
+  /**
+   * 全文搜尋：以倒排索引篩選同時包含所有詞彙的章節，依 TF-IDF 與命中次數排序。
+   * includeSnapshots 時另外逐一比對快照歷史（快照未建立索引）。
+   */
+  async search(query: string, options: SearchOptions = {}): Promise<SearchHit[]> {
+    const keywords = [...new Set(query.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean))];
+    const terms = [...new Set(tokenize(query, true))];
+    if (keywords.length === 0 || terms.length === 0) return [];
+
+    const db = await dbService.initDB();
+    const { postings, docCount } = await searchIndex.lookup(db, terms);
+
+    // 所有詞彙的 postings 取交集並累計 TF-IDF
+    const scores = new Map<string, number>();
+    Object.keys(postings[0]).forEach(docId => {
+      if (!postings.every(p => docId in p)) return;
+      const score = postings.reduce((sum, p) => {
+        const idf = Math.log(1 + docCount / Object.keys(p).length);
+        return sum + (1 + Math.log(p[docId])) * idf;
+      }, 0);
+      scores.set(docId, score);
+    });
+    if (scores.size === 0 && !options.includeSnapshots) return [];
+
+    const projects = await dbService.getSearchableProjects();
+    const hits: SearchHit[] = [];
+
+    projects.forEach(project => {
+      project.chapters.forEach(chapter => {
+        const indexScore = scores.get(chapter.id);
+        if (indexScore !== undefined) {
+          const match = matchText(chapter.title, chapter.content, keywords);
+          if (match) {
+            // 長章節的詞頻天然較高，以長度的平方根折減
+            const lengthNorm = Math.sqrt(Math.max(1, chapter.content.length / 1000));
+            hits.push({
+              projectId: project.id,
+              projectName: project.name,
+              chapterId: chapter.id,
+              chapterTitle: chapter.title,
+              score: (indexScore + match.count) / lengthNorm,
+              matchCount: match.count,
+              snippet: match.snippet,
+              highlights: match.highlights,
+              offset: match.offset,
+              length: match.length
+            });
+          }
+        }
+
+        if (!options.includeSnapshots) return;
+        let snapshotHits = 0;
+        (chapter.history || []).forEach(snapshot => {
+          if (snapshotHits >= MAX_SNAPSHOT_HITS_PER_CHAPTER || snapshot.content === chapter.content) return;
+          const match = matchText(snapshot.title, snapshot.content, keywords);
+          if (!match) return;
+          snapshotHits++;
+          hits.push({
+            projectId: project.id,
+            projectName: project.name,
+            chapterId: chapter.id,
+            chapterTitle: chapter.title,
+            snapshot: { id: snapshot.id, timestamp: snapshot.timestamp, type: snapshot.type },
+            // 快照命中排在現行內容之後
+            score: match.count * 0.5,
+            matchCount: match.count,
+            snippet: match.snippet,
+            highlights: match.highlights,
+            offset: match.offset,
+            length: match.length
+          });
+        });
+      });
+    });
+
+    return hits.sort((a, b) => b.score - a.score).slice(0, MAX_HITS);
+  }
+};
@@ -0,0 +1,291 @@
+import { AppState, MembershipLevel, ThemeMode, SupportedLanguage, UserStats, AIPreferences, SecuritySettings, BackupSettings } from '../types';
+import { dbService } from './dbService';
+
+/**
+ * 持久化於 settings 儲存區的 AppState 欄位
+ */
+export type PersistedSettings = Pick<AppState,
+  | 'theme' | 'membership' | 'stats' | 'language' | 'userCountryCode' | 'userAvatar' | 'avatarType'
+  | 'aiPreferences' | 'securitySettings' | 'backupSettings' | 'savedCards' | 'editorSettings' | 'userId' | 'projectMemberships'
+>;
+
+export type SettingName = keyof PersistedSettings;
+
+interface SettingDefinition<T> {
+  // 結構變更時遞增，舊版資料交由 migrate 轉換
+  version: number;
+  defaultValue: () => T;
+  // 回傳通過驗證的值；無法使用時回傳 undefined 以套用預設值
+  validate: (raw: unknown, fallback: T) => T | undefined;
+  // 舊版資料（含 v1 之前未加版本的鍵）轉換為目前結構，version 為 0 代表未加版本的鍵
+  migrate?: (raw: unknown, version: number) => unknown;
+}
+
+const LANGUAGES: SupportedLanguage[] = [
+  'en', 'zh-TW', 'zh-CN', 'es', 'pt-BR', 'pt-PT', 'de', 'fr',
+  'it', 'nl', 'sv', 'tr', 'ru', 'ja', 'ko', 'th', 'vi',
+  'id', 'ms', 'ar', 'hi'
+];
+
+type FieldCheck = (value: unknown) => boolean;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString: FieldCheck = v => typeof v === 'string';
+const isBoolean: FieldCheck = v => typeof v === 'boolean';
+const isNumber: FieldCheck = v => typeof v === 'number' && Number.isFinite(v);
+const isCount: FieldCheck = v => isNumber(v) && (v as number) >= 0;
+const oneOf = (...values: unknown[]): FieldCheck => v => values.includes(v);
+const optional = (check: FieldCheck): FieldCheck => v => v === undefined || check(v);
+const either = (...checks: FieldCheck[]): FieldCheck => v => checks.some(check => check(v));
+
+const scalar = <T>(check: FieldCheck) => (raw: unknown): T | undefined =>
+  check(raw) ? raw as T : undefined;
+
+/**
+ * 逐欄位驗證物件設定：不合法或缺少的欄位退回預設值，未知欄位捨棄
+ */
+const shape = <T extends object>(fields: { [K in keyof T]-?: FieldCheck }) => (raw: unknown, fallback: T): T | undefined => {
+  if (!isRecord(raw)) return undefined;
+  const result = { ...fallback };
+  (Object.keys(fields) as (keyof T & string)[]).forEach(field => {
+    if (field in raw && fields[field](raw[field])) result[field] = raw[field] as T[keyof T & string];
+  });
+  return result;
+};
+
+const CARD_FIELDS: Record<keyof AppState['savedCards'][number], FieldCheck> = {
+  id: isString,
+  number: isString,
+  expiry: isString,
+  name: isString,
+  type: oneOf('MASTERCARD', 'VISA'),
+  cvv: isString
+};
+
+const isCard = (value: unknown): value is AppState['savedCards'][number] =>
+  isRecord(value) && Object.entries(CARD_FIELDS).every(([field, check]) => check(value[field]));
+
+const REGISTRY: { [K in SettingName]: SettingDefinition<PersistedSettings[K]> } = {
+  theme: {
+    version: 1,
+    defaultValue: () => ThemeMode.NIGHT,
+    validate: scalar(oneOf(...Object.values(ThemeMode)))
+  },
+  membership: {
+    version: 1,
+    defaultValue: () => MembershipLevel.FREE,
+    validate: scalar(oneOf(...Object.values(MembershipLevel)))
+  },
+  language: {
+    version: 1,
+    defaultValue: () => 'zh-TW',
+    validate: scalar(oneOf(...LANGUAGES)),
+    migrate: raw => raw
+  },
+  userCountryCode: {
+    version: 1,
+    defaultValue: () => 'TW',
+    validate: scalar(v => typeof v === 'string' && /^[A-Z]{2}$/.test(v)),
+    migrate: raw => raw
+  },
+  userAvatar: {
+    version: 1,
+    defaultValue: () => undefined,
+    validate: scalar(isString),
+    migrate: raw => raw
+  },
+  avatarType: {
+    version: 1,
+    defaultValue: () => undefined,
+    validate: scalar(oneOf('UPLOAD', 'GRAVATAR')),
+    migrate: raw => raw
+  },
+  stats: {
+    version: 1,
+    defaultValue: () => ({
+      wordCount: 0,
+      projectCount: 0,
+      exportCount: 0,
+      lastActive: Date.now(),
+      hasTrialed: false,
+      dailyGoal: 1000,
+      writingStreak: 0,
+      todayWords: 0
+    }),
+    validate: shape<UserStats>({
+      wordCount: isCount,
+      projectCount: isCount,
+      exportCount: isCount,
+      lastActive: isNumber,
+      hasTrialed: isBoolean,
+      dailyGoal: isCount,
+      writingStreak: isCount,
+      todayWords: isCount
+    })
+  },
+  aiPreferences: {
+    version: 1,
+    defaultValue: () => ({
+      provider: 'DEFAULT',
+      selectedModel: 'gemini-3-pro-preview',
+      customModel: 'gemini-3-pro-preview',
+      tone: 'CREATIVE',
+      enableThinking: true,
+      thinkingBudget: 32768,
+      budgetLimit: 10,
+      currentUsage: 0,
+      onLimitAction: 'NOTIFY'
+    }),
+    validate: shape<AIPreferences>({
+      provider: oneOf('DEFAULT', 'CUSTOM'),
+      customModel: isString,
+      selectedModel: isString,
+      tone: oneOf('CREATIVE', 'ACADEMIC', 'PROFESSIONAL', 'CASUAL'),
+      enableThinking: isBoolean,
+      thinkingBudget: isCount,
+      customBaseUrl: optional(isString),
+      budgetLimit: isCount,
+      currentUsage: isCount,
+      onLimitAction: oneOf('STOP', 'SWITCH', 'NOTIFY')
+    })
+  },
+  securitySettings: {
+    version: 1,
+    defaultValue: () => ({
+      autoSnapshotEnabled: true,
+      autoSnapshotMode: 'interval',
+      autoSnapshotIntervalMinutes: 2,
+      autoSnapshotIdleSeconds: 30,
+      autoSnapshotCleanupDays: 30,
+      trashRetentionDays: 30
+    }),
+    validate: shape<SecuritySettings>({
+      autoSnapshotEnabled: isBoolean,
+      autoSnapshotMode: oneOf('interval', 'idle'),
+      autoSnapshotIntervalMinutes: v => isNumber(v) && (v as number) > 0,
+      autoSnapshotIdleSeconds: v => isNumber(v) && (v as number) > 0,
+      autoSnapshotCleanupDays: either(isCount, oneOf('NEVER')),
+      trashRetentionDays: either(isCount, oneOf('NEVER'))
+    })
+  },
+  backupSettings: {
+    version: 1,
+    defaultValue: () => ({
+      googleDriveConnected: false,
+      backupFolder: '/InsPublish/Backups',
+      isEncrypted: false,
+      lastBackupTime: null,
+      status: 'IDLE'
+    }),
+    // isEncrypted 由金鑰庫狀態決定，status 與 lastError 為執行期狀態，皆不沿用儲存值
+    validate: shape<BackupSettings>({
+      googleDriveConnected: isBoolean,
+      backupFolder: isString,
+      isEncrypted: () => false,
+      lastBackupTime: either(isNumber, oneOf(null)),
+      status: () => false,
+      lastError: () => false
+    })
+  },
+  savedCards: {
+    version: 1,
+    defaultValue: () => [],
+    // 個別卡片格式錯誤時只捨棄該張
+    validate: raw => Array.isArray(raw) ? raw.filter(isCard) : undefined
+  },
+  editorSettings: {
+    version: 1,
+    defaultValue: () => ({ typewriterMode: false, previewMode: false, splitPaneRatio: 0.4, splitScrollSync: false }),
+    validate: shape<AppState['editorSettings']>({
+      typewriterMode: isBoolean,
+      previewMode: isBoolean,
+      splitPaneRatio: v => isNumber(v) && (v as number) >= 0.25 && (v as number) <= 0.65,
+      splitScrollSync: isBoolean
+    })
+  },
+  // 空字串代表尚未產生，由載入書庫時建立並認領既有的本機專案
+  userId: {
+    version: 1,
+    defaultValue: () => '',
+    validate: scalar(isString)
+  },
+  projectMemberships: {
+    version: 1,
+    defaultValue: () => ({}),
+    validate: raw => isRecord(raw)
+      ? Object.fromEntries(Object.entries(raw).filter(([, memberId]) => typeof memberId === 'string')) as Record<string, string>
+      : undefined
+  }
+};
+
+export const SETTING_NAMES = Object.keys(REGISTRY) as SettingName[];
+
+const storageKey = (name: SettingName, version: number) => `${name}@v${version}`;
+
+// 最後一次讀取或寫入資料庫的值，以參照比對決定哪些設定需要寫回
+let persisted: Partial<PersistedSettings> = {};
+
+const readSetting = async <K extends SettingName>(name: K): Promise<PersistedSettings[K]> => {
+  const definition = REGISTRY[name] as SettingDefinition<PersistedSettings[K]>;
+  const fallback = definition.defaultValue();
+  let raw = await dbService.getAppSetting(storageKey(name, definition.version));
+
+  if (raw === undefined && definition.migrate) {
+    // 由新到舊尋找舊版資料，找到後轉換並以目前版本的鍵寫回
+    for (let version = definition.version - 1; version >= 0 && raw === undefined; version--) {
+      const legacy = await dbService.getAppSetting(version === 0 ? name : storageKey(name, version));
+      if (legacy !== undefined && legacy !== null) {
+        raw = definition.migrate(legacy, version);
+        console.log(`[Settings] 已將 ${name} 由 v${version} 遷移至 v${definition.version}`);
+      }
+    }
+    if (raw !== undefined) await dbService.saveAppSetting(storageKey(name, definition.version), raw);
+  }
+
+  if (raw === undefined || raw === null) return fallback;
+  const value = definition.validate(raw, fallback);
+  if (value === undefined) {
+    console.warn(`[Settings] ${name} 的儲存值無效，改用預設值`);
+    return fallback;
+  }
+  return value;
+};
+
+export const settingsRegistry = {
+  defaults(): PersistedSettings {
+    const values = {} as Record<SettingName, unknown>;
+    SETTING_NAMES.forEach(name => { values[name] = REGISTRY[name].defaultValue(); });
+    return values as PersistedSettings;
+  },
+
+  /**
+   * 讀取所有設定：缺少或無效的項目套用預設值，舊版鍵自動遷移
+   */
+  async loadAll(): Promise<PersistedSettings> {
+    const values = await Promise.all(SETTING_NAMES.map(name => readSetting(name)));
+    const settings = {} as Record<SettingName, unknown>;
+    SETTING_NAMES.forEach((name, i) => { settings[name] = values[i]; });
+    persisted = { ...(settings as PersistedSettings) };
+    return settings as PersistedSettings;
+  },
+
+  /**
+   * 讀取單一設定，供 App 之外的服務（例如雲端同步）使用
+   */
+  get<K extends SettingName>(name: K): Promise<PersistedSettings[K]> {
+    return readSetting(name);
+  },
+
+  /**
+   * 寫回自上次讀寫後有變動的設定（以參照比對）
+   */
+  async persist(state: PersistedSettings): Promise<void> {
+    const changed = SETTING_NAMES.filter(name => state[name] !== persisted[name]);
+    if (changed.length === 0) return;
+    changed.forEach(name => { (persisted as Record<SettingName, unknown>)[name] = state[name]; });
+    await Promise.all(changed.map(name =>
+      dbService.saveAppSetting(storageKey(name, REGISTRY[name].version), state[name] ?? null)
+    ));
+  }
+};
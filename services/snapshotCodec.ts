@@ -0,0 +1,172 @@
+import { VersionSnapshot } from '../types';
+import { SnapshotRecord } from './dbSchema';
+
+// 增量操作：正數 = 保留字元數，負數 = 刪除字元數，字串 = 插入內容
+export type DeltaOp = number | string;
+
+// 每條鏈最多連續幾個增量後強制寫入一個完整關鍵影格
+export const KEYFRAME_INTERVAL = 12;
+
+// Myers 演算法的編輯距離上限，超過時退化為整段替換以控制耗時
+const MAX_EDIT_DISTANCE = 1000;
+
+// 以換行與句末標點切分，讓無換行的中日韓段落也能取得細粒度差異
+const tokenize = (text: string): string[] => text.match(/[^\n。！？!?]*[\n。！？!?]|[^\n。！？!?]+$/g) || [];
+
+const pushOp = (ops: DeltaOp[], op: DeltaOp) => {
+  if (op === 0 || op === '') return;
+  const last = ops[ops.length - 1];
+  if (typeof op === 'string' && typeof last === 'string') ops[ops.length - 1] = last + op;
+  else if (typeof op === 'number' && typeof last === 'number' && Math.sign(op) === Math.sign(last)) ops[ops.length - 1] = last + op;
+  else ops.push(op);
+};
+
+/**
+ * 以 Myers O(ND) 演算法比對兩組 token，回傳由後往前的編輯腳本。
+ * 超過 MAX_EDIT_DISTANCE 時回傳 null。
+ */
+const myers = (a: string[], b: string[]): ['=' | '-' | '+', string][] | null => {
+  const n = a.length, m = b.length, max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // 每輪只保留 k ∈ [-d-1, d+1] 的區段，記憶體為 O(D²) 而非 O(D·(N+M))
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) { x++; y++; }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        const script: ['=' | '-' | '+', string][] = [];
+        let cx = n, cy = m;
+        for (let dd = d; dd > 0; dd--) {
+          const pv = trace[dd];
+          const at = (k: number) => pv[k + dd + 1];
+          const ck = cx - cy;
+          const prevK = (ck === -dd || (ck !== dd && at(ck - 1) < at(ck + 1))) ? ck + 1 : ck - 1;
+          const px = at(prevK);
+          const py = px - prevK;
+          while (cx > px && cy > py) { script.push(['=', a[--cx]]); cy--; }
+          if (cx === px) script.push(['+', b[--cy]]);
+          else script.push(['-', a[--cx]]);
+        }
+        while (cx > 0 && cy > 0) { script.push(['=', a[--cx]]); cy--; }
+        return script;
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * 計算由 from 轉換為 to 的增量
+ */
+export const diffText = (from: string, to: string): DeltaOp[] => {
+  let prefix = 0;
+  while (prefix < from.length && prefix < to.length && from[prefix] === to[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < from.length - prefix && suffix < to.length - prefix && from[from.length - 1 - suffix] === to[to.length - 1 - suffix]) suffix++;
+
+  const ops: DeltaOp[] = [];
+  pushOp(ops, prefix);
+
+  const midFrom = from.slice(prefix, from.length - suffix);
+  const midTo = to.slice(prefix, to.length - suffix);
+  const script = myers(tokenize(midFrom), tokenize(midTo));
+  if (script) {
+    for (let i = script.length - 1; i >= 0; i--) {
+      const [kind, token] = script[i];
+      pushOp(ops, kind === '=' ? token.length : kind === '-' ? -token.length : token);
+    }
+  } else {
+    pushOp(ops, -midFrom.length);
+    pushOp(ops, midTo);
+  }
+
+  pushOp(ops, suffix);
+  return ops;
+};
+
+export const applyDelta = (base: string, delta: DeltaOp[]): string => {
+  let cursor = 0;
+  let result = '';
+  delta.forEach(op => {
+    if (typeof op === 'string') {
+      result += op;
+    } else if (op > 0) {
+      result += base.slice(cursor, cursor + op);
+      cursor += op;
+    } else {
+      cursor -= op;
+    }
+  });
+  return result;
+};
+
+const deltaSize = (delta: DeltaOp[]) => delta.reduce<number>((acc, op) => acc + (typeof op === 'string' ? op.length : 8), 0);
+
+/**
+ * 編碼單一快照：鏈位置達關鍵影格間隔、沒有前一版，或增量不比全文小時寫入全文。
+ */
+export const encodeSnapshot = (
+  projectId: string,
+  chapterId: string,
+  snapshot: VersionSnapshot,
+  previous: VersionSnapshot | undefined,
+  position: number
+): SnapshotRecord => {
+  const { content, ...meta } = snapshot;
+  const record: SnapshotRecord = { ...meta, projectId, chapterId };
+  if (!previous || position % KEYFRAME_INTERVAL === 0) return { ...record, content };
+
+  const delta = diffText(previous.content, content);
+  if (deltaSize(delta) >= content.length) return { ...record, content };
+  return { ...record, baseId: previous.id, delta };
+};
+
+/**
+ * 將章節歷史（新到舊）編碼為關鍵影格 + 增量鏈
+ */
+export const encodeHistory = (projectId: string, chapterId: string, history: VersionSnapshot[]): SnapshotRecord[] => {
+  const ascending = [...history].sort((a, b) => a.timestamp - b.timestamp);
+  return ascending.map((snapshot, i) => encodeSnapshot(projectId, chapterId, snapshot, ascending[i - 1], i));
+};
+
+/**
+ * 還原單一章節的快照鏈，回傳新到舊排序的完整快照。
+ * 基準遺失的增量無法還原，會被略過並記錄警告。
+ */
+export const decodeHistory = (records: SnapshotRecord[]): VersionSnapshot[] => {
+  const byId = new Map(records.map(r => [r.id, r]));
+  const contents = new Map<string, string | null>();
+
+  const resolve = (id: string): string | null => {
+    if (contents.has(id)) return contents.get(id)!;
+    contents.set(id, null); // 防止循環參照
+    const record = byId.get(id);
+    let full: string | null = null;
+    if (record?.content !== undefined) {
+      full = record.content;
+    } else if (record?.baseId && record.delta) {
+      const base = resolve(record.baseId);
+      if (base !== null) full = applyDelta(base, record.delta);
+    }
+    contents.set(id, full);
+    return full;
+  };
+
+  const decoded: VersionSnapshot[] = [];
+  records.forEach(({ projectId, chapterId, content, baseId, delta, ...meta }) => {
+    const full = resolve(meta.id);
+    if (full === null) {
+      console.warn(`[Snapshot] 無法還原快照 ${meta.id}：基準版本 ${baseId} 遺失`);
+      return;
+    }
+    decoded.push({ ...meta, content: full });
+  });
+
+  return decoded.sort((a, b) => b.timestamp - a.timestamp);
+};
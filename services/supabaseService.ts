@@ -1,17 +1,643 @@
+import { MembershipLevel, PermissionLevel, Project, ProjectMember, SnapshotType, StructureUnit, ChapterComment, TrackedChange } from '../types';
+import { toProjectRecord, ProjectRecord, CLOUD_SESSION_KEY } from './dbSchema';
+import { dbService } from './dbService';
+import { cryptoService, SealedPayload } from './cryptoService';
+import { digestHex } from './contentHash';
+import { syncOutbox } from './syncOutbox';
+import { settingsRegistry } from './settingsRegistry';
+
+// PostgREST 相容端點（Supabase 專案或本機 PostgREST / 模擬伺服器），未設定時雲端同步停用
+const SUPABASE_URL = (process.env.SUPABASE_URL || '').replace(/\/$/, '');
+const SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY || '';
+// settings 儲存區中記錄每個專案、章節上次同步基準的鍵
+const SYNC_STATE_KEY = 'cloudSyncState@v1';
+// 比對並寫入（compare-and-set）落空時重新拉取再合併的次數上限
+const MAX_SYNC_ATTEMPTS = 3;
+// 存取權杖到期前多久改用更新權杖換發
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+// 雲端 projects 資料表的一列；data 為不含章節的專案主記錄，擁有者由 owner_id 欄位表示
+interface ProjectRow {
+  id: string;
+  owner_id: string;
+  name: string;
+  data: Omit<ProjectRecord, 'revision' | 'deletedAt' | 'ownerId'>;
+  revision: number;
+  updated_at: number;
+  updated_by: string;
+  deleted_at: number | null;
+}
+
+// 雲端 chapters 資料表的一列。本機加密的金鑰由各裝置各自衍生，其他裝置與協作成員無法解開，
+// 因此雲端一律存放明文（傳輸由 TLS 保護、存取由列層級權限限制）；sealed 只出現在舊版寫入的資料列
+interface ChapterRow {
+  id: string;
+  project_id: string;
+  owner_id: string;
+  title: string;
+  content: string;
+  comments: ChapterComment[];
+  suggestions: TrackedChange[];
+  sealed: SealedPayload | null;
+  order: number;
+  word_count: number;
+  created_at: number;
+  revision: number;
+  updated_at: number;
+  updated_by: string;
+  deleted: boolean;
+}
+
+// 雲端 project_members 資料表的一列；user_id 於受邀者接受邀請時由伺服器填入
+interface MemberRow {
+  project_id: string;
+  member_id: string;
+  role: PermissionLevel;
+  token_hash: string | null;
+  user_id: string | null;
+}
+
+interface SyncBase {
+  revision: number;
+  hash: string;
+}
+
+interface SyncState {
+  deviceId: string;
+  projects: Record<string, { project: SyncBase; chapters: Record<string, SyncBase> }>;
+}
+
+export interface SyncConflict {
+  chapterId: string;
+  title: string;
+  winner: 'local' | 'remote';
+}
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number;
+  conflicts: SyncConflict[];
+  // 雲端專案已被刪除且本機沒有未同步的修改
+  remoteDeleted: boolean;
+  // 無法解開、本機也沒有可覆寫版本而略過的舊版加密章節
+  unreadable: number;
+}
+
+export interface UserProfile {
+  membership: MembershipLevel;
+  usage: { wordCount: number; projectCount: number; exportCount: number; aiUsage: number };
+}
+
+/**
+ * 雲端 API 回應錯誤
+ */
+export class CloudSyncError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'CloudSyncError';
+  }
+}
+
+/**
+ * 未登入、權杖失效，或資料列屬於其他帳號
+ */
+export class CloudPermissionError extends Error {
+  constructor(message = '沒有存取此雲端資料的權限') {
+    super(message);
+    this.name = 'CloudPermissionError';
+  }
+}
+
+// 比對並寫入時雲端 revision 已被其他裝置推進
+class RevisionRaceError extends Error {}
+
+// 登入後取得的工作階段；userId 即 JWT 的 sub，PostgREST 以相同欄位執行列層級權限
+interface CloudSession {
+  accessToken: string;
+  refreshToken: string;
+  userId: string;
+  email: string;
+  expiresAt: number;
+}
+
+// Supabase Auth（GoTrue）權杖端點的回應
+interface TokenResponse {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number;
+  user: { id: string; email?: string };
+}
+
+let session: CloudSession | null = null;
+
+const saveSession = async (next: CloudSession | null) => {
+  session = next;
+  await dbService.saveAppSetting(CLOUD_SESSION_KEY, next);
+};
+
+const requestToken = async (grantType: 'password' | 'refresh_token', body: Record<string, string>): Promise<CloudSession> => {
+  const response = await fetch(`${SUPABASE_URL}/auth/v1/token?grant_type=${grantType}`, {
+    method: 'POST',
+    headers: { 'apikey': SUPABASE_ANON_KEY, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  if (response.status === 400 || response.status === 401) {
+    throw new CloudPermissionError(grantType === 'password' ? '電子郵件或密碼不正確' : '登入已過期，請重新登入');
+  }
+  if (!response.ok) throw new CloudSyncError('雲端登入失敗', response.status);
+  const token = await response.json() as TokenResponse;
+  return {
+    accessToken: token.access_token,
+    refreshToken: token.refresh_token,
+    userId: token.user.id,
+    email: token.user.email || body.email || session?.email || '',
+    expiresAt: Date.now() + token.expires_in * 1000
+  };
+};
+
+// 同一時間只換發一次權杖，並行的請求共用結果
+let refreshing: Promise<CloudSession> | null = null;
+
+const requireSession = async (): Promise<CloudSession> => {
+  if (!session) throw new CloudPermissionError('尚未登入雲端帳號');
+  if (session.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) return session;
+  refreshing ||= requestToken('refresh_token', { refresh_token: session.refreshToken })
+    .then(async next => {
+      await saveSession(next);
+      return next;
+    })
+    .catch(async e => {
+      if (e instanceof CloudPermissionError) await saveSession(null);
+      throw e;
+    })
+    .finally(() => { refreshing = null; });
+  return refreshing;
+};
+
+const rest = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  const { accessToken } = await requireSession();
+  const response = await fetch(`${SUPABASE_URL}/rest/v1/${path}`, {
+    ...init,
+    headers: {
+      'apikey': SUPABASE_ANON_KEY,
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+      'Prefer': 'return=representation',
+      ...init.headers
+    }
+  });
+  if (response.status === 401 || response.status === 403) throw new CloudPermissionError();
+  // 主鍵衝突但查詢不到該列：id 已被其他帳號使用（RLS 隱藏了該列）
+  if (response.status === 409) throw new CloudPermissionError('此 id 已由其他帳號擁有');
+  if (!response.ok) {
+    const error = await response.json().catch(() => null);
+    throw new CloudSyncError(error?.message || '雲端同步失敗', response.status);
+  }
+  return response.status === 204 ? ([] as unknown as T) : response.json();
+};
+
+const loadState = async (): Promise<SyncState> => {
+  const stored = await dbService.getAppSetting(SYNC_STATE_KEY) as SyncState | undefined;
+  return stored || { deviceId: crypto.randomUUID(), projects: {} };
+};
+
+const hashOf = (value: unknown) => digestHex(new TextEncoder().encode(JSON.stringify(value)));
+
+const chapterHash = (c: Pick<StructureUnit, 'title' | 'content' | 'order' | 'comments' | 'suggestions'>) =>
+  hashOf([c.title, c.content, c.order, c.comments || [], c.suggestions || []]);
+
+const projectData = (project: Project): ProjectRow['data'] => {
+  const { revision, deletedAt, ownerId, ...data } = toProjectRecord(project) as ProjectRecord & { revision?: number };
+  return data;
+};
+
+const toChapterRow = (projectId: string, ownerId: string, deviceId: string, chapter: StructureUnit, revision: number): ChapterRow => ({
+  id: chapter.id,
+  project_id: projectId,
+  owner_id: ownerId,
+  title: chapter.title,
+  content: chapter.content,
+  comments: chapter.comments || [],
+  suggestions: chapter.suggestions || [],
+  sealed: null,
+  order: chapter.order,
+  word_count: chapter.wordCount,
+  created_at: chapter.createdAt,
+  revision,
+  updated_at: chapter.lastEdited,
+  updated_by: deviceId,
+  deleted: false
+});
+
+type ChapterFields = Pick<ChapterRow, 'title' | 'content'> & Partial<Pick<ChapterRow, 'comments' | 'suggestions'>>;
+
+// 舊版資料列的 sealed 只有寫入的裝置可能解開；無法解開時回傳 null
+const openSealedRow = async (sealed: SealedPayload): Promise<ChapterFields | null> => {
+  if (!cryptoService.isUnlocked()) return null;
+  try {
+    return await cryptoService.open<ChapterFields>(sealed);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 轉換雲端章節；無法解開的舊版加密資料列回傳 null，由呼叫端略過而不中斷整個專案的同步
+ */
+const fromChapterRow = async (row: ChapterRow, history: StructureUnit['history'] = []): Promise<StructureUnit | null> => {
+  const fields = row.sealed ? await openSealedRow(row.sealed) : row;
+  if (!fields) return null;
+  const { title, content, comments, suggestions } = fields;
+  return {
+    id: row.id,
+    title,
+    content,
+    comments: comments || [],
+    suggestions: suggestions || [],
+    order: row.order,
+    wordCount: row.word_count,
+    lastEdited: row.updated_at,
+    createdAt: row.created_at,
+    history
+  };
+};
+
+/**
+ * 擁有者推送專案時一併更新雲端成員表：移除已撤銷的成員，其餘依本機清單寫入角色與邀請碼雜湊
+ */
+const pushMembers = async (projectId: string, members: ProjectMember[]) => {
+  const kept = members.map(m => `"${m.id}"`).join(',');
+  await rest<MemberRow[]>(
+    `project_members?project_id=eq.${encodeURIComponent(projectId)}${kept ? `&member_id=not.in.(${encodeURIComponent(kept)})` : ''}`,
+    { method: 'DELETE' }
+  );
+  if (members.length === 0) return;
+  await rest<MemberRow[]>('project_members?on_conflict=project_id,member_id', {
+    method: 'POST',
+    headers: { 'Prefer': 'resolution=merge-duplicates,return=representation' },
+    body: JSON.stringify(members.map(m => ({ project_id: projectId, member_id: m.id, role: m.role, token_hash: m.inviteTokenHash ?? null })))
+  });
+};
+
+/**
+ * 雙方都修改時的勝出者：較晚修改者勝出，同時間以裝置 id 排序，任何裝置都會得到相同結果
+ */
+const localWins = (localTime: number, localDevice: string, remoteTime: number, remoteDevice: string) =>
+  localTime !== remoteTime ? localTime > remoteTime : localDevice > remoteDevice;
+
+// 落敗的版本保存為快照，衝突不遺失內容
+const conflictSnapshot = (chapter: Pick<StructureUnit, 'title' | 'content'>, timestamp: number) => ({
+  id: `conflict-${timestamp}-${Math.random().toString(36).slice(2, 8)}`,
+  timestamp,
+  title: `${chapter.title}（同步衝突）`,
+  content: chapter.content,
+  type: SnapshotType.MANUAL
+});
+
+/**
+ * 比對本機、雲端與上次同步基準，推送本機修改並拉回雲端修改。
+ * 每個章節獨立以 revision 判斷是否變動，雲端寫入以 revision 做比對並寫入，
+ * 期間被其他裝置搶先時拋出 RevisionRaceError 由呼叫端重試。
+ * 以成員身分同步他人的專案時只讀取專案主記錄，章節寫入沿用擁有者的 owner_id，是否允許由列層級權限決定。
+ */
+const syncOnce = async (projectId: string, state: SyncState): Promise<SyncResult> => {
+  const { userId } = await requireSession();
+  const loaded = await dbService.getProjectRevision(projectId);
+  if (!loaded) return { pushed: 0, pulled: 0, conflicts: [], remoteDeleted: false, unreadable: 0 };
+  const { project: local, revision: localRevision } = loaded;
+
+  const [projectRows, chapterRows, localUserId] = await Promise.all([
+    rest<ProjectRow[]>(`projects?id=eq.${encodeURIComponent(projectId)}&select=*`),
+    rest<ChapterRow[]>(`chapters?project_id=eq.${encodeURIComponent(projectId)}&select=*`),
+    settingsRegistry.get('userId')
+  ]);
+  const remoteProject = projectRows[0];
+  // 他人的專案尚未由擁有者上傳時不建立雲端資料列，以免佔用擁有者的專案 id
+  if (!remoteProject && local.ownerId !== localUserId) return { pushed: 0, pulled: 0, conflicts: [], remoteDeleted: false, unreadable: 0 };
+  const isOwner = !remoteProject || remoteProject.owner_id === userId;
+  const ownerId = remoteProject?.owner_id ?? userId;
+  const base = state.projects[projectId] || { project: { revision: 0, hash: '' }, chapters: {} };
+  const nextBase: typeof base = { project: { ...base.project }, chapters: { ...base.chapters } };
+  const result: SyncResult = { pushed: 0, pulled: 0, conflicts: [], remoteDeleted: false, unreadable: 0 };
+
+  // 專案主記錄
+  const localData = projectData(local);
+  const localProjectHash = await hashOf(localData);
+  const projectLocalChanged = localProjectHash !== base.project.hash;
+  const projectRemoteChanged = !!remoteProject && remoteProject.revision !== base.project.revision;
+  if (remoteProject?.deleted_at && !projectLocalChanged) {
+    return { ...result, remoteDeleted: true };
+  }
+
+  let mergedData = localData;
+  const pushProject = isOwner && (!remoteProject || (projectLocalChanged && (!projectRemoteChanged || localWins(
+    local.updatedAt, state.deviceId, remoteProject.updated_at, remoteProject.updated_by
+  ))) || !!remoteProject.deleted_at);
+  if (pushProject) {
+    const row = {
+      id: projectId, owner_id: userId, name: local.name, data: localData,
+      revision: (remoteProject?.revision ?? 0) + 1, updated_at: local.updatedAt, updated_by: state.deviceId, deleted_at: null
+    };
+    const written = remoteProject
+      ? await rest<ProjectRow[]>(`projects?id=eq.${encodeURIComponent(projectId)}&owner_id=eq.${userId}&revision=eq.${remoteProject.revision}`, { method: 'PATCH', body: JSON.stringify(row) })
+      : await rest<ProjectRow[]>('projects', { method: 'POST', body: JSON.stringify(row) });
+    if (written.length === 0) throw new RevisionRaceError();
+    await pushMembers(projectId, local.members || []);
+    nextBase.project = { revision: row.revision, hash: localProjectHash };
+  } else if (projectRemoteChanged) {
+    mergedData = remoteProject.data;
+    nextBase.project = { revision: remoteProject.revision, hash: await hashOf(remoteProject.data) };
+    result.pulled++;
+  } else {
+    nextBase.project = { revision: remoteProject!.revision, hash: localProjectHash };
+  }
+
+  // 章節
+  const localChapters = new Map(local.chapters.map(c => [c.id, c]));
+  const remoteChapters = new Map(chapterRows.map(r => [r.id, r]));
+  const remoteOpened = new Map(await Promise.all(chapterRows.map(async r => [r.id, await fromChapterRow(r)] as const)));
+  const merged = new Map<string, StructureUnit>(localChapters);
+  const ids = new Set([...localChapters.keys(), ...remoteChapters.keys(), ...Object.keys(base.chapters)]);
+
+  const pushChapter = async (chapter: StructureUnit, remote: ChapterRow | undefined) => {
+    const revision = (remote?.revision ?? 0) + 1;
+    const row = toChapterRow(projectId, ownerId, state.deviceId, chapter, revision);
+    const written = remote
+      ? await rest<ChapterRow[]>(`chapters?id=eq.${encodeURIComponent(chapter.id)}&revision=eq.${remote.revision}`, { method: 'PATCH', body: JSON.stringify(row) })
+      : await rest<ChapterRow[]>('chapters', { method: 'POST', body: JSON.stringify(row) });
+    if (written.length === 0) throw new RevisionRaceError();
+    nextBase.chapters[chapter.id] = { revision, hash: await chapterHash(chapter) };
+    result.pushed++;
+  };
+
+  const pullChapter = async (row: ChapterRow, history: StructureUnit['history']) => {
+    const chapter: StructureUnit = { ...remoteOpened.get(row.id)!, history };
+    merged.set(row.id, chapter);
+    nextBase.chapters[row.id] = { revision: row.revision, hash: await chapterHash(chapter) };
+    result.pulled++;
+    return chapter;
+  };
+
+  for (const id of ids) {
+    const localChapter = localChapters.get(id);
+    const remote = remoteChapters.get(id);
+    const chapterBase = base.chapters[id];
+    const localHash = localChapter ? await chapterHash(localChapter) : '';
+    // 基準 hash 為空字串代表上次同步時章節已刪除
+    const localChanged = localChapter ? localHash !== chapterBase?.hash : !!chapterBase?.hash;
+    const remoteChanged = remote ? remote.revision !== chapterBase?.revision : false;
+    const remoteChapter = remoteOpened.get(id);
+
+    // 無法解開的舊版加密資料列：本機有此章時以本機明文覆寫修復，否則略過此章
+    if (remote && !remote.deleted && !remoteChapter) {
+      if (localChapter) {
+        await pushChapter(localChapter, remote);
+      } else {
+        console.warn(`[Supabase] 章節 ${id} 為其他裝置加密的舊版資料，無法解開，已略過`);
+        result.unreadable++;
+      }
+      continue;
+    }
+
+    if (!localChanged && !remoteChanged) continue;
+
+    if (localChapter && remote && !remote.deleted && localChanged && remoteChanged) {
+      // 內容相同（例如上次推送後未能記錄基準）時只更新基準
+      const remoteHash = await chapterHash(remoteChapter!);
+      if (remoteHash === localHash) {
+        nextBase.chapters[id] = { revision: remote.revision, hash: localHash };
+        continue;
+      }
+    }
+
+    if (localChanged && !remoteChanged) {
+      if (localChapter) {
+        await pushChapter(localChapter, remote);
+      } else if (remote && !remote.deleted) {
+        // 本機已刪除：雲端改為刪除標記，保留 revision 供其他裝置判斷
+        const revision = remote.revision + 1;
+        const written = await rest<ChapterRow[]>(
+          `chapters?id=eq.${encodeURIComponent(id)}&revision=eq.${remote.revision}`,
+          { method: 'PATCH', body: JSON.stringify({ deleted: true, revision, updated_at: Date.now(), updated_by: state.deviceId }) }
+        );
+        if (written.length === 0) throw new RevisionRaceError();
+        nextBase.chapters[id] = { revision, hash: '' };
+        result.pushed++;
+      } else {
+        nextBase.chapters[id] = { revision: remote?.revision ?? 0, hash: '' };
+      }
+      continue;
+    }
+
+    if (!localChanged && remoteChanged) {
+      if (remote!.deleted) {
+        nextBase.chapters[id] = { revision: remote!.revision, hash: '' };
+        if (merged.delete(id)) result.pulled++;
+      } else {
+        await pullChapter(remote!, localChapter?.history);
+      }
+      continue;
+    }
+
+    // 雙方都有變動
+    if (!localChapter) {
+      // 本機刪除、雲端修改：保留雲端內容
+      if (!remote!.deleted) await pullChapter(remote!, []);
+      else nextBase.chapters[id] = { revision: remote!.revision, hash: '' };
+      continue;
+    }
+    if (remote!.deleted) {
+      // 雲端刪除、本機修改：以本機內容恢復
+      await pushChapter(localChapter, remote);
+      continue;
+    }
+    if (localWins(localChapter.lastEdited, state.deviceId, remote!.updated_at, remote!.updated_by)) {
+      const withLoser = { ...localChapter, history: [conflictSnapshot(remoteChapter!, remote!.updated_at), ...(localChapter.history || [])] };
+      merged.set(id, withLoser);
+      await pushChapter(withLoser, remote);
+      result.conflicts.push({ chapterId: id, title: localChapter.title, winner: 'local' });
+    } else {
+      await pullChapter(remote!, [conflictSnapshot(localChapter, localChapter.lastEdited), ...(localChapter.history || [])]);
+      result.conflicts.push({ chapterId: id, title: remoteChapter!.title, winner: 'remote' });
+    }
+  }
+
+  // 拉回的內容或衝突快照需寫入本機；本機在同步期間又有修改時放棄這次的拉取基準，下次重新比對
+  const localModified = result.pulled > 0 || result.conflicts.length > 0;
+  if (localModified) {
+    const mergedProject: Project = {
+      ...local,
+      ...mergedData,
+      id: projectId,
+      chapters: [...merged.values()].sort((a, b) => a.order - b.order),
+      publishingPayload: local.publishingPayload
+        ? { ...local.publishingPayload, ...mergedData.publishingPayload }
+        : mergedData.publishingPayload as Project['publishingPayload']
+    };
+    await dbService.saveProject(mergedProject, localRevision);
+  }
+  state.projects[projectId] = nextBase;
+  return result;
+};
 
-// 此為模擬 Supabase 整合，實務上需填入 PROJECT_URL 與 ANON_KEY
 export const supabaseService = {
-  async syncProject(project: any) {
-    console.log("[Supabase] 同步專案至雲端 PostgreSQL...", project.id);
-    // 實作 RLS 權限檢查邏輯
-    return true;
+  /**
+   * 建置時設定了雲端端點；每位使用者仍需自行登入才會同步
+   */
+  isAvailable(): boolean {
+    return !!SUPABASE_URL;
   },
 
-  async getUserProfile(userId: string) {
-    // 獲取會員等級與使用統計
+  isConfigured(): boolean {
+    return !!SUPABASE_URL && !!session;
+  },
+
+  /**
+   * 目前登入的帳號信箱，未登入時為 null
+   */
+  currentUser(): string | null {
+    return session?.email ?? null;
+  },
+
+  /**
+   * 載入這台裝置上次登入的工作階段（權杖過期時於下次請求換發）
+   */
+  async restoreSession(): Promise<string | null> {
+    if (!SUPABASE_URL) return null;
+    session = (await dbService.getAppSetting(CLOUD_SESSION_KEY) as CloudSession | undefined) || null;
+    return session?.email ?? null;
+  },
+
+  /**
+   * 以 Supabase Auth 的電子郵件與密碼登入；帳號或密碼錯誤時拋出 CloudPermissionError
+   */
+  async signIn(email: string, password: string): Promise<string> {
+    if (!SUPABASE_URL) throw new CloudSyncError('未設定雲端同步端點', 0);
+    const next = await requestToken('password', { email: email.trim(), password });
+    await saveSession(next);
+    console.log('[Supabase] 已登入雲端帳號');
+    return next.email;
+  },
+
+  async signOut(): Promise<void> {
+    const current = session;
+    await saveSession(null);
+    if (!current) return;
+    // 撤銷伺服器上的更新權杖；失敗不影響本機登出
+    await fetch(`${SUPABASE_URL}/auth/v1/logout`, {
+      method: 'POST',
+      headers: { 'apikey': SUPABASE_ANON_KEY, 'Authorization': `Bearer ${current.accessToken}` }
+    }).catch(() => undefined);
+  },
+
+  /**
+   * 同步單一專案：推送本機修改、拉回雲端修改，雙方都改的章節依修改時間決定勝出者，落敗版本存為快照。
+   * 可讀寫的資料列由雲端的列層級權限決定：自己擁有的專案，以及以成員身分加入的專案。
+   */
+  async syncProject(project: Pick<Project, 'id'>): Promise<SyncResult> {
+    const state = await loadState();
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await syncOnce(project.id, state);
+        await dbService.saveAppSetting(SYNC_STATE_KEY, state);
+        console.log(`[Supabase] 專案 ${project.id} 同步完成：推送 ${result.pushed}、拉回 ${result.pulled}、衝突 ${result.conflicts.length}、無法解開 ${result.unreadable}`);
+        return result;
+      } catch (e) {
+        if (!(e instanceof RevisionRaceError) || attempt >= MAX_SYNC_ATTEMPTS) {
+          await dbService.saveAppSetting(SYNC_STATE_KEY, state);
+          throw e instanceof RevisionRaceError ? new CloudSyncError('雲端資料持續變動中，請稍後再試', 409) : e;
+        }
+      }
+    }
+  },
+
+  /**
+   * 將本機沒有的雲端專案下載至本機並記錄同步基準（快照歷史不在雲端，下載的章節沒有歷史）
+   */
+  async pullProject(projectId: string): Promise<Project> {
+    const { userId } = await requireSession();
+    const [projectRows, chapterRows, localUserId] = await Promise.all([
+      rest<ProjectRow[]>(`projects?id=eq.${encodeURIComponent(projectId)}&deleted_at=is.null&select=*`),
+      rest<ChapterRow[]>(`chapters?project_id=eq.${encodeURIComponent(projectId)}&deleted=is.false&select=*`),
+      settingsRegistry.get('userId')
+    ]);
+    const row = projectRows[0];
+    if (!row) throw new CloudSyncError('雲端找不到此專案', 404);
+
+    const opened = await Promise.all(chapterRows.map(r => fromChapterRow(r)));
+    const chapters = opened.filter((c): c is StructureUnit => !!c);
+    if (chapters.length < opened.length) console.warn(`[Supabase] 專案 ${projectId} 有 ${opened.length - chapters.length} 個舊版加密章節無法解開，未下載`);
+    const project: Project = {
+      ...row.data,
+      id: row.id,
+      // 自己帳號的專案歸本機使用者擁有；他人的專案以雲端帳號 id 表示擁有者
+      ownerId: row.owner_id === userId ? localUserId : row.owner_id,
+      chapters: chapters.sort((a, b) => a.order - b.order),
+      publishingPayload: row.data.publishingPayload as Project['publishingPayload']
+    };
+    await dbService.saveProject(project);
+
+    const state = await loadState();
+    state.projects[projectId] = {
+      project: { revision: row.revision, hash: await hashOf(projectData(project)) },
+      chapters: Object.fromEntries(await Promise.all(chapters.map(async c =>
+        [c.id, { revision: chapterRows.find(r => r.id === c.id)!.revision, hash: await chapterHash(c) }] as const
+      )))
+    };
+    await dbService.saveAppSetting(SYNC_STATE_KEY, state);
+    return project;
+  },
+
+  /**
+   * 列出雲端上目前使用者擁有或以成員身分加入、尚未刪除的專案
+   */
+  async listRemoteProjects(): Promise<{ id: string; name: string; updatedAt: number }[]> {
+    const rows = await rest<Pick<ProjectRow, 'id' | 'name' | 'updated_at'>[]>(
+      'projects?deleted_at=is.null&select=id,name,updated_at&order=updated_at.desc'
+    );
+    return rows.map(r => ({ id: r.id, name: r.name, updatedAt: r.updated_at }));
+  },
+
+  /**
+   * 以邀請碼在雲端綁定目前帳號為專案成員；邀請碼由伺服器雜湊比對，無效或已被使用時回傳 null
+   */
+  async acceptInvite(projectId: string, token: string): Promise<{ memberId: string; role: PermissionLevel } | null> {
+    const rows = await rest<Pick<MemberRow, 'member_id' | 'role'>[]>('rpc/accept_invite', {
+      method: 'POST',
+      body: JSON.stringify({ p_project_id: projectId, p_token: token })
+    });
+    return rows[0] ? { memberId: rows[0].member_id, role: rows[0].role } : null;
+  },
+
+  /**
+   * 會員等級與使用量：會員等級來自 profiles 資料表，作品數與字數依雲端資料即時統計
+   */
+  async getUserProfile(userId: string): Promise<UserProfile> {
+    const [profiles, projects, chapters] = await Promise.all([
+      rest<{ membership: string; export_count: number; ai_usage: number }[]>(`profiles?id=eq.${userId}&select=membership,export_count,ai_usage`),
+      rest<{ id: string }[]>(`projects?owner_id=eq.${userId}&deleted_at=is.null&select=id`),
+      rest<{ project_id: string; word_count: number }[]>(`chapters?owner_id=eq.${userId}&deleted=is.false&select=project_id,word_count`)
+    ]);
+    const profile = profiles[0];
+    const liveProjects = new Set(projects.map(p => p.id));
+    const membership = Object.values(MembershipLevel).includes(profile?.membership as MembershipLevel)
+      ? profile.membership as MembershipLevel
+      : MembershipLevel.FREE;
     return {
-      membership: 'FREE',
-      usage: { wordCount: 0, projectCount: 1 }
+      membership,
+      usage: {
+        wordCount: chapters.filter(c => liveProjects.has(c.project_id)).reduce((sum, c) => sum + (c.word_count || 0), 0),
+        projectCount: liveProjects.size,
+        exportCount: profile?.export_count || 0,
+        aiUsage: profile?.ai_usage || 0
+      }
     };
   }
 };
+
+// 儲存後的雲端同步由離線同步佇列執行；權限不足與其他非暫時性的 4xx 回應不重試
+syncOutbox.registerHandler('cloudSync', {
+  run: ({ projectId }) => supabaseService.syncProject({ id: projectId }),
+  isPermanent: e => e instanceof CloudPermissionError
+    || (e instanceof CloudSyncError && e.status >= 400 && e.status < 500 && ![408, 409, 429].includes(e.status))
+});
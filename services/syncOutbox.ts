@@ -0,0 +1,253 @@
+// 離線同步佇列：雲端同步與備份先寫入 IndexedDB 的 outbox，再由此依序送出。
+// 同一類（kind）的操作依加入順序逐一執行，失敗時以指數退避重試，重試用盡或無法重試的錯誤移入失敗佇列；
+// 離線期間只累積不執行，恢復連線後立即依序送出。多個分頁以 Web Locks 確保同時只有一個分頁在送出。
+
+import { dbService } from './dbService';
+import { OutboxRecord } from './dbSchema';
+
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+const MAX_ATTEMPTS = 8;
+// settings 儲存區中記錄最後一次成功時間的鍵
+const STATUS_KEY = 'syncOutboxStatus@v1';
+const LOCK_NAME = 'inspublish-outbox';
+
+export interface OutboxHandler {
+  run(payload: Record<string, string>): Promise<unknown>;
+  // 重試也不會成功的錯誤（授權失效、權限不足），直接移入失敗佇列
+  isPermanent?(error: unknown): boolean;
+}
+
+export interface OutboxStatus {
+  online: boolean;
+  running: boolean;
+  pending: number;
+  deadLetters: number;
+  nextRetryAt: number | null;
+  lastSuccessAt: number | null;
+  lastError: { kind: string; message: string; at: number } | null;
+}
+
+export type OutboxListener = (status: OutboxStatus) => void;
+export type OutboxCompletionListener = (record: OutboxRecord, result: unknown) => void;
+
+const handlers = new Map<string, OutboxHandler>();
+const listeners = new Set<OutboxListener>();
+const completionListeners = new Set<OutboxCompletionListener>();
+
+let records: OutboxRecord[] = [];
+let running = false;
+let inFlightSeq: number | null = null;
+let lastSuccessAt: number | null = null;
+let draining: Promise<void> | null = null;
+let timer: number | null = null;
+let started = false;
+
+const backoff = (attempts: number) =>
+  Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempts - 1)) * (0.8 + Math.random() * 0.4);
+
+const describe = (record: OutboxRecord) => `${record.kind}:${record.key}`;
+
+/**
+ * 每一類操作中排在最前面、尚未進入失敗佇列的一筆
+ */
+const laneHeads = () => {
+  const heads = new Map<string, OutboxRecord>();
+  records.forEach(record => {
+    if (record.deadAt) return;
+    const head = heads.get(record.kind);
+    if (!head || record.seq! < head.seq!) heads.set(record.kind, record);
+  });
+  return [...heads.values()];
+};
+
+const currentStatus = (): OutboxStatus => {
+  const failed = records
+    .filter(r => r.lastError && r.failedAt)
+    .sort((a, b) => b.failedAt! - a.failedAt!)[0];
+  const waiting = laneHeads().filter(r => handlers.has(r.kind)).map(r => r.nextAttemptAt);
+  return {
+    online: navigator.onLine,
+    running,
+    pending: records.filter(r => !r.deadAt).length,
+    deadLetters: records.filter(r => r.deadAt).length,
+    nextRetryAt: waiting.length > 0 ? Math.min(...waiting) : null,
+    lastSuccessAt,
+    lastError: failed ? { kind: failed.kind, message: failed.lastError!, at: failed.failedAt! } : null
+  };
+};
+
+const emit = () => {
+  const status = currentStatus();
+  listeners.forEach(listener => listener(status));
+};
+
+const refresh = async () => {
+  records = (await dbService.listOutbox()).sort((a, b) => a.seq! - b.seq!);
+  emit();
+};
+
+const scheduleNext = () => {
+  if (timer !== null) window.clearTimeout(timer);
+  timer = null;
+  const { nextRetryAt, online } = currentStatus();
+  if (nextRetryAt === null || !online) return;
+  timer = window.setTimeout(() => { timer = null; drain(); }, Math.max(0, nextRetryAt - Date.now()));
+};
+
+const attempt = async (record: OutboxRecord) => {
+  const handler = handlers.get(record.kind)!;
+  inFlightSeq = record.seq!;
+  try {
+    const result = await handler.run(record.payload);
+    await dbService.deleteOutbox(record.seq!);
+    lastSuccessAt = Date.now();
+    await dbService.saveAppSetting(STATUS_KEY, { lastSuccessAt });
+    completionListeners.forEach(listener => listener(record, result));
+  } catch (e) {
+    const now = Date.now();
+    const message = e instanceof Error ? e.message : String(e);
+    const permanent = !!handler.isPermanent?.(e);
+    // 執行途中斷線不計入重試次數，恢復連線後重新送出
+    const attempts = !permanent && !navigator.onLine ? record.attempts : record.attempts + 1;
+    const dead = permanent || attempts >= MAX_ATTEMPTS;
+    await dbService.putOutbox({
+      ...record,
+      attempts,
+      lastError: message,
+      failedAt: now,
+      nextAttemptAt: now + backoff(Math.max(1, attempts)),
+      ...(dead ? { deadAt: now } : {})
+    });
+    if (dead) console.error(`[Outbox] ${describe(record)} 移入失敗佇列`, e);
+    else console.warn(`[Outbox] ${describe(record)} 第 ${attempts} 次失敗，稍後重試`, e);
+  } finally {
+    inFlightSeq = null;
+  }
+};
+
+const processQueue = async () => {
+  running = true;
+  try {
+    // 每輪重新讀取，其他分頁加入的操作也會依序處理
+    for (;;) {
+      await refresh();
+      const now = Date.now();
+      const due = laneHeads().filter(r => handlers.has(r.kind) && r.nextAttemptAt <= now);
+      if (due.length === 0 || !navigator.onLine) break;
+      for (const record of due) await attempt(record);
+    }
+  } finally {
+    running = false;
+    await refresh();
+  }
+};
+
+const drain = (): Promise<void> => {
+  if (!draining) {
+    draining = (async () => {
+      if (!navigator.onLine) {
+        await refresh();
+        return;
+      }
+      if (!navigator.locks) {
+        await processQueue();
+        return;
+      }
+      await navigator.locks.request(LOCK_NAME, { ifAvailable: true }, async lock => {
+        if (lock) await processQueue();
+        else await refresh();
+      });
+    })()
+      .catch(e => console.error('[Outbox] 佇列處理失敗', e))
+      .finally(() => {
+        draining = null;
+        scheduleNext();
+      });
+  }
+  return draining;
+};
+
+// 恢復連線後不等退避時間，立即依序送出
+const handleOnline = async () => {
+  await Promise.all(records
+    .filter(r => !r.deadAt && r.nextAttemptAt > Date.now())
+    .map(r => dbService.putOutbox({ ...r, nextAttemptAt: Date.now() })));
+  drain();
+};
+
+const handleOffline = () => {
+  scheduleNext();
+  emit();
+};
+
+export const syncOutbox = {
+  registerHandler(kind: string, handler: OutboxHandler) {
+    handlers.set(kind, handler);
+    if (started) drain();
+  },
+
+  /**
+   * 開始處理佇列（解鎖本機資料後呼叫）；前次未送出的操作會接續執行
+   */
+  async start(): Promise<void> {
+    if (started) return;
+    started = true;
+    lastSuccessAt = (await dbService.getAppSetting(STATUS_KEY))?.lastSuccessAt ?? null;
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    await drain();
+  },
+
+  /**
+   * 加入一筆操作；同 key 已有尚未開始執行的操作時不重複加入。
+   * delayMs 讓連續觸發的操作（例如逐字儲存後的雲端同步）合併為一次
+   */
+  async enqueue(kind: string, key: string, payload: Record<string, string>, options: { delayMs?: number } = {}): Promise<void> {
+    const stored = await dbService.listOutbox();
+    if (stored.some(r => r.kind === kind && r.key === key && !r.deadAt && r.seq !== inFlightSeq)) return;
+    await dbService.putOutbox({
+      kind,
+      key,
+      payload,
+      attempts: 0,
+      nextAttemptAt: Date.now() + (options.delayMs || 0),
+      createdAt: Date.now()
+    });
+    await refresh();
+    if (started && !draining) scheduleNext();
+  },
+
+  /**
+   * 立即重試：指定 seq 時只重試該筆，否則重試失敗佇列與退避中的所有操作
+   */
+  async retry(seq?: number): Promise<void> {
+    const targets = records.filter(r => seq === undefined ? (r.deadAt || r.attempts > 0) : r.seq === seq);
+    await Promise.all(targets.map(({ deadAt, ...r }) =>
+      dbService.putOutbox({ ...r, attempts: 0, nextAttemptAt: Date.now() })));
+    await drain();
+  },
+
+  async discard(seq: number): Promise<void> {
+    await dbService.deleteOutbox(seq);
+    await refresh();
+  },
+
+  getStatus(): OutboxStatus {
+    return currentStatus();
+  },
+
+  subscribe(listener: OutboxListener): () => void {
+    listeners.add(listener);
+    listener(currentStatus());
+    return () => { listeners.delete(listener); };
+  },
+
+  /**
+   * 訂閱成功完成的操作（例如雲端同步拉回修改後重新載入專案）
+   */
+  onComplete(listener: OutboxCompletionListener): () => void {
+    completionListeners.add(listener);
+    return () => { completionListeners.delete(listener); };
+  }
+};
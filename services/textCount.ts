@@ -0,0 +1,142 @@
+import { CountMetric, Project, StructureUnit } from '../types';
+
+/**
+ * 字數統計：以 Intl.Segmenter 斷詞，拉丁文字計「詞」、中日韓文字逐字計「字」，混合文字兩者相加。
+ * 計算前先移除 Markdown 標記，標題符號、連結網址與強調符號不計入。
+ */
+
+export interface TextCounts {
+  // 中日韓以外的詞數（英文等以空白分隔的文字）
+  latinWords: number;
+  // 中日韓文字的字數
+  cjkCharacters: number;
+  // 斷詞後的詞數，中日韓文字依詞典斷詞
+  words: number;
+  // 不含空白的字元數
+  characters: number;
+  // 拉丁詞數 + 中日韓字數，章節 wordCount 採用此值
+  mixed: number;
+}
+
+export const COUNT_METRIC_LABELS: Record<CountMetric, string> = {
+  MIXED: '字詞',
+  WORDS: '詞數',
+  CHARACTERS: '字元'
+};
+
+// 估算頁數：英文每頁約 250 詞，中文每頁約 500 字
+const WORDS_PER_PAGE = 250;
+const CJK_CHARACTERS_PER_PAGE = 500;
+
+const CJK = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+const WORD_CHARACTER = /[\p{L}\p{N}]/u;
+// 不支援 Intl.Segmenter 的環境改以字母數字串斷詞
+const FALLBACK_WORD = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu;
+
+const segmenter = typeof Intl.Segmenter === 'function' ? new Intl.Segmenter(undefined, { granularity: 'word' }) : null;
+
+// 章節物件不可變，以物件本身快取統計結果
+const chapterCache = new WeakMap<StructureUnit, TextCounts>();
+
+const stripMarkdown = (text: string) => text
+  .replace(/^\s{0,3}(`{3,}|~{3,}).*$/gm, '')
+  .replace(/<[^>]+>/g, ' ')
+  .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+  .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+  .replace(/^\s{0,3}([-*_])(\s*\1){2,}\s*$/gm, '')
+  .replace(/^\s{0,3}(#{1,6}|(>\s?)+|[-*+]|\d+[.)])\s+/gm, '')
+  .replace(/[*_~`]+/g, '');
+
+// 每個斷詞結果都帶有整段輸入的複本，長文一次斷詞會耗盡記憶體；先依換行與空白切成短段再斷詞
+const SEGMENT_CHUNK = 1000;
+// 逐字輸入時只有游標所在的段落改變，其餘段落沿用快取的結果
+const MAX_CACHED_LINES = 5000;
+const lineCache = new Map<string, TextCounts>();
+
+const chunksOf = (line: string): string[] => {
+  const chunks: string[] = [];
+  let rest = line;
+  while (rest.length > SEGMENT_CHUNK) {
+    const cut = Math.max(rest.lastIndexOf(' ', SEGMENT_CHUNK), rest.lastIndexOf('，', SEGMENT_CHUNK), rest.lastIndexOf('。', SEGMENT_CHUNK));
+    const end = cut > 0 ? cut + 1 : SEGMENT_CHUNK;
+    chunks.push(rest.slice(0, end));
+    rest = rest.slice(end);
+  }
+  return rest ? [...chunks, rest] : chunks;
+};
+
+const wordSegments = (line: string): string[] => segmenter
+  ? chunksOf(line).flatMap(chunk => Array.from(segmenter.segment(chunk)).filter(s => s.isWordLike).map(s => s.segment))
+  : line.match(FALLBACK_WORD) || [];
+
+const countLine = (line: string): TextCounts => {
+  const cached = lineCache.get(line);
+  if (cached) return cached;
+  let latinWords = 0;
+  let cjkCharacters = 0;
+  let words = 0;
+  wordSegments(line).forEach(segment => {
+    words++;
+    const cjk = segment.match(CJK)?.length || 0;
+    cjkCharacters += cjk;
+    // 夾雜在中文裡的英數字（例如「iPhone 手機」斷成同一詞時）另計一個詞
+    if (cjk === 0 || WORD_CHARACTER.test(segment.replace(CJK, ''))) latinWords++;
+  });
+  const characters = line.match(/\S/gu)?.length || 0;
+  const counts = { latinWords, cjkCharacters, words, characters, mixed: latinWords + cjkCharacters };
+  if (lineCache.size >= MAX_CACHED_LINES) lineCache.clear();
+  lineCache.set(line, counts);
+  return counts;
+};
+
+const sum = (counts: TextCounts[]): TextCounts => counts.reduce((total, c) => ({
+  latinWords: total.latinWords + c.latinWords,
+  cjkCharacters: total.cjkCharacters + c.cjkCharacters,
+  words: total.words + c.words,
+  characters: total.characters + c.characters,
+  mixed: total.mixed + c.mixed
+}), { latinWords: 0, cjkCharacters: 0, words: 0, characters: 0, mixed: 0 });
+
+export const textCount = {
+  count(text: string): TextCounts {
+    return sum(stripMarkdown(text).split('\n').filter(line => line.trim()).map(countLine));
+  },
+
+  ofChapter(chapter: StructureUnit): TextCounts {
+    let counts = chapterCache.get(chapter);
+    if (!counts) {
+      counts = this.count(chapter.content);
+      chapterCache.set(chapter, counts);
+    }
+    return counts;
+  },
+
+  ofProject(project: Pick<Project, 'chapters'>): TextCounts {
+    return sum(project.chapters.map(c => this.ofChapter(c)));
+  },
+
+  valueOf(counts: TextCounts, metric: CountMetric = 'MIXED'): number {
+    if (metric === 'WORDS') return counts.words;
+    if (metric === 'CHARACTERS') return counts.characters;
+    return counts.mixed;
+  },
+
+  /**
+   * 依專案設定的統計方式計算寫作目標的進度數值
+   */
+  goalValue(project: Pick<Project, 'chapters' | 'goalMetric'>): number {
+    return this.valueOf(this.ofProject(project), project.goalMetric);
+  },
+
+  /**
+   * 寫作目標的完成百分比（0–100），未設定目標時為 0
+   */
+  goalProgress(project: Pick<Project, 'chapters' | 'goalMetric' | 'targetWordCount'>): number {
+    if (!project.targetWordCount) return 0;
+    return Math.min(100, Math.round((this.goalValue(project) / project.targetWordCount) * 100));
+  },
+
+  estimatePages(counts: TextCounts): number {
+    return Math.ceil(counts.latinWords / WORDS_PER_PAGE + counts.cjkCharacters / CJK_CHARACTERS_PER_PAGE);
+  }
+};
@@ -0,0 +1,204 @@
+/**
+ * 章節內文的序列 CRDT（RGA）。
+ * 每個 UTF-16 字元是一個帶有唯一 id 的項目，插入時記錄左側鄰居（origin），刪除只標記墓碑；
+ * 同一位置的並行插入依 Lamport 時鐘與站點 id 排序，所有站點套用相同的操作集合後得到相同文字，與套用順序無關。
+ */
+
+export interface CrdtItem {
+  // `${clock}@${site}`
+  id: string;
+  origin: string | null;
+  value: string;
+  deleted: boolean;
+}
+
+export type CrdtOp =
+  // 連續插入的字元 id 為 clock、clock+1…，每個字元的 origin 是前一個字元
+  | { kind: 'insert'; site: string; clock: number; origin: string | null; text: string }
+  | { kind: 'delete'; ids: string[] };
+
+export interface TextDoc {
+  site: string;
+  clock: number;
+  items: CrdtItem[];
+  byId: Map<string, CrdtItem>;
+  // 依賴尚未收到的項目而暫緩套用的操作
+  pending: CrdtOp[];
+}
+
+const itemId = (clock: number, site: string) => `${clock}@${site}`;
+
+const parseId = (id: string) => {
+  const at = id.indexOf('@');
+  return { clock: Number(id.slice(0, at)), site: id.slice(at + 1) };
+};
+
+const compareIds = (a: string, b: string): number => {
+  const x = parseId(a);
+  const y = parseId(b);
+  if (x.clock !== y.clock) return x.clock - y.clock;
+  return x.site < y.site ? -1 : x.site > y.site ? 1 : 0;
+};
+
+// 內容的確定性雜湊（FNV-1a），開啟相同內容的站點會得到相同的初始項目 id
+const fnv1a = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const isHighSurrogate = (code: number) => code >= 0xd800 && code <= 0xdbff;
+
+/**
+ * 將一段連續插入整合進序列：自 origin 右側開始，跳過 id 較大的項目（並行插入中優先者及其後代）
+ */
+const integrate = (doc: TextDoc, op: Extract<CrdtOp, { kind: 'insert' }>) => {
+  let index = op.origin ? doc.items.indexOf(doc.byId.get(op.origin)!) + 1 : 0;
+  const firstId = itemId(op.clock, op.site);
+  while (index < doc.items.length && compareIds(doc.items[index].id, firstId) > 0) index++;
+
+  // 後續字元的 clock 必大於此處右側的所有項目，因此整段連續放置
+  const run: CrdtItem[] = Array.from({ length: op.text.length }, (_, i) => ({
+    id: itemId(op.clock + i, op.site),
+    origin: i === 0 ? op.origin : itemId(op.clock + i - 1, op.site),
+    value: op.text[i],
+    deleted: false
+  }));
+  doc.items.splice(index, 0, ...run);
+  run.forEach(item => doc.byId.set(item.id, item));
+  doc.clock = Math.max(doc.clock, op.clock + op.text.length - 1);
+};
+
+const canApply = (doc: TextDoc, op: CrdtOp) =>
+  op.kind === 'insert'
+    ? !op.origin || doc.byId.has(op.origin)
+    : op.ids.every(id => doc.byId.has(id));
+
+const applyOne = (doc: TextDoc, op: CrdtOp) => {
+  if (op.kind === 'insert') {
+    // 重複收到的操作直接忽略
+    if (op.text.length > 0 && !doc.byId.has(itemId(op.clock, op.site))) integrate(doc, op);
+  } else {
+    op.ids.forEach(id => { doc.byId.get(id)!.deleted = true; });
+  }
+};
+
+const visibleItems = (doc: TextDoc) => doc.items.filter(item => !item.deleted);
+
+export const createTextDoc = (site: string, initialText = ''): TextDoc => {
+  const doc: TextDoc = { site, clock: 0, items: [], byId: new Map(), pending: [] };
+  if (initialText) applyOne(doc, { kind: 'insert', site: `base-${fnv1a(initialText)}`, clock: 1, origin: null, text: initialText });
+  return doc;
+};
+
+export const docText = (doc: TextDoc): string => {
+  let text = '';
+  doc.items.forEach(item => { if (!item.deleted) text += item.value; });
+  return text;
+};
+
+/**
+ * 套用遠端操作；依賴的項目尚未到達時暫存，待之後的操作補齊再套用
+ */
+export const applyOps = (doc: TextDoc, ops: CrdtOp[]) => {
+  doc.pending.push(...ops);
+  let progressed = true;
+  while (progressed) {
+    progressed = false;
+    doc.pending = doc.pending.filter(op => {
+      if (!canApply(doc, op)) return true;
+      applyOne(doc, op);
+      progressed = true;
+      return false;
+    });
+  }
+};
+
+/**
+ * 比對目前文字與編輯後的文字，產生並套用本機操作（單一連續區段的刪除與插入）
+ */
+export const diffToOps = (doc: TextDoc, next: string): CrdtOp[] => {
+  const visible = visibleItems(doc);
+  const current = visible.map(item => item.value).join('');
+  if (current === next) return [];
+
+  let prefix = 0;
+  const maxPrefix = Math.min(current.length, next.length);
+  while (prefix < maxPrefix && current[prefix] === next[prefix]) prefix++;
+  let suffix = 0;
+  const maxSuffix = maxPrefix - prefix;
+  while (suffix < maxSuffix && current[current.length - 1 - suffix] === next[next.length - 1 - suffix]) suffix++;
+  // 不把代理對拆在兩個操作之間
+  if (prefix > 0 && isHighSurrogate(current.charCodeAt(prefix - 1))) prefix--;
+  if (suffix > 0 && isHighSurrogate(current.charCodeAt(current.length - suffix - 1))) suffix--;
+
+  const ops: CrdtOp[] = [];
+  const removed = visible.slice(prefix, current.length - suffix);
+  if (removed.length > 0) ops.push({ kind: 'delete', ids: removed.map(item => item.id) });
+  const inserted = next.slice(prefix, next.length - suffix);
+  if (inserted) {
+    ops.push({ kind: 'insert', site: doc.site, clock: doc.clock + 1, origin: prefix > 0 ? visible[prefix - 1].id : null, text: inserted });
+  }
+  ops.forEach(op => applyOne(doc, op));
+  return ops;
+};
+
+/**
+ * 完整狀態（含墓碑），供新加入的站點取得或合併
+ */
+export const encodeDoc = (doc: TextDoc): CrdtItem[] => doc.items.map(item => ({ ...item }));
+
+/**
+ * 以收到的完整狀態取代本機文件（尚未與任何站點交換過資料時使用）
+ */
+export const loadDoc = (doc: TextDoc, items: CrdtItem[]) => {
+  doc.items = items.map(item => ({ ...item }));
+  doc.byId = new Map(doc.items.map(item => [item.id, item]));
+  doc.clock = doc.items.reduce((max, item) => Math.max(max, parseId(item.id).clock), doc.clock);
+  // 比狀態更早到達的操作仍待套用
+  applyOps(doc, []);
+};
+
+/**
+ * 合併另一站點的完整狀態：狀態依序排列，origin 必在項目左側，逐項整合即可
+ */
+export const mergeDoc = (doc: TextDoc, items: CrdtItem[]) => {
+  items.forEach(item => {
+    const existing = doc.byId.get(item.id);
+    if (existing) {
+      existing.deleted = existing.deleted || item.deleted;
+      return;
+    }
+    const { clock, site } = parseId(item.id);
+    const ops: CrdtOp[] = [{ kind: 'insert', site, clock, origin: item.origin, text: item.value }];
+    if (item.deleted) ops.push({ kind: 'delete', ids: [item.id] });
+    applyOps(doc, ops);
+  });
+};
+
+/**
+ * 文字位移轉為相對位置（左側字元的 id，null 代表開頭），遠端編輯後仍指向同一處
+ */
+export const toRelative = (doc: TextDoc, offset: number): string | null => {
+  if (offset <= 0) return null;
+  let seen = 0;
+  for (const item of doc.items) {
+    if (item.deleted) continue;
+    seen++;
+    if (seen === offset) return item.id;
+  }
+  return doc.items.length > 0 ? doc.items[doc.items.length - 1].id : null;
+};
+
+export const fromRelative = (doc: TextDoc, id: string | null): number => {
+  if (!id) return 0;
+  let offset = 0;
+  for (const item of doc.items) {
+    if (!item.deleted) offset++;
+    if (item.id === id) return offset;
+  }
+  return 0;
+};
@@ -0,0 +1,227 @@
+import { TrackedChange } from '../types';
+
+/**
+ * 修訂模式：章節 content 維持為未套用建議的原文，建議以 TrackedChange（依原文位移定位）另外保存。
+ * 編輯器顯示的「標記文字」= 原文穿插建議插入的文字，建議刪除的文字仍留在原處以刪除線呈現。
+ * 對標記文字的編輯先拆成逐字元的 cell，再依是否追蹤修訂轉回原文與建議。
+ */
+
+export type ChangeSegment =
+  | { kind: 'base'; text: string }
+  | { kind: 'insert' | 'delete'; text: string; change: TrackedChange };
+
+interface Cell {
+  ch: string;
+  kind: 'base' | 'insert' | 'delete';
+  id: string;
+}
+
+type ChangeMeta = Pick<TrackedChange, 'id' | 'author' | 'createdAt'>;
+
+const newId = () => `tc-${Date.now()}-${crypto.randomUUID().slice(0, 6)}`;
+
+const byPosition = (a: TrackedChange, b: TrackedChange) => a.at - b.at;
+
+/**
+ * 依原文與建議組出標記文字的片段；同一位移的插入排在該位移的原文字元之前
+ */
+const buildSegments = (base: string, changes: TrackedChange[]): ChangeSegment[] => {
+  const inserts = changes.filter(c => c.kind === 'insert').sort(byPosition);
+  const deletes = changes.filter(c => c.kind === 'delete').sort(byPosition);
+  const points = Array.from(new Set([
+    0,
+    base.length,
+    ...inserts.map(c => Math.min(c.at, base.length)),
+    ...deletes.flatMap(c => [c.at, c.at + c.text.length]).filter(p => p <= base.length)
+  ])).sort((a, b) => a - b);
+
+  const segments: ChangeSegment[] = [];
+  points.forEach((point, i) => {
+    inserts.filter(c => Math.min(c.at, base.length) === point).forEach(change => segments.push({ kind: 'insert', text: change.text, change }));
+    if (i === points.length - 1) return;
+    const text = base.slice(point, points[i + 1]);
+    const change = deletes.find(c => c.at <= point && point < c.at + c.text.length);
+    segments.push(change ? { kind: 'delete', text, change } : { kind: 'base', text });
+  });
+  return segments;
+};
+
+const toCells = (segments: ChangeSegment[]): Cell[] =>
+  segments.flatMap(segment => Array.from(segment.text, ch => ({ ch, kind: segment.kind, id: segment.kind === 'base' ? '' : segment.change.id })));
+
+/**
+ * cell 轉回原文與建議：連續且 id 相同的 cell 合併為一筆，分隔成多段的同一 id 另配新 id
+ */
+const fromCells = (cells: Cell[], meta: Map<string, ChangeMeta>): { content: string; changes: TrackedChange[] } => {
+  let content = '';
+  const changes: TrackedChange[] = [];
+  const used = new Set<string>();
+  let current: TrackedChange | null = null;
+  cells.forEach((cell, i) => {
+    const continues = current && i > 0 && cells[i - 1].id === cell.id && cells[i - 1].kind === cell.kind;
+    if (cell.kind !== 'base' && !continues) {
+      const info = meta.get(cell.id)!;
+      const id = used.has(cell.id) ? newId() : cell.id;
+      used.add(cell.id);
+      current = { id, kind: cell.kind, at: content.length, text: '', author: info.author, createdAt: info.createdAt };
+      changes.push(current);
+    } else if (cell.kind === 'base') {
+      current = null;
+    }
+    if (current) current.text += cell.ch;
+    if (cell.kind !== 'insert') content += cell.ch;
+  });
+  return { content, changes };
+};
+
+const metaOf = (changes: TrackedChange[]) =>
+  new Map<string, ChangeMeta>(changes.map(c => [c.id, { id: c.id, author: c.author, createdAt: c.createdAt }]));
+
+const settle = (base: string, changes: TrackedChange[], id: string | null, accept: boolean) => {
+  const cells = toCells(buildSegments(base, changes)).flatMap<Cell>(cell => {
+    if (cell.kind === 'base' || (id !== null && cell.id !== id)) return [cell];
+    const keep = (cell.kind === 'insert') === accept;
+    return keep ? [{ ch: cell.ch, kind: 'base', id: '' }] : [];
+  });
+  return fromCells(cells, metaOf(changes));
+};
+
+export const trackChanges = {
+  segments: buildSegments,
+
+  markupText(base: string, changes: TrackedChange[]): string {
+    return buildSegments(base, changes).map(s => s.text).join('');
+  },
+
+  /**
+   * 標記文字位移換算為原文位移（落在建議插入的文字中時取其插入點）
+   */
+  toBaseOffset(segments: ChangeSegment[], offset: number): number {
+    let markup = 0;
+    let base = 0;
+    for (const segment of segments) {
+      const length = segment.text.length;
+      if (offset <= markup + length) return segment.kind === 'insert' ? base : base + (offset - markup);
+      markup += length;
+      if (segment.kind !== 'insert') base += length;
+    }
+    return base;
+  },
+
+  toMarkupOffset(segments: ChangeSegment[], offset: number): number {
+    let markup = 0;
+    let base = 0;
+    for (const segment of segments) {
+      if (segment.kind === 'insert') {
+        markup += segment.text.length;
+        continue;
+      }
+      if (offset <= base + segment.text.length) return markup + (offset - base);
+      markup += segment.text.length;
+      base += segment.text.length;
+    }
+    return markup;
+  },
+
+  /**
+   * 套用對標記文字的一次編輯。track 為 true 時：刪除原文轉為刪除建議、輸入的文字成為插入建議；
+   * 為 false 時直接修改原文。兩種模式下修改建議插入的文字都只影響該建議。
+   * forward 表示以 Delete 鍵向後刪除，回傳的 caret 會跳過保留下來的刪除線文字
+   */
+  edit(
+    base: string,
+    changes: TrackedChange[],
+    next: string,
+    author: string,
+    options: { track: boolean; forward?: boolean }
+  ): { content: string; changes: TrackedChange[]; caret: number } {
+    const cells = toCells(buildSegments(base, changes));
+    const meta = metaOf(changes);
+    const current = cells.map(c => c.ch).join('');
+
+    let prefix = 0;
+    while (prefix < current.length && prefix < next.length && current[prefix] === next[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < current.length - prefix && suffix < next.length - prefix
+      && current[current.length - 1 - suffix] === next[next.length - 1 - suffix]) suffix++;
+    const inserted = next.slice(prefix, next.length - suffix);
+    const removed = cells.slice(prefix, current.length - suffix);
+
+    // 與前一個同作者的刪除建議相鄰時延續同一筆
+    const adjacentDelete = [cells[prefix - 1], cells[current.length - suffix]]
+      .find(c => c?.kind === 'delete' && meta.get(c.id)?.author === author);
+    const deleteId = adjacentDelete?.id || newId();
+    const retained = options.track
+      ? removed.flatMap<Cell>(cell => {
+        if (cell.kind === 'insert') return [];
+        if (cell.kind === 'delete') return [cell];
+        return [{ ch: cell.ch, kind: 'delete', id: deleteId }];
+      })
+      : [];
+    if (retained.some(c => c.id === deleteId) && !meta.has(deleteId)) meta.set(deleteId, { id: deleteId, author, createdAt: Date.now() });
+
+    // 輸入位置緊鄰（或位於）同作者的插入建議時併入該建議，否則依模式成為新建議或原文
+    const left = cells[prefix - 1];
+    const right = cells[current.length - suffix];
+    const host = [left, right].find(c => c?.kind === 'insert' && (meta.get(c.id)?.author === author || (left?.id === c.id && right?.id === c.id)));
+    let insertCells: Cell[] = [];
+    if (inserted) {
+      if (host) {
+        insertCells = Array.from(inserted, ch => ({ ch, kind: 'insert' as const, id: host.id }));
+      } else if (options.track) {
+        const id = newId();
+        meta.set(id, { id, author, createdAt: Date.now() });
+        insertCells = Array.from(inserted, ch => ({ ch, kind: 'insert' as const, id }));
+      } else {
+        insertCells = Array.from(inserted, ch => ({ ch, kind: 'base' as const, id: '' }));
+      }
+    }
+
+    const nextCells = [...cells.slice(0, prefix), ...retained, ...insertCells, ...cells.slice(current.length - suffix)];
+    const caret = prefix + (inserted ? retained.length + insertCells.length : options.forward ? retained.length : 0);
+    return { ...fromCells(nextCells, meta), caret };
+  },
+
+  accept(base: string, changes: TrackedChange[], id: string) {
+    return settle(base, changes, id, true);
+  },
+
+  reject(base: string, changes: TrackedChange[], id: string) {
+    return settle(base, changes, id, false);
+  },
+
+  acceptAll(base: string, changes: TrackedChange[]) {
+    return settle(base, changes, null, true);
+  },
+
+  rejectAll(base: string, changes: TrackedChange[]) {
+    return settle(base, changes, null, false);
+  },
+
+  /**
+   * 原文在修訂模式之外被修改（協作、還原、AI 改寫）後平移建議；
+   * 落在被改寫區段中的刪除建議失效而移除，插入建議移到改寫後文字的末端
+   */
+  remap(changes: TrackedChange[], oldBase: string, newBase: string): TrackedChange[] {
+    if (oldBase === newBase || changes.length === 0) return changes;
+    let prefix = 0;
+    while (prefix < oldBase.length && prefix < newBase.length && oldBase[prefix] === newBase[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < oldBase.length - prefix && suffix < newBase.length - prefix
+      && oldBase[oldBase.length - 1 - suffix] === newBase[newBase.length - 1 - suffix]) suffix++;
+    const oldEnd = oldBase.length - suffix;
+    const newEnd = newBase.length - suffix;
+    const delta = newBase.length - oldBase.length;
+
+    return changes.flatMap(change => {
+      const end = change.kind === 'delete' ? change.at + change.text.length : change.at;
+      if (end <= prefix) return [change];
+      if (change.at >= oldEnd) return [{ ...change, at: change.at + delta }];
+      return change.kind === 'insert' ? [{ ...change, at: newEnd }] : [];
+    });
+  },
+
+  pendingCount(changes: TrackedChange[] | undefined): number {
+    return (changes || []).length;
+  }
+};
@@ -0,0 +1,120 @@
+-- 雲端同步所需的資料表與列層級權限（PostgREST / Supabase）
+-- 時間欄位皆為毫秒時間戳，與本機資料一致
+
+create table if not exists profiles (
+  id uuid primary key,
+  membership text not null default 'FREE',
+  export_count integer not null default 0,
+  ai_usage numeric not null default 0
+);
+
+create table if not exists projects (
+  id text primary key,
+  owner_id uuid not null default auth.uid(),
+  name text not null,
+  data jsonb not null,
+  revision integer not null default 1,
+  updated_at bigint not null,
+  updated_by text not null,
+  deleted_at bigint
+);
+
+create table if not exists chapters (
+  id text primary key,
+  project_id text not null references projects(id) on delete cascade,
+  owner_id uuid not null default auth.uid(),
+  title text not null default '',
+  content text not null default '',
+  comments jsonb not null default '[]'::jsonb,
+  suggestions jsonb not null default '[]'::jsonb,
+  sealed jsonb,
+  "order" integer not null,
+  word_count integer not null default 0,
+  created_at bigint not null,
+  revision integer not null default 1,
+  updated_at bigint not null,
+  updated_by text not null,
+  deleted boolean not null default false
+);
+
+-- 先前已建立的資料表補上批註與修訂建議欄位
+alter table chapters add column if not exists comments jsonb not null default '[]'::jsonb;
+alter table chapters add column if not exists suggestions jsonb not null default '[]'::jsonb;
+
+create index if not exists chapters_project_id_idx on chapters(project_id);
+
+alter table profiles enable row level security;
+alter table projects enable row level security;
+alter table chapters enable row level security;
+
+create policy profiles_owner on profiles for select using (id = auth.uid());
+create policy projects_owner on projects for all using (owner_id = auth.uid()) with check (owner_id = auth.uid());
+create policy chapters_owner on chapters for all using (owner_id = auth.uid()) with check (owner_id = auth.uid());
+
+-- 協作成員：擁有者同步專案時寫入，待接受的邀請只保存邀請碼的 SHA-256；
+-- 受邀者以 accept_invite 提交邀請碼，由伺服器比對後綁定帳號
+create table if not exists project_members (
+  project_id text not null references projects(id) on delete cascade,
+  member_id text not null,
+  role text not null check (role in ('EDITOR', 'COMMENTER', 'VIEWER')),
+  token_hash text,
+  user_id uuid,
+  primary key (project_id, member_id)
+);
+
+create index if not exists project_members_user_id_idx on project_members(user_id);
+
+alter table project_members enable row level security;
+
+-- 目前帳號在專案中的成員角色；以 security definer 查詢，避免 projects 與 project_members 的政策互相遞迴
+create or replace function project_role(p_project_id text) returns text
+language sql stable security definer set search_path = public as $$
+  select role from project_members where project_id = p_project_id and user_id = auth.uid() limit 1
+$$;
+
+create or replace function accept_invite(p_project_id text, p_token text)
+returns table (member_id text, role text)
+language sql security definer set search_path = public as $$
+  update project_members
+     set user_id = auth.uid(), token_hash = null
+   where project_id = p_project_id
+     and user_id is null
+     and token_hash = encode(sha256(convert_to(p_token, 'UTF8')), 'hex')
+  returning project_members.member_id, project_members.role
+$$;
+
+create policy project_members_owner on project_members for all
+  using (exists (select 1 from projects p where p.id = project_id and p.owner_id = auth.uid()))
+  with check (exists (select 1 from projects p where p.id = project_id and p.owner_id = auth.uid()));
+create policy project_members_self on project_members for select using (user_id = auth.uid());
+
+-- 成員可讀取專案與章節；編輯者可新增章節，編輯者與評論者可更新章節（評論者只能改批註，由下方觸發器限制），
+-- 寫入的 owner_id 必須維持為專案擁有者
+create policy projects_member_read on projects for select using (project_role(id) is not null);
+create policy chapters_member_read on chapters for select using (project_role(project_id) is not null);
+create policy chapters_member_insert on chapters for insert
+  with check (project_role(project_id) = 'EDITOR' and owner_id = (select p.owner_id from projects p where p.id = project_id));
+create policy chapters_member_update on chapters for update
+  using (project_role(project_id) in ('EDITOR', 'COMMENTER'))
+  with check (project_role(project_id) in ('EDITOR', 'COMMENTER') and owner_id = (select p.owner_id from projects p where p.id = project_id));
+
+-- 評論者的更新只能變更批註與同步用的 revision、updated_at、updated_by，其餘欄位有變動時整筆拒絕
+create or replace function chapters_commenter_guard() returns trigger
+language plpgsql set search_path = public as $$
+begin
+  if project_role(old.project_id) = 'COMMENTER' and (
+    new.id, new.project_id, new.owner_id, new.title, new.content, new.suggestions, new.sealed,
+    new."order", new.word_count, new.created_at, new.deleted
+  ) is distinct from (
+    old.id, old.project_id, old.owner_id, old.title, old.content, old.suggestions, old.sealed,
+    old."order", old.word_count, old.created_at, old.deleted
+  ) then
+    raise exception '評論者只能修改批註' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists chapters_commenter_guard on chapters;
+create trigger chapters_commenter_guard before update on chapters
+  for each row execute function chapters_commenter_guard();
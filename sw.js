@@ -1,16 +1,88 @@
-const CACHE_NAME = 'inspublish-v1.3';
-const ASSETS = [
-  './',
-  './index.html',
-  'https://cdn.tailwindcss.com'
+// InsPublish service worker
+// 建置時由 vite.config.ts 將 self.__PRECACHE_MANIFEST 替換為本次輸出的檔案清單與版本；
+// 開發模式不註冊 service worker。
+const PRECACHE = self.__PRECACHE_MANIFEST || { version: 'dev', files: [] };
+const CACHE_PREFIX = 'inspublish-';
+const SHELL_CACHE = `${CACHE_PREFIX}shell-${PRECACHE.version}`;
+const RUNTIME_CACHE = `${CACHE_PREFIX}runtime-v1`;
+const SHELL_URL = new URL('./index.html', self.registration.scope).href;
+
+// 字型、圖示與樣式 CDN：先回應快取，同時在背景更新
+const RUNTIME_HOSTS = [
+  'cdn.tailwindcss.com',
+  'fonts.googleapis.com',
+  'fonts.gstatic.com',
+  'cdnjs.cloudflare.com',
+  'cdn-icons-png.flaticon.com'
 ];
 
+// 安裝時下載本版本的所有檔案；完成後等待頁面確認才啟用（首次安裝除外）
 self.addEventListener('install', (e) => {
-  e.waitUntil(caches.open(CACHE_NAME).then(cache => cache.addAll(ASSETS)));
+  e.waitUntil(
+    caches.open(SHELL_CACHE).then(cache =>
+      cache.addAll(PRECACHE.files.map(file => new Request(new URL(file, self.registration.scope).href, { cache: 'reload' })))
+    )
+  );
 });
 
-self.addEventListener('fetch', (e) => {
-  e.respondWith(
-    caches.match(e.request).then(response => response || fetch(e.request))
+// 啟用時移除舊版本的 app shell 快取
+self.addEventListener('activate', (e) => {
+  e.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys
+        .filter(key => key.startsWith(CACHE_PREFIX) && key !== SHELL_CACHE && key !== RUNTIME_CACHE)
+        .map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
   );
-});
\ No newline at end of file
+});
+
+self.addEventListener('message', (e) => {
+  if (e.data?.type === 'SKIP_WAITING') self.skipWaiting();
+  if (e.data?.type === 'GET_VERSION') e.source?.postMessage({ type: 'VERSION', version: PRECACHE.version });
+});
+
+const isCacheable = (response) => response && (response.ok || response.type === 'opaque');
+
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then(response => {
+      if (isCacheable(response)) cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached || network;
+};
+
+// 帶雜湊檔名的建置輸出內容不會變動，命中快取即回應
+const precacheFirst = async (request) => {
+  const cached = await caches.match(request, { cacheName: SHELL_CACHE });
+  return cached || fetch(request);
+};
+
+// 頁面導覽一律回應本版本的 index.html，離線時也能開啟；尚未快取時（開發模式）走網路
+const appShell = async (request) => {
+  const cached = await caches.match(SHELL_URL, { cacheName: SHELL_CACHE });
+  if (cached) return cached;
+  return fetch(request);
+};
+
+self.addEventListener('fetch', (e) => {
+  const { request } = e;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    e.respondWith(appShell(request));
+    return;
+  }
+  if (url.origin === self.location.origin) {
+    e.respondWith(precacheFirst(request));
+    return;
+  }
+  if (RUNTIME_HOSTS.includes(url.hostname)) {
+    e.respondWith(staleWhileRevalidate(request));
+  }
+  // 其他跨網域請求（AI、雲端同步、Google Drive）不經過快取
+});
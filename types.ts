@@ -104,7 +104,8 @@ export enum CoverAssetType {
 }
 
 export interface CoverAsset {
-  url: string;
+  ref: string; // 資產儲存區中圖片的內容雜湊（SHA-256），以 assetStore 解析
+  mimeType?: string;
   type: CoverAssetType;
   width: number;
   height: number;
@@ -136,7 +137,7 @@ export interface PublishingPayload {
   regionCode: string;
   keywords: string[];
   isbn13?: string;
-  coverImage?: string; // Legacy field for simple preview
+  coverImageRef?: string; // 預覽用封面的資產參照
   coverAssets?: Record<CoverAssetType, CoverAsset>;
   selectedCoverAssetType?: CoverAssetType;
   contentFormats: ('epub' | 'pdf' | 'docx')[];
@@ -160,6 +161,8 @@ export interface VersionSnapshot {
   content: string;
   title: string;
   type: SnapshotType;
+  // 快照當下尚未審閱的修訂建議
+  suggestions?: TrackedChange[];
 }
 
 export interface StructureUnit {
@@ -171,10 +174,57 @@ export interface StructureUnit {
   lastEdited: number;
   createdAt: number;
   history?: VersionSnapshot[];
+  comments?: ChapterComment[];
+  // 修訂模式下尚未接受或拒絕的建議，content 不含這些變更
+  suggestions?: TrackedChange[];
 }
 
 export type Chapter = StructureUnit;
 
+/**
+ * 修訂建議：insert 在原文位移 at 之前插入 text；delete 刪除原文中自 at 起的 text
+ */
+export interface TrackedChange {
+  id: string;
+  kind: 'insert' | 'delete';
+  at: number;
+  text: string;
+  author: string;
+  createdAt: number;
+}
+
+/**
+ * 批註錨點：以位移定位，並保留引文與前後文，內文被編輯後據此重新對位
+ */
+export interface CommentAnchor {
+  start: number;
+  end: number;
+  quote: string;
+  prefix: string;
+  suffix: string;
+}
+
+export interface CommentReply {
+  id: string;
+  author: string;
+  text: string;
+  createdAt: number;
+}
+
+export interface ChapterComment {
+  id: string;
+  anchor: CommentAnchor;
+  author: string;
+  text: string;
+  createdAt: number;
+  resolved: boolean;
+  resolvedAt?: number;
+  resolvedBy?: string;
+  replies: CommentReply[];
+  // 批註的文字已被刪除且無法重新找到，保留討論串但不再標示範圍
+  orphaned?: boolean;
+}
+
 export interface WritingModule {
   id: string;
   title: string;
@@ -217,6 +267,7 @@ export interface SecuritySettings {
   autoSnapshotIntervalMinutes: number;
   autoSnapshotIdleSeconds: number;
   autoSnapshotCleanupDays: number | 'NEVER';
+  trashRetentionDays: number | 'NEVER';
 }
 
 export interface BackupSettings {
@@ -225,6 +276,7 @@ export interface BackupSettings {
   isEncrypted: boolean;
   lastBackupTime: number | null;
   status: 'IDLE' | 'SYNCING' | 'ERROR';
+  lastError?: string;
 }
 
 export interface CreditCard {
@@ -236,12 +288,87 @@ export interface CreditCard {
   cvv: string;
 }
 
+export enum PermissionLevel {
+  EDITOR = 'EDITOR',
+  COMMENTER = 'COMMENTER',
+  VIEWER = 'VIEWER'
+}
+
+export interface ProjectMember {
+  id: string;
+  email: string;
+  role: PermissionLevel;
+  status: 'PENDING' | 'ACTIVE';
+  inviteTokenHash?: string; // 待接受邀請碼的 SHA-256，邀請碼本身不隨專案保存，接受後清除
+  invitedAt: number;
+  acceptedAt?: number;
+}
+
+/**
+ * 字數統計方式：MIXED 拉丁文字計詞、中日韓文字計字；WORDS 斷詞後的詞數；CHARACTERS 不含空白的字元數
+ */
+export type CountMetric = 'MIXED' | 'WORDS' | 'CHARACTERS';
+
+/**
+ * 註腳編號方式：CHAPTER 每章重新從 1 起算；BOOK 全書連續編號
+ */
+export type FootnoteNumbering = 'CHAPTER' | 'BOOK';
+
+/**
+ * 參考文獻條目：採用 CSL-JSON 的欄位名稱，id 即為引用鍵（內文以 [@id] 引用）
+ */
+export interface CslName {
+  family?: string;
+  given?: string;
+  // 機構名稱等不拆姓名的作者
+  literal?: string;
+}
+
+export interface BibEntry {
+  id: string;
+  // CSL 類型，例如 article-journal、book、chapter、paper-conference、thesis、webpage
+  type: string;
+  title?: string;
+  author?: CslName[];
+  editor?: CslName[];
+  issued?: { 'date-parts'?: (number | string)[][]; literal?: string };
+  'container-title'?: string;
+  publisher?: string;
+  'publisher-place'?: string;
+  volume?: string | number;
+  issue?: string | number;
+  page?: string;
+  edition?: string | number;
+  DOI?: string;
+  URL?: string;
+}
+
+export type CitationStyle = 'APA' | 'MLA' | 'CHICAGO' | 'CUSTOM';
+
+/**
+ * 自訂引用格式：以 {欄位} 代入條目資料，[ ] 內的片段在其中欄位皆有值時才輸出
+ */
+export interface CustomCitationStyle {
+  // 單一引用的格式，多筆引用以分號連接並加上括號
+  inText: string;
+  reference: string;
+  heading: string;
+}
+
 export interface Project {
   id: string;
   name: string;
   writingType: WritingType;
   structureType: StructureType;
   targetWordCount: number;
+  // 寫作目標採用的統計方式，未設定時為 MIXED
+  goalMetric?: CountMetric;
+  // 註腳編號方式，未設定時為 CHAPTER
+  footnoteNumbering?: FootnoteNumbering;
+  // 參考文獻與引用格式，未設定格式時為 APA
+  bibliography?: BibEntry[];
+  citationStyle?: CitationStyle;
+  customCitationStyle?: CustomCitationStyle;
   metadata: string;
   progress: number;
   color: string;
@@ -259,8 +386,20 @@ export interface Project {
   visualOutline?: OutlineNode[];
   publishingPayload?: PublishingPayload;
   publishingSpine?: PublishingSpineState;
+  // 擁有者的本機使用者 id（AppState.userId）；不是本機使用者擁有的專案只能以受邀成員身分編輯
+  ownerId?: string;
+  members?: ProjectMember[];
+  revision?: number; // 每次寫入資料庫遞增，用於多分頁同步
+}
+
+export interface ChapterConflict {
+  chapterId: string;
+  local: StructureUnit;
+  remote: StructureUnit;
 }
 
+export type ConflictResolution = 'LOCAL' | 'REMOTE' | 'BOTH';
+
 export interface AppState {
   projects: Project[];
   currentProject: Project | null;
@@ -273,6 +412,8 @@ export interface AppState {
   stats: UserStats;
   language: SupportedLanguage;
   userCountryCode: string;
+  userAvatar?: string;
+  avatarType?: 'UPLOAD' | 'GRAVATAR';
   aiPreferences: AIPreferences;
   securitySettings: SecuritySettings;
   backupSettings: BackupSettings;
@@ -280,7 +421,14 @@ export interface AppState {
   editorSettings: {
     typewriterMode: boolean;
     previewMode: boolean;
+    // 分割檢視並排時參考窗格所佔的寬度比例，以及是否同步捲動
+    splitPaneRatio: number;
+    splitScrollSync: boolean;
   };
+  // 本機使用者 id，首次啟動時產生，作為自己建立的專案的 ownerId
+  userId: string;
+  // 本機使用者以受邀成員身分參與的專案：專案 id → 成員 id
+  projectMemberships: Record<string, string>;
 }
 
 export type ImageSize = '1K' | '2K' | '4K';
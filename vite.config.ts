@@ -1,7 +1,29 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// 建置完成後輸出 sw.js，並把本次輸出的檔案清單與內容雜湊寫入預先快取清單；
+// 內容有任何變動時 sw.js 也隨之改變，瀏覽器才會安裝新版本
+const serviceWorkerPrecache = (): Plugin => ({
+  name: 'inspublish-sw-precache',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_, bundle) {
+    const files = Object.keys(bundle).filter(file => !file.endsWith('.map')).sort();
+    const hash = createHash('sha256');
+    files.forEach(file => {
+      const output = bundle[file];
+      hash.update(file).update(output.type === 'chunk' ? output.code : output.source);
+    });
+    const manifest = { version: hash.digest('hex').slice(0, 12), files: files.map(file => `./${file}`) };
+    const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf-8')
+      .replace(/self\.__PRECACHE_MANIFEST(?= \|\|)/, JSON.stringify(manifest));
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +31,17 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorkerPrecache()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.GOOGLE_DRIVE_API_URL': JSON.stringify(env.GOOGLE_DRIVE_API_URL || ''),
+        'process.env.GOOGLE_OAUTH_URL': JSON.stringify(env.GOOGLE_OAUTH_URL || ''),
+        'process.env.SUPABASE_URL': JSON.stringify(env.SUPABASE_URL || ''),
+        'process.env.SUPABASE_ANON_KEY': JSON.stringify(env.SUPABASE_ANON_KEY || ''),
+        'process.env.COLLAB_RELAY_URL': JSON.stringify(env.COLLAB_RELAY_URL || ''),
+        // 開發模式不註冊 service worker，避免快取蓋過模組熱更新
+        'process.env.SERVICE_WORKER_URL': JSON.stringify(mode === 'production' ? './sw.js' : '')
       },
       resolve: {
         alias: {